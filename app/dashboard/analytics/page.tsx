@@ -0,0 +1,5 @@
+import { SpendingAnalytics } from "@/components/dashboard/spending-analytics"
+
+export default function AnalyticsPage() {
+  return <SpendingAnalytics />
+}
@@ -0,0 +1,18 @@
+import { InviteAcceptance } from "@/components/invite-acceptance"
+import Link from "next/link"
+
+export default function InvitePage({ params }: { params: { token: string } }) {
+  return (
+    <div className="flex min-h-screen flex-col">
+      <div className="flex min-h-screen flex-col items-center justify-center px-4 py-12">
+        <Link href="/" className="mb-8 flex items-center gap-2">
+          <div className="flex h-8 w-8 items-center justify-center rounded-full bg-primary text-white font-bold">s</div>
+          <span className="text-xl">spltr3</span>
+        </Link>
+        <div className="w-full max-w-md space-y-6">
+          <InviteAcceptance token={params.token} />
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import { LoginForm } from "@/components/login-form"
 import Link from "next/link"
 
-export default function LoginPage() {
+export default function LoginPage({ searchParams }: { searchParams: { next?: string } }) {
   return (
     <div className="flex min-h-screen flex-col">
       <div className="flex min-h-screen flex-col items-center justify-center px-4 py-12">
@@ -14,10 +14,13 @@ export default function LoginPage() {
             <h1 className="text-3xl">welcome back</h1>
             <p className="text-muted-foreground">enter your credentials to access your account</p>
           </div>
-          <LoginForm />
+          <LoginForm redirectTo={searchParams.next} />
           <div className="text-center text-sm">
             don&apos;t have an account?{" "}
-            <Link href="/register" className="text-primary hover:underline">
+            <Link
+              href={searchParams.next ? `/register?next=${encodeURIComponent(searchParams.next)}` : "/register"}
+              className="text-primary hover:underline"
+            >
               sign up
             </Link>
           </div>
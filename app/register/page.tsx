@@ -1,7 +1,7 @@
 import { RegisterForm } from "@/components/register-form"
 import Link from "next/link"
 
-export default function RegisterPage() {
+export default function RegisterPage({ searchParams }: { searchParams: { next?: string } }) {
   return (
     <div className="flex min-h-screen flex-col">
       <div className="flex min-h-screen flex-col items-center justify-center px-4 py-12">
@@ -14,10 +14,13 @@ export default function RegisterPage() {
             <h1 className="text-3xl">create an account</h1>
             <p className="text-muted-foreground">enter your information to get started with spltr3</p>
           </div>
-          <RegisterForm />
+          <RegisterForm redirectTo={searchParams.next} />
           <div className="text-center text-sm">
             already have an account?{" "}
-            <Link href="/login" className="text-primary hover:underline">
+            <Link
+              href={searchParams.next ? `/login?next=${encodeURIComponent(searchParams.next)}` : "/login"}
+              className="text-primary hover:underline"
+            >
               sign in
             </Link>
           </div>
@@ -4,6 +4,9 @@ import { useCurrency } from "@/contexts/currency-context"
 import { useState, useEffect } from "react"
 import { Skeleton } from "@/components/ui/skeleton"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
+import { formatRate } from "@/lib/money"
+import { format, parseISO } from "date-fns"
+import type { ExchangeRateQuote } from "@/types/api"
 
 interface CurrencyAmountProps {
   amount: number
@@ -12,6 +15,8 @@ interface CurrencyAmountProps {
   className?: string
   isNegative?: boolean
   isPositive?: boolean
+  // The rate locked on the amount's date; the tooltip then uses it instead of today's rate
+  lockedRate?: { rate: number; currency: string } | null
 }
 
 export function CurrencyAmount({
@@ -21,38 +26,44 @@ export function CurrencyAmount({
   className = "",
   isNegative = false,
   isPositive = false,
+  lockedRate = null,
 }: CurrencyAmountProps) {
-  const { userPreference, convertAmount, formatAmount, isLoading } = useCurrency()
+  const { userPreference, convert, formatAmount, isLoading } = useCurrency()
   const [convertedAmount, setConvertedAmount] = useState<number | null>(null)
+  const [quote, setQuote] = useState<ExchangeRateQuote | null>(null)
   const [isConverting, setIsConverting] = useState(false)
-  const [conversionError, setConversionError] = useState(false)
+  const [conversionError, setConversionError] = useState<string | null>(null)
+
+  const locked = showConverted && lockedRate && lockedRate.currency !== currency ? lockedRate : null
 
   // Determine if we need to show the converted amount
   const shouldShowConverted =
-    showConverted && userPreference.showConvertedValues && currency !== userPreference.defaultCurrency
+    !locked && showConverted && userPreference.showConvertedValues && currency !== userPreference.defaultCurrency
 
   useEffect(() => {
     if (shouldShowConverted) {
       setIsConverting(true)
-      setConversionError(false)
+      setConversionError(null)
 
-      convertAmount(amount, currency)
+      convert(amount, currency)
         .then((converted) => {
-          setConvertedAmount(converted)
+          setConvertedAmount(converted.amount)
+          setQuote(converted.quote)
         })
         .catch((error) => {
-          console.error("Error converting currency:", error)
-          setConversionError(true)
-          setConvertedAmount(amount) // Use original amount as fallback
+          setConversionError(error instanceof Error ? error.message : "rate unavailable")
+          setConvertedAmount(null)
+          setQuote(null)
         })
         .finally(() => {
           setIsConverting(false)
         })
     }
-  }, [amount, currency, userPreference.defaultCurrency, shouldShowConverted, convertAmount])
+  }, [amount, currency, userPreference.defaultCurrency, shouldShowConverted, convert])
 
   // Apply sign based on props
-  const signedAmount = isNegative ? -Math.abs(amount) : isPositive ? Math.abs(amount) : amount
+  const signed = (value: number) => (isNegative ? -Math.abs(value) : isPositive ? Math.abs(value) : value)
+  const signedAmount = signed(amount)
 
   // Determine text color based on sign
   const textColorClass = isNegative ? "text-red-600" : isPositive ? "text-green-600" : ""
@@ -60,6 +71,22 @@ export function CurrencyAmount({
   // Format the original amount
   const formattedOriginal = formatAmount(signedAmount, currency)
 
+  if (locked) {
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className={`${textColorClass} ${className}`}>{formattedOriginal}</span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p>{formatAmount(signed(amount * locked.rate), locked.currency)}</p>
+            <p className="text-xs text-muted-foreground">{formatRate(currency, locked.rate, locked.currency)}</p>
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    )
+  }
+
   if (isLoading || isConverting) {
     return <Skeleton className="h-4 w-24" />
   }
@@ -73,11 +100,34 @@ export function CurrencyAmount({
           </TooltipTrigger>
           <TooltipContent>
             <p>
-              {formatAmount(
-                isNegative ? -Math.abs(convertedAmount) : isPositive ? Math.abs(convertedAmount) : convertedAmount,
-                userPreference.defaultCurrency,
-              )}
+              {formatAmount(signed(convertedAmount), userPreference.defaultCurrency)}
             </p>
+            {quote && (
+              <p className="text-xs text-muted-foreground">
+                {quote.via
+                  ? `converted via ${quote.via}`
+                  : quote.inverted
+                    ? `inverse of the ${quote.to} to ${quote.from} rate`
+                    : formatRate(quote.from, quote.rate, quote.to)}
+                {quote.fetchedAt && `, rates of ${format(parseISO(quote.fetchedAt), "MMM d, HH:mm")}`}
+              </p>
+            )}
+          </TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    )
+  }
+
+  // Without a rate the original amount is shown as it is, never converted 1:1
+  if (shouldShowConverted && conversionError) {
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className={`${textColorClass} ${className}`}>{formattedOriginal}</span>
+          </TooltipTrigger>
+          <TooltipContent>
+            <p className="text-xs text-muted-foreground">{conversionError}</p>
           </TooltipContent>
         </Tooltip>
       </TooltipProvider>
@@ -7,10 +7,31 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Switch } from "@/components/ui/switch"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatCurrency } from "@/lib/money"
 import { useToast } from "@/hooks/use-toast"
 
+// Locales offered for number formatting; the browser's own is the default
+const LOCALES: Record<string, string> = {
+  "en-US": "english (united states)",
+  "en-GB": "english (united kingdom)",
+  "en-IN": "english (india)",
+  "de-DE": "deutsch (deutschland)",
+  "de-CH": "deutsch (schweiz)",
+  "es-ES": "español (españa)",
+  "es-MX": "español (méxico)",
+  "fr-FR": "français (france)",
+  "it-IT": "italiano (italia)",
+  "nl-NL": "nederlands (nederland)",
+  "pt-BR": "português (brasil)",
+  "pl-PL": "polski (polska)",
+  "sv-SE": "svenska (sverige)",
+  "ja-JP": "日本語 (日本)",
+  "zh-CN": "中文 (中国)",
+}
+
 export function CurrencyPreferences() {
-  const { userPreference, setUserPreference } = useCurrency()
+  const { userPreference, setUserPreference, currencies, browserLocale } = useCurrency()
   const { toast } = useToast()
 
   const [localPreference, setLocalPreference] = useState({ ...userPreference })
@@ -43,6 +64,32 @@ export function CurrencyPreferences() {
           </p>
         </div>
 
+        <div className="space-y-2">
+          <Label htmlFor="number-format">number format</Label>
+          <Select
+            value={localPreference.locale || "browser"}
+            onValueChange={(value) =>
+              setLocalPreference({ ...localPreference, locale: value === "browser" ? undefined : value })
+            }
+          >
+            <SelectTrigger id="number-format" className="w-[300px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="browser">browser default</SelectItem>
+              {Object.entries(LOCALES).map(([tag, label]) => (
+                <SelectItem key={tag} value={tag}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-muted-foreground mt-1">
+            amounts will look like{" "}
+            {formatCurrency(1234.5, localPreference.defaultCurrency, currencies, localPreference.locale || browserLocale)}
+          </p>
+        </div>
+
         <div className="space-y-4">
           <div className="flex items-center justify-between">
             <div>
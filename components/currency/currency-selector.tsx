@@ -1,34 +1,52 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { Check, ChevronsUpDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { cn } from "@/lib/utils"
-import { type Currency, commonCurrencies } from "@/types/currency"
+import { useCurrency } from "@/contexts/currency-context"
+import type { Currency } from "@/types/currency"
 
 interface CurrencySelectorProps {
   value: string
   onChange: (value: string) => void
   currencies?: Record<string, Currency>
+  // Currencies the group in hand uses, listed first
+  groupCurrencies?: string[]
   className?: string
   triggerClassName?: string
+  disabled?: boolean
 }
 
 export function CurrencySelector({
   value,
   onChange,
-  currencies = commonCurrencies,
+  currencies: currenciesProp,
+  groupCurrencies = [],
   className,
   triggerClassName,
+  disabled = false,
 }: CurrencySelectorProps) {
   const [open, setOpen] = useState(false)
-  const [currencyList, setCurrencyList] = useState<Currency[]>([])
+  const context = useCurrency()
+  const currencies = currenciesProp ?? context.currencies
 
-  useEffect(() => {
-    setCurrencyList(Object.values(currencies))
-  }, [currencies])
+  // The group's currencies, then recently used ones, then the rest; each listed once
+  const known = (codes: string[]) =>
+    [...new Set(codes)].filter((code) => currencies[code]).map((code) => currencies[code])
+  const grouped = known(groupCurrencies)
+  const recent = known(context.recentCurrencies).filter((currency) => !groupCurrencies.includes(currency.code))
+  const listed = new Set([...grouped, ...recent].map((currency) => currency.code))
+  const sections = [
+    { heading: "this group", items: grouped },
+    { heading: "recent", items: recent },
+    {
+      heading: listed.size > 0 ? "all currencies" : undefined,
+      items: Object.values(currencies).filter((currency) => !listed.has(currency.code)),
+    },
+  ].filter((section) => section.items.length > 0)
 
   return (
     <Popover open={open} onOpenChange={setOpen}>
@@ -37,6 +55,7 @@ export function CurrencySelector({
           variant="outline"
           role="combobox"
           aria-expanded={open}
+          disabled={disabled}
           className={cn("justify-between", triggerClassName)}
         >
           <div className="flex items-center">
@@ -57,23 +76,29 @@ export function CurrencySelector({
           <CommandInput placeholder="search currency..." />
           <CommandList>
             <CommandEmpty>no currency found</CommandEmpty>
-            <CommandGroup className="max-h-[300px] overflow-y-auto">
-              {currencyList.map((currency) => (
-                <CommandItem
-                  key={currency.code}
-                  value={currency.code}
-                  onSelect={(currentValue) => {
-                    onChange(currentValue)
-                    setOpen(false)
-                  }}
-                >
-                  <Check className={cn("mr-2 h-4 w-4", value === currency.code ? "opacity-100" : "opacity-0")} />
-                  <span className="mr-2">{currency.flag}</span>
-                  <span className="mr-2">{currency.code}</span>
-                  <span className="text-muted-foreground">{currency.name}</span>
-                </CommandItem>
+            <div className="max-h-[300px] overflow-y-auto">
+              {sections.map((section) => (
+                <CommandGroup key={section.heading ?? "all"} heading={section.heading}>
+                  {section.items.map((currency) => (
+                    <CommandItem
+                      key={currency.code}
+                      // Matched against the search, so currencies can be found by name as well as code
+                      value={`${currency.code} ${currency.name}`}
+                      onSelect={() => {
+                        onChange(currency.code)
+                        context.addRecentCurrency(currency.code)
+                        setOpen(false)
+                      }}
+                    >
+                      <Check className={cn("mr-2 h-4 w-4", value === currency.code ? "opacity-100" : "opacity-0")} />
+                      <span className="mr-2">{currency.flag}</span>
+                      <span className="mr-2">{currency.code}</span>
+                      <span className="text-muted-foreground">{currency.name}</span>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
               ))}
-            </CommandGroup>
+            </div>
           </CommandList>
         </Command>
       </PopoverContent>
@@ -10,18 +10,29 @@ import { Skeleton } from "@/components/ui/skeleton"
 interface CurrencySummaryItem {
   currency: string
   amount: number
+  // The rate into the summary's currency locked on the item's date, used instead of today's rate
+  rate?: number | null
 }
 
 interface CurrencySummaryProps {
   items: CurrencySummaryItem[]
   title: string
   emptyMessage?: string
+  // The currency totals are converted into, the user's default unless given
+  currency?: string
 }
 
-export function CurrencySummary({ items, title, emptyMessage = "no data to display" }: CurrencySummaryProps) {
+export function CurrencySummary({
+  items,
+  title,
+  emptyMessage = "no data to display",
+  currency: summaryCurrency,
+}: CurrencySummaryProps) {
   const { userPreference, convertAmount } = useCurrency()
+  const targetCurrency = summaryCurrency ?? userPreference.defaultCurrency
   const [isLoading, setIsLoading] = useState(true)
   const [convertedTotal, setConvertedTotal] = useState<number | null>(null)
+  const [conversionError, setConversionError] = useState<string | null>(null)
   const [viewMode, setViewMode] = useState<"original" | "converted">("original")
 
   // Group items by currency
@@ -36,7 +47,20 @@ export function CurrencySummary({ items, title, emptyMessage = "no data to displ
     {} as Record<string, number>,
   )
 
-  // Convert all amounts to the user's default currency
+  // Items with a locked rate are converted at it; the rest at today's rate, a currency at a time
+  const isLocked = (item: CurrencySummaryItem) => Boolean(item.rate) && item.currency !== targetCurrency
+  const lockedTotal = items.filter(isLocked).reduce((sum, item) => sum + item.amount * (item.rate ?? 0), 0)
+  const unlockedByCurrency = items
+    .filter((item) => !isLocked(item))
+    .reduce(
+      (acc, item) => {
+        acc[item.currency] = (acc[item.currency] ?? 0) + item.amount
+        return acc
+      },
+      {} as Record<string, number>,
+    )
+
+  // Convert all amounts to the summary currency
   useEffect(() => {
     if (items.length === 0) {
       setIsLoading(false)
@@ -44,23 +68,25 @@ export function CurrencySummary({ items, title, emptyMessage = "no data to displ
     }
 
     setIsLoading(true)
+    setConversionError(null)
 
-    const convertPromises = Object.entries(groupedByCurrency).map(([currency, amount]) =>
-      convertAmount(amount, currency, userPreference.defaultCurrency),
+    const convertPromises = Object.entries(unlockedByCurrency).map(([currency, amount]) =>
+      convertAmount(amount, currency, targetCurrency),
     )
 
     Promise.all(convertPromises)
       .then((convertedAmounts) => {
-        const total = convertedAmounts.reduce((sum, amount) => sum + amount, 0)
+        const total = convertedAmounts.reduce((sum, amount) => sum + amount, lockedTotal)
         setConvertedTotal(total)
       })
       .catch((error) => {
-        console.error("Failed to convert amounts:", error)
+        setConvertedTotal(null)
+        setConversionError(error instanceof Error ? error.message : "rate unavailable")
       })
       .finally(() => {
         setIsLoading(false)
       })
-  }, [items, userPreference.defaultCurrency])
+  }, [items, targetCurrency])
 
   if (items.length === 0) {
     return (
@@ -84,7 +110,7 @@ export function CurrencySummary({ items, title, emptyMessage = "no data to displ
         <Tabs defaultValue="original" onValueChange={(value) => setViewMode(value as "original" | "converted")}>
           <TabsList className="mb-4">
             <TabsTrigger value="original">original currencies</TabsTrigger>
-            <TabsTrigger value="converted">converted to {userPreference.defaultCurrency}</TabsTrigger>
+            <TabsTrigger value="converted">converted to {targetCurrency}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="original" className="space-y-2">
@@ -107,7 +133,7 @@ export function CurrencySummary({ items, title, emptyMessage = "no data to displ
               <Skeleton className="h-20 w-full" />
             ) : (
               <div className="flex justify-between items-center">
-                <span>total in {userPreference.defaultCurrency}</span>
+                <span>total in {targetCurrency}</span>
                 <span
                   className={
                     convertedTotal && convertedTotal < 0
@@ -120,13 +146,13 @@ export function CurrencySummary({ items, title, emptyMessage = "no data to displ
                   {convertedTotal !== null ? (
                     <CurrencyAmount
                       amount={convertedTotal}
-                      currency={userPreference.defaultCurrency}
+                      currency={targetCurrency}
                       showConverted={false}
                       isNegative={convertedTotal < 0}
                       isPositive={convertedTotal > 0}
                     />
                   ) : (
-                    "unable to convert"
+                    <span className="text-sm text-muted-foreground">{conversionError ?? "unable to convert"}</span>
                   )}
                 </span>
               </div>
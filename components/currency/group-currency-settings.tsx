@@ -9,12 +9,15 @@ import { Button } from "@/components/ui/button"
 import { useToast } from "@/hooks/use-toast"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { InfoIcon } from "lucide-react"
+import { updateGroup } from "@/lib/api"
 
 interface GroupCurrencySettingsProps {
   groupId: string
   initialCurrency: string
   onSave: (currency: string) => void
   hasExistingExpenses?: boolean
+  // Only owners and admins may change the group's currency
+  canEdit?: boolean
 }
 
 export function GroupCurrencySettings({
@@ -22,6 +25,7 @@ export function GroupCurrencySettings({
   initialCurrency,
   onSave,
   hasExistingExpenses = false,
+  canEdit = true,
 }: GroupCurrencySettingsProps) {
   const { currencies, userPreference } = useCurrency()
   const { toast } = useToast()
@@ -29,20 +33,26 @@ export function GroupCurrencySettings({
   const [selectedCurrency, setSelectedCurrency] = useState(initialCurrency || userPreference.defaultCurrency)
   const [isLoading, setIsLoading] = useState(false)
 
-  const handleSave = () => {
+  const handleSave = async () => {
     setIsLoading(true)
 
-    // Simulate API call
-    setTimeout(() => {
+    try {
+      await updateGroup(groupId, { currency: selectedCurrency })
       onSave(selectedCurrency)
-      setIsLoading(false)
-
       toast({
         title: "group currency updated",
         description: `the group currency has been set to ${currencies[selectedCurrency]?.name || selectedCurrency}`,
         duration: 3000,
       })
-    }, 1000)
+    } catch (error) {
+      toast({
+        title: "group currency not updated",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   return (
@@ -56,21 +66,32 @@ export function GroupCurrencySettings({
           <Alert>
             <InfoIcon className="h-4 w-4" />
             <AlertDescription>
-              this group already has expenses. changing the currency will not automatically convert existing expense
-              amounts.
+              this group already has expenses. changing the currency will not convert them: each stays in the
+              currency it was spent in, and balances can still be viewed and settled per currency.
             </AlertDescription>
           </Alert>
         )}
 
         <div className="space-y-2">
           <Label htmlFor="group-currency">currency</Label>
-          <CurrencySelector value={selectedCurrency} onChange={setSelectedCurrency} className="w-[300px]" />
-          <p className="text-sm text-muted-foreground mt-1">all expenses in this group will use this currency</p>
+          <CurrencySelector
+            value={selectedCurrency}
+            onChange={setSelectedCurrency}
+            className="w-[300px]"
+            disabled={!canEdit}
+          />
+          <p className="text-sm text-muted-foreground mt-1">
+            {canEdit
+              ? "all expenses in this group will use this currency"
+              : "only the group's owner and admins can change its currency"}
+          </p>
         </div>
 
-        <Button onClick={handleSave} disabled={isLoading || selectedCurrency === initialCurrency}>
-          {isLoading ? "saving..." : "save currency setting"}
-        </Button>
+        {canEdit && (
+          <Button onClick={handleSave} disabled={isLoading || selectedCurrency === initialCurrency}>
+            {isLoading ? "saving..." : "save currency setting"}
+          </Button>
+        )}
       </CardContent>
     </Card>
   )
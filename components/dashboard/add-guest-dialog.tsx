@@ -0,0 +1,84 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { addGuest } from "@/lib/api"
+import { DialogHeader } from "./dialog-header"
+
+interface AddGuestDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groupId: string
+  onAdded?: () => void
+}
+
+export function AddGuestDialog({ open, onOpenChange, groupId, onAdded }: AddGuestDialogProps) {
+  const [name, setName] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+
+    try {
+      await addGuest(groupId, name)
+      onAdded?.()
+      onOpenChange(false)
+      setName("")
+      toast({
+        title: "guest added",
+        description: `${name} can now be part of expenses and settlements`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "guest not added",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader
+          title="add guest"
+          description="add someone without an account by name. you can invite them to claim their place later."
+        />
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="guest-name">name</Label>
+              <Input
+                id="guest-name"
+                placeholder="e.g., grandma"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              cancel
+            </Button>
+            <Button type="submit" disabled={isLoading || !name.trim()}>
+              {isLoading ? "adding..." : "add guest"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
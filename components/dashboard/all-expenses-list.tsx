@@ -6,121 +6,65 @@ import { MoreHorizontal, Receipt } from "lucide-react"
 import { useState } from "react"
 import { EditExpenseDialog } from "./edit-expense-dialog"
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { DataStatus } from "./data-status"
+import { CategoryBadge } from "./category-badge"
+import { combineStates, useActivityContext, useCategories, useExpenses } from "@/hooks/use-api"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrency } from "@/contexts/currency-context"
+import { deleteExpense, type CategoryFilter, type ExpenseFilter } from "@/lib/api"
+import { findCategory } from "@/lib/categories"
+import { payerNames, toExpenseItem, type ExpenseItem } from "@/lib/activity"
 
 interface AllExpensesListProps {
-  filter?: "all" | "you-paid" | "you-owe"
+  filter?: ExpenseFilter
+  // Only expenses in this category, or uncategorized ones with "none"
+  category?: CategoryFilter
 }
 
-export function AllExpensesList({ filter = "all" }: AllExpensesListProps) {
+export function AllExpensesList({ filter = "all", category }: AllExpensesListProps) {
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
-  const [selectedExpense, setSelectedExpense] = useState<any>(null)
+  const [selectedExpense, setSelectedExpense] = useState<ExpenseItem | null>(null)
+  const expenses = useExpenses(filter, category)
+  const categories = useCategories()
+  const context = useActivityContext()
+  const { formatAmount } = useCurrency()
+  const { toast } = useToast()
 
-  // Mock data for expenses
-  const allExpenses = [
-    {
-      id: "1",
-      description: "dinner at italian restaurant",
-      amount: 120.0,
-      date: "apr 10, 2023",
-      payer: {
-        name: "alex",
-        avatar: "a",
-        isYou: false,
-      },
-      group: "trip to barcelona",
-      split: "equal",
-      yourShare: 30.0,
-      youPaid: false,
-    },
-    {
-      id: "2",
-      description: "hotel reservation",
-      amount: 350.0,
-      date: "apr 9, 2023",
-      payer: {
-        name: "jamie",
-        avatar: "j",
-        isYou: false,
-      },
-      group: "trip to barcelona",
-      split: "equal",
-      yourShare: 87.5,
-      youPaid: false,
-    },
-    {
-      id: "3",
-      description: "groceries",
-      amount: 85.5,
-      date: "apr 8, 2023",
-      payer: {
-        name: "sam",
-        avatar: "s",
-        isYou: false,
-      },
-      group: "roommates",
-      split: "equal",
-      yourShare: 21.38,
-      youPaid: false,
-    },
-    {
-      id: "4",
-      description: "taxi to airport",
-      amount: 45.0,
-      date: "apr 7, 2023",
-      payer: {
-        name: "you",
-        avatar: "y",
-        isYou: true,
-      },
-      group: "trip to barcelona",
-      split: "equal",
-      yourShare: 11.25,
-      youPaid: true,
-    },
-    {
-      id: "5",
-      description: "lunch",
-      amount: 65.75,
-      date: "apr 6, 2023",
-      payer: {
-        name: "you",
-        avatar: "y",
-        isYou: true,
-      },
-      group: "office lunch",
-      split: "equal",
-      yourShare: 16.44,
-      youPaid: true,
-    },
-  ]
+  const status = combineStates(expenses, context)
 
-  // Filter expenses based on the filter prop
-  const filteredExpenses = allExpenses.filter((expense) => {
-    if (filter === "you-paid") return expense.youPaid
-    if (filter === "you-owe") return !expense.youPaid && expense.yourShare > 0
-    return true // "all" filter
-  })
+  const activity = context.data
+  const filteredExpenses = expenses.data && activity ? expenses.data.map((e) => toExpenseItem(e, activity)) : []
 
   // Handle edit expense action
-  const handleEditExpense = (expense: any) => {
+  const handleEditExpense = (expense: ExpenseItem) => {
     setSelectedExpense(expense)
     setIsEditDialogOpen(true)
   }
 
   // Handle delete expense action
-  const handleDeleteExpense = (expense: any) => {
+  const handleDeleteExpense = (expense: ExpenseItem) => {
     setSelectedExpense(expense)
     setIsDeleteDialogOpen(true)
   }
 
   // Handle confirm delete
-  const handleConfirmDelete = () => {
-    console.log(`Deleting expense: ${selectedExpense?.id}`)
-    // Here you would typically call an API to delete the expense
-    // After successful deletion, you would update the UI
+  const handleConfirmDelete = async () => {
+    if (!selectedExpense) return
     setIsDeleteDialogOpen(false)
-    setSelectedExpense(null)
+
+    try {
+      await deleteExpense(selectedExpense.groupId, selectedExpense.id)
+      expenses.reload()
+    } catch (error) {
+      toast({
+        title: "expense not deleted",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setSelectedExpense(null)
+    }
   }
 
   // Handle dialog close
@@ -143,7 +87,9 @@ export function AllExpensesList({ filter = "all" }: AllExpensesListProps) {
 
   return (
     <div className="divide-y">
-      {filteredExpenses.length === 0 ? (
+      {!status.isReady ? (
+        <DataStatus {...status} />
+      ) : filteredExpenses.length === 0 ? (
         <div className="p-4 text-center text-sm text-muted-foreground">no expenses found</div>
       ) : (
         filteredExpenses.map((expense) => (
@@ -156,7 +102,7 @@ export function AllExpensesList({ filter = "all" }: AllExpensesListProps) {
                 <p className="truncate text-sm">{expense.description}</p>
                 <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
                   <span>
-                    {expense.payer.name} paid ${expense.amount.toFixed(2)}
+                    {payerNames(expense)} paid {formatAmount(expense.amount, expense.currency)}
                   </span>
                   <div className="h-3 w-px bg-gray-300"></div>
                   <span className="px-1.5 py-0.5 rounded-full bg-gray-100 text-gray-700 text-[10px] font-medium">
@@ -164,15 +110,16 @@ export function AllExpensesList({ filter = "all" }: AllExpensesListProps) {
                   </span>
                   <div className="h-3 w-px bg-gray-300"></div>
                   <span>{expense.date}</span>
+                  <CategoryBadge category={findCategory(expense.category, categories.data)} />
                 </div>
               </div>
             </div>
             <div className="flex flex-col items-end gap-1">
               <div className="flex items-center gap-1">
-                <span className="text-xs font-medium text-red-600">
+                <span className={`text-xs font-medium ${expense.youPaid ? "text-green-600" : "text-red-600"}`}>
                   {expense.youPaid
-                    ? `+$${(expense.amount - expense.yourShare).toFixed(2)}`
-                    : `-$${expense.yourShare.toFixed(2)}`}
+                    ? `+${formatAmount(expense.amount - expense.yourShare, expense.currency)}`
+                    : `-${formatAmount(expense.yourShare, expense.currency)}`}
                 </span>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -203,7 +150,8 @@ export function AllExpensesList({ filter = "all" }: AllExpensesListProps) {
           open={isEditDialogOpen}
           onOpenChange={handleEditDialogOpenChange}
           expense={selectedExpense}
-          groupId={selectedExpense.group}
+          groupId={selectedExpense.groupId}
+          onSaved={expenses.reload}
         />
       )}
 
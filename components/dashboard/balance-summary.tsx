@@ -5,63 +5,62 @@ import { Button } from "@/components/ui/button"
 import { CreditCard, Bell } from "lucide-react"
 import { useState } from "react"
 import { ReminderDialog } from "./reminder-dialog"
+import { DataStatus } from "./data-status"
 import { useModal } from "@/contexts/modal-context"
+import { useCurrency } from "@/contexts/currency-context"
+import { combineStates, useActivityContext, useBalances } from "@/hooks/use-api"
+import { displayName } from "@/lib/api"
+
+interface BalanceRow {
+  id: string
+  name: string
+  amount: number
+  currency: string
+}
 
 export function BalanceSummary() {
   const [isReminderOpen, setIsReminderOpen] = useState(false)
-  const [selectedMember, setSelectedMember] = useState<any>(null)
+  const [selectedMember, setSelectedMember] = useState<BalanceRow | null>(null)
   const { openSettleUpModal } = useModal()
+  const { formatAmount } = useCurrency()
+  const userBalances = useBalances()
+  const context = useActivityContext()
+  const status = combineStates(userBalances, context)
 
-  const balances = [
-    {
-      id: "1",
-      name: "Alex",
-      avatar: "A",
-      amount: -78.25,
-    },
-    {
-      id: "2",
-      name: "Jamie",
-      avatar: "J",
-      amount: -45.75,
-    },
-    {
-      id: "3",
-      name: "Sam",
-      avatar: "S",
-      amount: -18.5,
-    },
-    {
-      id: "4",
-      name: "Taylor",
-      avatar: "T",
-      amount: 32.5,
-    },
-  ]
+  const balances: BalanceRow[] = (userBalances.data?.balances ?? []).map((balance) => ({
+    id: balance.id,
+    name: displayName(context.data?.users[balance.id]),
+    amount: balance.amount,
+    currency: balance.currency,
+  }))
 
-  const handlePayClick = (balance: any) => {
+  const handlePayClick = (balance: BalanceRow) => {
     openSettleUpModal({
       preselectedMember: {
         id: balance.id,
         name: balance.name,
         amount: Math.abs(balance.amount),
+        currency: balance.currency,
       },
     })
   }
 
-  const handleRemindClick = (balance: any) => {
-    setSelectedMember({
-      id: balance.id,
-      name: balance.name,
-      amount: Math.abs(balance.amount),
-    })
+  const handleRemindClick = (balance: BalanceRow) => {
+    setSelectedMember({ ...balance, amount: Math.abs(balance.amount) })
     setIsReminderOpen(true)
   }
 
+  if (!status.isReady) {
+    return <DataStatus {...status} />
+  }
+
   return (
     <div className="divide-y">
+      {balances.length === 0 && (
+        <div className="p-4 text-center text-sm text-muted-foreground">you are all settled up</div>
+      )}
       {balances.map((balance) => (
-        <div key={balance.id} className="flex items-center justify-between gap-3 p-4">
+        <div key={`${balance.id}-${balance.currency}`} className="flex items-center justify-between gap-3 p-4">
           <div className="flex items-center gap-3 min-w-0">
             <Avatar className="h-8 w-8">
               <AvatarFallback className="text-sm">
@@ -84,8 +83,8 @@ export function BalanceSummary() {
                 {balance.amount === 0
                   ? "Settled up"
                   : balance.amount < 0
-                    ? `You owe ${balance.name} ${Math.abs(balance.amount).toFixed(2)}`
-                    : `${balance.name} owes you ${balance.amount.toFixed(2)}`}
+                    ? `You owe ${balance.name} ${formatAmount(Math.abs(balance.amount), balance.currency)}`
+                    : `${balance.name} owes you ${formatAmount(balance.amount, balance.currency)}`}
               </p>
             </div>
           </div>
@@ -0,0 +1,25 @@
+import { cn } from "@/lib/utils"
+import { categoryIcon } from "@/lib/categories"
+import type { Category } from "@/types/api"
+
+interface CategoryBadgeProps {
+  // Nothing is shown for expenses without a category
+  category: Category | null
+  className?: string
+}
+
+export function CategoryBadge({ category, className }: CategoryBadgeProps) {
+  if (!category) return null
+
+  const Icon = categoryIcon(category.icon)
+  return (
+    <span
+      className={cn("inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] font-medium", className)}
+      // A light tint of the category colour behind text in the colour itself
+      style={{ backgroundColor: `${category.color}1a`, color: category.color }}
+    >
+      <Icon className="h-3 w-3" />
+      {category.name}
+    </span>
+  )
+}
@@ -0,0 +1,40 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { categoryIcon, UNCATEGORIZED } from "@/lib/categories"
+import type { CategoryFilter as CategoryFilterValue } from "@/lib/api"
+import type { Category } from "@/types/api"
+
+interface CategoryFilterProps {
+  categories: Category[]
+  value: CategoryFilterValue
+  onChange: (value: CategoryFilterValue) => void
+  className?: string
+}
+
+const ALL = "all"
+
+export function CategoryFilter({ categories, value, onChange, className = "w-[150px] h-9" }: CategoryFilterProps) {
+  return (
+    <Select value={value ?? ALL} onValueChange={(next) => onChange(next === ALL ? undefined : next)}>
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="category" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL}>all categories</SelectItem>
+        {categories.map((category) => {
+          const Icon = categoryIcon(category.icon)
+          return (
+            <SelectItem key={category.id} value={category.id}>
+              <div className="flex items-center gap-2">
+                <Icon className="h-3 w-3" style={{ color: category.color }} />
+                <span>{category.name}</span>
+              </div>
+            </SelectItem>
+          )
+        })}
+        <SelectItem value={UNCATEGORIZED}>uncategorized</SelectItem>
+      </SelectContent>
+    </Select>
+  )
+}
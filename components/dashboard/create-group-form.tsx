@@ -11,25 +11,46 @@ import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Card, CardContent } from "@/components/ui/card"
 import { useToast } from "@/hooks/use-toast"
+import { Plus, X } from "lucide-react"
+import { createGroup } from "@/lib/api"
 
 export function CreateGroupForm() {
   const [isLoading, setIsLoading] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [currency, setCurrency] = useState("USD")
+  const [guestName, setGuestName] = useState("")
+  const [guestNames, setGuestNames] = useState<string[]>([])
   const router = useRouter()
   const { toast } = useToast()
 
+  const handleAddGuest = () => {
+    const trimmed = guestName.trim()
+    if (!trimmed) return
+    setGuestNames((names) => [...names, trimmed])
+    setGuestName("")
+  }
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
 
-    // Simulate group creation
-    setTimeout(() => {
-      setIsLoading(false)
-      router.push("/dashboard/groups/1")
+    try {
+      const group = await createGroup({ name, description, currency, guestNames })
+      router.push(`/dashboard/groups/${group.id}`)
       toast({
         title: "Group created",
         description: "Your new expense group has been created successfully.",
       })
-    }, 1500)
+    } catch (error) {
+      toast({
+        title: "Group not created",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   return (
@@ -39,15 +60,28 @@ export function CreateGroupForm() {
           <div className="space-y-4">
             <div className="grid gap-2">
               <Label htmlFor="name">Group name</Label>
-              <Input id="name" placeholder="e.g., Roommates, Trip to Paris, Office Lunch" required />
+              <Input
+                id="name"
+                placeholder="e.g., Roommates, Trip to Paris, Office Lunch"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="description">Description (optional)</Label>
-              <Textarea id="description" placeholder="What is this group for?" />
+              <Textarea
+                id="description"
+                placeholder="What is this group for?"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                maxLength={500}
+              />
             </div>
             <div className="grid gap-2">
               <Label htmlFor="currency">Default currency</Label>
-              <Select defaultValue="USD">
+              <Select value={currency} onValueChange={setCurrency}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select currency" />
                 </SelectTrigger>
@@ -77,6 +111,51 @@ export function CreateGroupForm() {
                 </SelectContent>
               </Select>
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="guest">Guests (optional)</Label>
+              <p className="text-sm text-muted-foreground">
+                Add people who won&apos;t sign up by name. You can invite them to claim their place later.
+              </p>
+              <div className="flex gap-2">
+                <Input
+                  id="guest"
+                  placeholder="e.g., Grandma"
+                  value={guestName}
+                  onChange={(e) => setGuestName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault()
+                      handleAddGuest()
+                    }
+                  }}
+                  maxLength={100}
+                />
+                <Button type="button" variant="outline" onClick={handleAddGuest} disabled={!guestName.trim()}>
+                  <Plus className="h-4 w-4" />
+                  <span className="sr-only">add guest</span>
+                </Button>
+              </div>
+              {guestNames.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {guestNames.map((guest, index) => (
+                    <span
+                      key={`${guest}-${index}`}
+                      className="flex items-center gap-1 rounded-full bg-muted px-2 py-0.5 text-sm"
+                    >
+                      {guest}
+                      <button
+                        type="button"
+                        onClick={() => setGuestNames((names) => names.filter((_, i) => i !== index))}
+                        className="text-muted-foreground hover:text-foreground"
+                      >
+                        <X className="h-3 w-3" />
+                        <span className="sr-only">remove {guest}</span>
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
           <div className="flex justify-end gap-4">
             <Button type="button" variant="outline" onClick={() => router.push("/dashboard")}>
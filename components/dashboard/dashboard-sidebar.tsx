@@ -1,7 +1,7 @@
 import Link from "next/link"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
-import { LayoutDashboard, Users, Receipt, CreditCard } from "lucide-react"
+import { LayoutDashboard, Users, Receipt, CreditCard, BarChart3 } from "lucide-react"
 
 interface DashboardSidebarProps {
   className?: string
@@ -36,6 +36,12 @@ export function DashboardSidebar({ className }: DashboardSidebarProps) {
               settlements
             </Link>
           </Button>
+          <Button variant="ghost" className="w-full justify-start h-8 px-2 text-sm" asChild>
+            <Link href="/dashboard/analytics">
+              <BarChart3 className="mr-2 h-4 w-4" />
+              analytics
+            </Link>
+          </Button>
         </div>
       </div>
     </aside>
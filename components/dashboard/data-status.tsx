@@ -0,0 +1,31 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+
+interface DataStatusProps {
+  isLoading: boolean
+  error: Error | null
+  reload?: () => void
+}
+
+// Placeholder shown while a list loads or after it failed to
+export function DataStatus({ isLoading, error, reload }: DataStatusProps) {
+  if (error) {
+    return (
+      <div className="p-4 text-center text-sm text-muted-foreground">
+        <p>{error.message}</p>
+        {reload && (
+          <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={reload}>
+            try again
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  if (isLoading) {
+    return <div className="p-4 text-center text-sm text-muted-foreground">loading...</div>
+  }
+
+  return null
+}
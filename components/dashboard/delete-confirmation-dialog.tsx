@@ -17,6 +17,7 @@ interface DeleteConfirmationDialogProps {
   onConfirm: () => void
   title: string
   description: string
+  confirmLabel?: string
 }
 
 export function DeleteConfirmationDialog({
@@ -25,6 +26,7 @@ export function DeleteConfirmationDialog({
   onConfirm,
   title,
   description,
+  confirmLabel = "delete",
 }: DeleteConfirmationDialogProps) {
   return (
     <AlertDialog open={open} onOpenChange={onOpenChange}>
@@ -36,7 +38,7 @@ export function DeleteConfirmationDialog({
         <AlertDialogFooter className="flex justify-end gap-2">
           <AlertDialogCancel className="text-xs">cancel</AlertDialogCancel>
           <AlertDialogAction onClick={onConfirm} className="bg-red-600 text-xs">
-            delete
+            {confirmLabel}
           </AlertDialogAction>
         </AlertDialogFooter>
       </AlertDialogContent>
@@ -12,109 +12,180 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { useToast } from "@/hooks/use-toast"
 import { CalendarIcon } from "lucide-react"
-import { format } from "date-fns"
+import { format, parseISO } from "date-fns"
 import { Calendar } from "@/components/ui/calendar"
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
 import { cn } from "@/lib/utils"
 import { DialogHeader } from "./dialog-header"
+import { payerNames, type ExpenseItem } from "@/lib/activity"
+import { useApi, useCategories, useCurrentUser, useExchangeRate, useGroup } from "@/hooks/use-api"
+import { getExpense, memberOptions, updateExpense, type ExpenseChanges, type MemberOption } from "@/lib/api"
+import { categoryIcon, UNCATEGORIZED } from "@/lib/categories"
+import { formatMoney, minorStep } from "@/lib/money"
+import { evenPercentages, splitByWeight, splitEvenly, validatePercentages, validateTotal } from "@/lib/splits"
+import type { ExpenseShare, SplitType } from "@/types/api"
 
 interface EditExpenseDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  expense: any
+  expense: ExpenseItem
   groupId: string
+  // Called after the changes are saved, so the parent can refetch
+  onSaved?: () => void
 }
 
-export function EditExpenseDialog({ open, onOpenChange, expense, groupId }: EditExpenseDialogProps) {
+type MemberValues = Record<string, string>
+
+const numbers = (values: MemberValues) => Object.values(values).map((value) => Number(value || 0))
+
+export function EditExpenseDialog({ open, onOpenChange, expense, groupId, onSaved }: EditExpenseDialogProps) {
   const [date, setDate] = useState<Date>(new Date())
-  const [splitType, setSplitType] = useState("equal")
+  const [splitType, setSplitType] = useState<SplitType>("equal")
   const [description, setDescription] = useState("")
   const [amount, setAmount] = useState("")
+  const [currency, setCurrency] = useState("USD")
+  const [paidBy, setPaidBy] = useState("")
+  const [category, setCategory] = useState<string | null>(null)
+  // A rate into the group currency entered by hand; empty uses the rate on the expense date
+  const [exchangeRate, setExchangeRate] = useState("")
+  const [percentages, setPercentages] = useState<MemberValues>({})
+  const [exactAmounts, setExactAmounts] = useState<MemberValues>({})
+  const [weights, setWeights] = useState<MemberValues>({})
+  // Untouched splits are left out of the update so the stored inputs are re-applied to the new amount
+  const [splitsChanged, setSplitsChanged] = useState(false)
+  const [splitError, setSplitError] = useState<string | null>(null)
+  const [isSaving, setIsSaving] = useState(false)
   const { toast } = useToast()
 
+  const group = useGroup(groupId)
+  const me = useCurrentUser()
+  const categories = useCategories(groupId)
+  const stored = useApi(() => getExpense(groupId, expense.id), [groupId, expense.id])
+  const members = memberOptions(group.data, me.data?.id)
+  const itemized = stored.data?.splitType === "itemized"
+  // Several payers are kept as they are; a new amount has to be re-entered through the expense form
+  const severalPayers = (stored.data?.payers.length ?? 0) > 1
+  const groupCurrency = group.data?.currency ?? currency
+  const rateQuote = useExchangeRate(currency, groupCurrency, format(date, "yyyy-MM-dd"))
+  // A new split type is a new split even when the values it starts from are left as they are
+  const splitEdited = splitsChanged || (stored.data !== undefined && splitType !== stored.data.splitType)
+
   useEffect(() => {
     if (expense) {
       setDescription(expense.description)
       setAmount(expense.amount.toString())
+      setDate(parseISO(expense.rawDate))
+      setCurrency(expense.currency)
+      setPaidBy(expense.payer.id)
+      setCategory(expense.category)
+    }
+  }, [expense])
+
+  // Start from the split as it was saved
+  useEffect(() => {
+    const saved = stored.data
+    if (!saved) return
 
-      // More robust date parsing
-      try {
-        // Check if expense.date is a valid string
-        if (typeof expense.date === "string" && expense.date.trim()) {
-          // Try to parse the date string
-          const parsedDate = new Date(expense.date)
+    const byUser = (value: (share: ExpenseShare) => number | null) =>
+      Object.fromEntries(saved.shares.map((share) => [share.userId, String(value(share) ?? 0)]))
+    setSplitType(saved.splitType)
+    setExchangeRate(saved.manualRate && saved.exchangeRate !== null ? String(saved.exchangeRate) : "")
+    setPercentages(byUser((share) => share.percentage))
+    setExactAmounts(byUser((share) => share.amount))
+    setWeights(saved.splitType === "shares" ? byUser((share) => share.weight) : byUser(() => 1))
+    setSplitsChanged(false)
+    setSplitError(null)
+  }, [stored.data])
 
-          // Check if the parsed date is valid
-          if (!isNaN(parsedDate.getTime())) {
-            setDate(parsedDate)
-          } else {
-            // Fallback to current date if parsing fails
-            setDate(new Date())
-          }
-        } else {
-          // Fallback to current date if expense.date is not a valid string
-          setDate(new Date())
-        }
-      } catch (error) {
-        console.error("Error parsing date:", error)
-        // Fallback to current date if any error occurs
-        setDate(new Date())
-      }
+  const changeSplit = (setter: React.Dispatch<React.SetStateAction<MemberValues>>, memberId: string, value: string) => {
+    setter((prev) => ({ ...prev, [memberId]: value }))
+    setSplitsChanged(true)
+    setSplitError(null)
+  }
+
+  const weightedShares = splitByWeight(
+    Number.parseFloat(amount || "0"),
+    Object.fromEntries(members.map((member) => [member.id, Number(weights[member.id] || 0)])),
+    currency,
+  )
+
+  const validateSplits = (): string | null => {
+    const expenseAmount = Number.parseFloat(amount || "0")
+    if (!splitEdited || splitType === "equal" || itemized) return null
+    if (splitType === "percent") {
+      return validatePercentages(numbers(percentages))
     }
-  }, [expense])
+    if (splitType === "exact") {
+      return validateTotal(expenseAmount, numbers(exactAmounts), currency)
+    }
+    if (splitType === "shares" && numbers(weights).reduce((sum, value) => sum + value, 0) <= 0) {
+      return "At least one member needs a weight above zero"
+    }
+    return null
+  }
 
-  // Mock data for members
-  const members = [
-    {
-      id: "1",
-      name: "you",
-      avatar: "y",
-    },
-    {
-      id: "2",
-      name: "alex",
-      avatar: "a",
-    },
-    {
-      id: "3",
-      name: "jamie",
-      avatar: "j",
-    },
-    {
-      id: "4",
-      name: "sam",
-      avatar: "s",
-    },
-  ]
+  const buildSplits = (): ExpenseChanges["splits"] => {
+    if (!splitEdited || splitType === "equal") return undefined
+    return members.map((member) =>
+      splitType === "percent"
+        ? { userId: member.id, percentage: Number(percentages[member.id] || 0) }
+        : splitType === "exact"
+          ? { userId: member.id, amount: Number(exactAmounts[member.id] || 0) }
+          : { userId: member.id, weight: Number(weights[member.id] || 0) },
+    )
+  }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
-    // In a real app, this would call an API to update the expense
-    console.log("Updating expense", {
-      id: expense.id,
-      description,
-      amount,
-      date,
-      splitType,
-    })
-
-    onOpenChange(false)
+    const error = validateSplits()
+    if (error) {
+      setSplitError(error)
+      return
+    }
 
-    toast({
-      title: "expense updated",
-      description: "The expense has been updated successfully",
-      duration: 3000,
-    })
+    setIsSaving(true)
+    try {
+      await updateExpense(groupId, expense.id, {
+        description,
+        amount: Number.parseFloat(amount),
+        currency,
+        date: format(date, "yyyy-MM-dd"),
+        category,
+        // Clearing a rate entered by hand goes back to the rate on the date
+        exchangeRate: exchangeRate ? Number(exchangeRate) : stored.data?.manualRate ? null : undefined,
+        ...(severalPayers ? {} : { paidBy }),
+        ...(itemized ? {} : { splitType, splits: buildSplits() }),
+      })
+      onOpenChange(false)
+      onSaved?.()
+      toast({
+        title: "expense updated",
+        description: "The expense has been updated successfully",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "expense not updated",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const handleSplitEqually = () => {
-    // Calculate equal splits for all members
-    const equalPercentage = 100 / members.length
-    const equalAmount = Number.parseFloat(amount) / members.length
+    // Equal splits that still add up exactly, e.g. 33.34%, 33.33% and 33.33%
+    const ids = members.map((member) => member.id)
+    const equalPercentages = evenPercentages(ids)
+    const equalAmounts = splitEvenly(Number.parseFloat(amount || "0"), ids, currency)
 
-    // In a real app, you would update the state of each member's share
-    console.log(`Each member pays ${equalPercentage.toFixed(2)}% or $${equalAmount.toFixed(2)}`)
+    setPercentages(Object.fromEntries(ids.map((id) => [id, equalPercentages[id].toFixed(2)])))
+    setExactAmounts(Object.fromEntries(ids.map((id) => [id, formatMoney(equalAmounts[id], currency)])))
+    setWeights(Object.fromEntries(members.map((member) => [member.id, "1"])))
+    setSplitsChanged(true)
+    setSplitError(null)
 
     toast({
       title: "split equally",
@@ -123,6 +194,15 @@ export function EditExpenseDialog({ open, onOpenChange, expense, groupId }: Edit
     })
   }
 
+  const memberLabel = (member: MemberOption) => (
+    <div className="flex items-center gap-2">
+      <Avatar className="h-8 w-8">
+        <AvatarFallback>{member.avatar}</AvatarFallback>
+      </Avatar>
+      <span>{member.name}</span>
+    </div>
+  )
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
@@ -139,14 +219,47 @@ export function EditExpenseDialog({ open, onOpenChange, expense, groupId }: Edit
                 required
               />
             </div>
+            <div className="grid gap-2">
+              <Label htmlFor="category">category</Label>
+              <Select
+                value={category ?? UNCATEGORIZED}
+                onValueChange={(value) => setCategory(value === UNCATEGORIZED ? null : value)}
+              >
+                <SelectTrigger id="category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNCATEGORIZED}>no category</SelectItem>
+                  {(categories.data ?? []).map((option) => {
+                    const Icon = categoryIcon(option.icon)
+                    return (
+                      <SelectItem key={option.id} value={option.id}>
+                        <div className="flex items-center gap-2">
+                          <Icon className="h-4 w-4" style={{ color: option.color }} />
+                          <span>{option.name}</span>
+                        </div>
+                      </SelectItem>
+                    )
+                  })}
+                </SelectContent>
+              </Select>
+            </div>
             <div className="grid gap-2">
               <Label htmlFor="amount">amount</Label>
               <div className="flex items-center gap-2">
-                <Select defaultValue="USD">
+                <Select
+                  value={currency}
+                  onValueChange={(value) => {
+                    setCurrency(value)
+                    // A rate entered for the old currency means nothing for the new one
+                    setExchangeRate("")
+                  }}
+                >
                   <SelectTrigger className="w-24">
                     <SelectValue placeholder="Currency" />
                   </SelectTrigger>
                   <SelectContent>
+                    {!["USD", "EUR", "GBP"].includes(currency) && <SelectItem value={currency}>{currency}</SelectItem>}
                     <SelectItem value="USD">USD</SelectItem>
                     <SelectItem value="EUR">EUR</SelectItem>
                     <SelectItem value="GBP">GBP</SelectItem>
@@ -159,9 +272,9 @@ export function EditExpenseDialog({ open, onOpenChange, expense, groupId }: Edit
                   <Input
                     id="amount"
                     type="number"
-                    placeholder="0.00"
-                    step="0.01"
-                    min="0.01"
+                    placeholder={formatMoney(0, currency)}
+                    step={minorStep(currency)}
+                    min={minorStep(currency)}
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                     className="pl-7"
@@ -170,6 +283,27 @@ export function EditExpenseDialog({ open, onOpenChange, expense, groupId }: Edit
                 </div>
               </div>
             </div>
+            {currency !== groupCurrency && (
+              <div className="grid gap-2">
+                <Label htmlFor="exchange-rate">exchange rate</Label>
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="whitespace-nowrap text-muted-foreground">1 {currency} =</span>
+                  <Input
+                    id="exchange-rate"
+                    type="number"
+                    step="any"
+                    min="0"
+                    placeholder={rateQuote.data ? String(Number(rateQuote.data.rate.toPrecision(6))) : ""}
+                    value={exchangeRate}
+                    onChange={(e) => setExchangeRate(e.target.value)}
+                  />
+                  <span className="text-muted-foreground">{groupCurrency}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {exchangeRate ? "entered by hand" : "leave empty to use the rate on the expense date"}
+                </p>
+              </div>
+            )}
             <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
                 <Label>date</Label>
@@ -190,112 +324,156 @@ export function EditExpenseDialog({ open, onOpenChange, expense, groupId }: Edit
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="payer">paid by</Label>
-                <Select defaultValue={expense.payer.name === "you" ? "1" : "2"}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="select member" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {members.map((member) => (
-                      <SelectItem key={member.id} value={member.id}>
-                        <div className="flex items-center gap-2">
-                          <Avatar className="h-6 w-6">
-                            <AvatarFallback>{member.avatar}</AvatarFallback>
-                          </Avatar>
-                          <span>{member.name}</span>
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
+                {severalPayers ? (
+                  <p className="text-sm text-muted-foreground">{payerNames(expense)}</p>
+                ) : (
+                  <Select value={paidBy} onValueChange={setPaidBy}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="select member" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {members.map((member) => (
+                        <SelectItem key={member.id} value={member.id}>
+                          <div className="flex items-center gap-2">
+                            <Avatar className="h-6 w-6">
+                              <AvatarFallback>{member.avatar}</AvatarFallback>
+                            </Avatar>
+                            <span>{member.name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
               </div>
             </div>
             <div className="grid gap-2">
               <Label>split</Label>
-              <Tabs defaultValue="equal" onValueChange={setSplitType}>
-                <TabsList className="grid w-full grid-cols-3">
-                  <TabsTrigger value="equal">equal</TabsTrigger>
-                  <TabsTrigger value="percent">percent</TabsTrigger>
-                  <TabsTrigger value="exact">exact</TabsTrigger>
-                </TabsList>
-                <TabsContent value="equal" className="pt-4">
-                  <p className="text-sm text-muted-foreground">split equally among all members</p>
-                  <div className="mt-4 space-y-2">
-                    {members.map((member) => (
-                      <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
-                        <div className="flex items-center gap-2">
-                          <Avatar className="h-8 w-8">
-                            <AvatarFallback>{member.avatar}</AvatarFallback>
-                          </Avatar>
-                          <span>{member.name}</span>
+              {itemized ? (
+                <p className="text-sm text-muted-foreground">
+                  this expense is split by its receipt items, so the amount has to match the items, tax and tip
+                </p>
+              ) : (
+                <Tabs
+                  value={splitType}
+                  onValueChange={(value) => {
+                    setSplitType(value as SplitType)
+                    setSplitError(null)
+                  }}
+                >
+                  <TabsList className="grid w-full grid-cols-4">
+                    <TabsTrigger value="equal">equal</TabsTrigger>
+                    <TabsTrigger value="percent">percent</TabsTrigger>
+                    <TabsTrigger value="exact">exact</TabsTrigger>
+                    <TabsTrigger value="shares">shares</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="equal" className="pt-4">
+                    <p className="text-sm text-muted-foreground">split equally among all members</p>
+                    <div className="mt-4 space-y-2">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                          {memberLabel(member)}
+                          <span className="text-sm">{(100 / members.length).toFixed(0)}%</span>
                         </div>
-                        <span className="text-sm">25%</span>
-                      </div>
-                    ))}
-                  </div>
-                </TabsContent>
-                <TabsContent value="percent" className="pt-4">
-                  <div className="flex justify-between items-center mb-4">
-                    <p className="text-sm text-muted-foreground">split by percentage</p>
-                    <Button type="button" variant="outline" size="sm" onClick={handleSplitEqually}>
-                      split equally
-                    </Button>
-                  </div>
-                  <div className="mt-4 space-y-2">
-                    {members.map((member) => (
-                      <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
-                        <div className="flex items-center gap-2">
-                          <Avatar className="h-8 w-8">
-                            <AvatarFallback>{member.avatar}</AvatarFallback>
-                          </Avatar>
-                          <span>{member.name}</span>
-                        </div>
-                        <div className="flex items-center gap-2">
-                          <Input type="number" className="w-20" defaultValue="25" min="0" max="100" />
-                          <span>%</span>
+                      ))}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="percent" className="pt-4">
+                    <div className="flex justify-between items-center mb-4">
+                      <p className="text-sm text-muted-foreground">split by percentage</p>
+                      <Button type="button" variant="outline" size="sm" onClick={handleSplitEqually}>
+                        split equally
+                      </Button>
+                    </div>
+                    <div className="mt-4 space-y-2">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                          {memberLabel(member)}
+                          <div className="flex items-center gap-2">
+                            <Input
+                              type="number"
+                              className="w-20"
+                              value={percentages[member.id] ?? "0"}
+                              onChange={(e) => changeSplit(setPercentages, member.id, e.target.value)}
+                              min="0"
+                              max="100"
+                              step="0.01"
+                            />
+                            <span>%</span>
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
-                </TabsContent>
-                <TabsContent value="exact" className="pt-4">
-                  <div className="flex justify-between items-center mb-4">
-                    <p className="text-sm text-muted-foreground">split by exact amounts</p>
-                    <Button type="button" variant="outline" size="sm" onClick={handleSplitEqually}>
-                      split equally
-                    </Button>
-                  </div>
-                  <div className="mt-4 space-y-2">
-                    {members.map((member) => (
-                      <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
-                        <div className="flex items-center gap-2">
-                          <Avatar className="h-8 w-8">
-                            <AvatarFallback>{member.avatar}</AvatarFallback>
-                          </Avatar>
-                          <span>{member.name}</span>
+                      ))}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="exact" className="pt-4">
+                    <div className="flex justify-between items-center mb-4">
+                      <p className="text-sm text-muted-foreground">split by exact amounts</p>
+                      <Button type="button" variant="outline" size="sm" onClick={handleSplitEqually}>
+                        split equally
+                      </Button>
+                    </div>
+                    <div className="mt-4 space-y-2">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                          {memberLabel(member)}
+                          <div className="flex items-center gap-2">
+                            <span>$</span>
+                            <Input
+                              type="number"
+                              className="w-24"
+                              placeholder={formatMoney(0, currency)}
+                              step={minorStep(currency)}
+                              min="0"
+                              value={exactAmounts[member.id] ?? "0"}
+                              onChange={(e) => changeSplit(setExactAmounts, member.id, e.target.value)}
+                            />
+                          </div>
                         </div>
-                        <div className="flex items-center gap-2">
-                          <span>$</span>
-                          <Input
-                            type="number"
-                            className="w-24"
-                            placeholder="0.00"
-                            step="0.01"
-                            min="0"
-                            defaultValue={(Number.parseFloat(amount) / members.length).toFixed(2)}
-                          />
+                      ))}
+                    </div>
+                  </TabsContent>
+                  <TabsContent value="shares" className="pt-4">
+                    <div className="flex justify-between items-center mb-4">
+                      <p className="text-sm text-muted-foreground">split by weight, e.g. 2 for a couple</p>
+                      <Button type="button" variant="outline" size="sm" onClick={handleSplitEqually}>
+                        split equally
+                      </Button>
+                    </div>
+                    <div className="mt-4 space-y-2">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                          {memberLabel(member)}
+                          <div className="flex items-center gap-2">
+                            <span className="text-xs text-muted-foreground">
+                              {formatMoney(weightedShares[member.id] ?? 0, currency)}
+                            </span>
+                            <Input
+                              type="number"
+                              className="w-20"
+                              aria-label={`weight for ${member.name}`}
+                              step="0.5"
+                              min="0"
+                              value={weights[member.id] ?? "0"}
+                              onChange={(e) => changeSplit(setWeights, member.id, e.target.value)}
+                            />
+                            <span className="text-xs text-muted-foreground">×</span>
+                          </div>
                         </div>
-                      </div>
-                    ))}
-                  </div>
-                </TabsContent>
-              </Tabs>
+                      ))}
+                    </div>
+                  </TabsContent>
+                </Tabs>
+              )}
+              {splitError && <p className="text-sm text-red-600">{splitError}</p>}
             </div>
           </div>
           <DialogFooter className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               cancel
             </Button>
-            <Button type="submit">save changes</Button>
+            <Button type="submit" disabled={isSaving || !stored.data}>
+              {isSaving ? "saving..." : "save changes"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
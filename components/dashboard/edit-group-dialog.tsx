@@ -7,6 +7,7 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
+import { Switch } from "@/components/ui/switch"
 import {
   Dialog,
   DialogContent,
@@ -17,6 +18,7 @@ import {
 } from "@/components/ui/dialog"
 import { DialogHeader as CustomDialogHeader } from "./dialog-header"
 import { useToast } from "@/hooks/use-toast"
+import { updateGroup } from "@/lib/api"
 
 interface EditGroupDialogProps {
   open: boolean
@@ -24,12 +26,23 @@ interface EditGroupDialogProps {
   groupId: string
   groupName: string
   groupDescription: string
+  groupSimplifyDebts?: boolean
+  onSaved?: () => void
 }
 
-export function EditGroupDialog({ open, onOpenChange, groupId, groupName, groupDescription }: EditGroupDialogProps) {
+export function EditGroupDialog({
+  open,
+  onOpenChange,
+  groupId,
+  groupName,
+  groupDescription,
+  groupSimplifyDebts = false,
+  onSaved,
+}: EditGroupDialogProps) {
   const { toast } = useToast()
   const [name, setName] = useState(groupName)
   const [description, setDescription] = useState(groupDescription)
+  const [simplifyDebts, setSimplifyDebts] = useState(groupSimplifyDebts)
   const [isSubmitting, setIsSubmitting] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -37,11 +50,8 @@ export function EditGroupDialog({ open, onOpenChange, groupId, groupName, groupD
     setIsSubmitting(true)
 
     try {
-      // In a real app, this would call an API to update the group
-      console.log(`Updating group ${groupId} with name: ${name}, description: ${description}`)
-
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000))
+      await updateGroup(groupId, { name, description, simplifyDebts })
+      onSaved?.()
 
       toast({
         title: "Group updated",
@@ -52,7 +62,7 @@ export function EditGroupDialog({ open, onOpenChange, groupId, groupName, groupD
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to update group. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update group. Please try again.",
         variant: "destructive",
       })
     } finally {
@@ -91,6 +101,15 @@ export function EditGroupDialog({ open, onOpenChange, groupId, groupName, groupD
                 className="resize-none"
               />
             </div>
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label htmlFor="simplify-debts">simplify debts</Label>
+                <p className="text-sm text-muted-foreground">
+                  settle up with the fewest payments instead of paying back each expense
+                </p>
+              </div>
+              <Switch id="simplify-debts" checked={simplifyDebts} onCheckedChange={setSimplifyDebts} />
+            </div>
           </div>
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
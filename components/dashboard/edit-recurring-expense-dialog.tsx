@@ -0,0 +1,203 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Calendar } from "@/components/ui/calendar"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { CalendarIcon } from "lucide-react"
+import { format, parseISO } from "date-fns"
+import { cn } from "@/lib/utils"
+import { DialogHeader } from "./dialog-header"
+import { useToast } from "@/hooks/use-toast"
+import { updateRecurringExpense, type RecurringExpenseChanges } from "@/lib/api"
+import { formatMoney, minorStep } from "@/lib/money"
+import { FREQUENCIES, describeFrequency } from "@/lib/recurrence"
+import type { RecurrenceFrequency, RecurringExpense } from "@/types/api"
+
+interface EditRecurringExpenseDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  recurring: RecurringExpense
+  groupId: string
+  // Called after the changes are saved, so the parent can refetch
+  onSaved?: () => void
+}
+
+// Changes what the schedule creates from now on; expenses it already created stay as they are
+export function EditRecurringExpenseDialog({
+  open,
+  onOpenChange,
+  recurring,
+  groupId,
+  onSaved,
+}: EditRecurringExpenseDialogProps) {
+  const [description, setDescription] = useState("")
+  const [amount, setAmount] = useState("")
+  const [frequency, setFrequency] = useState<RecurrenceFrequency>("monthly")
+  const [nextDate, setNextDate] = useState<Date | undefined>()
+  const [endDate, setEndDate] = useState<Date | undefined>()
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  // What each payer puts in is kept, so the amount can only change with a single payer
+  const severalPayers = recurring.payers.length > 1
+
+  useEffect(() => {
+    setDescription(recurring.description)
+    setAmount(recurring.amount.toString())
+    setFrequency(recurring.frequency)
+    setNextDate(recurring.nextDate ? parseISO(recurring.nextDate) : undefined)
+    setEndDate(recurring.endDate ? parseISO(recurring.endDate) : undefined)
+  }, [recurring])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const next = nextDate ? format(nextDate, "yyyy-MM-dd") : null
+    const end = endDate ? format(endDate, "yyyy-MM-dd") : null
+    // A new date or frequency restarts the schedule, so they are only sent when they change
+    const changes: RecurringExpenseChanges = {
+      description,
+      amount: Number.parseFloat(amount),
+      ...(frequency !== recurring.frequency ? { frequency } : {}),
+      ...(next && next !== recurring.nextDate ? { date: next } : {}),
+      ...(end !== recurring.endDate ? { endDate: end } : {}),
+    }
+
+    setIsSaving(true)
+    try {
+      await updateRecurringExpense(groupId, recurring.id, changes)
+      onOpenChange(false)
+      onSaved?.()
+      toast({
+        title: "recurring expense updated",
+        description: "expenses created from now on use the new details",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "recurring expense not updated",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader title="edit recurring expense" description="expenses already created are not changed" />
+        <form onSubmit={handleSubmit}>
+          <div className="grid gap-4 py-4">
+            <div className="grid gap-2">
+              <Label htmlFor="recurring-description">description</Label>
+              <Input
+                id="recurring-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="recurring-amount">amount ({recurring.currency})</Label>
+              <Input
+                id="recurring-amount"
+                type="number"
+                step={minorStep(recurring.currency)}
+                min="0"
+                placeholder={formatMoney(0, recurring.currency)}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={severalPayers}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>repeats</Label>
+              <Select value={frequency} onValueChange={(value) => setFrequency(value as RecurrenceFrequency)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FREQUENCIES.map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {describeFrequency(option)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="grid gap-2">
+                <Label>next expense</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn("justify-start text-left font-normal", !nextDate && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {nextDate ? format(nextDate, "PP") : "pick a date"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar mode="single" selected={nextDate} onSelect={setNextDate} initialFocus />
+                  </PopoverContent>
+                </Popover>
+              </div>
+              <div className="grid gap-2">
+                <Label>ends (optional)</Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="outline"
+                      className={cn("justify-start text-left font-normal", !endDate && "text-muted-foreground")}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {endDate ? format(endDate, "PP") : "never"}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar mode="single" selected={endDate} onSelect={setEndDate} initialFocus />
+                    {endDate && (
+                      <div className="border-t p-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="w-full text-xs"
+                          onClick={() => setEndDate(undefined)}
+                        >
+                          never ends
+                        </Button>
+                      </div>
+                    )}
+                  </PopoverContent>
+                </Popover>
+              </div>
+            </div>
+            {severalPayers && (
+              <p className="text-xs text-muted-foreground">
+                several people pay this; to change the amount, stop it and add it again
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? "saving..." : "save changes"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -7,6 +7,9 @@ import { cn } from "@/lib/utils"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Badge } from "@/components/ui/badge"
 import { format, isToday, isYesterday, isThisWeek, isThisMonth } from "date-fns"
+import { CategoryBadge } from "./category-badge"
+import { categoryIcon } from "@/lib/categories"
+import type { Category } from "@/types/api"
 
 interface ExpenseCardProps {
   expense: {
@@ -19,7 +22,10 @@ interface ExpenseCardProps {
       avatar: string
       isYou?: boolean
     }
+    // Set when several people paid; payer is then whoever paid the most
+    payers?: { name: string; avatar: string; amount: number }[]
     group?: string
+    category?: Category | null
     split: string
     yourShare: number
     notes?: string
@@ -31,6 +37,15 @@ interface ExpenseCardProps {
 }
 
 export function ExpenseCard({ expense, onEdit, onDelete, onViewDetails, className }: ExpenseCardProps) {
+  const payers = expense.payers && expense.payers.length > 1 ? expense.payers : null
+  const paidBy = payers
+    ? `${payers
+        .slice(0, -1)
+        .map((payer) => payer.name)
+        .join(", ")} and ${payers[payers.length - 1].name}`
+    : expense.payer.name
+  const Icon = expense.category ? categoryIcon(expense.category.icon) : Receipt
+
   // Format the date for display
   const formatDate = (date: string | Date) => {
     const dateObj = typeof date === "string" ? new Date(date) : date
@@ -55,17 +70,18 @@ export function ExpenseCard({ expense, onEdit, onDelete, onViewDetails, classNam
             className="flex h-10 w-10 shrink-0 items-center justify-center rounded-md bg-primary-100 text-primary-800 dark:bg-primary-800 dark:text-primary-100"
             aria-hidden="true"
           >
-            <Receipt className="h-5 w-5" />
+            <Icon className="h-5 w-5" />
           </div>
           <div>
             <CardTitle className="text-base font-medium">{expense.description}</CardTitle>
             <div className="mt-1 flex flex-wrap items-center text-xs text-muted-foreground">
-              <span className="mr-2">{expense.payer.name} paid</span>
+              <span className="mr-2">{paidBy} paid</span>
               {expense.group && (
                 <Badge variant="outline" className="mr-2 px-1 py-0 text-[10px]">
                   {expense.group}
                 </Badge>
               )}
+              <CategoryBadge category={expense.category ?? null} className="mr-2" />
               <time dateTime={new Date(expense.date).toISOString()}>{formatDate(expense.date)}</time>
             </div>
           </div>
@@ -102,12 +118,27 @@ export function ExpenseCard({ expense, onEdit, onDelete, onViewDetails, classNam
         {expense.notes && <p className="mt-2 text-xs text-muted-foreground">{expense.notes}</p>}
       </CardContent>
       <CardFooter className="px-4 py-2 border-t bg-muted/20 flex justify-between">
-        <div className="flex items-center">
-          <Avatar className="h-6 w-6 mr-2">
-            <AvatarFallback className="text-[10px]">{expense.payer.avatar}</AvatarFallback>
-          </Avatar>
-          <span className="text-xs">{expense.payer.name}</span>
-        </div>
+        {payers ? (
+          <div className="flex items-center gap-3">
+            {payers.map((payer) => (
+              <div key={payer.name} className="flex items-center">
+                <Avatar className="h-6 w-6 mr-1">
+                  <AvatarFallback className="text-[10px]">{payer.avatar}</AvatarFallback>
+                </Avatar>
+                <span className="text-xs">
+                  {payer.name} ${payer.amount.toFixed(2)}
+                </span>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="flex items-center">
+            <Avatar className="h-6 w-6 mr-2">
+              <AvatarFallback className="text-[10px]">{expense.payer.avatar}</AvatarFallback>
+            </Avatar>
+            <span className="text-xs">{expense.payer.name}</span>
+          </div>
+        )}
         <span className="text-xs text-muted-foreground">Split: {expense.split}</span>
       </CardFooter>
     </Card>
@@ -3,20 +3,25 @@
 import { Dialog, DialogContent } from "@/components/ui/dialog"
 import { DialogHeader } from "./dialog-header"
 import { Receipt } from "lucide-react"
-import { format } from "date-fns"
+import { format, parseISO } from "date-fns"
+import { useCurrency } from "@/contexts/currency-context"
+import { payerNames, type ExpenseItem } from "@/lib/activity"
+import { formatRate } from "@/lib/money"
 
 interface ExpenseDetailsDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  expense: any
+  expense: ExpenseItem | null
 }
 
 export function ExpenseDetailsDialog({ open, onOpenChange, expense }: ExpenseDetailsDialogProps) {
+  const { formatAmount } = useCurrency()
   if (!expense) return null
 
   // Format date for display
-  const dateObj = new Date(expense.rawDate || Date.now())
-  const formattedDate = format(dateObj, "MMMM d, yyyy")
+  const formattedDate = format(parseISO(expense.rawDate), "MMMM d, yyyy")
+  // Set for amounts in another currency than the group's
+  const { lockedRate } = expense
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -38,7 +43,14 @@ export function ExpenseDetailsDialog({ open, onOpenChange, expense }: ExpenseDet
 
             <div>
               <p className="text-sm text-muted-foreground">amount</p>
-              <p className="font-medium">${expense.amount.toFixed(2)}</p>
+              <p className="font-medium">{formatAmount(expense.amount, expense.currency)}</p>
+              {lockedRate && (
+                <p className="text-xs text-muted-foreground">
+                  {formatAmount(expense.amount * lockedRate.rate, lockedRate.currency)} at{" "}
+                  {formatRate(expense.currency, lockedRate.rate, lockedRate.currency)}
+                  {lockedRate.manual ? ", entered by hand" : ` on ${formattedDate.toLowerCase()}`}
+                </p>
+              )}
             </div>
 
             <div>
@@ -48,12 +60,23 @@ export function ExpenseDetailsDialog({ open, onOpenChange, expense }: ExpenseDet
 
             <div>
               <p className="text-sm text-muted-foreground">paid by</p>
-              <p className="font-medium">{expense.payer.name}</p>
+              {expense.payers.length > 1 ? (
+                expense.payers.map((payer) => (
+                  <p key={payer.person.id} className="font-medium">
+                    {payer.person.name}{" "}
+                    <span className="font-normal text-muted-foreground">
+                      {formatAmount(payer.amount, expense.currency)}
+                    </span>
+                  </p>
+                ))
+              ) : (
+                <p className="font-medium">{payerNames(expense)}</p>
+              )}
             </div>
 
             <div>
               <p className="text-sm text-muted-foreground">your share</p>
-              <p className="font-medium text-red-600">-${expense.yourShare.toFixed(2)}</p>
+              <p className="font-medium text-red-600">-{formatAmount(expense.yourShare, expense.currency)}</p>
             </div>
 
             <div>
@@ -69,6 +92,36 @@ export function ExpenseDetailsDialog({ open, onOpenChange, expense }: ExpenseDet
             </div>
           )}
 
+          {expense.receipt && (
+            <div>
+              <p className="text-sm text-muted-foreground mb-1">items</p>
+              <div className="space-y-1 rounded-md border p-3">
+                {expense.receipt.items.map((item, index) => (
+                  <div key={index} className="flex justify-between gap-2 text-sm">
+                    <span className="min-w-0">
+                      {item.quantity > 1 && `${item.quantity} × `}
+                      {item.name}
+                      <span className="ml-2 text-xs text-muted-foreground">{item.sharedBy.join(", ")}</span>
+                    </span>
+                    <span>{formatAmount(item.total, expense.currency)}</span>
+                  </div>
+                ))}
+                {expense.receipt.tax !== null && (
+                  <div className="flex justify-between border-t pt-1 text-sm text-muted-foreground">
+                    <span>tax{expense.receipt.taxPercentage !== null && ` (${expense.receipt.taxPercentage}%)`}</span>
+                    <span>{formatAmount(expense.receipt.tax, expense.currency)}</span>
+                  </div>
+                )}
+                {expense.receipt.tip !== null && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    <span>tip{expense.receipt.tipPercentage !== null && ` (${expense.receipt.tipPercentage}%)`}</span>
+                    <span>{formatAmount(expense.receipt.tip, expense.currency)}</span>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
           {expense.notes && (
             <div>
               <p className="text-sm text-muted-foreground">notes</p>
@@ -3,110 +3,83 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { MoreHorizontal, Receipt } from "lucide-react"
+import { MoreHorizontal, Receipt, Repeat } from "lucide-react"
 import { EditExpenseDialog } from "./edit-expense-dialog"
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { DataStatus } from "./data-status"
+import { CategoryBadge } from "./category-badge"
+import { combineStates, useActivityContext, useCategories, useGroupExpenses } from "@/hooks/use-api"
 import { useToast } from "@/hooks/use-toast"
+import { useCurrency } from "@/contexts/currency-context"
+import { deleteExpense, type CategoryFilter } from "@/lib/api"
+import { findCategory } from "@/lib/categories"
+import { payerNames, toExpenseItem, type ExpenseItem } from "@/lib/activity"
 
 interface ExpenseListProps {
   groupId: string
+  // Viewers see the expenses without the edit and delete actions
+  readOnly?: boolean
+  // Only expenses in this category, or uncategorized ones with "none"
+  category?: CategoryFilter
 }
 
-export function ExpenseList({ groupId }: ExpenseListProps) {
+export function ExpenseList({ groupId, readOnly = false, category }: ExpenseListProps) {
   const [editExpenseOpen, setEditExpenseOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
-  const [currentExpense, setCurrentExpense] = useState<any>(null)
+  const [currentExpense, setCurrentExpense] = useState<ExpenseItem | null>(null)
+  const groupExpenses = useGroupExpenses(groupId, category)
+  const categories = useCategories(groupId)
+  const context = useActivityContext()
+  const { formatAmount } = useCurrency()
   const { toast } = useToast()
+  const status = combineStates(groupExpenses, context)
 
-  // Mock data for expenses
-  const expenses = [
-    {
-      id: "1",
-      description: "dinner at italian restaurant",
-      amount: 120.0,
-      date: "apr 10, 2023",
-      payer: {
-        name: "alex",
-        avatar: "a",
-      },
-      split: "equal",
-      yourShare: 30.0,
-    },
-    {
-      id: "2",
-      description: "hotel reservation",
-      amount: 350.0,
-      date: "apr 9, 2023",
-      payer: {
-        name: "jamie",
-        avatar: "j",
-      },
-      split: "equal",
-      yourShare: 87.5,
-    },
-    {
-      id: "3",
-      description: "museum tickets",
-      amount: 85.5,
-      date: "apr 8, 2023",
-      payer: {
-        name: "sam",
-        avatar: "s",
-      },
-      split: "equal",
-      yourShare: 21.38,
-    },
-    {
-      id: "4",
-      description: "taxi to airport",
-      amount: 45.0,
-      date: "apr 7, 2023",
-      payer: {
-        name: "you",
-        avatar: "y",
-      },
-      split: "equal",
-      yourShare: 11.25,
-    },
-    {
-      id: "5",
-      description: "groceries",
-      amount: 65.75,
-      date: "apr 6, 2023",
-      payer: {
-        name: "alex",
-        avatar: "a",
-      },
-      split: "equal",
-      yourShare: 16.44,
-    },
-  ]
+  const activity = context.data
+  const expenses = groupExpenses.data && activity ? groupExpenses.data.map((e) => toExpenseItem(e, activity)) : []
 
   // Update the handleEditExpense function to properly open the edit dialog
-  const handleEditExpense = (expense: any) => {
+  const handleEditExpense = (expense: ExpenseItem) => {
     setCurrentExpense(expense)
     setEditExpenseOpen(true)
   }
 
-  const handleDeleteExpense = (expense: any) => {
+  const handleDeleteExpense = (expense: ExpenseItem) => {
     setCurrentExpense(expense)
     setDeleteDialogOpen(true)
   }
 
-  const confirmDeleteExpense = () => {
-    // In a real app, this would call an API to delete the expense
-    console.log(`Deleting expense ${currentExpense.id}`)
+  const confirmDeleteExpense = async () => {
+    if (!currentExpense) return
     setDeleteDialogOpen(false)
 
-    toast({
-      title: "expense deleted",
-      description: "The expense has been deleted successfully",
-      duration: 3000,
-    })
+    try {
+      await deleteExpense(groupId, currentExpense.id)
+      groupExpenses.reload()
+      toast({
+        title: "expense deleted",
+        description: "The expense has been deleted successfully",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "expense not deleted",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (!status.isReady) {
+    return <DataStatus {...status} />
   }
 
   return (
     <div className="divide-y">
+      {expenses.length === 0 && (
+        <div className="p-4 text-center text-sm text-muted-foreground">
+          {category ? "no expenses in this category" : "no expenses yet"}
+        </div>
+      )}
       {expenses.map((expense) => (
         <div key={expense.id} className="flex items-start justify-between gap-3 p-4">
           <div className="flex items-start gap-3 min-w-0">
@@ -114,35 +87,47 @@ export function ExpenseList({ groupId }: ExpenseListProps) {
               <Receipt className="h-4 w-4" />
             </div>
             <div className="min-w-0">
-              <p className="truncate text-sm">{expense.description}</p>
+              <div className="flex items-center gap-1">
+                <p className="truncate text-sm">{expense.description}</p>
+                {expense.recurring && (
+                  <span className="text-muted-foreground" title="repeats">
+                    <Repeat className="h-3 w-3" />
+                  </span>
+                )}
+              </div>
               <div className="mt-1 pt-1 flex flex-wrap items-center text-xs text-muted-foreground">
                 <span className="mr-2">
-                  {expense.payer.name} paid ${expense.amount.toFixed(2)}
+                  {payerNames(expense)} paid {formatAmount(expense.amount, expense.currency)}
                 </span>
                 <div className="h-3 w-px bg-gray-300 mx-2"></div>
                 <span>{expense.date}</span>
+                <CategoryBadge category={findCategory(expense.category, categories.data)} className="ml-2" />
               </div>
             </div>
           </div>
           <div className="flex flex-col items-end gap-1">
             <div className="flex items-center gap-1">
-              <span className="text-xs font-medium text-red-600">-${expense.yourShare.toFixed(2)}</span>
-              <DropdownMenu>
-                <DropdownMenuTrigger asChild>
-                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
-                    <MoreHorizontal className="h-3 w-3" />
-                    <span className="sr-only">more</span>
-                  </Button>
-                </DropdownMenuTrigger>
-                <DropdownMenuContent align="end" className="w-36">
-                  <DropdownMenuItem className="text-xs" onSelect={() => handleEditExpense(expense)}>
-                    edit expense
-                  </DropdownMenuItem>
-                  <DropdownMenuItem className="text-xs text-red-600" onSelect={() => handleDeleteExpense(expense)}>
-                    delete
-                  </DropdownMenuItem>
-                </DropdownMenuContent>
-              </DropdownMenu>
+              <span className="text-xs font-medium text-red-600">
+                -{formatAmount(expense.yourShare, expense.currency)}
+              </span>
+              {!readOnly && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                      <MoreHorizontal className="h-3 w-3" />
+                      <span className="sr-only">more</span>
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" className="w-36">
+                    <DropdownMenuItem className="text-xs" onSelect={() => handleEditExpense(expense)}>
+                      edit expense
+                    </DropdownMenuItem>
+                    <DropdownMenuItem className="text-xs text-red-600" onSelect={() => handleDeleteExpense(expense)}>
+                      delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
             </div>
             <span className="text-[10px] text-muted-foreground">split: {expense.split}</span>
           </div>
@@ -156,6 +141,7 @@ export function ExpenseList({ groupId }: ExpenseListProps) {
           onOpenChange={setEditExpenseOpen}
           expense={currentExpense}
           groupId={groupId}
+          onSaved={groupExpenses.reload}
         />
       )}
 
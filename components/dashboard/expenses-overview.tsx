@@ -6,11 +6,16 @@ import { Input } from "@/components/ui/input"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Plus, Search } from "lucide-react"
 import { AllExpensesList } from "./all-expenses-list"
+import { CategoryFilter } from "./category-filter"
 import { useState } from "react"
 import { UnifiedExpenseDialog } from "./unified-expense-dialog"
+import { useCategories } from "@/hooks/use-api"
+import type { CategoryFilter as CategoryFilterValue } from "@/lib/api"
 
 export function ExpensesOverview() {
   const [isExpenseDialogOpen, setIsExpenseDialogOpen] = useState(false)
+  const [category, setCategory] = useState<CategoryFilterValue>()
+  const categories = useCategories()
 
   return (
     <div className="space-y-4">
@@ -31,6 +36,7 @@ export function ExpensesOverview() {
           <Input type="search" placeholder="search expenses..." className="pl-9 h-9" />
         </div>
         <div className="flex gap-2">
+          <CategoryFilter categories={categories.data ?? []} value={category} onChange={setCategory} />
           <Select defaultValue="all-time">
             <SelectTrigger className="w-[130px] h-9">
               <SelectValue placeholder="Time period" />
@@ -51,7 +57,7 @@ export function ExpensesOverview() {
           <CardDescription>expenses from all your groups</CardDescription>
         </CardHeader>
         <CardContent className="p-0">
-          <AllExpensesList />
+          <AllExpensesList category={category} />
         </CardContent>
       </Card>
 
@@ -3,75 +3,180 @@
 import { useState } from "react"
 import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { Button } from "@/components/ui/button"
-import { CreditCard, Bell } from "lucide-react"
-import { useToast } from "@/hooks/use-toast"
+import { CreditCard, Bell, ArrowRight } from "lucide-react"
 import { useModal } from "@/contexts/modal-context"
+import { useCurrency } from "@/contexts/currency-context"
+import { ReminderDialog } from "./reminder-dialog"
+import { DataStatus } from "./data-status"
+import { combineStates, useCurrentUser, useGroup, useGroupBalances } from "@/hooks/use-api"
+import { displayName } from "@/lib/api"
 
 interface GroupBalancesProps {
   groupId: string
+  // Viewers see the balances without the settle up and remind actions
+  readOnly?: boolean
 }
 
-export function GroupBalances({ groupId }: GroupBalancesProps) {
+// Consolidated into the group currency, or each currency kept apart
+type View = "consolidated" | "byCurrency"
+
+interface BalanceRow {
+  id: string
+  name: string
+  amount: number
+  currency: string
+}
+
+export function GroupBalances({ groupId, readOnly = false }: GroupBalancesProps) {
   const [isReminderOpen, setIsReminderOpen] = useState(false)
-  const [selectedMember, setSelectedMember] = useState<any>(null)
-  const { toast } = useToast()
+  const [selectedMember, setSelectedMember] = useState<BalanceRow | null>(null)
+  const [view, setView] = useState<View>("consolidated")
   const { openSettleUpModal } = useModal()
+  const { formatAmount } = useCurrency()
+  const groupState = useGroup(groupId)
+  const balancesState = useGroupBalances(groupId)
+  const me = useCurrentUser()
+  const status = combineStates(groupState, balancesState, me)
+
+  const nameOf = (userId: string) =>
+    userId === me.data?.id
+      ? "you"
+      : displayName(groupState.data?.members.find((member) => member.userId === userId)?.user)
+
+  const data = balancesState.data
+  const shown = view === "byCurrency" ? data?.byCurrency : data
+  // Only offered when something in the group was spent or paid in another currency
+  const isMultiCurrency = (data?.byCurrency.members ?? []).some((member) => member.currency !== data?.currency)
+
+  // What each other member owes you (positive) or you owe them (negative)
+  const balances: BalanceRow[] = (shown?.balances ?? []).map((balance) => ({
+    ...balance,
+    name: nameOf(balance.id),
+  }))
 
-  // Mock data for balances
-  const balances = [
-    {
-      id: "1",
-      name: "alex",
-      avatar: "a",
-      amount: -45.75,
-    },
-    {
-      id: "2",
-      name: "jamie",
-      avatar: "j",
-      amount: -32.5,
-    },
-    {
-      id: "3",
-      name: "sam",
-      avatar: "s",
-      amount: 0,
-    },
-    {
-      id: "4",
-      name: "taylor",
-      avatar: "t",
-      amount: 78.25,
-    },
-  ]
-
-  const handlePayClick = (member: any) => {
+  // The transfers that settle the group, simplified when the group asks for it
+  const suggestedTransfers = (shown?.transfers ?? []).map((transfer, index) => ({
+    id: String(index),
+    from: { id: transfer.from, name: nameOf(transfer.from), isYou: transfer.from === me.data?.id },
+    to: { id: transfer.to, name: nameOf(transfer.to), isYou: transfer.to === me.data?.id },
+    amount: transfer.amount,
+    currency: transfer.currency,
+  }))
+
+  const handlePayClick = (member: BalanceRow) => {
     openSettleUpModal({
       groupId,
+      groupName: groupState.data?.name,
       preselectedMember: {
         id: member.id,
         name: member.name,
         amount: Math.abs(member.amount),
+        currency: member.currency,
       },
     })
   }
 
-  const handleRemindClick = (member: any) => {
-    setSelectedMember({
-      id: member.id,
-      name: member.name,
-      amount: Math.abs(member.amount),
-    })
+  const handleRemindClick = (member: BalanceRow) => {
+    setSelectedMember({ ...member, amount: Math.abs(member.amount) })
     setIsReminderOpen(true)
   }
 
+  const reminderDialog = selectedMember && (
+    <ReminderDialog
+      open={isReminderOpen}
+      onOpenChange={setIsReminderOpen}
+      memberName={selectedMember.name}
+      amount={selectedMember.amount}
+    />
+  )
+
+  const viewToggle = isMultiCurrency && (
+    <div className="flex justify-end p-2">
+      <div className="flex rounded-md border p-0.5">
+        <Button
+          variant={view === "consolidated" ? "secondary" : "ghost"}
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => setView("consolidated")}
+        >
+          in {data?.currency}
+        </Button>
+        <Button
+          variant={view === "byCurrency" ? "secondary" : "ghost"}
+          size="sm"
+          className="h-6 text-xs"
+          onClick={() => setView("byCurrency")}
+        >
+          by currency
+        </Button>
+      </div>
+    </div>
+  )
+
+  if (!status.isReady) {
+    return <DataStatus {...status} />
+  }
+
+  if (data?.simplifyDebts) {
+    return (
+      <div className="divide-y">
+        {viewToggle}
+        {suggestedTransfers.length === 0 ? (
+          <div className="p-4 text-center text-sm text-muted-foreground">everyone is settled up</div>
+        ) : (
+          suggestedTransfers.map((transfer) => (
+            <div key={transfer.id} className="flex items-center justify-between p-4">
+              <div className="flex items-center gap-2 min-w-0 text-sm">
+                <span className="truncate">{transfer.from.name}</span>
+                <ArrowRight className="h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="truncate">{transfer.to.name}</span>
+                <span className="text-xs text-muted-foreground">{formatAmount(transfer.amount, transfer.currency)}</span>
+              </div>
+              {!readOnly && transfer.from.isYou && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() =>
+                    handlePayClick({ ...transfer.to, amount: transfer.amount, currency: transfer.currency })
+                  }
+                >
+                  <CreditCard className="mr-1 h-3 w-3" />
+                  settle up
+                </Button>
+              )}
+              {!readOnly && transfer.to.isYou && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() =>
+                    handleRemindClick({ ...transfer.from, amount: transfer.amount, currency: transfer.currency })
+                  }
+                >
+                  <Bell className="mr-1 h-3 w-3" />
+                  Remind
+                </Button>
+              )}
+            </div>
+          ))
+        )}
+        {reminderDialog}
+      </div>
+    )
+  }
+
   return (
     <div className="divide-y">
+      {viewToggle}
+      {balances.length === 0 && (
+        <div className="p-4 text-center text-sm text-muted-foreground">everyone is settled up</div>
+      )}
       {balances.map((balance) => (
-        <div key={balance.id} className="flex items-center justify-between p-4">
+        <div key={`${balance.id}-${balance.currency}`} className="flex items-center justify-between p-4">
           <div className="flex items-center gap-3 min-w-0">
             <Avatar className="h-7 w-7">
-              <AvatarFallback className="text-xs">{balance.avatar.toLowerCase()}</AvatarFallback>
+              <AvatarFallback className="text-xs">{balance.name.charAt(0).toLowerCase()}</AvatarFallback>
             </Avatar>
             <div className="min-w-0">
               <p className="truncate text-sm">{balance.name}</p>
@@ -83,12 +188,12 @@ export function GroupBalances({ groupId }: GroupBalancesProps) {
                 {balance.amount === 0
                   ? "settled up"
                   : balance.amount < 0
-                    ? `-${Math.abs(balance.amount).toFixed(2)}`
-                    : `+${balance.amount.toFixed(2)}`}
+                    ? `-${formatAmount(Math.abs(balance.amount), balance.currency)}`
+                    : `+${formatAmount(balance.amount, balance.currency)}`}
               </p>
             </div>
           </div>
-          {balance.amount !== 0 && (
+          {!readOnly && balance.amount !== 0 && (
             <Button
               variant="outline"
               size="sm"
@@ -110,6 +215,7 @@ export function GroupBalances({ groupId }: GroupBalancesProps) {
           )}
         </div>
       ))}
+      {reminderDialog}
     </div>
   )
 }
@@ -7,14 +7,31 @@ import { Avatar, AvatarFallback } from "@/components/ui/avatar"
 import { ExpenseList } from "./expense-list"
 import { GroupMembers } from "./group-members"
 import { GroupBalances } from "./group-balances"
-import { SettleUpDialog } from "./settle-up-dialog"
+import { RecurringExpenses } from "./recurring-expenses"
+import { CategoryFilter } from "./category-filter"
+import { ManageCategoriesDialog } from "./manage-categories-dialog"
+import { SettleUpDialogWithCurrency } from "./settle-up-dialog-with-currency"
 import { InviteMemberDialog } from "./invite-member-dialog"
+import { AddGuestDialog } from "./add-guest-dialog"
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
 import { Plus, CreditCard, ArrowLeft, UserPlus, Edit } from "lucide-react"
 import Link from "next/link"
+import { format, parseISO } from "date-fns"
 import { useRouter } from "next/navigation"
 import { EditGroupDialog } from "./edit-group-dialog"
 import { UnifiedExpenseDialog } from "./unified-expense-dialog"
+import { DataStatus } from "./data-status"
+import { useCurrency } from "@/contexts/currency-context"
+import {
+  combineStates,
+  useCategories,
+  useCurrentUser,
+  useGroup,
+  useGroupBalances,
+  useGroupExpenses,
+} from "@/hooks/use-api"
+import { useToast } from "@/hooks/use-toast"
+import { archiveGroup, canContribute, canManage, roleIn, type CategoryFilter as CategoryFilterValue } from "@/lib/api"
 
 interface GroupDetailProps {
   id: string
@@ -25,32 +42,49 @@ export function GroupDetail({ id }: GroupDetailProps) {
   const [isAddExpenseOpen, setIsAddExpenseOpen] = useState(false)
   const [isSettleUpOpen, setIsSettleUpOpen] = useState(false)
   const [isInviteMemberOpen, setIsInviteMemberOpen] = useState(false)
+  const [isAddGuestOpen, setIsAddGuestOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [isEditGroupOpen, setIsEditGroupOpen] = useState(false)
+  const [membersVersion, setMembersVersion] = useState(0)
+  const [isCategoriesOpen, setIsCategoriesOpen] = useState(false)
+  const [categoriesVersion, setCategoriesVersion] = useState(0)
+  const [category, setCategory] = useState<CategoryFilterValue>()
 
-  // Mock data for the group
-  const group = {
-    id,
-    name: id === "1" ? "roommates" : id === "2" ? "trip to barcelona" : id === "3" ? "office lunch" : "game night",
-    description:
-      id === "1"
-        ? "monthly apartment expenses"
-        : id === "2"
-          ? "vacation expenses"
-          : id === "3"
-            ? "weekly team lunches"
-            : "monthly game night expenses",
-    members: id === "1" ? 3 : id === "2" ? 4 : id === "3" ? 5 : 6,
-    totalExpenses: id === "1" ? 1250.75 : id === "2" ? 2340.5 : id === "3" ? 450.25 : 320.0,
-    currency: "USD",
-    created: "jan 15, 2023",
+  const groupState = useGroup(id)
+  const balancesState = useGroupBalances(id)
+  const expensesState = useGroupExpenses(id)
+  const me = useCurrentUser()
+  const categories = useCategories(id)
+  const status = combineStates(groupState, balancesState, expensesState, me)
+  const { formatAmount } = useCurrency()
+  const { toast } = useToast()
+
+  const group = groupState.data
+  if (!status.isReady || !group) {
+    return <DataStatus {...status} />
   }
 
-  const handleDeleteGroup = () => {
-    // In a real app, this would call an API to delete the group
-    console.log(`Deleting group ${id}`)
+  const totalExpenses = (expensesState.data ?? [])
+    .filter((expense) => expense.currency === group.currency)
+    .reduce((sum, expense) => sum + expense.amount, 0)
+  const yourBalance = balancesState.data?.members.find((member) => member.id === me.data?.id)?.amount ?? 0
+  const owedBy = (balancesState.data?.balances ?? []).filter((balance) => balance.amount > 0).length
+  const owing = (balancesState.data?.balances ?? []).filter((balance) => balance.amount < 0).length
+  const members = group.members.map((member) => member.user)
+  const myRole = roleIn(group, me.data?.id)
+
+  const handleDeleteGroup = async () => {
     setDeleteDialogOpen(false)
-    router.push("/dashboard/groups")
+    try {
+      await archiveGroup(id)
+      router.push("/dashboard/groups")
+    } catch (error) {
+      toast({
+        title: "group not archived",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
   }
 
   return (
@@ -66,31 +100,39 @@ export function GroupDetail({ id }: GroupDetailProps) {
           <div>
             <div className="flex items-center gap-2">
               <h1 className="text-xl font-medium md:text-2xl">{group.name}</h1>
-              <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setIsEditGroupOpen(true)}>
-                <Edit className="h-3.5 w-3.5" />
-                <span className="sr-only">edit group</span>
-              </Button>
+              {canManage(myRole) && (
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setIsEditGroupOpen(true)}>
+                  <Edit className="h-3.5 w-3.5" />
+                  <span className="sr-only">edit group</span>
+                </Button>
+              )}
             </div>
             <p className="text-sm text-muted-foreground">{group.description}</p>
           </div>
         </div>
         <div className="flex gap-2 mt-2 md:mt-0">
-          <Button
-            variant="outline"
-            size="sm"
-            className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
-            onClick={() => setDeleteDialogOpen(true)}
-          >
-            delete group
-          </Button>
-          <Button variant="outline" size="sm" onClick={() => setIsSettleUpOpen(true)}>
-            <CreditCard className="mr-1 h-4 w-4" />
-            settle up
-          </Button>
-          <Button size="sm" onClick={() => setIsAddExpenseOpen(true)}>
-            <Plus className="mr-1 h-4 w-4" />
-            add expense
-          </Button>
+          {canManage(myRole) && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="text-red-600 border-red-200 hover:bg-red-50 hover:text-red-700"
+              onClick={() => setDeleteDialogOpen(true)}
+            >
+              archive group
+            </Button>
+          )}
+          {canContribute(myRole) && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => setIsSettleUpOpen(true)}>
+                <CreditCard className="mr-1 h-4 w-4" />
+                settle up
+              </Button>
+              <Button size="sm" onClick={() => setIsAddExpenseOpen(true)}>
+                <Plus className="mr-1 h-4 w-4" />
+                add expense
+              </Button>
+            </>
+          )}
         </div>
       </div>
 
@@ -99,8 +141,10 @@ export function GroupDetail({ id }: GroupDetailProps) {
           <CardContent className="p-4">
             <div className="flex flex-col">
               <span className="text-xs uppercase text-muted-foreground font-medium mb-1">total expenses</span>
-              <span className="text-xl font-medium">${group.totalExpenses.toFixed(2)}</span>
-              <span className="text-xs text-muted-foreground mt-1">since {group.created}</span>
+              <span className="text-xl font-medium">{formatAmount(totalExpenses, group.currency)}</span>
+              <span className="text-xs text-muted-foreground mt-1">
+                since {format(parseISO(group.createdAt), "MMM d, yyyy").toLowerCase()}
+              </span>
             </div>
           </CardContent>
         </Card>
@@ -108,20 +152,18 @@ export function GroupDetail({ id }: GroupDetailProps) {
           <CardContent className="p-4">
             <div className="flex flex-col">
               <span className="text-xs uppercase text-muted-foreground font-medium mb-1">members</span>
-              <span className="text-xl font-medium">{group.members}</span>
+              <span className="text-xl font-medium">{members.length}</span>
               <div className="mt-1 flex space-x-1">
-                <Avatar className="h-5 w-5 border border-background">
-                  <AvatarFallback className="text-[10px]">as</AvatarFallback>
-                </Avatar>
-                <Avatar className="h-5 w-5 border border-background">
-                  <AvatarFallback className="text-[10px]">jd</AvatarFallback>
-                </Avatar>
-                <Avatar className="h-5 w-5 border border-background">
-                  <AvatarFallback className="text-[10px]">jj</AvatarFallback>
-                </Avatar>
-                {group.members > 3 && (
+                {members.slice(0, 3).map((member) => (
+                  <Avatar key={member.id} className="h-5 w-5 border border-background">
+                    <AvatarFallback className="text-[10px]">
+                      {`${member.firstName.charAt(0)}${member.lastName.charAt(0)}`.toLowerCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                ))}
+                {members.length > 3 && (
                   <Avatar className="h-5 w-5 border border-background">
-                    <AvatarFallback className="text-[10px]">+{group.members - 3}</AvatarFallback>
+                    <AvatarFallback className="text-[10px]">+{members.length - 3}</AvatarFallback>
                   </Avatar>
                 )}
               </div>
@@ -132,8 +174,22 @@ export function GroupDetail({ id }: GroupDetailProps) {
           <CardContent className="p-4">
             <div className="flex flex-col">
               <span className="text-xs uppercase text-muted-foreground font-medium mb-1">your balance</span>
-              <span className="text-xl font-medium text-red-600">-$78.25</span>
-              <span className="text-xs text-muted-foreground mt-1">you owe money to 2 people</span>
+              <span
+                className={`text-xl font-medium ${
+                  yourBalance < 0 ? "text-red-600" : yourBalance > 0 ? "text-green-600" : ""
+                }`}
+              >
+                {yourBalance === 0
+                  ? "settled up"
+                  : `${yourBalance > 0 ? "+" : "-"}${formatAmount(Math.abs(yourBalance), group.currency)}`}
+              </span>
+              <span className="text-xs text-muted-foreground mt-1">
+                {owing > 0
+                  ? `you owe money to ${owing} ${owing === 1 ? "person" : "people"}`
+                  : owedBy > 0
+                    ? `${owedBy} ${owedBy === 1 ? "person owes" : "people owe"} you money`
+                    : "nobody owes anything"}
+              </span>
             </div>
           </CardContent>
         </Card>
@@ -149,13 +205,51 @@ export function GroupDetail({ id }: GroupDetailProps) {
       </div>
 
       <div className="space-y-4">
+        <Card className="border">
+          <CardHeader className="p-4 pb-0 flex flex-row items-center justify-between">
+            <div>
+              <CardTitle className="text-base">expenses</CardTitle>
+              <CardDescription>all expenses in this group</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <CategoryFilter
+                categories={categories.data ?? []}
+                value={category}
+                onChange={setCategory}
+                className="w-[150px] h-7 text-xs"
+              />
+              {canContribute(myRole) && (
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setIsCategoriesOpen(true)}>
+                  categories
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className="p-0">
+            {/* Remounted when categories change, since deleting one also uncategorizes its expenses */}
+            <ExpenseList
+              key={categoriesVersion}
+              groupId={id}
+              readOnly={!canContribute(myRole)}
+              category={category}
+            />
+          </CardContent>
+        </Card>
+
         <Card className="border">
           <CardHeader className="p-4 pb-0">
-            <CardTitle className="text-base">expenses</CardTitle>
-            <CardDescription>all expenses in this group</CardDescription>
+            <CardTitle className="text-base">recurring</CardTitle>
+            <CardDescription>expenses added again on a schedule, such as rent</CardDescription>
           </CardHeader>
           <CardContent className="p-0">
-            <ExpenseList groupId={id} />
+            <RecurringExpenses
+              groupId={id}
+              readOnly={!canContribute(myRole)}
+              onExpensesChange={() => {
+                expensesState.reload()
+                balancesState.reload()
+              }}
+            />
           </CardContent>
         </Card>
 
@@ -163,10 +257,12 @@ export function GroupDetail({ id }: GroupDetailProps) {
           <Card className="border">
             <CardHeader className="p-4 pb-0">
               <CardTitle className="text-base">balances</CardTitle>
-              <CardDescription>who owes whom in this group</CardDescription>
+              <CardDescription>
+                {group.simplifyDebts ? "fewest payments to settle the group" : "who owes whom in this group"}
+              </CardDescription>
             </CardHeader>
             <CardContent className="p-0">
-              <GroupBalances groupId={id} />
+              <GroupBalances groupId={id} readOnly={!canContribute(myRole)} />
             </CardContent>
           </Card>
 
@@ -176,13 +272,24 @@ export function GroupDetail({ id }: GroupDetailProps) {
                 <CardTitle className="text-base">members</CardTitle>
                 <CardDescription>people in this group</CardDescription>
               </div>
-              <Button size="sm" className="h-7 text-xs" onClick={() => setIsInviteMemberOpen(true)}>
-                <UserPlus className="mr-1 h-3 w-3" />
-                invite
-              </Button>
+              {canContribute(myRole) && (
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setIsAddGuestOpen(true)}>
+                    add guest
+                  </Button>
+                  <Button size="sm" className="h-7 text-xs" onClick={() => setIsInviteMemberOpen(true)}>
+                    <UserPlus className="mr-1 h-3 w-3" />
+                    invite
+                  </Button>
+                </div>
+              )}
             </CardHeader>
             <CardContent className="p-0">
-              <GroupMembers groupId={id} />
+              <GroupMembers
+                groupId={id}
+                version={membersVersion}
+                onMembersChange={groupState.reload}
+              />
             </CardContent>
           </Card>
         </div>
@@ -196,21 +303,50 @@ export function GroupDetail({ id }: GroupDetailProps) {
         groupCurrency={group.currency}
       />
 
-      <SettleUpDialog open={isSettleUpOpen} onOpenChange={setIsSettleUpOpen} groupId={id} groupName={group.name} />
+      <SettleUpDialogWithCurrency
+        open={isSettleUpOpen}
+        onOpenChange={setIsSettleUpOpen}
+        groupId={id}
+        groupName={group.name}
+        groupCurrency={group.currency}
+        onSettled={balancesState.reload}
+      />
 
       <InviteMemberDialog
         open={isInviteMemberOpen}
         onOpenChange={setIsInviteMemberOpen}
         groupId={id}
         groupName={group.name}
+        onInvited={() => setMembersVersion((version) => version + 1)}
+      />
+
+      <AddGuestDialog
+        open={isAddGuestOpen}
+        onOpenChange={setIsAddGuestOpen}
+        groupId={id}
+        onAdded={() => {
+          groupState.reload()
+          setMembersVersion((version) => version + 1)
+        }}
       />
 
       <DeleteConfirmationDialog
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
         onConfirm={handleDeleteGroup}
-        title="delete group"
-        description="are you sure you want to delete this group? all expenses and settlements in this group will be permanently deleted. this action cannot be undone."
+        title="archive group"
+        description="are you sure you want to archive this group? its expenses and settlements are kept, but no new ones can be added."
+        confirmLabel="archive"
+      />
+
+      <ManageCategoriesDialog
+        open={isCategoriesOpen}
+        onOpenChange={setIsCategoriesOpen}
+        groupId={id}
+        onChanged={() => {
+          categories.reload()
+          setCategoriesVersion((version) => version + 1)
+        }}
       />
 
       <EditGroupDialog
@@ -219,6 +355,11 @@ export function GroupDetail({ id }: GroupDetailProps) {
         groupId={id}
         groupName={group.name}
         groupDescription={group.description}
+        groupSimplifyDebts={group.simplifyDebts}
+        onSaved={() => {
+          groupState.reload()
+          balancesState.reload()
+        }}
       />
     </div>
   )
@@ -3,81 +3,166 @@
 import { useState } from "react"
 import { Button } from "@/components/ui/button"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
-import { MoreHorizontal, Crown } from "lucide-react"
+import { Dialog, DialogContent } from "@/components/ui/dialog"
+import { MoreHorizontal, Crown, Mail } from "lucide-react"
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { DataStatus } from "./data-status"
+import { DialogHeader } from "./dialog-header"
+import { InvitationLink } from "./invitation-link"
+import { InviteMemberDialog } from "./invite-member-dialog"
+import { useApi, useCurrentUser } from "@/hooks/use-api"
 import { useToast } from "@/hooks/use-toast"
+import {
+  canContribute,
+  canManage,
+  getGroup,
+  getInvitations,
+  removeMember,
+  resendInvitation,
+  revokeInvitation,
+  roleIn,
+  transferOwnership,
+  updateMemberRole,
+} from "@/lib/api"
+import type { GroupInvitation, GroupRole, IssuedInvitation, User } from "@/types/api"
 
 interface GroupMembersProps {
   groupId: string
+  // Bumped by the parent after it invites or adds someone, to refetch members and invitations
+  version?: number
+  // Called after roles or membership change, so the parent can refresh what it shows
+  onMembersChange?: () => void
 }
 
-export function GroupMembers({ groupId }: GroupMembersProps) {
+interface MemberRow extends User {
+  role: GroupRole
+}
+
+const ASSIGNABLE_ROLES: GroupRole[] = ["admin", "member", "viewer"]
+
+export function GroupMembers({ groupId, version = 0, onMembersChange }: GroupMembersProps) {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
-  const [memberToRemove, setMemberToRemove] = useState<any>(null)
+  const [memberToRemove, setMemberToRemove] = useState<MemberRow | null>(null)
+  const [newOwner, setNewOwner] = useState<MemberRow | null>(null)
+  const [guestToClaim, setGuestToClaim] = useState<MemberRow | null>(null)
+  const [resent, setResent] = useState<IssuedInvitation | null>(null)
   const { toast } = useToast()
+  const group = useApi(() => getGroup(groupId), [groupId, version])
+  const me = useCurrentUser()
+  const invitations = useApi(() => getInvitations(groupId), [groupId, version])
+
+  const myRole = roleIn(group.data, me.data?.id)
+  const members: MemberRow[] = (group.data?.members ?? []).map((member) => ({
+    ...member.user,
+    role: member.role,
+  }))
+
+  const guestName = (id: string) => members.find((member) => member.id === id)?.firstName ?? "a guest"
+
+  const refresh = () => {
+    group.reload()
+    onMembersChange?.()
+  }
 
-  // Mock data for members
-  const members = [
-    {
-      id: "1",
-      firstName: "John",
-      lastName: "Doe",
-      email: "john.doe@example.com",
-      isAdmin: true,
-      joinDate: "jan 15, 2023",
-    },
-    {
-      id: "2",
-      firstName: "Alex",
-      lastName: "Smith",
-      email: "alex.smith@example.com",
-      isAdmin: false,
-      joinDate: "jan 15, 2023",
-    },
-    {
-      id: "3",
-      firstName: "Jamie",
-      lastName: "Johnson",
-      email: "jamie.johnson@example.com",
-      isAdmin: false,
-      joinDate: "jan 16, 2023",
-    },
-    {
-      id: "4",
-      firstName: "Sam",
-      lastName: "Taylor",
-      email: "sam.taylor@example.com",
-      isAdmin: false,
-      joinDate: "jan 17, 2023",
-    },
-  ]
-
-  const handleMakeAdmin = (member: any) => {
-    // In a real app, this would call an API to make the member an admin
-    console.log(`Making ${member.firstName} an admin`)
-
-    toast({
-      title: "admin role granted",
-      description: `${member.firstName} is now an admin of this group`,
-      duration: 3000,
-    })
+  const handleChangeRole = async (member: MemberRow, role: GroupRole) => {
+    try {
+      await updateMemberRole(groupId, member.id, role)
+      refresh()
+      toast({
+        title: "role changed",
+        description: `${member.firstName} is now ${role === "admin" ? "an" : "a"} ${role} of this group`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "role not changed",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
   }
 
-  const handleRemoveMember = (member: any) => {
+  const handleRemoveMember = (member: MemberRow) => {
     setMemberToRemove(member)
     setDeleteDialogOpen(true)
   }
 
-  const confirmRemoveMember = () => {
-    // In a real app, this would call an API to remove the member
-    console.log(`Removing ${memberToRemove.firstName} from the group`)
+  const confirmRemoveMember = async () => {
+    if (!memberToRemove) return
     setDeleteDialogOpen(false)
 
-    toast({
-      title: "member removed",
-      description: `${memberToRemove.firstName} has been removed from the group`,
-      duration: 3000,
-    })
+    try {
+      await removeMember(groupId, memberToRemove.id)
+      refresh()
+      toast({
+        title: "member removed",
+        description: `${memberToRemove.firstName} has been removed from the group`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "member not removed",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const confirmTransferOwnership = async () => {
+    if (!newOwner) return
+    const member = newOwner
+    setNewOwner(null)
+
+    try {
+      await transferOwnership(groupId, member.id)
+      refresh()
+      toast({
+        title: "ownership transferred",
+        description: `${member.firstName} now owns this group; you stay on as an admin`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "ownership not transferred",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleResendInvitation = async (invitation: GroupInvitation) => {
+    try {
+      setResent(await resendInvitation(groupId, invitation.id))
+      invitations.reload()
+    } catch (error) {
+      toast({
+        title: "invitation not resent",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRevokeInvitation = async (invitation: GroupInvitation) => {
+    try {
+      await revokeInvitation(groupId, invitation.id)
+      invitations.reload()
+      toast({
+        title: "invitation revoked",
+        description: `the link sent to ${invitation.email} no longer works`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "invitation not revoked",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (!group.data) {
+    return <DataStatus {...group} />
   }
 
   return (
@@ -94,16 +179,73 @@ export function GroupMembers({ groupId }: GroupMembersProps) {
                 <p className="truncate text-sm font-medium">
                   {member.firstName} {member.lastName.charAt(0)}
                 </p>
-                {member.isAdmin && (
-                  <div className="flex items-center text-yellow-500" title="Group Admin">
+                {member.role === "owner" && (
+                  <div className="flex items-center text-yellow-500" title="Group Owner">
                     <Crown className="h-3 w-3" />
                   </div>
                 )}
+                {(member.role === "admin" || member.role === "viewer") && (
+                  <span className="text-[10px] text-muted-foreground">{member.role}</span>
+                )}
               </div>
-              <p className="text-xs text-muted-foreground truncate">{member.email}</p>
+              <p className="text-xs text-muted-foreground truncate">
+                {member.isGuest ? "guest, no account" : member.email}
+              </p>
+            </div>
+          </div>
+          {((canManage(myRole) && member.role !== "owner" && member.id !== me.data?.id) ||
+            (member.isGuest && canContribute(myRole))) && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                  <MoreHorizontal className="h-3 w-3" />
+                  <span className="sr-only">more</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-40">
+                {member.isGuest ? (
+                  <DropdownMenuItem className="text-xs" onSelect={() => setGuestToClaim(member)}>
+                    invite to claim
+                  </DropdownMenuItem>
+                ) : (
+                  canManage(myRole) &&
+                  ASSIGNABLE_ROLES.filter((role) => role !== member.role).map((role) => (
+                    <DropdownMenuItem key={role} className="text-xs" onSelect={() => handleChangeRole(member, role)}>
+                      make {role}
+                    </DropdownMenuItem>
+                  ))
+                )}
+                {myRole === "owner" && !member.isGuest && (
+                  <DropdownMenuItem className="text-xs" onSelect={() => setNewOwner(member)}>
+                    transfer ownership
+                  </DropdownMenuItem>
+                )}
+                {canManage(myRole) && (
+                  <DropdownMenuItem className="text-xs text-red-600" onSelect={() => handleRemoveMember(member)}>
+                    remove
+                  </DropdownMenuItem>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      ))}
+
+      {(invitations.data ?? []).map((invitation) => (
+        <div key={invitation.id} className="flex items-center justify-between p-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="flex h-8 w-8 items-center justify-center rounded-md border border-dashed text-muted-foreground">
+              <Mail className="h-3 w-3" />
+            </div>
+            <div className="min-w-0">
+              <p className="truncate text-sm">{invitation.email}</p>
+              <p className="text-xs text-muted-foreground">
+                {invitation.guestId ? `invited to claim ${guestName(invitation.guestId)}` : "invited"}, expires{" "}
+                {new Date(invitation.expiresAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}
+              </p>
             </div>
           </div>
-          {!member.isAdmin && (
+          {canContribute(myRole) && (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
@@ -112,11 +254,11 @@ export function GroupMembers({ groupId }: GroupMembersProps) {
                 </Button>
               </DropdownMenuTrigger>
               <DropdownMenuContent align="end" className="w-36">
-                <DropdownMenuItem className="text-xs" onSelect={() => handleMakeAdmin(member)}>
-                  make admin
+                <DropdownMenuItem className="text-xs" onSelect={() => handleResendInvitation(invitation)}>
+                  resend
                 </DropdownMenuItem>
-                <DropdownMenuItem className="text-xs text-red-600" onSelect={() => handleRemoveMember(member)}>
-                  remove
+                <DropdownMenuItem className="text-xs text-red-600" onSelect={() => handleRevokeInvitation(invitation)}>
+                  revoke
                 </DropdownMenuItem>
               </DropdownMenuContent>
             </DropdownMenu>
@@ -124,6 +266,17 @@ export function GroupMembers({ groupId }: GroupMembersProps) {
         </div>
       ))}
 
+      <Dialog open={!!resent} onOpenChange={(open) => !open && setResent(null)}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader title="invitation resent" description="the previous link no longer works" />
+          {resent && (
+            <div className="py-4">
+              <InvitationLink issued={resent} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       <DeleteConfirmationDialog
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
@@ -131,6 +284,24 @@ export function GroupMembers({ groupId }: GroupMembersProps) {
         title="remove member"
         description={`Are you sure you want to remove ${memberToRemove?.firstName} from this group? They will no longer have access to the group's expenses.`}
       />
+
+      <InviteMemberDialog
+        open={!!guestToClaim}
+        onOpenChange={(open) => !open && setGuestToClaim(null)}
+        groupId={groupId}
+        groupName={group.data.name}
+        guest={guestToClaim ? { id: guestToClaim.id, name: guestToClaim.firstName } : undefined}
+        onInvited={invitations.reload}
+      />
+
+      <DeleteConfirmationDialog
+        open={!!newOwner}
+        onOpenChange={(open) => !open && setNewOwner(null)}
+        onConfirm={confirmTransferOwnership}
+        title="transfer ownership"
+        description={`${newOwner?.firstName} will own this group and can change anyone's role, including yours. You will stay on as an admin.`}
+        confirmLabel="transfer"
+      />
     </div>
   )
 }
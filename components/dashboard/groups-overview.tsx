@@ -7,14 +7,25 @@ import { Plus, Search, Users, ArrowRight } from "lucide-react"
 import Link from "next/link"
 import { useState } from "react"
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { DataStatus } from "./data-status"
+import { useCurrency } from "@/contexts/currency-context"
+import { combineStates, useBalances, useGroups } from "@/hooks/use-api"
+import { useToast } from "@/hooks/use-toast"
+import { archiveGroup } from "@/lib/api"
+import { roundMoney } from "@/lib/money"
 
 export function GroupsOverview() {
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
   const [groupToDelete, setGroupToDelete] = useState<string | null>(null)
   const [searchQuery, setSearchQuery] = useState("")
+  const groupsState = useGroups()
+  const balancesState = useBalances()
+  const status = combineStates(groupsState, balancesState)
+  const { formatAmount } = useCurrency()
+  const { toast } = useToast()
 
   // Function to format date in a more readable way
-  const formatDate = (dateString) => {
+  const formatDate = (dateString: string) => {
     const date = new Date(dateString)
     return date.toLocaleDateString("en-US", {
       month: "short",
@@ -23,45 +34,24 @@ export function GroupsOverview() {
     })
   }
 
-  // Mock data for groups
-  const groups = [
-    {
-      id: "1",
-      name: "roommates",
-      description: "monthly apartment expenses",
-      members: 3,
-      balance: -45.75,
-      lastActivity: "2 days ago",
-      rawDate: "2023-04-10",
-    },
-    {
-      id: "2",
-      name: "trip to barcelona",
-      description: "vacation expenses",
-      members: 4,
-      balance: -78.25,
-      lastActivity: "5 days ago",
-      rawDate: "2023-04-07",
-    },
-    {
-      id: "3",
-      name: "office lunch",
-      description: "weekly team lunches",
-      members: 5,
-      balance: 32.5,
-      lastActivity: "yesterday",
-      rawDate: "2023-04-11",
-    },
-    {
-      id: "4",
-      name: "game night",
-      description: "monthly game night expenses",
-      members: 6,
-      balance: 0,
-      lastActivity: "1 week ago",
-      rawDate: "2023-04-05",
-    },
-  ]
+  const groups = (groupsState.data ?? []).map((group) => {
+    // What the other members owe you in this group, in the group's currency
+    const balance = (balancesState.data?.balances ?? [])
+      .filter((counterpart) => counterpart.currency === group.currency)
+      .flatMap((counterpart) => counterpart.groups)
+      .filter((breakdown) => breakdown.groupId === group.id)
+      .reduce((sum, breakdown) => sum + breakdown.amount, 0)
+
+    return {
+      id: group.id,
+      name: group.name,
+      description: group.description,
+      members: group.members.length,
+      currency: group.currency,
+      balance: roundMoney(balance, group.currency),
+      rawDate: group.updatedAt,
+    }
+  })
 
   const filteredGroups = searchQuery
     ? groups.filter(
@@ -76,11 +66,22 @@ export function GroupsOverview() {
     setDeleteDialogOpen(true)
   }
 
-  const confirmDeleteGroup = () => {
-    // In a real app, this would call an API to delete the group
-    console.log(`Deleting group ${groupToDelete}`)
+  const confirmDeleteGroup = async () => {
+    if (!groupToDelete) return
     setDeleteDialogOpen(false)
-    setGroupToDelete(null)
+
+    try {
+      await archiveGroup(groupToDelete)
+      groupsState.reload()
+    } catch (error) {
+      toast({
+        title: "group not archived",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setGroupToDelete(null)
+    }
   }
 
   return (
@@ -109,9 +110,11 @@ export function GroupsOverview() {
         />
       </div>
 
-      {filteredGroups.length === 0 ? (
+      {!status.isReady ? (
+        <DataStatus {...status} />
+      ) : filteredGroups.length === 0 ? (
         <div className="text-center p-8 text-muted-foreground">
-          <p>no groups found matching your search</p>
+          <p>{searchQuery ? "no groups found matching your search" : "you are not in any groups yet"}</p>
         </div>
       ) : (
         <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
@@ -146,7 +149,7 @@ export function GroupsOverview() {
                         <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6"></path>
                         <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2"></path>
                       </svg>
-                      <span className="sr-only">delete group</span>
+                      <span className="sr-only">archive group</span>
                     </Button>
                   </div>
 
@@ -168,7 +171,7 @@ export function GroupsOverview() {
                       >
                         {group.balance === 0
                           ? "settled up"
-                          : `${group.balance > 0 ? "+$" : "-$"}${Math.abs(group.balance).toFixed(2)}`}
+                          : `${group.balance > 0 ? "+" : "-"}${formatAmount(Math.abs(group.balance), group.currency)}`}
                       </p>
                     </div>
                     <Button variant="outline" size="sm" className="h-7 text-xs" asChild>
@@ -189,8 +192,9 @@ export function GroupsOverview() {
         open={deleteDialogOpen}
         onOpenChange={setDeleteDialogOpen}
         onConfirm={confirmDeleteGroup}
-        title="delete group"
-        description="are you sure you want to delete this group? all expenses and settlements in this group will be permanently deleted. this action cannot be undone."
+        title="archive group"
+        description="are you sure you want to archive this group? its expenses and settlements are kept, but no new ones can be added."
+        confirmLabel="archive"
       />
     </div>
   )
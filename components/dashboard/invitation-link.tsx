@@ -0,0 +1,41 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Check, Copy } from "lucide-react"
+import type { IssuedInvitation } from "@/types/api"
+
+interface InvitationLinkProps {
+  issued: IssuedInvitation
+}
+
+// The join link is only shown once, so offer it for copying and scanning right away
+export function InvitationLink({ issued }: InvitationLinkProps) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(issued.link)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 2000)
+  }
+
+  return (
+    <div className="grid gap-3">
+      <p className="text-sm text-muted-foreground">
+        we emailed {issued.invitation.email}. you can also share this link, which works once and expires on{" "}
+        {new Date(issued.invitation.expiresAt).toLocaleDateString("en-US", { month: "short", day: "numeric" })}.
+      </p>
+      <div className="flex gap-2">
+        <Input value={issued.link} readOnly className="h-9 text-xs" onFocus={(e) => e.target.select()} />
+        <Button type="button" variant="outline" size="sm" className="h-9 shrink-0" onClick={handleCopy}>
+          {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+          <span className="sr-only">copy link</span>
+        </Button>
+      </div>
+      <div className="flex justify-center">
+        <img src={issued.qrCode} alt="QR code for the invitation link" className="h-40 w-40 rounded-md border" />
+      </div>
+    </div>
+  )
+}
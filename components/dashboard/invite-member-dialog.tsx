@@ -8,69 +8,129 @@ import { Dialog, DialogContent, DialogFooter } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
+import { createInvitation } from "@/lib/api"
+import type { IssuedInvitation } from "@/types/api"
 import { DialogHeader } from "./dialog-header"
+import { InvitationLink } from "./invitation-link"
 
 interface InviteMemberDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   groupId: string
   groupName: string
+  // When set, the invitee takes over this guest's place and expenses
+  guest?: { id: string; name: string }
+  onInvited?: () => void
 }
 
-export function InviteMemberDialog({ open, onOpenChange, groupId, groupName }: InviteMemberDialogProps) {
+export function InviteMemberDialog({
+  open,
+  onOpenChange,
+  groupId,
+  groupName,
+  guest,
+  onInvited,
+}: InviteMemberDialogProps) {
   const [email, setEmail] = useState("")
+  const [message, setMessage] = useState("")
+  const [issued, setIssued] = useState<IssuedInvitation | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const { toast } = useToast()
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const reset = () => {
+    setEmail("")
+    setMessage("")
+    setIssued(null)
+  }
+
+  const handleOpenChange = (open: boolean) => {
+    onOpenChange(open)
+    if (!open) reset()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
 
-    // Simulate API call
-    setTimeout(() => {
-      setIsLoading(false)
-      onOpenChange(false)
-      setEmail("")
-
+    try {
+      setIssued(await createInvitation(groupId, email, message || undefined, guest?.id))
+      onInvited?.()
       toast({
         title: "invitation sent",
         description: `An invitation has been sent to ${email}`,
         duration: 3000,
       })
-    }, 1000)
+    } catch (error) {
+      toast({
+        title: "invitation not sent",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="sm:max-w-[425px]">
-        <DialogHeader title="invite member" description={`invite someone to join the "${groupName}" group`} />
-        <form onSubmit={handleSubmit}>
-          <div className="grid gap-4 py-4">
-            <div className="grid gap-2">
-              <Label htmlFor="email">email address</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="name@example.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
-              />
+        <DialogHeader
+          title={guest ? `invite ${guest.name}` : "invite member"}
+          description={
+            guest
+              ? `${guest.name} will take over their guest place and expenses in "${groupName}"`
+              : `invite someone to join the "${groupName}" group`
+          }
+        />
+        {issued ? (
+          <>
+            <div className="py-4">
+              <InvitationLink issued={issued} />
             </div>
-            <div className="grid gap-2">
-              <Label htmlFor="message">message (optional)</Label>
-              <Input id="message" placeholder="join our expense group!" />
+            <DialogFooter className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={reset}>
+                invite another
+              </Button>
+              <Button type="button" onClick={() => handleOpenChange(false)}>
+                done
+              </Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit}>
+            <div className="grid gap-4 py-4">
+              <div className="grid gap-2">
+                <Label htmlFor="email">email address</Label>
+                <Input
+                  id="email"
+                  type="email"
+                  placeholder="name@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="message">message (optional)</Label>
+                <Input
+                  id="message"
+                  placeholder="join our expense group!"
+                  value={message}
+                  onChange={(e) => setMessage(e.target.value)}
+                  maxLength={500}
+                />
+              </div>
             </div>
-          </div>
-          <DialogFooter className="flex justify-end gap-2">
-            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
-              cancel
-            </Button>
-            <Button type="submit" disabled={isLoading}>
-              {isLoading ? "sending..." : "send invitation"}
-            </Button>
-          </DialogFooter>
-        </form>
+            <DialogFooter className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+                cancel
+              </Button>
+              <Button type="submit" disabled={isLoading}>
+                {isLoading ? "sending..." : "send invitation"}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
       </DialogContent>
     </Dialog>
   )
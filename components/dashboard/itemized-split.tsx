@@ -0,0 +1,191 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Plus, Trash2 } from "lucide-react"
+import { CurrencyAmount } from "@/components/currency/currency-amount"
+import { useCurrency } from "@/contexts/currency-context"
+import { formatMoney, minorStep, toMinor } from "@/lib/money"
+import { cn } from "@/lib/utils"
+import type { MemberOption } from "@/lib/api"
+import {
+  emptyReceiptLine,
+  receiptShares,
+  receiptTotals,
+  type AdjustmentDraft,
+  type ReceiptDraft,
+  type ReceiptLineDraft,
+} from "@/lib/receipt"
+
+interface ItemizedSplitProps {
+  receipt: ReceiptDraft
+  onChange: (receipt: ReceiptDraft) => void
+  members: MemberOption[]
+  currency: string
+  amount: number
+  // Replaces the expense amount with the receipt total
+  onUseTotal: (total: number) => void
+}
+
+export function ItemizedSplit({ receipt, onChange, members, currency, amount, onUseTotal }: ItemizedSplitProps) {
+  const { currencies } = useCurrency()
+  const symbol = currencies[currency]?.symbol || currency
+  const totals = receiptTotals(receipt, currency)
+  const shares = receiptShares(receipt, amount, currency)
+  const matches = toMinor(totals.total, currency) === toMinor(amount, currency)
+
+  const updateLine = (key: string, changes: Partial<ReceiptLineDraft>) => {
+    onChange({ ...receipt, items: receipt.items.map((item) => (item.key === key ? { ...item, ...changes } : item)) })
+  }
+
+  const toggleAssignee = (line: ReceiptLineDraft, memberId: string) => {
+    updateLine(line.key, {
+      assignedTo: line.assignedTo.includes(memberId)
+        ? line.assignedTo.filter((id) => id !== memberId)
+        : [...line.assignedTo, memberId],
+    })
+  }
+
+  const adjustmentInput = (label: "tax" | "tip", adjustment: AdjustmentDraft) => (
+    <div className="flex items-center justify-between gap-2">
+      <Label className="text-sm capitalize">{label}</Label>
+      <div className="flex items-center gap-2">
+        <div className="flex rounded-md border">
+          {(["percent", "amount"] as const).map((mode) => (
+            <button
+              key={mode}
+              type="button"
+              className={cn(
+                "px-2 py-1 text-xs",
+                adjustment.mode === mode ? "bg-primary text-primary-foreground" : "text-muted-foreground",
+              )}
+              onClick={() => onChange({ ...receipt, [label]: { ...adjustment, mode } })}
+            >
+              {mode === "percent" ? "%" : symbol}
+            </button>
+          ))}
+        </div>
+        <Input
+          type="number"
+          className="w-24 h-8"
+          placeholder="0"
+          min="0"
+          step={adjustment.mode === "percent" ? "0.01" : minorStep(currency)}
+          value={adjustment.value}
+          onChange={(e) => onChange({ ...receipt, [label]: { ...adjustment, value: e.target.value } })}
+        />
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Add each item on the receipt and pick who shared it. Tax and tip are spread in proportion to what each person
+        had.
+      </p>
+
+      <div className="space-y-3">
+        {receipt.items.map((line) => (
+          <div key={line.key} className="rounded-lg border p-3 space-y-2">
+            <div className="flex items-center gap-2">
+              <Input
+                className="h-8 flex-1"
+                placeholder="Item name"
+                value={line.name}
+                onChange={(e) => updateLine(line.key, { name: e.target.value })}
+              />
+              <Input
+                type="number"
+                className="h-8 w-16"
+                aria-label="Quantity"
+                min="1"
+                step="1"
+                value={line.quantity}
+                onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+              />
+              <span className="text-sm text-muted-foreground">×</span>
+              <Input
+                type="number"
+                className="h-8 w-24"
+                aria-label="Price"
+                placeholder={formatMoney(0, currency)}
+                min="0"
+                step={minorStep(currency)}
+                value={line.price}
+                onChange={(e) => updateLine(line.key, { price: e.target.value })}
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0"
+                disabled={receipt.items.length === 1}
+                onClick={() => onChange({ ...receipt, items: receipt.items.filter((item) => item.key !== line.key) })}
+              >
+                <Trash2 className="h-4 w-4" />
+                <span className="sr-only">Remove item</span>
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-1">
+              {members.map((member) => (
+                <Button
+                  key={member.id}
+                  type="button"
+                  size="sm"
+                  variant={line.assignedTo.includes(member.id) ? "default" : "outline"}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => toggleAssignee(line, member.id)}
+                >
+                  {member.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        ))}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => onChange({ ...receipt, items: [...receipt.items, emptyReceiptLine()] })}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add item
+        </Button>
+      </div>
+
+      <div className="space-y-2 border-t pt-3">
+        <div className="flex justify-between text-sm">
+          <span className="text-muted-foreground">Subtotal</span>
+          <CurrencyAmount amount={totals.subtotal} currency={currency} />
+        </div>
+        {adjustmentInput("tax", receipt.tax)}
+        {adjustmentInput("tip", receipt.tip)}
+        <div className="flex justify-between text-sm font-medium">
+          <span>Receipt total</span>
+          <CurrencyAmount amount={totals.total} currency={currency} />
+        </div>
+        {!matches && (
+          <div className="flex items-center justify-between rounded-md border border-amber-200 bg-amber-50 p-2 text-sm text-amber-700">
+            <span>The expense amount is {formatMoney(amount, currency)}</span>
+            <Button type="button" variant="outline" size="sm" onClick={() => onUseTotal(totals.total)}>
+              Use {formatMoney(totals.total, currency)}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2 border-t pt-3">
+        {members
+          .filter((member) => shares[member.id] !== undefined)
+          .map((member) => (
+            <div key={member.id} className="flex justify-between text-sm">
+              <span>{member.name}</span>
+              <CurrencyAmount amount={shares[member.id]} currency={currency} />
+            </div>
+          ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogFooter } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { CategoryBadge } from "./category-badge"
+import { DialogHeader } from "./dialog-header"
+import { useCategories } from "@/hooks/use-api"
+import { useToast } from "@/hooks/use-toast"
+import { createCategory, deleteCategory, updateCategory } from "@/lib/api"
+import { CATEGORY_COLORS, CATEGORY_ICONS } from "@/lib/categories"
+import type { Category } from "@/types/api"
+
+interface ManageCategoriesDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  groupId: string
+  // Called after a category is added, changed or deleted
+  onChanged?: () => void
+}
+
+// Adds, edits and deletes a group's own categories; the built-in ones are listed but fixed
+export function ManageCategoriesDialog({ open, onOpenChange, groupId, onChanged }: ManageCategoriesDialogProps) {
+  const [editing, setEditing] = useState<Category | null>(null)
+  const [name, setName] = useState("")
+  const [icon, setIcon] = useState("tag")
+  const [color, setColor] = useState(CATEGORY_COLORS[0])
+  const [isSaving, setIsSaving] = useState(false)
+  const categories = useCategories(groupId)
+  const { toast } = useToast()
+
+  const builtIn = (categories.data ?? []).filter((category) => !category.groupId)
+  const own = (categories.data ?? []).filter((category) => category.groupId)
+
+  const startEditing = (category: Category | null) => {
+    setEditing(category)
+    setName(category?.name ?? "")
+    setIcon(category?.icon ?? "tag")
+    setColor(category?.color ?? CATEGORY_COLORS[0])
+  }
+
+  const refresh = () => {
+    categories.reload()
+    onChanged?.()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSaving(true)
+    try {
+      if (editing) {
+        await updateCategory(groupId, editing.id, { name, icon, color })
+      } else {
+        await createCategory(groupId, { name, icon, color })
+      }
+      refresh()
+      startEditing(null)
+      toast({ title: editing ? "category updated" : "category added", duration: 3000 })
+    } catch (error) {
+      toast({
+        title: editing ? "category not updated" : "category not added",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleDelete = async (category: Category) => {
+    try {
+      await deleteCategory(groupId, category.id)
+      if (editing?.id === category.id) startEditing(null)
+      refresh()
+      toast({
+        title: "category deleted",
+        description: `expenses in ${category.name} are now uncategorized`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "category not deleted",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[480px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader title="categories" description="file this group's expenses under your own categories" />
+        <div className="space-y-4 py-4">
+          <div className="flex flex-wrap gap-1">
+            {builtIn.map((category) => (
+              <CategoryBadge key={category.id} category={category} />
+            ))}
+          </div>
+
+          {own.length > 0 && (
+            <div className="divide-y rounded-md border">
+              {own.map((category) => (
+                <div key={category.id} className="flex items-center justify-between px-3 py-2">
+                  <button type="button" className="text-left" onClick={() => startEditing(category)}>
+                    <CategoryBadge category={category} />
+                  </button>
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDelete(category)}>
+                    <X className="h-3 w-3" />
+                    <span className="sr-only">delete {category.name}</span>
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-3 rounded-md border p-3">
+            <div className="grid gap-2">
+              <Label htmlFor="category-name">{editing ? `edit ${editing.name}` : "new category"}</Label>
+              <Input
+                id="category-name"
+                placeholder="e.g., pets, kids, car"
+                value={name}
+                maxLength={50}
+                onChange={(e) => setName(e.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-2">
+              <Label>icon</Label>
+              <div className="flex flex-wrap gap-1">
+                {Object.entries(CATEGORY_ICONS).map(([iconName, Icon]) => (
+                  <button
+                    key={iconName}
+                    type="button"
+                    aria-label={iconName}
+                    className={cn(
+                      "flex h-8 w-8 items-center justify-center rounded-md border",
+                      icon === iconName ? "border-primary bg-muted" : "border-transparent",
+                    )}
+                    onClick={() => setIcon(iconName)}
+                  >
+                    <Icon className="h-4 w-4" style={{ color }} />
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid gap-2">
+              <Label>colour</Label>
+              <div className="flex flex-wrap gap-2">
+                {CATEGORY_COLORS.map((swatch) => (
+                  <button
+                    key={swatch}
+                    type="button"
+                    aria-label={swatch}
+                    className={cn("h-6 w-6 rounded-full", color === swatch && "ring-2 ring-offset-2 ring-primary")}
+                    style={{ backgroundColor: swatch }}
+                    onClick={() => setColor(swatch)}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {editing && (
+                <Button type="button" variant="outline" size="sm" onClick={() => startEditing(null)}>
+                  cancel
+                </Button>
+              )}
+              <Button type="submit" size="sm" disabled={isSaving}>
+                {isSaving ? "saving..." : editing ? "save changes" : "add category"}
+              </Button>
+            </div>
+          </form>
+        </div>
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            done
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
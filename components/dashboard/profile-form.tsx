@@ -2,7 +2,8 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
@@ -10,53 +11,143 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/hooks/use-toast"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { clearTokens, type AuthUser } from "@/lib/auth"
+import { changeEmail, changePassword, deleteAccount, getMe, updateProfile } from "@/lib/users"
+
+function errorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback
+}
 
 export function ProfileForm() {
   const [isLoading, setIsLoading] = useState(false)
+  const [user, setUser] = useState<AuthUser | null>(null)
+  const [firstName, setFirstName] = useState("")
+  const [lastName, setLastName] = useState("")
+  const [currentPassword, setCurrentPassword] = useState("")
+  const [newPassword, setNewPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [newEmail, setNewEmail] = useState("")
+  const [emailPassword, setEmailPassword] = useState("")
+  const [deletePassword, setDeletePassword] = useState("")
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false)
+  const router = useRouter()
   const { toast } = useToast()
 
-  const handlePersonalInfoSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  useEffect(() => {
+    getMe()
+      .then((me) => {
+        setUser(me)
+        setFirstName(me.firstName)
+        setLastName(me.lastName)
+      })
+      .catch((error) => {
+        toast({
+          title: "Could not load profile",
+          description: errorMessage(error, "Please try again."),
+          variant: "destructive",
+        })
+      })
+  }, [toast])
+
+  const handlePersonalInfoSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
 
-    // Simulate form submission
-    setTimeout(() => {
-      setIsLoading(false)
+    try {
+      setUser(await updateProfile({ firstName, lastName }))
       toast({
         title: "Profile updated",
         description: "Your profile information has been updated successfully.",
       })
-    }, 1000)
+    } catch (error) {
+      toast({
+        title: "Profile not updated",
+        description: errorMessage(error, "Failed to update your profile. Please try again."),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
-  const handlePasswordSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  const handlePasswordSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
+
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Password not updated", description: "Passwords do not match", variant: "destructive" })
+      return
+    }
+
     setIsLoading(true)
 
-    // Simulate form submission
-    setTimeout(() => {
-      setIsLoading(false)
+    try {
+      await changePassword(currentPassword, newPassword)
+      setCurrentPassword("")
+      setNewPassword("")
+      setConfirmPassword("")
       toast({
         title: "Password updated",
-        description: "Your password has been changed successfully.",
+        description: "Your password has been changed and your other sessions were signed out.",
+      })
+    } catch (error) {
+      toast({
+        title: "Password not updated",
+        description: errorMessage(error, "Failed to change your password. Please try again."),
+        variant: "destructive",
       })
-    }, 1000)
+    } finally {
+      setIsLoading(false)
+    }
   }
 
-  const handleEmailSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+  const handleEmailSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
 
-    // Simulate form submission
-    setTimeout(() => {
+    try {
+      setUser(await changeEmail(newEmail, emailPassword))
+      setNewEmail("")
+      setEmailPassword("")
+      toast({
+        title: "Email updated",
+        description: "Use your new email address the next time you sign in.",
+      })
+    } catch (error) {
+      toast({
+        title: "Email not updated",
+        description: errorMessage(error, "Failed to change your email. Please try again."),
+        variant: "destructive",
+      })
+    } finally {
       setIsLoading(false)
+    }
+  }
+
+  const handleDeleteAccount = async () => {
+    setIsLoading(true)
+
+    try {
+      await deleteAccount(deletePassword)
+      clearTokens()
+      router.push("/")
       toast({
-        title: "Email update initiated",
-        description: "Please check your new email address for a confirmation link.",
+        title: "Account deleted",
+        description: "Your account has been deleted.",
       })
-    }, 1000)
+    } catch (error) {
+      toast({
+        title: "Account not deleted",
+        description: errorMessage(error, "Failed to delete your account. Please try again."),
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
+  const initials = user ? `${user.firstName[0] ?? ""}${user.lastName[0] ?? ""}`.toUpperCase() : ""
+
   return (
     <Tabs defaultValue="personal" className="space-y-6 mb-20 md:mb-0">
       <TabsList>
@@ -76,7 +167,7 @@ export function ProfileForm() {
                 <div className="flex flex-col items-center gap-4">
                   <Avatar className="h-24 w-24">
                     <AvatarImage src="/placeholder.svg?height=96&width=96" alt="Profile picture" />
-                    <AvatarFallback>JD</AvatarFallback>
+                    <AvatarFallback>{initials}</AvatarFallback>
                   </Avatar>
                   <Button variant="outline" size="sm">
                     Change Picture
@@ -85,11 +176,11 @@ export function ProfileForm() {
                 <div className="flex-1 space-y-4">
                   <div className="grid gap-2">
                     <Label htmlFor="first-name">First name</Label>
-                    <Input id="first-name" defaultValue="John" />
+                    <Input id="first-name" value={firstName} onChange={(e) => setFirstName(e.target.value)} />
                   </div>
                   <div className="grid gap-2">
                     <Label htmlFor="last-name">Last name</Label>
-                    <Input id="last-name" defaultValue="Doe" />
+                    <Input id="last-name" value={lastName} onChange={(e) => setLastName(e.target.value)} />
                   </div>
                 </div>
               </div>
@@ -113,15 +204,34 @@ export function ProfileForm() {
             <form onSubmit={handlePasswordSubmit} className="space-y-4">
               <div className="grid gap-2">
                 <Label htmlFor="current-password">Current password</Label>
-                <Input id="current-password" type="password" required />
+                <Input
+                  id="current-password"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(e) => setCurrentPassword(e.target.value)}
+                  required
+                />
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="new-password">New password</Label>
-                <Input id="new-password" type="password" required />
+                <Input
+                  id="new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  minLength={8}
+                  required
+                />
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="confirm-password">Confirm new password</Label>
-                <Input id="confirm-password" type="password" required />
+                <Input
+                  id="confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                />
               </div>
               <div className="flex justify-end">
                 <Button type="submit" disabled={isLoading}>
@@ -141,15 +251,27 @@ export function ProfileForm() {
             <form onSubmit={handleEmailSubmit} className="space-y-4">
               <div className="grid gap-2">
                 <Label htmlFor="current-email">Current email</Label>
-                <Input id="current-email" type="email" value="john.doe@example.com" disabled />
+                <Input id="current-email" type="email" value={user?.email ?? ""} disabled />
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="new-email">New email</Label>
-                <Input id="new-email" type="email" required />
+                <Input
+                  id="new-email"
+                  type="email"
+                  value={newEmail}
+                  onChange={(e) => setNewEmail(e.target.value)}
+                  required
+                />
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="password">Password</Label>
-                <Input id="password" type="password" required />
+                <Input
+                  id="password"
+                  type="password"
+                  value={emailPassword}
+                  onChange={(e) => setEmailPassword(e.target.value)}
+                  required
+                />
               </div>
               <div className="flex justify-end">
                 <Button type="submit" disabled={isLoading}>
@@ -159,7 +281,49 @@ export function ProfileForm() {
             </form>
           </CardContent>
         </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Delete Account</CardTitle>
+            <CardDescription>
+              Permanently delete your account. You need to be settled up in all of your groups first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                setIsDeleteDialogOpen(true)
+              }}
+              className="space-y-4"
+            >
+              <div className="grid gap-2">
+                <Label htmlFor="delete-password">Password</Label>
+                <Input
+                  id="delete-password"
+                  type="password"
+                  value={deletePassword}
+                  onChange={(e) => setDeletePassword(e.target.value)}
+                  required
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" variant="destructive" disabled={isLoading}>
+                  Delete account
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
       </TabsContent>
+
+      <DeleteConfirmationDialog
+        open={isDeleteDialogOpen}
+        onOpenChange={setIsDeleteDialogOpen}
+        onConfirm={handleDeleteAccount}
+        title="delete account"
+        description="this will permanently delete your account. this action cannot be undone."
+      />
     </Tabs>
   )
 }
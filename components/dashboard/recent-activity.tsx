@@ -10,7 +10,12 @@ import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
 import { ExpenseDetailsDialog } from "./expense-details-dialog"
 import { SettlementDetailsDialog } from "./settlement-details-dialog"
 import { EditExpenseDialog } from "./edit-expense-dialog"
+import { DataStatus } from "./data-status"
+import { combineStates, useActivityContext, useExpenses, useSettlements } from "@/hooks/use-api"
 import { useToast } from "@/hooks/use-toast"
+import { useCurrency } from "@/contexts/currency-context"
+import { deleteExpense, deleteSettlement } from "@/lib/api"
+import { byDateDesc, payerNames, toExpenseItem, toSettlementItem, type ActivityItem } from "@/lib/activity"
 
 interface RecentActivityProps {
   extended?: boolean
@@ -22,94 +27,28 @@ export function RecentActivity({ extended = false, type = "all" }: RecentActivit
   const [expenseDetailsOpen, setExpenseDetailsOpen] = useState(false)
   const [settlementDetailsOpen, setSettlementDetailsOpen] = useState(false)
   const [editExpenseOpen, setEditExpenseOpen] = useState(false)
-  const [selectedItem, setSelectedItem] = useState<any>(null)
+  const [selectedItem, setSelectedItem] = useState<ActivityItem | null>(null)
+  const expenses = useExpenses()
+  const settlements = useSettlements()
+  const context = useActivityContext()
+  const { formatAmount } = useCurrency()
   const { toast } = useToast()
+  const status = combineStates(expenses, settlements, context)
 
-  const activities = [
-    {
-      id: "1",
-      type: "expense",
-      description: "dinner at italian restaurant",
-      amount: 120.0,
-      date: "today",
-      rawDate: "2023-04-15",
-      payer: {
-        name: "alex",
-      },
-      group: "trip to barcelona",
-      split: "equal",
-      yourShare: 30.0,
-    },
-    {
-      id: "2",
-      type: "settlement",
-      description: "payment to jamie",
-      amount: 45.75,
-      date: "yesterday",
-      rawDate: "2023-04-14",
-      payer: {
-        name: "you",
-      },
-      recipient: {
-        name: "jamie",
-      },
-      method: "cash",
-      youPaid: true,
-      youReceived: false,
-    },
-    {
-      id: "3",
-      type: "expense",
-      description: "groceries",
-      amount: 85.5,
-      date: "2 days ago",
-      rawDate: "2023-04-13",
-      payer: {
-        name: "sam",
-      },
-      group: "roommates",
-      split: "equal",
-      yourShare: 21.38,
-    },
-    {
-      id: "4",
-      type: "expense",
-      description: "movie tickets",
-      amount: 32.0,
-      date: "3 days ago",
-      rawDate: "2023-04-12",
-      payer: {
-        name: "you",
-      },
-      group: "game night",
-      split: "equal",
-      yourShare: 8.0,
-    },
-    {
-      id: "5",
-      type: "settlement",
-      description: "payment to alex",
-      amount: 78.25,
-      date: "1 week ago",
-      rawDate: "2023-04-08",
-      payer: {
-        name: "you",
-      },
-      recipient: {
-        name: "alex",
-      },
-      method: "venmo",
-      youPaid: true,
-      youReceived: false,
-    },
-  ]
+  const activity = context.data
+  const activities: ActivityItem[] = activity
+    ? [
+        ...(expenses.data ?? []).map((expense) => toExpenseItem(expense, activity)),
+        ...(settlements.data ?? []).map((settlement) => toSettlementItem(settlement, activity)),
+      ].sort(byDateDesc)
+    : []
 
   // Filter activities by type if specified
   const filteredActivities = type === "all" ? activities : activities.filter((activity) => activity.type === type)
 
   const displayActivities = extended ? filteredActivities : filteredActivities.slice(0, 4)
 
-  const handleViewDetails = (item: any) => {
+  const handleViewDetails = (item: ActivityItem) => {
     setSelectedItem(item)
     if (item.type === "expense") {
       setExpenseDetailsOpen(true)
@@ -118,30 +57,51 @@ export function RecentActivity({ extended = false, type = "all" }: RecentActivit
     }
   }
 
-  const handleEditExpense = (item: any) => {
+  const handleEditExpense = (item: ActivityItem) => {
     setSelectedItem(item)
     setEditExpenseOpen(true)
   }
 
-  const handleDelete = (item: any) => {
+  const handleDelete = (item: ActivityItem) => {
     setSelectedItem(item)
     setDeleteDialogOpen(true)
   }
 
-  const confirmDelete = () => {
-    // In a real app, this would call an API to delete the item
-    console.log(`Deleting item ${selectedItem.id}`)
+  const confirmDelete = async () => {
+    if (!selectedItem) return
     setDeleteDialogOpen(false)
 
-    toast({
-      title: `${selectedItem.type} deleted`,
-      description: `The ${selectedItem.type} has been deleted successfully`,
-      duration: 3000,
-    })
+    try {
+      if (selectedItem.type === "expense") {
+        await deleteExpense(selectedItem.groupId, selectedItem.id)
+        expenses.reload()
+      } else {
+        await deleteSettlement(selectedItem.groupId, selectedItem.id)
+        settlements.reload()
+      }
+      toast({
+        title: `${selectedItem.type} deleted`,
+        description: `The ${selectedItem.type} has been deleted successfully`,
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: `${selectedItem.type} not deleted`,
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (!status.isReady) {
+    return <DataStatus {...status} />
   }
 
   return (
     <div className="divide-y">
+      {displayActivities.length === 0 && (
+        <div className="p-4 text-center text-sm text-muted-foreground">no activity yet</div>
+      )}
       {displayActivities.map((activity) => (
         <div key={activity.id} className="flex items-start gap-3 p-4">
           <div
@@ -155,10 +115,9 @@ export function RecentActivity({ extended = false, type = "all" }: RecentActivit
             <div className="flex items-center justify-between gap-2">
               <p className="truncate text-sm">{activity.description}</p>
               <div className="flex items-center">
-                <p
-                  className={`whitespace-nowrap text-sm ${activity.type === "expense" ? "text-red-600" : "text-green-600"}`}
-                >
-                  {activity.type === "expense" ? `-$${activity.amount.toFixed(2)}` : `+$${activity.amount.toFixed(2)}`}
+                <p className={`whitespace-nowrap text-sm ${activity.youPaid ? "text-red-600" : "text-green-600"}`}>
+                  {activity.youPaid ? "-" : "+"}
+                  {formatAmount(activity.amount, activity.currency)}
                 </p>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -186,7 +145,7 @@ export function RecentActivity({ extended = false, type = "all" }: RecentActivit
             <div className="mt-1 flex flex-wrap items-center text-xs text-muted-foreground">
               <div className="flex items-center mr-2">
                 {activity.type === "expense" ? (
-                  <span>{activity.payer.name} paid</span>
+                  <span>{payerNames(activity)} paid</span>
                 ) : (
                   <span>
                     {activity.payer.name} paid {activity.recipient.name}
@@ -210,18 +169,28 @@ export function RecentActivity({ extended = false, type = "all" }: RecentActivit
 
       {selectedItem && (
         <>
-          <ExpenseDetailsDialog open={expenseDetailsOpen} onOpenChange={setExpenseDetailsOpen} expense={selectedItem} />
-          <SettlementDetailsDialog
-            open={settlementDetailsOpen}
-            onOpenChange={setSettlementDetailsOpen}
-            settlement={selectedItem}
-          />
-          <EditExpenseDialog
-            open={editExpenseOpen}
-            onOpenChange={setEditExpenseOpen}
-            expense={selectedItem}
-            groupId={selectedItem?.groupId || ""}
-          />
+          {selectedItem.type === "expense" ? (
+            <>
+              <ExpenseDetailsDialog
+                open={expenseDetailsOpen}
+                onOpenChange={setExpenseDetailsOpen}
+                expense={selectedItem}
+              />
+              <EditExpenseDialog
+                open={editExpenseOpen}
+                onOpenChange={setEditExpenseOpen}
+                expense={selectedItem}
+                groupId={selectedItem.groupId}
+                onSaved={expenses.reload}
+              />
+            </>
+          ) : (
+            <SettlementDetailsDialog
+              open={settlementDetailsOpen}
+              onOpenChange={setSettlementDetailsOpen}
+              settlement={selectedItem}
+            />
+          )}
           <DeleteConfirmationDialog
             open={deleteDialogOpen}
             onOpenChange={setDeleteDialogOpen}
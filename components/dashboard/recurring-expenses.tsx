@@ -0,0 +1,164 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { MoreHorizontal, Repeat } from "lucide-react"
+import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { DataStatus } from "./data-status"
+import { EditRecurringExpenseDialog } from "./edit-recurring-expense-dialog"
+import { useRecurringExpenses } from "@/hooks/use-api"
+import { useToast } from "@/hooks/use-toast"
+import { useCurrency } from "@/contexts/currency-context"
+import {
+  deleteRecurringExpense,
+  pauseRecurringExpense,
+  resumeRecurringExpense,
+  skipRecurringExpense,
+} from "@/lib/api"
+import { describeFrequency, scheduleStatus } from "@/lib/recurrence"
+import type { RecurringExpense } from "@/types/api"
+
+interface RecurringExpensesProps {
+  groupId: string
+  // Viewers see the schedules without the actions
+  readOnly?: boolean
+  // Called when an action may have created expenses, such as resuming or changing the next date
+  onExpensesChange?: () => void
+}
+
+export function RecurringExpenses({ groupId, readOnly = false, onExpensesChange }: RecurringExpensesProps) {
+  const [editing, setEditing] = useState<RecurringExpense | null>(null)
+  const [stopping, setStopping] = useState<RecurringExpense | null>(null)
+  const recurring = useRecurringExpenses(groupId)
+  const { formatAmount } = useCurrency()
+  const { toast } = useToast()
+
+  const refresh = () => {
+    recurring.reload()
+    onExpensesChange?.()
+  }
+
+  // Runs one of the schedule actions and reports how it went
+  const act = async (action: () => Promise<unknown>, done: string, failed: string) => {
+    try {
+      await action()
+      refresh()
+      toast({ title: done, duration: 3000 })
+    } catch (error) {
+      toast({
+        title: failed,
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const confirmStop = async () => {
+    if (!stopping) return
+    const schedule = stopping
+    setStopping(null)
+    await act(
+      () => deleteRecurringExpense(groupId, schedule.id),
+      "recurring expense stopped",
+      "recurring expense not stopped",
+    )
+  }
+
+  if (!recurring.data) {
+    return <DataStatus {...recurring} />
+  }
+
+  return (
+    <div className="divide-y">
+      {recurring.data.length === 0 && (
+        <div className="p-4 text-center text-sm text-muted-foreground">nothing repeats in this group yet</div>
+      )}
+      {recurring.data.map((schedule) => (
+        <div key={schedule.id} className="flex items-start justify-between gap-3 p-4">
+          <div className="flex items-start gap-3 min-w-0">
+            <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-md bg-muted">
+              <Repeat className="h-4 w-4" />
+            </div>
+            <div className="min-w-0">
+              <p className="truncate text-sm">{schedule.description}</p>
+              <div className="mt-1 pt-1 flex flex-wrap items-center text-xs text-muted-foreground">
+                <span className="mr-2">
+                  {formatAmount(schedule.amount, schedule.currency)}{" "}
+                  {describeFrequency(schedule.frequency, schedule.endDate, schedule.occurrences)}
+                </span>
+                <div className="h-3 w-px bg-gray-300 mx-2"></div>
+                <span>{scheduleStatus(schedule)}</span>
+              </div>
+            </div>
+          </div>
+          {!readOnly && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 w-6 p-0">
+                  <MoreHorizontal className="h-3 w-3" />
+                  <span className="sr-only">more</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-36">
+                <DropdownMenuItem className="text-xs" onSelect={() => setEditing(schedule)}>
+                  edit
+                </DropdownMenuItem>
+                {schedule.nextDate !== null && (
+                  <DropdownMenuItem
+                    className="text-xs"
+                    onSelect={() =>
+                      act(() => skipRecurringExpense(groupId, schedule.id), "next one skipped", "not skipped")
+                    }
+                  >
+                    skip next
+                  </DropdownMenuItem>
+                )}
+                {schedule.nextDate !== null &&
+                  (schedule.paused ? (
+                    <DropdownMenuItem
+                      className="text-xs"
+                      onSelect={() =>
+                        act(() => resumeRecurringExpense(groupId, schedule.id), "resumed", "not resumed")
+                      }
+                    >
+                      resume
+                    </DropdownMenuItem>
+                  ) : (
+                    <DropdownMenuItem
+                      className="text-xs"
+                      onSelect={() => act(() => pauseRecurringExpense(groupId, schedule.id), "paused", "not paused")}
+                    >
+                      pause
+                    </DropdownMenuItem>
+                  ))}
+                <DropdownMenuItem className="text-xs text-red-600" onSelect={() => setStopping(schedule)}>
+                  stop repeating
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+      ))}
+
+      {editing && (
+        <EditRecurringExpenseDialog
+          open={!!editing}
+          onOpenChange={(open) => !open && setEditing(null)}
+          recurring={editing}
+          groupId={groupId}
+          onSaved={refresh}
+        />
+      )}
+
+      <DeleteConfirmationDialog
+        open={!!stopping}
+        onOpenChange={(open) => !open && setStopping(null)}
+        onConfirm={confirmStop}
+        title="stop repeating"
+        description={`no more "${stopping?.description}" expenses will be created. the ones already created are kept.`}
+        confirmLabel="stop"
+      />
+    </div>
+  )
+}
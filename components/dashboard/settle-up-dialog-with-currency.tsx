@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { Dialog, DialogContent, DialogFooter } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
@@ -19,8 +19,15 @@ import { Textarea } from "@/components/ui/textarea"
 import { DialogHeader } from "./dialog-header"
 import { CurrencySelector } from "@/components/currency/currency-selector"
 import { useCurrency } from "@/contexts/currency-context"
-import { CurrencyAmount } from "@/components/currency/currency-amount"
-import { Alert, AlertDescription } from "@/components/ui/alert"
+import { useCurrentUser, useGroup, useGroupBalances } from "@/hooks/use-api"
+import { createSettlement, memberOptions, type NewSettlement } from "@/lib/api"
+import { formatMoney, minorStep, roundMoney } from "@/lib/money"
+import type { PaymentMethod } from "@/types/api"
+
+// Pay each currency back in itself, or everything in one currency at agreed rates
+type Mode = "separate" | "consolidated"
+
+type Payment = Pick<NewSettlement, "amount" | "currency" | "exchangeRate" | "settlesCurrency" | "settlesAmount">
 
 interface SettleUpDialogWithCurrencyProps {
   open: boolean
@@ -34,6 +41,8 @@ interface SettleUpDialogWithCurrencyProps {
     amount: number
     currency?: string
   }
+  // Called after payments are saved, so the parent can refresh balances
+  onSettled?: () => void
 }
 
 export function SettleUpDialogWithCurrency({
@@ -43,98 +52,192 @@ export function SettleUpDialogWithCurrency({
   groupName,
   groupCurrency,
   preselectedMember,
+  onSettled,
 }: SettleUpDialogWithCurrencyProps) {
   const [date, setDate] = useState<Date>(new Date())
-  const [amount, setAmount] = useState(preselectedMember?.amount.toString() || "")
   const [selectedMemberId, setSelectedMemberId] = useState(preselectedMember?.id || "")
-  const [paymentMethod, setPaymentMethod] = useState("cash")
+  const [mode, setMode] = useState<Mode>("separate")
+  // What is paid towards the debt in each currency, keyed by currency
+  const [amounts, setAmounts] = useState<Record<string, string>>({})
+  // How much of the target currency one unit of each debt currency is worth, keyed by currency
+  const [rates, setRates] = useState<Record<string, string>>({})
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("cash")
   const [notes, setNotes] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
   const { toast } = useToast()
-  const { userPreference, currencies, convertAmount } = useCurrency()
+  const { userPreference, currencies, convert, formatAmount } = useCurrency()
+  const group = useGroup(groupId)
+  const balances = useGroupBalances(groupId)
+  const me = useCurrentUser()
 
-  // Use preselected member's currency, group currency, or user's default
-  const [selectedCurrency, setSelectedCurrency] = useState(
-    preselectedMember?.currency || groupCurrency || userPreference.defaultCurrency,
-  )
+  const bookCurrency = group.data?.currency || groupCurrency || userPreference.defaultCurrency
+  // Used when nothing is owed, e.g. to pay ahead
+  const [freeCurrency, setFreeCurrency] = useState(preselectedMember?.currency || bookCurrency)
+  const [targetCurrency, setTargetCurrency] = useState(bookCurrency)
 
-  const [showCurrencyMismatchWarning, setShowCurrencyMismatchWarning] = useState(false)
+  const members = memberOptions(group.data, me.data?.id).filter((member) => member.id !== me.data?.id)
+  const perCurrency = balances.data?.byCurrency.balances ?? []
+  // Members the current user owes in any currency
+  const owed = members.filter((member) => perCurrency.some((balance) => balance.id === member.id && balance.amount < 0))
+  // What the current user owes the selected member, one entry per currency
+  const debts = perCurrency
+    .filter((balance) => balance.id === selectedMemberId && balance.amount < 0)
+    .map((balance) => ({ currency: balance.currency, amount: Math.abs(balance.amount) }))
+  const debtKey = debts.map((debt) => `${debt.amount} ${debt.currency}`).join(",")
 
-  // Check if there's a currency mismatch when the dialog opens or currency changes
-  useState(() => {
-    if (preselectedMember?.currency && selectedCurrency !== preselectedMember.currency) {
-      setShowCurrencyMismatchWarning(true)
-    } else {
-      setShowCurrencyMismatchWarning(false)
-    }
-  })
+  const groupCurrencies = [bookCurrency, ...debts.map((debt) => debt.currency)]
+  const rateOf = (currency: string) => (currency === targetCurrency ? 1 : Number(rates[currency]) || 0)
+  const consolidated = debts.map((debt) => ({
+    ...debt,
+    rate: rateOf(debt.currency),
+    converted: roundMoney(debt.amount * rateOf(debt.currency), targetCurrency),
+  }))
+  const consolidatedTotal = roundMoney(
+    consolidated.reduce((sum, debt) => sum + debt.converted, 0),
+    targetCurrency,
+  )
 
-  // Mock data for members
-  const members = [
-    {
-      id: "1",
-      name: "alex",
-      avatar: "a",
-    },
-    {
-      id: "2",
-      name: "jamie",
-      avatar: "j",
-    },
-    {
-      id: "3",
-      name: "sam",
-      avatar: "s",
-    },
-    {
-      id: "4",
-      name: "taylor",
-      avatar: "t",
-    },
-  ]
+  // Start again from the caller's member each time the dialog opens
+  useEffect(() => {
+    if (!open) return
+    setSelectedMemberId(preselectedMember?.id || "")
+    setFreeCurrency(preselectedMember?.currency || bookCurrency)
+    setTargetCurrency(bookCurrency)
+    setMode("separate")
+    setNotes("")
+  }, [open])
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault()
-    onOpenChange(false)
+  // Offer to pay back every debt in full
+  useEffect(() => {
+    setAmounts(Object.fromEntries(debts.map((debt) => [debt.currency, formatMoney(debt.amount, debt.currency)])))
+  }, [selectedMemberId, debtKey])
 
-    toast({
-      title: "payment recorded",
-      description: "your payment has been recorded successfully",
-      duration: 3000,
-    })
+  // Suggest today's rates into the target currency; rates typed in meanwhile are kept
+  useEffect(() => {
+    setRates({})
+    if (mode !== "consolidated") return
+    let cancelled = false
+    for (const debt of debts) {
+      if (debt.currency === targetCurrency) continue
+      convert(1, debt.currency, targetCurrency)
+        .then(({ quote }) => {
+          if (cancelled) return
+          setRates((typed) => ({ [debt.currency]: String(Number(quote.rate.toPrecision(6))), ...typed }))
+        })
+        // Without a rate the field stays empty for one to be entered
+        .catch(() => undefined)
+    }
+    return () => {
+      cancelled = true
+    }
+  }, [mode, targetCurrency, selectedMemberId, debtKey])
+
+  // One settlement per debt currency. Consolidated, each is paid in the target currency and
+  // records how much of the debt it clears, so the per-currency balances still reach zero
+  const paymentsToRecord = (): Payment[] => {
+    if (debts.length === 0) {
+      const amount = Number.parseFloat(amounts[freeCurrency] || "0")
+      return amount > 0 ? [{ amount, currency: freeCurrency }] : []
+    }
+    if (mode === "separate") {
+      return debts
+        .map((debt) => ({ amount: Number.parseFloat(amounts[debt.currency] || "0"), currency: debt.currency }))
+        .filter((payment) => payment.amount > 0)
+    }
+    return consolidated.map((debt) =>
+      debt.currency === targetCurrency
+        ? { amount: debt.amount, currency: targetCurrency }
+        : {
+            amount: debt.converted,
+            currency: targetCurrency,
+            settlesCurrency: debt.currency,
+            settlesAmount: debt.amount,
+            // A debt in the group currency is cleared at the agreed rate, not the day's
+            exchangeRate: debt.currency === bookCurrency ? Number((1 / debt.rate).toFixed(8)) : undefined,
+          },
+    )
   }
 
-  // Handle currency change
-  const handleCurrencyChange = async (currency: string) => {
-    setSelectedCurrency(currency)
+  const payments = paymentsToRecord()
+  const canSubmit =
+    Boolean(me.data && selectedMemberId) &&
+    payments.length > 0 &&
+    (debts.length === 0 || mode === "separate" || consolidated.every((debt) => debt.rate > 0))
 
-    // Show warning if currency differs from preselected member's currency
-    if (preselectedMember?.currency && currency !== preselectedMember.currency) {
-      setShowCurrencyMismatchWarning(true)
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!me.data || !canSubmit) return
 
-      // Convert the amount if we have a preselected amount
-      if (preselectedMember.amount) {
-        try {
-          const convertedAmount = await convertAmount(preselectedMember.amount, preselectedMember.currency, currency)
-          setAmount(convertedAmount.toFixed(2))
-        } catch (error) {
-          console.error("Failed to convert amount:", error)
-        }
+    setIsSaving(true)
+    let recorded = 0
+    try {
+      for (const payment of payments) {
+        await createSettlement(groupId, {
+          ...payment,
+          paidBy: me.data.id,
+          paidTo: selectedMemberId,
+          method: paymentMethod,
+          date: format(date, "yyyy-MM-dd"),
+          notes: notes || undefined,
+        })
+        recorded++
+      }
+      onOpenChange(false)
+      toast({
+        title: recorded === 1 ? "payment recorded" : `${recorded} payments recorded`,
+        description:
+          mode === "consolidated" && debts.length > 0
+            ? `you paid ${formatAmount(consolidatedTotal, targetCurrency)}`
+            : "your payment has been recorded successfully",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: recorded > 0 ? `only ${recorded} of ${payments.length} payments recorded` : "payment not recorded",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+      if (recorded > 0) {
+        balances.reload()
+        onSettled?.()
       }
-    } else {
-      setShowCurrencyMismatchWarning(false)
     }
   }
 
+  const symbolOf = (currency: string) => currencies[currency]?.symbol || currency
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader title="settle up" description={`record a payment ${groupName ? `in ${groupName}` : ""}`} />
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
+            {!preselectedMember && owed.length > 0 && (
+              <div className="grid gap-2">
+                <Label>suggested payments</Label>
+                <div className="flex flex-wrap gap-2">
+                  {owed.map((member) => (
+                    <Button
+                      key={member.id}
+                      type="button"
+                      variant={selectedMemberId === member.id ? "default" : "outline"}
+                      size="sm"
+                      className="h-8 text-xs"
+                      onClick={() => setSelectedMemberId(member.id)}
+                    >
+                      pay {member.name}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
             <div className="grid gap-2">
               <Label htmlFor="member">who did you pay?</Label>
               <Select value={selectedMemberId} onValueChange={setSelectedMemberId} disabled={!!preselectedMember}>
-                <SelectTrigger>
+                <SelectTrigger id="member">
                   <SelectValue placeholder="select member" />
                 </SelectTrigger>
                 <SelectContent>
@@ -145,6 +248,7 @@ export function SettleUpDialogWithCurrency({
                           <AvatarFallback>{member.avatar}</AvatarFallback>
                         </Avatar>
                         <span>{member.name}</span>
+                        {member.isGuest && <span className="text-xs text-muted-foreground">guest</span>}
                       </div>
                     </SelectItem>
                   ))}
@@ -152,53 +256,139 @@ export function SettleUpDialogWithCurrency({
               </Select>
             </div>
 
-            <div className="grid gap-2">
-              <Label htmlFor="amount">how much did you pay?</Label>
-              <div className="flex items-center gap-2">
-                <CurrencySelector
-                  value={selectedCurrency}
-                  onChange={handleCurrencyChange}
-                  triggerClassName="w-24"
-                  className="w-[200px]"
-                />
-                <div className="relative flex-1">
-                  <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
-                    <span className="text-gray-500">{currencies[selectedCurrency]?.symbol || selectedCurrency}</span>
-                  </div>
-                  <Input
-                    id="amount"
-                    type="number"
-                    placeholder="0.00"
-                    step="0.01"
-                    min="0.01"
-                    value={amount}
-                    onChange={(e) => setAmount(e.target.value)}
-                    className="pl-8"
-                    required
+            {debts.length > 0 && (
+              <div className="flex rounded-md border p-0.5">
+                <Button
+                  type="button"
+                  variant={mode === "separate" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 flex-1 text-xs"
+                  onClick={() => setMode("separate")}
+                >
+                  each currency
+                </Button>
+                <Button
+                  type="button"
+                  variant={mode === "consolidated" ? "secondary" : "ghost"}
+                  size="sm"
+                  className="h-7 flex-1 text-xs"
+                  onClick={() => setMode("consolidated")}
+                >
+                  all in one currency
+                </Button>
+              </div>
+            )}
+
+            {debts.length === 0 && (
+              <div className="grid gap-2">
+                <Label htmlFor="amount">how much did you pay?</Label>
+                <div className="flex items-center gap-2">
+                  <CurrencySelector
+                    value={freeCurrency}
+                    onChange={setFreeCurrency}
+                    groupCurrencies={groupCurrencies}
+                    triggerClassName="w-24"
+                    className="w-[200px]"
                   />
+                  <div className="relative flex-1">
+                    <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                      <span className="text-gray-500">{symbolOf(freeCurrency)}</span>
+                    </div>
+                    <Input
+                      id="amount"
+                      type="number"
+                      placeholder="0.00"
+                      step={minorStep(freeCurrency)}
+                      min={minorStep(freeCurrency)}
+                      value={amounts[freeCurrency] ?? ""}
+                      onChange={(e) => setAmounts({ [freeCurrency]: e.target.value })}
+                      className="pl-8"
+                      required
+                    />
+                  </div>
                 </div>
+                {selectedMemberId && (
+                  <p className="text-xs text-muted-foreground">you don't owe them anything right now</p>
+                )}
               </div>
+            )}
 
-              {showCurrencyMismatchWarning && (
-                <Alert variant="warning" className="mt-2">
-                  <AlertDescription>
-                    you're recording a payment in a different currency than the original debt. the amount has been
-                    converted automatically.
-                  </AlertDescription>
-                </Alert>
-              )}
+            {debts.length > 0 && mode === "separate" && (
+              <div className="grid gap-2">
+                <Label>how much did you pay?</Label>
+                {debts.map((debt) => (
+                  <div key={debt.currency} className="grid gap-1">
+                    <div className="relative">
+                      <div className="absolute inset-y-0 left-0 flex items-center pl-3 pointer-events-none">
+                        <span className="text-gray-500">{symbolOf(debt.currency)}</span>
+                      </div>
+                      <Input
+                        aria-label={`amount in ${debt.currency}`}
+                        type="number"
+                        placeholder="0.00"
+                        step={minorStep(debt.currency)}
+                        min="0"
+                        value={amounts[debt.currency] ?? ""}
+                        onChange={(e) => setAmounts({ ...amounts, [debt.currency]: e.target.value })}
+                        className="pl-10"
+                      />
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      you owe {formatAmount(debt.amount, debt.currency)}, paid back in {debt.currency}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
 
-              {preselectedMember && (
-                <div className="mt-1 text-sm">
-                  <span className="text-muted-foreground">original debt: </span>
-                  <CurrencyAmount
-                    amount={preselectedMember.amount}
-                    currency={preselectedMember.currency || userPreference.defaultCurrency}
-                    isNegative={true}
-                  />
+            {debts.length > 0 && mode === "consolidated" && (
+              <div className="grid gap-2">
+                <Label>pay everything in</Label>
+                <CurrencySelector
+                  value={targetCurrency}
+                  onChange={setTargetCurrency}
+                  groupCurrencies={groupCurrencies}
+                  triggerClassName="w-32"
+                  className="w-[200px]"
+                />
+                <div className="divide-y rounded-md border text-sm">
+                  {consolidated.map((debt) => (
+                    <div key={debt.currency} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <span>{formatAmount(debt.amount, debt.currency)}</span>
+                      {debt.currency === targetCurrency ? (
+                        <span className="text-xs text-muted-foreground">no conversion</span>
+                      ) : (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <span>at</span>
+                          <Input
+                            aria-label={`${targetCurrency} per ${debt.currency}`}
+                            type="number"
+                            step="any"
+                            min="0"
+                            placeholder="rate"
+                            value={rates[debt.currency] ?? ""}
+                            onChange={(e) => setRates({ ...rates, [debt.currency]: e.target.value })}
+                            className="h-7 w-24 text-xs"
+                          />
+                          <span>{targetCurrency}</span>
+                        </div>
+                      )}
+                      <span className="font-medium">
+                        {debt.rate > 0 ? formatAmount(debt.converted, targetCurrency) : "—"}
+                      </span>
+                    </div>
+                  ))}
+                  <div className="flex items-center justify-between px-3 py-2 font-medium">
+                    <span>total</span>
+                    <span>{formatAmount(consolidatedTotal, targetCurrency)}</span>
+                  </div>
                 </div>
-              )}
-            </div>
+                <p className="text-xs text-muted-foreground">
+                  today's rates are filled in; change them to the rates you agreed on. each debt is cleared in full
+                  in its own currency
+                </p>
+              </div>
+            )}
 
             <div className="grid grid-cols-2 gap-4">
               <div className="grid gap-2">
@@ -221,8 +411,8 @@ export function SettleUpDialogWithCurrency({
 
               <div className="grid gap-2">
                 <Label htmlFor="method">payment method</Label>
-                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
-                  <SelectTrigger>
+                <Select value={paymentMethod} onValueChange={(value) => setPaymentMethod(value as PaymentMethod)}>
+                  <SelectTrigger id="method">
                     <SelectValue placeholder="select method" />
                   </SelectTrigger>
                   <SelectContent>
@@ -250,7 +440,13 @@ export function SettleUpDialogWithCurrency({
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               cancel
             </Button>
-            <Button type="submit">record payment</Button>
+            <Button type="submit" disabled={isSaving || !canSubmit}>
+              {isSaving
+                ? "recording..."
+                : payments.length > 1
+                  ? `record ${payments.length} payments`
+                  : "record payment"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
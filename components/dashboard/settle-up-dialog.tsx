@@ -1,4 +1,4 @@
-"\"use client"
+"use client"
 
 import type React from "react"
 
@@ -17,53 +17,66 @@ import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover
 import { cn } from "@/lib/utils"
 import { Textarea } from "@/components/ui/textarea"
 import { DialogHeader } from "./dialog-header"
+import { useCurrentUser, useGroup } from "@/hooks/use-api"
+import { createSettlement, memberOptions } from "@/lib/api"
+import type { PaymentMethod } from "@/types/api"
 
 interface SettleUpDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   groupId: string
   groupName: string
+  // Called after the payment is saved, so the parent can refresh balances
+  onSettled?: () => void
 }
 
-export function SettleUpDialog({ open, onOpenChange, groupId, groupName }: SettleUpDialogProps) {
+export function SettleUpDialog({ open, onOpenChange, groupId, groupName, onSettled }: SettleUpDialogProps) {
   const [date, setDate] = useState<Date>(new Date())
   const [selectedMemberId, setSelectedMemberId] = useState<string>("")
   const [amount, setAmount] = useState<string>("")
+  const [currency, setCurrency] = useState<string>("")
+  const [method, setMethod] = useState<PaymentMethod>("cash")
+  const [notes, setNotes] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
   const { toast } = useToast()
+  const group = useGroup(groupId)
+  const me = useCurrentUser()
 
-  // Mock data for members
-  const members = [
-    {
-      id: "1",
-      name: "alex",
-      avatar: "a",
-    },
-    {
-      id: "2",
-      name: "jamie",
-      avatar: "j",
-    },
-    {
-      id: "3",
-      name: "sam",
-      avatar: "s",
-    },
-    {
-      id: "4",
-      name: "taylor",
-      avatar: "t",
-    },
-  ]
+  // Everyone else in the group, guests included
+  const members = memberOptions(group.data, me.data?.id).filter((member) => member.id !== me.data?.id)
+  const selectedCurrency = currency || group.data?.currency || "USD"
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-    onOpenChange(false)
+    if (!me.data || !selectedMemberId) return
 
-    toast({
-      title: "payment recorded",
-      description: "your payment has been recorded successfully",
-      duration: 3000,
-    })
+    setIsSaving(true)
+    try {
+      await createSettlement(groupId, {
+        paidBy: me.data.id,
+        paidTo: selectedMemberId,
+        amount: Number.parseFloat(amount),
+        currency: selectedCurrency,
+        method,
+        date: format(date, "yyyy-MM-dd"),
+        notes: notes || undefined,
+      })
+      onOpenChange(false)
+      onSettled?.()
+      toast({
+        title: "payment recorded",
+        description: "your payment has been recorded successfully",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "payment not recorded",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   return (
@@ -86,6 +99,7 @@ export function SettleUpDialog({ open, onOpenChange, groupId, groupName }: Settl
                           <AvatarFallback>{member.avatar}</AvatarFallback>
                         </Avatar>
                         <span>{member.name}</span>
+                        {member.isGuest && <span className="text-xs text-muted-foreground">guest</span>}
                       </div>
                     </SelectItem>
                   ))}
@@ -95,11 +109,14 @@ export function SettleUpDialog({ open, onOpenChange, groupId, groupName }: Settl
             <div className="grid gap-2">
               <Label htmlFor="amount">how much did you pay?</Label>
               <div className="flex items-center gap-2">
-                <Select defaultValue="USD">
+                <Select value={selectedCurrency} onValueChange={setCurrency}>
                   <SelectTrigger className="w-24">
                     <SelectValue placeholder="Currency" />
                   </SelectTrigger>
                   <SelectContent>
+                    {group.data && !["USD", "EUR", "GBP"].includes(group.data.currency) && (
+                      <SelectItem value={group.data.currency}>{group.data.currency}</SelectItem>
+                    )}
                     <SelectItem value="USD">USD</SelectItem>
                     <SelectItem value="EUR">EUR</SelectItem>
                     <SelectItem value="GBP">GBP</SelectItem>
@@ -143,7 +160,7 @@ export function SettleUpDialog({ open, onOpenChange, groupId, groupName }: Settl
               </div>
               <div className="grid gap-2">
                 <Label htmlFor="method">payment method</Label>
-                <Select defaultValue="cash">
+                <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
                   <SelectTrigger>
                     <SelectValue placeholder="select method" />
                   </SelectTrigger>
@@ -159,14 +176,21 @@ export function SettleUpDialog({ open, onOpenChange, groupId, groupName }: Settl
             </div>
             <div className="grid gap-2">
               <Label htmlFor="notes">notes (optional)</Label>
-              <Textarea id="notes" placeholder="add any details about this payment" />
+              <Textarea
+                id="notes"
+                placeholder="add any details about this payment"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
             </div>
           </div>
           <DialogFooter className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
               cancel
             </Button>
-            <Button type="submit">record payment</Button>
+            <Button type="submit" disabled={isSaving || !selectedMemberId}>
+              {isSaving ? "recording..." : "record payment"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
@@ -18,74 +18,100 @@ import { cn } from "@/lib/utils"
 import { Textarea } from "@/components/ui/textarea"
 import { DialogHeader } from "./dialog-header"
 import { useModal } from "@/contexts/modal-context"
-
-// Mock data for members - moved outside component to avoid recreation
-const MEMBERS = [
-  {
-    id: "2",
-    name: "alex",
-    avatar: "a",
-    amount: 45.75,
-  },
-  {
-    id: "3",
-    name: "jamie",
-    avatar: "j",
-    amount: 32.5,
-  },
-]
+import { useCurrentUser, useGroups } from "@/hooks/use-api"
+import { canContribute, createSettlement, memberOptions, roleIn } from "@/lib/api"
+import type { PaymentMethod } from "@/types/api"
 
 export function SettleUpModal() {
   const { isSettleUpModalOpen, settleUpModalData, closeModal } = useModal()
   const [date, setDate] = useState<Date>(new Date())
   const [selectedMemberId, setSelectedMemberId] = useState<string>("")
   const [amount, setAmount] = useState<string>("")
+  const [currency, setCurrency] = useState<string>("USD")
+  const [method, setMethod] = useState<PaymentMethod>("cash")
+  const [notes, setNotes] = useState("")
+  const [selectedGroupId, setSelectedGroupId] = useState<string>("")
+  const [isSaving, setIsSaving] = useState(false)
   const { toast } = useToast()
   const { groupId, groupName, preselectedMember } = settleUpModalData
+  const groupsState = useGroups()
+  const me = useCurrentUser()
+
+  // Without a group from the caller, offer the groups shared with the preselected member
+  const groups = (groupsState.data ?? []).filter(
+    (group) =>
+      canContribute(roleIn(group, me.data?.id)) &&
+      (!preselectedMember || group.members.some((member) => member.userId === preselectedMember.id)),
+  )
+  const activeGroupId = groupId ?? selectedGroupId
+  const activeGroup = (groupsState.data ?? []).find((group) => group.id === activeGroupId)
+  const members = memberOptions(activeGroup, me.data?.id).filter((member) => member.id !== me.data?.id)
 
   // Reset form when modal opens/closes
   useEffect(() => {
     if (isSettleUpModalOpen) {
+      setNotes("")
+      setMethod("cash")
       // Initialize with preselected member if available
       if (preselectedMember) {
         setSelectedMemberId(preselectedMember.id)
         setAmount(Math.abs(preselectedMember.amount).toFixed(2))
+        setCurrency(preselectedMember.currency ?? "USD")
       } else {
         // Clear form otherwise
         setSelectedMemberId("")
         setAmount("")
+        setCurrency("USD")
       }
     }
   }, [isSettleUpModalOpen, preselectedMember])
 
-  // Handle member selection and auto-fill amount
-  const handleMemberSelect = (memberId: string) => {
-    setSelectedMemberId(memberId)
+  // Pick the only shared group straight away
+  useEffect(() => {
+    if (isSettleUpModalOpen && !groupId) {
+      setSelectedGroupId(groups.length === 1 ? groups[0].id : "")
+    }
+  }, [isSettleUpModalOpen, groupId, groupsState.data])
 
-    // Auto-fill amount based on selected member
-    const selectedMember = MEMBERS.find((member) => member.id === memberId)
-    if (selectedMember) {
-      setAmount(Math.abs(selectedMember.amount).toFixed(2))
+  const handleGroupSelect = (id: string) => {
+    setSelectedGroupId(id)
+    if (!preselectedMember) {
+      setSelectedMemberId("")
     }
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
+    if (!me.data || !activeGroupId || !selectedMemberId) return
 
-    // In a real app, this would call an API to record the payment
-    console.log("Recording payment", {
-      memberId: selectedMemberId,
-      amount,
-      date,
-    })
+    setIsSaving(true)
+    try {
+      await createSettlement(activeGroupId, {
+        paidBy: me.data.id,
+        paidTo: selectedMemberId,
+        amount: Number.parseFloat(amount),
+        currency,
+        method,
+        date: format(date, "yyyy-MM-dd"),
+        notes: notes || undefined,
+      })
 
-    closeModal("settleUp")
+      closeModal("settleUp")
 
-    toast({
-      title: "payment recorded",
-      description: "your payment has been recorded successfully",
-      duration: 3000,
-    })
+      toast({
+        title: "payment recorded",
+        description: "your payment has been recorded successfully",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "payment not recorded",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
   }
 
   const title = "settle up"
@@ -97,21 +123,38 @@ export function SettleUpModal() {
         <DialogHeader title={title} description={description} />
         <form onSubmit={handleSubmit}>
           <div className="grid gap-4 py-4">
+            {!groupId && (
+              <div className="grid gap-2">
+                <Label htmlFor="group">group</Label>
+                <Select value={selectedGroupId} onValueChange={handleGroupSelect}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="select group" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="grid gap-2">
               <Label htmlFor="to">you paid</Label>
-              <Select value={selectedMemberId} onValueChange={handleMemberSelect}>
+              <Select value={selectedMemberId} onValueChange={setSelectedMemberId} disabled={!activeGroup}>
                 <SelectTrigger>
                   <SelectValue placeholder="select member" />
                 </SelectTrigger>
                 <SelectContent>
-                  {MEMBERS.map((member) => (
+                  {members.map((member) => (
                     <SelectItem key={member.id} value={member.id}>
                       <div className="flex items-center gap-2">
                         <Avatar className="h-6 w-6">
                           <AvatarFallback>{member.avatar}</AvatarFallback>
                         </Avatar>
                         <span>{member.name}</span>
-                        <span className="text-sm text-muted-foreground">(you owe ${member.amount.toFixed(2)})</span>
+                        {member.isGuest && <span className="text-xs text-muted-foreground">guest</span>}
                       </div>
                     </SelectItem>
                   ))}
@@ -121,11 +164,12 @@ export function SettleUpModal() {
             <div className="grid gap-2">
               <Label htmlFor="amount">amount</Label>
               <div className="flex items-center gap-2">
-                <Select defaultValue="USD">
+                <Select value={currency} onValueChange={setCurrency}>
                   <SelectTrigger className="w-24">
                     <SelectValue placeholder="Currency" />
                   </SelectTrigger>
                   <SelectContent>
+                    {!["USD", "EUR", "GBP"].includes(currency) && <SelectItem value={currency}>{currency}</SelectItem>}
                     <SelectItem value="USD">USD</SelectItem>
                     <SelectItem value="EUR">EUR</SelectItem>
                     <SelectItem value="GBP">GBP</SelectItem>
@@ -168,13 +212,13 @@ export function SettleUpModal() {
             </div>
             <div className="grid gap-2">
               <Label htmlFor="method">payment method</Label>
-              <Select defaultValue="cash">
+              <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
                 <SelectTrigger>
                   <SelectValue placeholder="select method" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="cash">cash</SelectItem>
-                  <SelectItem value="bank">bank transfer</SelectItem>
+                  <SelectItem value="bank transfer">bank transfer</SelectItem>
                   <SelectItem value="venmo">venmo</SelectItem>
                   <SelectItem value="paypal">paypal</SelectItem>
                   <SelectItem value="other">other</SelectItem>
@@ -183,14 +227,21 @@ export function SettleUpModal() {
             </div>
             <div className="grid gap-2">
               <Label htmlFor="notes">notes (optional)</Label>
-              <Textarea id="notes" placeholder="add any additional details about this payment" />
+              <Textarea
+                id="notes"
+                placeholder="add any additional details about this payment"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+              />
             </div>
           </div>
           <DialogFooter className="flex justify-end gap-2">
             <Button type="button" variant="outline" onClick={() => closeModal("settleUp")}>
               cancel
             </Button>
-            <Button type="submit">record payment</Button>
+            <Button type="submit" disabled={isSaving || !activeGroup || !selectedMemberId}>
+              {isSaving ? "recording..." : "record payment"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
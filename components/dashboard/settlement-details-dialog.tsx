@@ -2,20 +2,25 @@
 
 import { Dialog, DialogContent } from "@/components/ui/dialog"
 import { DialogHeader } from "./dialog-header"
-import { format } from "date-fns"
+import { format, parseISO } from "date-fns"
+import { useCurrency } from "@/contexts/currency-context"
+import type { SettlementItem } from "@/lib/activity"
+import { formatRate } from "@/lib/money"
 
 interface SettlementDetailsDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
-  settlement: any
+  settlement: SettlementItem | null
 }
 
 export function SettlementDetailsDialog({ open, onOpenChange, settlement }: SettlementDetailsDialogProps) {
+  const { formatAmount } = useCurrency()
   if (!settlement) return null
 
   // Format date for display
-  const dateObj = new Date(settlement.rawDate || Date.now())
-  const formattedDate = format(dateObj, "MMMM d, yyyy")
+  const formattedDate = format(parseISO(settlement.rawDate), "MMMM d, yyyy")
+  // Set for amounts in another currency than the group's
+  const { lockedRate } = settlement
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -32,8 +37,16 @@ export function SettlementDetailsDialog({ open, onOpenChange, settlement }: Sett
             <div>
               <p className="text-sm text-muted-foreground">amount</p>
               <p className={`font-medium ${settlement.youPaid ? "text-red-600" : "text-green-600"}`}>
-                {settlement.youPaid ? "-" : "+"}${Math.abs(settlement.amount).toFixed(2)}
+                {settlement.youPaid ? "-" : "+"}
+                {formatAmount(Math.abs(settlement.amount), settlement.currency)}
               </p>
+              {lockedRate && (
+                <p className="text-xs text-muted-foreground">
+                  {formatAmount(Math.abs(settlement.amount) * lockedRate.rate, lockedRate.currency)} at{" "}
+                  {formatRate(settlement.currency, lockedRate.rate, lockedRate.currency)}
+                  {lockedRate.manual ? ", entered by hand" : ` on ${formattedDate.toLowerCase()}`}
+                </p>
+              )}
             </div>
 
             <div>
@@ -7,145 +7,67 @@ import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigge
 import { MoreHorizontal } from "lucide-react"
 import { SettlementDetailsDialog } from "./settlement-details-dialog"
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog"
+import { DataStatus } from "./data-status"
+import { combineStates, useActivityContext, useSettlements } from "@/hooks/use-api"
 import { useToast } from "@/hooks/use-toast"
+import { useCurrency } from "@/contexts/currency-context"
+import { deleteSettlement, type SettlementFilter } from "@/lib/api"
+import { toSettlementItem, type SettlementItem } from "@/lib/activity"
 
 interface SettlementsListProps {
-  filter?: "all" | "you-paid" | "you-received"
+  filter?: SettlementFilter
 }
 
 export function SettlementsList({ filter = "all" }: SettlementsListProps) {
   const [detailsDialogOpen, setDetailsDialogOpen] = useState(false)
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
-  const [selectedSettlement, setSelectedSettlement] = useState<any>(null)
+  const [selectedSettlement, setSelectedSettlement] = useState<SettlementItem | null>(null)
+  const settlements = useSettlements(filter)
+  const context = useActivityContext()
+  const { formatAmount } = useCurrency()
   const { toast } = useToast()
+  const status = combineStates(settlements, context)
 
-  // Mock data for settlements
-  const allSettlements = [
-    {
-      id: "1",
-      description: "payment to alex",
-      amount: 78.25,
-      date: "apr 15, 2023",
-      rawDate: "2023-04-15",
-      payer: {
-        name: "you",
-        isYou: true,
-      },
-      recipient: {
-        name: "alex",
-        isYou: false,
-      },
-      method: "venmo",
-      youPaid: true,
-      youReceived: false,
-      notes: "For dinner and museum tickets",
-    },
-    {
-      id: "2",
-      description: "payment to jamie",
-      amount: 45.75,
-      date: "apr 12, 2023",
-      rawDate: "2023-04-12",
-      payer: {
-        name: "you",
-        isYou: true,
-      },
-      recipient: {
-        name: "jamie",
-        isYou: false,
-      },
-      method: "cash",
-      youPaid: true,
-      youReceived: false,
-    },
-    {
-      id: "3",
-      description: "payment from taylor",
-      amount: 32.5,
-      date: "apr 10, 2023",
-      rawDate: "2023-04-10",
-      payer: {
-        name: "taylor",
-        isYou: false,
-      },
-      recipient: {
-        name: "you",
-        isYou: true,
-      },
-      method: "bank transfer",
-      youPaid: false,
-      youReceived: true,
-    },
-    {
-      id: "4",
-      description: "payment from sam",
-      amount: 18.5,
-      date: "apr 5, 2023",
-      rawDate: "2023-04-05",
-      payer: {
-        name: "sam",
-        isYou: false,
-      },
-      recipient: {
-        name: "you",
-        isYou: true,
-      },
-      method: "paypal",
-      youPaid: false,
-      youReceived: true,
-    },
-    {
-      id: "5",
-      description: "payment to alex",
-      amount: 65.0,
-      date: "mar 28, 2023",
-      rawDate: "2023-03-28",
-      payer: {
-        name: "you",
-        isYou: true,
-      },
-      recipient: {
-        name: "alex",
-        isYou: false,
-      },
-      method: "venmo",
-      youPaid: true,
-      youReceived: false,
-    },
-  ]
+  const activity = context.data
+  const filteredSettlements =
+    settlements.data && activity ? settlements.data.map((settlement) => toSettlementItem(settlement, activity)) : []
 
-  // Filter settlements based on the filter prop
-  const filteredSettlements = allSettlements.filter((settlement) => {
-    if (filter === "you-paid") return settlement.youPaid
-    if (filter === "you-received") return settlement.youReceived
-    return true // "all" filter
-  })
-
-  const handleViewDetails = (settlement: any) => {
+  const handleViewDetails = (settlement: SettlementItem) => {
     setSelectedSettlement(settlement)
     setDetailsDialogOpen(true)
   }
 
-  const handleDelete = (settlement: any) => {
+  const handleDelete = (settlement: SettlementItem) => {
     setSelectedSettlement(settlement)
     setDeleteDialogOpen(true)
   }
 
-  const confirmDelete = () => {
-    // In a real app, this would call an API to delete the settlement
-    console.log(`Deleting settlement ${selectedSettlement.id}`)
+  const confirmDelete = async () => {
+    if (!selectedSettlement) return
     setDeleteDialogOpen(false)
 
-    toast({
-      title: "settlement deleted",
-      description: "The settlement has been deleted successfully",
-      duration: 3000,
-    })
+    try {
+      await deleteSettlement(selectedSettlement.groupId, selectedSettlement.id)
+      settlements.reload()
+      toast({
+        title: "settlement deleted",
+        description: "The settlement has been deleted successfully",
+        duration: 3000,
+      })
+    } catch (error) {
+      toast({
+        title: "settlement not deleted",
+        description: error instanceof Error ? error.message : "please try again",
+        variant: "destructive",
+      })
+    }
   }
 
   return (
     <div className="divide-y">
-      {filteredSettlements.length === 0 ? (
+      {!status.isReady ? (
+        <DataStatus {...status} />
+      ) : filteredSettlements.length === 0 ? (
         <div className="p-4 text-center text-sm text-muted-foreground">no settlements found</div>
       ) : (
         filteredSettlements.map((settlement) => (
@@ -170,7 +92,8 @@ export function SettlementsList({ filter = "all" }: SettlementsListProps) {
             <div className="flex flex-col items-end gap-1">
               <div className="flex items-center gap-1">
                 <span className={`text-xs font-medium ${settlement.youPaid ? "text-red-600" : "text-green-600"}`}>
-                  {settlement.youPaid ? `-$${settlement.amount.toFixed(2)}` : `+$${settlement.amount.toFixed(2)}`}
+                  {settlement.youPaid ? "-" : "+"}
+                  {formatAmount(settlement.amount, settlement.currency)}
                 </span>
                 <DropdownMenu>
                   <DropdownMenuTrigger asChild>
@@ -0,0 +1,306 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart"
+import { Bar, BarChart, CartesianGrid, XAxis } from "recharts"
+import { TrendingDown, TrendingUp } from "lucide-react"
+import { format, parseISO, startOfYear, subMonths } from "date-fns"
+import { cn } from "@/lib/utils"
+import { CategoryBadge } from "./category-badge"
+import { CategoryFilter } from "./category-filter"
+import { DataStatus } from "./data-status"
+import { useActivityContext, useCategories, useSpendingAnalytics } from "@/hooks/use-api"
+import { useCurrency } from "@/contexts/currency-context"
+import { displayName, type CategoryFilter as CategoryFilterValue } from "@/lib/api"
+import { findCategory } from "@/lib/categories"
+import type { SpendingTotals } from "@/types/api"
+
+type View = "yourShare" | "total"
+
+const PERIODS = {
+  "last-6-months": "last 6 months",
+  "last-12-months": "last 12 months",
+  "this-year": "this year",
+  "all-time": "all time",
+} as const
+
+type Period = keyof typeof PERIODS
+
+// The first day of a period as YYYY-MM-DD, or undefined for all time
+function periodStart(period: Period, now = new Date()): string | undefined {
+  switch (period) {
+    case "last-6-months":
+      return format(subMonths(now, 5), "yyyy-MM-01")
+    case "last-12-months":
+      return format(subMonths(now, 11), "yyyy-MM-01")
+    case "this-year":
+      return format(startOfYear(now), "yyyy-MM-dd")
+    case "all-time":
+      return undefined
+  }
+}
+
+const chartConfig = {
+  amount: { label: "spent", color: "hsl(var(--primary-500))" },
+} satisfies ChartConfig
+
+// Spending across the user's groups in their default currency, by month, category, group and member
+export function SpendingAnalytics() {
+  const [view, setView] = useState<View>("yourShare")
+  const [period, setPeriod] = useState<Period>("last-6-months")
+  const [groupId, setGroupId] = useState<string>()
+  const [category, setCategory] = useState<CategoryFilterValue>()
+  const { userPreference, formatAmount } = useCurrency()
+  const currency = userPreference.defaultCurrency
+  const spending = useSpendingAnalytics({ currency, from: periodStart(period), groupId, category })
+  const categories = useCategories()
+  const context = useActivityContext()
+
+  const amountOf = (totals: SpendingTotals) => totals[view]
+  const groups = Object.values(context.data?.groups ?? {}).filter((group) => !group.archivedAt)
+
+  const filters = (
+    <div className="flex flex-wrap gap-2">
+      <div className="flex rounded-md border p-0.5">
+        <Button
+          variant={view === "yourShare" ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setView("yourShare")}
+        >
+          your share
+        </Button>
+        <Button
+          variant={view === "total" ? "secondary" : "ghost"}
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => setView("total")}
+        >
+          group totals
+        </Button>
+      </div>
+      <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+        <SelectTrigger className="w-[140px] h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(PERIODS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Select value={groupId ?? "all"} onValueChange={(value) => setGroupId(value === "all" ? undefined : value)}>
+        <SelectTrigger className="w-[150px] h-9">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">all groups</SelectItem>
+          {groups.map((group) => (
+            <SelectItem key={group.id} value={group.id}>
+              {group.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <CategoryFilter categories={categories.data ?? []} value={category} onChange={setCategory} />
+    </div>
+  )
+
+  const header = (
+    <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
+      <div>
+        <h1 className="text-xl font-medium md:text-2xl">analytics</h1>
+        <p className="text-sm text-muted-foreground">where your money goes, in {currency}</p>
+      </div>
+      {filters}
+    </div>
+  )
+
+  if (!spending.data) {
+    return (
+      <div className="space-y-4">
+        {header}
+        <DataStatus {...spending} />
+      </div>
+    )
+  }
+
+  const data = spending.data
+  const { current, previous } = data.monthOverMonth
+  const change = amountOf(previous) ? (amountOf(current) - amountOf(previous)) / amountOf(previous) : null
+  const monthly = data.byMonth.map((month) => ({
+    month: format(parseISO(`${month.month}-01`), "MMM yy"),
+    amount: amountOf(month),
+  }))
+  const largestCategory = Math.max(...data.byCategory.map(amountOf), 0)
+  const memberName = (userId: string) => {
+    if (userId === context.data?.currentUserId) return "you"
+    return displayName(context.data?.users[userId])
+  }
+
+  return (
+    <div className="space-y-4">
+      {header}
+
+      {data.unconverted.length > 0 && (
+        <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-xs text-amber-800">
+          left out because there is no rate to {currency}:{" "}
+          {data.unconverted
+            .map((left) => `${formatAmount(left.amount, left.currency)} (${left.count} expenses)`)
+            .join(", ")}
+        </div>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        <Card className="border">
+          <CardHeader className="p-4 pb-0">
+            <CardDescription>{view === "yourShare" ? "your share" : "group totals"}</CardDescription>
+            <CardTitle className="text-2xl">{formatAmount(amountOf(data), currency)}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-1 text-xs text-muted-foreground">{PERIODS[period]}</CardContent>
+        </Card>
+        <Card className="border">
+          <CardHeader className="p-4 pb-0">
+            <CardDescription>this month</CardDescription>
+            <CardTitle className="text-2xl">{formatAmount(amountOf(current), currency)}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-1 text-xs text-muted-foreground">
+            {change === null ? (
+              "nothing spent last month"
+            ) : (
+              <span className={cn("inline-flex items-center gap-1", change > 0 ? "text-expense" : "text-income")}>
+                {change > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                {Math.abs(Math.round(change * 100))}% {change > 0 ? "more" : "less"} than last month
+              </span>
+            )}
+          </CardContent>
+        </Card>
+        <Card className="border">
+          <CardHeader className="p-4 pb-0">
+            <CardDescription>last month</CardDescription>
+            <CardTitle className="text-2xl">{formatAmount(amountOf(previous), currency)}</CardTitle>
+          </CardHeader>
+          <CardContent className="p-4 pt-1 text-xs text-muted-foreground">
+            {format(parseISO(`${previous.month}-01`), "MMMM yyyy").toLowerCase()}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border">
+        <CardHeader className="p-4 pb-0">
+          <CardTitle className="text-base">spending over time</CardTitle>
+          <CardDescription>month by month</CardDescription>
+        </CardHeader>
+        <CardContent className="p-4">
+          {monthly.length === 0 ? (
+            <div className="p-4 text-center text-sm text-muted-foreground">no expenses in this period</div>
+          ) : (
+            <ChartContainer config={chartConfig} className="h-[240px] w-full">
+              <BarChart data={monthly}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="month" tickLine={false} axisLine={false} tickMargin={8} />
+                <ChartTooltip
+                  content={
+                    <ChartTooltipContent formatter={(value) => formatAmount(Number(value), currency)} hideIndicator />
+                  }
+                />
+                <Bar dataKey="amount" fill="var(--color-amount)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card className="border">
+          <CardHeader className="p-4 pb-0">
+            <CardTitle className="text-base">by category</CardTitle>
+            <CardDescription>what the money went on</CardDescription>
+          </CardHeader>
+          <CardContent className="p-4 space-y-3">
+            {data.byCategory.length === 0 && (
+              <div className="text-center text-sm text-muted-foreground">no expenses in this period</div>
+            )}
+            {data.byCategory.map((row) => {
+              const found = findCategory(row.category, categories.data)
+              return (
+                <div key={row.category ?? "none"} className="space-y-1">
+                  <div className="flex items-center justify-between text-xs">
+                    {found ? (
+                      <CategoryBadge category={found} />
+                    ) : (
+                      <span className="text-muted-foreground">uncategorized</span>
+                    )}
+                    <span>{formatAmount(amountOf(row), currency)}</span>
+                  </div>
+                  <div className="h-1.5 rounded-full bg-muted">
+                    <div
+                      className="h-1.5 rounded-full"
+                      style={{
+                        width: `${largestCategory ? (amountOf(row) / largestCategory) * 100 : 0}%`,
+                        backgroundColor: found?.color ?? "#94a3b8",
+                      }}
+                    />
+                  </div>
+                </div>
+              )
+            })}
+          </CardContent>
+        </Card>
+
+        <Card className="border">
+          <CardHeader className="p-4 pb-0">
+            <CardTitle className="text-base">by group</CardTitle>
+            <CardDescription>where the money was spent</CardDescription>
+          </CardHeader>
+          <CardContent className="p-0">
+            <div className="divide-y">
+              {data.byGroup.length === 0 && (
+                <div className="p-4 text-center text-sm text-muted-foreground">no expenses in this period</div>
+              )}
+              {data.byGroup.map((row) => (
+                <div key={row.groupId} className="flex items-center justify-between p-4 text-sm">
+                  <span>{row.name}</span>
+                  <span>{formatAmount(amountOf(row), currency)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="border">
+        <CardHeader className="p-4 pb-0">
+          <CardTitle className="text-base">members</CardTitle>
+          <CardDescription>what each person paid against their share of the expenses</CardDescription>
+        </CardHeader>
+        <CardContent className="p-0">
+          <div className="divide-y">
+            {data.members.length === 0 && (
+              <div className="p-4 text-center text-sm text-muted-foreground">no expenses in this period</div>
+            )}
+            {data.members.map((member) => {
+              const difference = member.paid - member.share
+              return (
+                <div key={member.userId} className="grid grid-cols-4 items-center gap-2 p-4 text-sm">
+                  <span className="truncate">{memberName(member.userId)}</span>
+                  <span className="text-xs text-muted-foreground">paid {formatAmount(member.paid, currency)}</span>
+                  <span className="text-xs text-muted-foreground">share {formatAmount(member.share, currency)}</span>
+                  <span className={cn("text-right text-xs", difference >= 0 ? "text-income" : "text-expense")}>
+                    {difference >= 0 ? "+" : "-"}
+                    {formatAmount(Math.abs(difference), currency)}
+                  </span>
+                </div>
+              )
+            })}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
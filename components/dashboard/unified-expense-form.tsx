@@ -23,6 +23,47 @@ import { useCurrency } from "@/contexts/currency-context"
 import { CurrencyAmount } from "@/components/currency/currency-amount"
 import { Alert, AlertDescription } from "@/components/ui/alert"
 import { useRouter } from "next/navigation"
+import { useCategories, useCurrentUser, useExchangeRate, useGroups } from "@/hooks/use-api"
+import {
+  canContribute,
+  createExpense,
+  createRecurringExpense,
+  memberOptions,
+  roleIn,
+  type NewExpense,
+} from "@/lib/api"
+import type { RecurrenceFrequency, SplitType } from "@/types/api"
+import {
+  emptyReceipt,
+  receiptShares,
+  receiptTotals,
+  toReceiptPayload,
+  validateReceipt,
+  type ReceiptDraft,
+} from "@/lib/receipt"
+import { formatMoney, formatRate, minorStep } from "@/lib/money"
+import {
+  evenPercentages,
+  percentTotal,
+  splitByPercent,
+  splitByWeight,
+  splitEvenly,
+  validatePercentages,
+  validateTotal,
+} from "@/lib/splits"
+import { categoryIcon, findCategory, suggestCategory, UNCATEGORIZED } from "@/lib/categories"
+import { describeFrequency } from "@/lib/recurrence"
+import { ItemizedSplit } from "./itemized-split"
+
+type Repeat = RecurrenceFrequency | "never"
+
+const REPEAT_OPTIONS: { value: Repeat; label: string }[] = [
+  { value: "never", label: "Does not repeat" },
+  { value: "daily", label: "Every day" },
+  { value: "weekly", label: "Every week" },
+  { value: "monthly", label: "Every month" },
+  { value: "yearly", label: "Every year" },
+]
 
 interface UnifiedExpenseFormProps {
   groupId?: string
@@ -44,10 +85,24 @@ export function UnifiedExpenseForm({
   const router = useRouter()
   const [step, setStep] = useState(1)
   const [date, setDate] = useState<Date>(new Date())
-  const [splitType, setSplitType] = useState("equal")
+  const [splitType, setSplitType] = useState<SplitType>("equal")
   const [amount, setAmount] = useState("")
   const [description, setDescription] = useState("")
-  const [selectedPayerId, setSelectedPayerId] = useState("1") // Default to "you"
+  const [notes, setNotes] = useState("")
+  const [category, setCategory] = useState<string | null>(null)
+  // The category follows the description until one is picked by hand
+  const [categoryPicked, setCategoryPicked] = useState(false)
+  const [receipt, setReceipt] = useState<ReceiptDraft>(emptyReceipt)
+  const [repeat, setRepeat] = useState<Repeat>("never")
+  const [repeatUntil, setRepeatUntil] = useState<Date | undefined>()
+  const [repeatTimes, setRepeatTimes] = useState("")
+  // A rate into the group currency entered by hand; empty uses the rate on the expense date
+  const [exchangeRate, setExchangeRate] = useState("")
+  const [selectedPayerId, setSelectedPayerId] = useState("")
+  // When several people paid, what each of them put in
+  const [multiplePayers, setMultiplePayers] = useState(false)
+  const [payerAmounts, setPayerAmounts] = useState<Record<string, string>>({})
+  const [payerError, setPayerError] = useState<string | null>(null)
   const [receiptImage, setReceiptImage] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [selectedGroupId, setSelectedGroupId] = useState<string | undefined>(groupId)
@@ -62,67 +117,82 @@ export function UnifiedExpenseForm({
   // State for member splits
   const [memberPercentages, setMemberPercentages] = useState<Record<string, string>>({})
   const [memberExactAmounts, setMemberExactAmounts] = useState<Record<string, string>>({})
+  const [memberWeights, setMemberWeights] = useState<Record<string, string>>({})
 
   const splitInitialized = useRef(false)
 
-  // Mock data for groups - in a real app, this would be fetched from an API
-  const groups = [
-    { id: "1", name: "Roommates", currency: "USD" },
-    { id: "2", name: "Trip to Barcelona", currency: "EUR" },
-    { id: "3", name: "Office Lunch", currency: "USD" },
-    { id: "4", name: "Game Night", currency: "USD" },
-  ]
+  const groupsState = useGroups()
+  const me = useCurrentUser()
+
+  // Viewers cannot add expenses, so their groups are not offered
+  const groups = (groupsState.data ?? []).filter((group) => canContribute(roleIn(group, me.data?.id)))
+  const selectedGroup = groups.find((group) => group.id === selectedGroupId)
+
+  // The built-in categories and the selected group's own
+  const categoriesState = useCategories(selectedGroupId)
+  const categories = (categoriesState.data ?? []).filter(
+    (option) => !option.groupId || option.groupId === selectedGroupId,
+  )
+  const suggestedCategory = suggestCategory(description, categories)
+  const selectedCategory = categoryPicked ? category : suggestedCategory
 
   // Update selected currency when group changes
   useEffect(() => {
-    if (selectedGroupId) {
-      const group = groups.find((g) => g.id === selectedGroupId)
-      if (group) {
-        setSelectedCurrency(group.currency)
-      }
+    if (selectedGroup) {
+      setSelectedCurrency(selectedGroup.currency)
     }
-  }, [selectedGroupId])
-
-  // Mock data for members
-  const members = [
-    {
-      id: "1",
-      name: "you",
-      avatar: "y",
-    },
-    {
-      id: "2",
-      name: "alex",
-      avatar: "a",
-    },
-    {
-      id: "3",
-      name: "jamie",
-      avatar: "j",
-    },
-    {
-      id: "4",
-      name: "sam",
-      avatar: "s",
-    },
-  ]
+  }, [selectedGroupId, groupsState.data])
 
-  // Initialize member splits with equal values when amount or members change
-  useEffect(() => {
-    if (members.length > 0 && !splitInitialized.current) {
-      const equalPercentage = (100 / members.length).toFixed(2)
-      const equalAmount = amount ? (Number.parseFloat(amount) / members.length).toFixed(2) : "0.00"
+  // Expenses in another currency than the group's are converted at the rate on their date
+  const bookCurrency = selectedGroup?.currency ?? groupCurrency ?? selectedCurrency
+  const needsRate = selectedCurrency !== bookCurrency
+  const rateQuote = useExchangeRate(selectedCurrency, bookCurrency, format(date, "yyyy-MM-dd"))
+  const rateToLock = needsRate ? Number(exchangeRate) || rateQuote.data?.rate : undefined
 
-      const newPercentages: Record<string, string> = {}
-      const newExactAmounts: Record<string, string> = {}
+  // A rate entered for one pair of currencies means nothing for another
+  useEffect(() => {
+    setExchangeRate("")
+  }, [selectedCurrency, bookCurrency])
+
+  // Everyone in the selected group, guests included
+  const members = memberOptions(selectedGroup, me.data?.id)
+  const memberIds = members.map((member) => member.id)
+  const amountValue = Number.parseFloat(amount || "0")
+  const numbers = (values: Record<string, string>) =>
+    Object.fromEntries(memberIds.map((id) => [id, Number(values[id] || 0)]))
+
+  // Previews of each member's share, rounded exactly the way the API will round them
+  const equalShares = splitEvenly(amountValue, memberIds, selectedCurrency)
+  const percentShares = splitByPercent(amountValue, numbers(memberPercentages), selectedCurrency)
+  const weightedShares = splitByWeight(amountValue, numbers(memberWeights), selectedCurrency)
+  const itemizedShares = receiptShares(receipt, amountValue, selectedCurrency)
+  const itemizedTotals = receiptTotals(receipt, selectedCurrency)
+  const percentError = validatePercentages(Object.values(numbers(memberPercentages)))
+  const exactError = validateTotal(amountValue, Object.values(numbers(memberExactAmounts)), selectedCurrency)
+
+  // Equal values to start the percent and exact tabs from, adding up exactly
+  const equalSplitValues = () => {
+    const percentages = evenPercentages(memberIds)
+    return {
+      percentages: Object.fromEntries(memberIds.map((id) => [id, percentages[id].toFixed(2)])),
+      amounts: Object.fromEntries(memberIds.map((id) => [id, formatMoney(equalShares[id], selectedCurrency)])),
+    }
+  }
 
-      members.forEach((member) => {
-        newPercentages[member.id] = equalPercentage
-        newExactAmounts[member.id] = equalAmount
-      })
+  // Default the payer to the current user once they are known
+  useEffect(() => {
+    if (!selectedPayerId && me.data) {
+      setSelectedPayerId(me.data.id)
+    }
+  }, [me.data, selectedPayerId])
 
-      setMemberPercentages(newPercentages)
-      setMemberExactAmounts(newExactAmounts)
+  // Initialize member splits with equal values when amount or members change
+  useEffect(() => {
+    if (members.length > 0 && !splitInitialized.current) {
+      const { percentages, amounts } = equalSplitValues()
+      setMemberPercentages(percentages)
+      setMemberExactAmounts(amounts)
+      setMemberWeights(Object.fromEntries(members.map((member) => [member.id, "1"])))
       splitInitialized.current = true
     }
   }, [members, amount])
@@ -130,16 +200,9 @@ export function UnifiedExpenseForm({
   // Update exact amounts when amount changes (only if already initialized)
   useEffect(() => {
     if (splitInitialized.current && amount && splitType === "equal") {
-      const equalAmount = (Number.parseFloat(amount) / members.length).toFixed(2)
-      const newExactAmounts: Record<string, string> = {}
-
-      members.forEach((member) => {
-        newExactAmounts[member.id] = equalAmount
-      })
-
-      setMemberExactAmounts(newExactAmounts)
+      setMemberExactAmounts(equalSplitValues().amounts)
     }
-  }, [amount, members.length, splitType])
+  }, [amount, members.length, splitType, selectedCurrency])
 
   // Validate splits before proceeding to next step
   const validateSplits = (): boolean => {
@@ -147,30 +210,93 @@ export function UnifiedExpenseForm({
       return true
     }
 
-    if (splitType === "percent") {
-      const totalPercent = Object.values(memberPercentages).reduce((sum, value) => sum + Number(value || 0), 0)
-
-      if (Math.abs(totalPercent - 100) > 0.01) {
-        setSplitError(`Percentages must add up to 100%. Current total: ${totalPercent.toFixed(2)}%`)
+    if (splitType === "shares") {
+      if (members.some((member) => Number(memberWeights[member.id] || 0) < 0)) {
+        setSplitError("Weights cannot be negative")
+        return false
+      }
+      if (Object.values(memberWeights).reduce((sum, value) => sum + Number(value || 0), 0) <= 0) {
+        setSplitError("At least one member needs a weight above zero")
         return false
       }
     }
 
-    if (splitType === "exact") {
-      const totalExact = Object.values(memberExactAmounts).reduce((sum, value) => sum + Number(value || 0), 0)
-      const expenseAmount = Number.parseFloat(amount || "0")
-
-      if (Math.abs(totalExact - expenseAmount) > 0.01) {
-        setSplitError(`Amounts must add up to ${expenseAmount.toFixed(2)}. Current total: ${totalExact.toFixed(2)}`)
+    if (splitType === "itemized") {
+      if (repeat !== "never") {
+        setSplitError("Itemized expenses cannot repeat; add each receipt on its own")
         return false
       }
+      const receiptError = validateReceipt(receipt, amountValue, selectedCurrency)
+      if (receiptError) {
+        setSplitError(receiptError)
+        return false
+      }
+    }
+
+    // Percentages and amounts have to add up exactly, as the API checks them to the minor unit
+    if (splitType === "percent" && percentError) {
+      setSplitError(percentError)
+      return false
+    }
+
+    if (splitType === "exact" && exactError) {
+      setSplitError(exactError)
+      return false
     }
 
     setSplitError(null)
     return true
   }
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const paidTotal = Object.values(payerAmounts).reduce((sum, value) => sum + Number(value || 0), 0)
+
+  // Payments are compared in minor units since the API wants them to match the total exactly
+  const validatePayers = (): boolean => {
+    const error = validateTotal(amountValue, Object.values(numbers(payerAmounts)), selectedCurrency, "Payments")
+    if (multiplePayers && error) {
+      setPayerError(error)
+      return false
+    }
+    setPayerError(null)
+    return true
+  }
+
+  const buildPayers = (): Pick<NewExpense, "paidBy" | "payers"> => {
+    if (!multiplePayers) {
+      return { paidBy: selectedPayerId }
+    }
+    return {
+      payers: members
+        .filter((member) => Number(payerAmounts[member.id] || 0) > 0)
+        .map((member) => ({ userId: member.id, amount: Number(payerAmounts[member.id]) })),
+    }
+  }
+
+  const toggleMultiplePayers = () => {
+    // Start from the single payer having paid everything
+    if (!multiplePayers) {
+      setPayerAmounts(selectedPayerId ? { [selectedPayerId]: amount } : {})
+    }
+    setMultiplePayers(!multiplePayers)
+    setPayerError(null)
+  }
+
+  // Equal splits go without explicit shares so they cover every member of the group,
+  // and itemized ones are worked out from the receipt
+  const buildSplits = (): NewExpense["splits"] => {
+    if (splitType === "percent") {
+      return members.map((member) => ({ userId: member.id, percentage: Number(memberPercentages[member.id] || 0) }))
+    }
+    if (splitType === "exact") {
+      return members.map((member) => ({ userId: member.id, amount: Number(memberExactAmounts[member.id] || 0) }))
+    }
+    if (splitType === "shares") {
+      return members.map((member) => ({ userId: member.id, weight: Number(memberWeights[member.id] || 0) }))
+    }
+    return undefined
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
 
     // Validate that a group is selected
@@ -186,13 +312,41 @@ export function UnifiedExpenseForm({
 
     setIsLoading(true)
 
-    // Simulate API call
-    setTimeout(() => {
-      setIsLoading(false)
+    try {
+      const expense = {
+        description,
+        amount: Number.parseFloat(amount),
+        currency: selectedCurrency,
+        date: format(date, "yyyy-MM-dd"),
+        ...buildPayers(),
+        splitType,
+        splits: buildSplits(),
+        notes: notes || undefined,
+        category: selectedCategory ?? undefined,
+      }
+
+      // A repeating expense is saved as a schedule, which also adds the ones already due
+      if (repeat === "never") {
+        await createExpense(selectedGroupId, {
+          ...expense,
+          ...(needsRate && exchangeRate ? { exchangeRate: Number(exchangeRate) } : {}),
+          ...(splitType === "itemized" ? toReceiptPayload(receipt) : {}),
+        })
+      } else {
+        await createRecurringExpense(selectedGroupId, {
+          ...expense,
+          frequency: repeat,
+          endDate: repeatUntil ? format(repeatUntil, "yyyy-MM-dd") : undefined,
+          occurrences: repeatTimes ? Number(repeatTimes) : undefined,
+        })
+      }
 
       toast({
         title: "Expense added",
-        description: "Your expense has been added successfully",
+        description:
+          repeat === "never"
+            ? "Your expense has been added successfully"
+            : `Your expense has been added and repeats ${describeFrequency(repeat)}`,
         duration: 3000,
       })
 
@@ -201,24 +355,22 @@ export function UnifiedExpenseForm({
       } else {
         router.push("/dashboard/expenses")
       }
-    }, 1000)
+    } catch (error) {
+      toast({
+        title: "Expense not added",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   const handleSplitEqually = () => {
     // Calculate equal splits for all members
-    const equalPercentage = (100 / members.length).toFixed(2)
-    const equalAmount = amount ? (Number.parseFloat(amount) / members.length).toFixed(2) : "0.00"
-
-    const newPercentages: Record<string, string> = {}
-    const newExactAmounts: Record<string, string> = {}
-
-    members.forEach((member) => {
-      newPercentages[member.id] = equalPercentage
-      newExactAmounts[member.id] = equalAmount
-    })
-
-    setMemberPercentages(newPercentages)
-    setMemberExactAmounts(newExactAmounts)
+    const { percentages, amounts } = equalSplitValues()
+    setMemberPercentages(percentages)
+    setMemberExactAmounts(amounts)
     setSplitError(null)
 
     toast({
@@ -246,6 +398,15 @@ export function UnifiedExpenseForm({
     setSplitError(null)
   }
 
+  const handleWeightChange = (memberId: string, value: string) => {
+    setMemberWeights((prev) => ({
+      ...prev,
+      [memberId]: value,
+    }))
+    // Clear error when user starts making changes
+    setSplitError(null)
+  }
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
     if (file) {
@@ -270,6 +431,10 @@ export function UnifiedExpenseForm({
       setGroupError(null)
     }
 
+    if (step === 1 && !validatePayers()) {
+      return
+    }
+
     // Validate splits before proceeding from step 2
     if (step === 2 && !validateSplits()) {
       return
@@ -289,6 +454,15 @@ export function UnifiedExpenseForm({
     } else {
       setSelectedGroupId(value)
       setGroupError(null)
+      // The new group has different members, so start their splits over
+      splitInitialized.current = false
+      setReceipt(emptyReceipt())
+      setPayerAmounts({})
+      // A category of the previous group's own does not exist in the new one
+      if (findCategory(category, categoriesState.data)?.groupId) {
+        setCategory(null)
+        setCategoryPicked(false)
+      }
 
       // Update currency based on selected group
       const group = groups.find((g) => g.id === value)
@@ -323,8 +497,8 @@ export function UnifiedExpenseForm({
       {groupCurrency && selectedCurrency !== groupCurrency && (
         <Alert variant="warning" className="mb-4">
           <AlertDescription>
-            This group uses {currencies[groupCurrency]?.name || groupCurrency} ({groupCurrency}). Changing the currency
-            may affect calculations within the group.
+            This group uses {currencies[groupCurrency]?.name || groupCurrency} ({groupCurrency}). Balances count this
+            expense at the exchange rate below.
           </AlertDescription>
         </Alert>
       )}
@@ -381,6 +555,40 @@ export function UnifiedExpenseForm({
                 />
               </div>
 
+              <div className="form-group">
+                <Label htmlFor="category" className="text-sm font-medium">
+                  Category
+                </Label>
+                <Select
+                  value={selectedCategory ?? UNCATEGORIZED}
+                  onValueChange={(value) => {
+                    setCategory(value === UNCATEGORIZED ? null : value)
+                    setCategoryPicked(true)
+                  }}
+                >
+                  <SelectTrigger id="category" className="h-12 w-full">
+                    <SelectValue placeholder="Select a category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNCATEGORIZED}>No category</SelectItem>
+                    {categories.map((option) => {
+                      const Icon = categoryIcon(option.icon)
+                      return (
+                        <SelectItem key={option.id} value={option.id}>
+                          <div className="flex items-center gap-2">
+                            <Icon className="h-4 w-4" style={{ color: option.color }} />
+                            <span className="capitalize">{option.name}</span>
+                          </div>
+                        </SelectItem>
+                      )
+                    })}
+                  </SelectContent>
+                </Select>
+                {!categoryPicked && suggestedCategory && (
+                  <p className="mt-1 text-xs text-muted-foreground">Suggested from the description</p>
+                )}
+              </div>
+
               <div className="form-group">
                 <Label htmlFor="amount" className="text-sm font-medium">
                   How much was it?
@@ -389,6 +597,7 @@ export function UnifiedExpenseForm({
                   <CurrencySelector
                     value={selectedCurrency}
                     onChange={setSelectedCurrency}
+                    groupCurrencies={selectedGroup ? [selectedGroup.currency] : groups.map((group) => group.currency)}
                     triggerClassName="w-24 h-12"
                     className="w-[200px]"
                   />
@@ -399,9 +608,9 @@ export function UnifiedExpenseForm({
                     <Input
                       id="amount"
                       type="number"
-                      placeholder="0.00"
-                      step="0.01"
-                      min="0.01"
+                      placeholder={formatMoney(0, selectedCurrency)}
+                      step={minorStep(selectedCurrency)}
+                      min={minorStep(selectedCurrency)}
                       value={amount}
                       onChange={(e) => setAmount(e.target.value)}
                       className="h-12 text-lg pl-8"
@@ -411,6 +620,40 @@ export function UnifiedExpenseForm({
                 </div>
               </div>
 
+              {needsRate && (
+                <div className="form-group">
+                  <Label htmlFor="exchange-rate" className="text-sm font-medium">
+                    Exchange rate
+                  </Label>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="whitespace-nowrap text-muted-foreground">1 {selectedCurrency} =</span>
+                    <Input
+                      id="exchange-rate"
+                      type="number"
+                      step="any"
+                      min="0"
+                      placeholder={rateQuote.data ? String(Number(rateQuote.data.rate.toPrecision(6))) : ""}
+                      value={exchangeRate}
+                      onChange={(e) => setExchangeRate(e.target.value)}
+                      disabled={repeat !== "never"}
+                      className="h-10"
+                    />
+                    <span className="text-muted-foreground">{bookCurrency}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    {repeat !== "never"
+                      ? "Each repeat uses the rate on its own date"
+                      : exchangeRate
+                        ? "Entered by hand, and kept if the date changes"
+                        : rateQuote.data
+                          ? `The rate on ${format(date, "MMM d, yyyy")}, locked when you save`
+                          : rateQuote.error
+                            ? "No rate found for this date; enter one by hand"
+                            : "Looking up the rate..."}
+                  </p>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="form-group">
                   <Label className="text-sm font-medium">When was it?</Label>
@@ -437,7 +680,7 @@ export function UnifiedExpenseForm({
                   <Label htmlFor="payer" className="text-sm font-medium">
                     Who paid?
                   </Label>
-                  <Select value={selectedPayerId} onValueChange={setSelectedPayerId}>
+                  <Select value={selectedPayerId} onValueChange={setSelectedPayerId} disabled={multiplePayers}>
                     <SelectTrigger className="h-12 w-full">
                       <SelectValue placeholder="Select payer" />
                     </SelectTrigger>
@@ -449,14 +692,129 @@ export function UnifiedExpenseForm({
                               <AvatarFallback>{member.avatar}</AvatarFallback>
                             </Avatar>
                             <span>{member.name}</span>
+                            {member.isGuest && <span className="text-xs text-muted-foreground">guest</span>}
                           </div>
                         </SelectItem>
                       ))}
                     </SelectContent>
                   </Select>
+                  <button
+                    type="button"
+                    className="mt-1 text-xs text-primary hover:underline"
+                    onClick={toggleMultiplePayers}
+                  >
+                    {multiplePayers ? "One person paid" : "Several people paid"}
+                  </button>
                 </div>
               </div>
 
+              {multiplePayers && (
+                <div className="form-group space-y-2">
+                  <Label className="text-sm font-medium">How much did each person pay?</Label>
+                  {members.map((member) => (
+                    <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                      <div className="flex items-center gap-2">
+                        <Avatar className="h-8 w-8">
+                          <AvatarFallback>{member.avatar}</AvatarFallback>
+                        </Avatar>
+                        <span>{member.name}</span>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span>{currencies[selectedCurrency]?.symbol || selectedCurrency}</span>
+                        <Input
+                          type="number"
+                          className="w-24 h-8"
+                          aria-label={`Amount paid by ${member.name}`}
+                          placeholder={formatMoney(0, selectedCurrency)}
+                          step={minorStep(selectedCurrency)}
+                          min="0"
+                          value={payerAmounts[member.id] ?? ""}
+                          onChange={(e) => {
+                            setPayerAmounts((prev) => ({ ...prev, [member.id]: e.target.value }))
+                            setPayerError(null)
+                          }}
+                        />
+                      </div>
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Paid {formatMoney(paidTotal, selectedCurrency)} of {formatMoney(amountValue, selectedCurrency)}
+                  </p>
+                  {payerError && (
+                    <Alert variant="destructive">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{payerError}</AlertDescription>
+                    </Alert>
+                  )}
+                </div>
+              )}
+
+              <div className="form-group">
+                <Label htmlFor="repeat" className="text-sm font-medium">
+                  Does it repeat?
+                </Label>
+                <Select value={repeat} onValueChange={(value) => setRepeat(value as Repeat)}>
+                  <SelectTrigger id="repeat" className="h-12 w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPEAT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {repeat !== "never" && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="form-group">
+                    <Label className="text-sm font-medium">Until (optional)</Label>
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <Button
+                          variant="outline"
+                          className={cn(
+                            "justify-start text-left font-normal h-12 w-full",
+                            !repeatUntil && "text-muted-foreground",
+                          )}
+                        >
+                          <CalendarIcon className="mr-2 h-4 w-4" />
+                          {repeatUntil ? format(repeatUntil, "MMM d, yyyy") : "No end date"}
+                        </Button>
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-0">
+                        <Calendar
+                          mode="single"
+                          selected={repeatUntil}
+                          onSelect={setRepeatUntil}
+                          disabled={(day) => day < date}
+                          initialFocus
+                        />
+                      </PopoverContent>
+                    </Popover>
+                  </div>
+
+                  <div className="form-group">
+                    <Label htmlFor="repeat-times" className="text-sm font-medium">
+                      How many times? (optional)
+                    </Label>
+                    <Input
+                      id="repeat-times"
+                      type="number"
+                      min="1"
+                      max="1000"
+                      step="1"
+                      placeholder="No limit"
+                      className="h-12"
+                      value={repeatTimes}
+                      onChange={(e) => setRepeatTimes(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
+
               <div className="form-group">
                 <Label className="text-sm font-medium">Add a receipt (optional)</Label>
                 {receiptImage ? (
@@ -523,11 +881,15 @@ export function UnifiedExpenseForm({
             <div className="space-y-4">
               <div className="form-group">
                 <Label className="text-sm font-medium">How do you want to split this expense?</Label>
-                <Tabs defaultValue="equal" onValueChange={setSplitType} className="mt-2">
-                  <TabsList className="grid w-full grid-cols-3">
+                <Tabs value={splitType} onValueChange={(value) => setSplitType(value as SplitType)} className="mt-2">
+                  <TabsList className="grid w-full grid-cols-5">
                     <TabsTrigger value="equal">Equal</TabsTrigger>
                     <TabsTrigger value="percent">Percent</TabsTrigger>
                     <TabsTrigger value="exact">Exact</TabsTrigger>
+                    <TabsTrigger value="shares">Shares</TabsTrigger>
+                    <TabsTrigger value="itemized" disabled={repeat !== "never"}>
+                      Itemized
+                    </TabsTrigger>
                   </TabsList>
 
                   {/* Equal split tab */}
@@ -544,11 +906,13 @@ export function UnifiedExpenseForm({
                           </div>
                           <div className="flex items-center">
                             <CurrencyAmount
-                              amount={amount ? Number.parseFloat(amount) / members.length : 0}
+                              amount={equalShares[member.id] ?? 0}
                               currency={selectedCurrency}
                               className="text-sm font-medium"
                             />
-                            <span className="text-xs text-muted-foreground ml-2">(25%)</span>
+                            <span className="text-xs text-muted-foreground ml-2">
+                              ({(100 / members.length).toFixed(0)}%)
+                            </span>
                           </div>
                         </div>
                       ))}
@@ -568,24 +932,17 @@ export function UnifiedExpenseForm({
                     <div
                       className={cn(
                         "mb-4 p-3 rounded-md text-sm flex items-center gap-2",
-                        Math.abs(
-                          Object.values(memberPercentages).reduce((sum, value) => sum + Number(value || 0), 0) - 100,
-                        ) <= 0.01
+                        !percentError
                           ? "bg-green-50 text-green-700 border border-green-200"
                           : "bg-amber-50 text-amber-700 border border-amber-200",
                       )}
                     >
-                      {Math.abs(
-                        Object.values(memberPercentages).reduce((sum, value) => sum + Number(value || 0), 0) - 100,
-                      ) <= 0.01 ? (
+                      {!percentError ? (
                         "✓ Percentages add up to 100%"
                       ) : (
                         <>
                           <AlertCircle className="h-4 w-4" /> Total:{" "}
-                          {Object.values(memberPercentages)
-                            .reduce((sum, value) => sum + Number(value || 0), 0)
-                            .toFixed(2)}
-                          % (should be 100%)
+                          {percentTotal(Object.values(numbers(memberPercentages))).toFixed(2)}% (should be 100%)
                         </>
                       )}
                     </div>
@@ -629,26 +986,21 @@ export function UnifiedExpenseForm({
                     <div
                       className={cn(
                         "mb-4 p-3 rounded-md text-sm flex items-center gap-2",
-                        Math.abs(
-                          Object.values(memberExactAmounts).reduce((sum, value) => sum + Number(value || 0), 0) -
-                            Number.parseFloat(amount || "0"),
-                        ) <= 0.01
+                        !exactError
                           ? "bg-green-50 text-green-700 border border-green-200"
                           : "bg-amber-50 text-amber-700 border border-amber-200",
                       )}
                     >
-                      {Math.abs(
-                        Object.values(memberExactAmounts).reduce((sum, value) => sum + Number(value || 0), 0) -
-                          Number.parseFloat(amount || "0"),
-                      ) <= 0.01 ? (
+                      {!exactError ? (
                         "✓ Amounts add up to the total"
                       ) : (
                         <>
                           <AlertCircle className="h-4 w-4" /> Total:{" "}
-                          {Object.values(memberExactAmounts)
-                            .reduce((sum, value) => sum + Number(value || 0), 0)
-                            .toFixed(2)}{" "}
-                          (should be {Number.parseFloat(amount || "0").toFixed(2)})
+                          {formatMoney(
+                            Object.values(numbers(memberExactAmounts)).reduce((sum, value) => sum + value, 0),
+                            selectedCurrency,
+                          )}{" "}
+                          (should be {formatMoney(amountValue, selectedCurrency)})
                         </>
                       )}
                     </div>
@@ -667,8 +1019,8 @@ export function UnifiedExpenseForm({
                             <Input
                               type="number"
                               className="w-24 h-8"
-                              placeholder="0.00"
-                              step="0.01"
+                              placeholder={formatMoney(0, selectedCurrency)}
+                              step={minorStep(selectedCurrency)}
                               min="0"
                               value={memberExactAmounts[member.id] || "0"}
                               onChange={(e) => handleExactAmountChange(member.id, e.target.value)}
@@ -678,6 +1030,55 @@ export function UnifiedExpenseForm({
                       ))}
                     </div>
                   </TabsContent>
+
+                  {/* Shares (weights) split tab */}
+                  <TabsContent value="shares" className="pt-4">
+                    <p className="text-sm text-muted-foreground mb-4">
+                      Split by weight, e.g. 2 for a couple and 1 for a single, or nights stayed
+                    </p>
+
+                    <div className="space-y-2">
+                      {members.map((member) => (
+                        <div key={member.id} className="flex items-center justify-between rounded-lg border p-3">
+                          <div className="flex items-center gap-2">
+                            <Avatar className="h-8 w-8">
+                              <AvatarFallback>{member.avatar}</AvatarFallback>
+                            </Avatar>
+                            <span>{member.name}</span>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <CurrencyAmount
+                              amount={weightedShares[member.id] ?? 0}
+                              currency={selectedCurrency}
+                              className="text-xs text-muted-foreground"
+                            />
+                            <Input
+                              type="number"
+                              className="w-20 h-8"
+                              aria-label={`Weight for ${member.name}`}
+                              value={memberWeights[member.id] ?? "1"}
+                              onChange={(e) => handleWeightChange(member.id, e.target.value)}
+                              min="0"
+                              step="0.5"
+                            />
+                            <span className="text-xs text-muted-foreground">×</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </TabsContent>
+
+                  {/* Itemized receipt tab */}
+                  <TabsContent value="itemized" className="pt-4">
+                    <ItemizedSplit
+                      receipt={receipt}
+                      onChange={setReceipt}
+                      members={members}
+                      currency={selectedCurrency}
+                      amount={amountValue}
+                      onUseTotal={(total) => setAmount(formatMoney(total, selectedCurrency))}
+                    />
+                  </TabsContent>
                 </Tabs>
 
                 {/* Display validation error if any */}
@@ -698,6 +1099,8 @@ export function UnifiedExpenseForm({
                   placeholder="Add any details about this expense"
                   className="resize-none"
                   rows={3}
+                  value={notes}
+                  onChange={(e) => setNotes(e.target.value)}
                 />
               </div>
 
@@ -722,25 +1125,62 @@ export function UnifiedExpenseForm({
                     <div className="flex justify-between items-center">
                       <h3 className="text-lg font-medium">{description}</h3>
                       <CurrencyAmount
-                        amount={Number.parseFloat(amount || "0")}
+                        amount={amountValue}
                         currency={selectedCurrency}
                         className="text-lg font-medium"
+                        lockedRate={rateToLock ? { rate: rateToLock, currency: bookCurrency } : null}
                       />
                     </div>
 
                     <div className="grid grid-cols-2 gap-4 text-sm">
                       <div>
                         <p className="text-muted-foreground">Paid by</p>
-                        <p className="font-medium">{members.find((m) => m.id === selectedPayerId)?.name || "You"}</p>
+                        {multiplePayers ? (
+                          buildPayers().payers?.map((payer) => (
+                            <div key={payer.userId} className="font-medium">
+                              {members.find((m) => m.id === payer.userId)?.name}{" "}
+                              <CurrencyAmount
+                                amount={payer.amount}
+                                currency={selectedCurrency}
+                                className="font-normal"
+                              />
+                            </div>
+                          ))
+                        ) : (
+                          <p className="font-medium">{members.find((m) => m.id === selectedPayerId)?.name || "You"}</p>
+                        )}
                       </div>
                       <div>
                         <p className="text-muted-foreground">Date</p>
                         <p className="font-medium">{format(date, "MMM d, yyyy")}</p>
+                        {repeat !== "never" && (
+                          <p className="text-xs text-muted-foreground">
+                            Repeats{" "}
+                            {describeFrequency(
+                              repeat,
+                              repeatUntil ? format(repeatUntil, "yyyy-MM-dd") : null,
+                              repeatTimes ? Number(repeatTimes) : null,
+                            )}
+                          </p>
+                        )}
                       </div>
                       <div>
                         <p className="text-muted-foreground">Split method</p>
                         <p className="font-medium capitalize">{splitType}</p>
                       </div>
+                      <div>
+                        <p className="text-muted-foreground">Category</p>
+                        <p className="font-medium capitalize">
+                          {findCategory(selectedCategory, categories)?.name ?? "None"}
+                        </p>
+                      </div>
+                      {rateToLock && repeat === "never" && (
+                        <div>
+                          <p className="text-muted-foreground">Exchange rate</p>
+                          <p className="font-medium">{formatRate(selectedCurrency, rateToLock, bookCurrency)}</p>
+                          {exchangeRate && <p className="text-xs text-muted-foreground">Entered by hand</p>}
+                        </div>
+                      )}
                       <div>
                         <p className="text-muted-foreground">Group</p>
                         <p className="font-medium">
@@ -756,12 +1196,15 @@ export function UnifiedExpenseForm({
                           let memberAmount = 0
 
                           if (splitType === "equal") {
-                            memberAmount = Number.parseFloat(amount || "0") / members.length
+                            memberAmount = equalShares[member.id] ?? 0
                           } else if (splitType === "percent") {
-                            const percentage = Number.parseFloat(memberPercentages[member.id] || "0")
-                            memberAmount = (Number.parseFloat(amount || "0") * percentage) / 100
+                            memberAmount = percentShares[member.id] ?? 0
                           } else if (splitType === "exact") {
                             memberAmount = Number.parseFloat(memberExactAmounts[member.id] || "0")
+                          } else if (splitType === "shares") {
+                            memberAmount = weightedShares[member.id] ?? 0
+                          } else if (splitType === "itemized") {
+                            memberAmount = itemizedShares[member.id] ?? 0
                           }
 
                           return (
@@ -774,6 +1217,44 @@ export function UnifiedExpenseForm({
                       </div>
                     </div>
 
+                    {splitType === "itemized" && (
+                      <div className="pt-2 border-t">
+                        <p className="text-sm font-medium mb-2">Items</p>
+                        <div className="space-y-1">
+                          {receipt.items.map((item) => (
+                            <div key={item.key} className="flex justify-between gap-2 text-sm">
+                              <span className="min-w-0">
+                                {Number(item.quantity) > 1 && `${item.quantity} × `}
+                                {item.name}
+                                <span className="text-xs text-muted-foreground ml-2">
+                                  {members
+                                    .filter((member) => item.assignedTo.includes(member.id))
+                                    .map((member) => member.name)
+                                    .join(", ")}
+                                </span>
+                              </span>
+                              <CurrencyAmount
+                                amount={Number(item.price || 0) * Number(item.quantity || 1)}
+                                currency={selectedCurrency}
+                              />
+                            </div>
+                          ))}
+                          {itemizedTotals.tax > 0 && (
+                            <div className="flex justify-between text-sm text-muted-foreground">
+                              <span>Tax</span>
+                              <CurrencyAmount amount={itemizedTotals.tax} currency={selectedCurrency} />
+                            </div>
+                          )}
+                          {itemizedTotals.tip > 0 && (
+                            <div className="flex justify-between text-sm text-muted-foreground">
+                              <span>Tip</span>
+                              <CurrencyAmount amount={itemizedTotals.tip} currency={selectedCurrency} />
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    )}
+
                     {receiptImage && (
                       <div className="pt-2 border-t">
                         <p className="text-sm font-medium mb-2">Receipt</p>
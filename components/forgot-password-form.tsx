@@ -7,25 +7,32 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
+import { requestPasswordReset } from "@/lib/auth"
 
 export function ForgotPasswordForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [isSubmitted, setIsSubmitted] = useState(false)
+  const [email, setEmail] = useState("")
+  const [error, setError] = useState<string | null>(null)
   const { toast } = useToast()
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
+    setError(null)
 
-    // Simulate password reset request
-    setTimeout(() => {
-      setIsLoading(false)
+    try {
+      await requestPasswordReset(email)
       setIsSubmitted(true)
       toast({
         title: "Reset link sent",
         description: "Check your email for a link to reset your password.",
       })
-    }, 1500)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to send reset link. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   if (isSubmitted) {
@@ -50,7 +57,8 @@ export function ForgotPasswordForm() {
           </div>
           <h3 className="text-lg font-medium">Check your email</h3>
           <p className="text-sm text-muted-foreground">
-            We've sent a password reset link to your email address. Please check your inbox and follow the instructions.
+            If an account exists for {email}, we've sent it a password reset link. Please check your inbox and follow
+            the instructions.
           </p>
         </div>
       </div>
@@ -61,8 +69,16 @@ export function ForgotPasswordForm() {
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
         <Label htmlFor="email">Email</Label>
-        <Input id="email" type="email" placeholder="name@example.com" required />
+        <Input
+          id="email"
+          type="email"
+          placeholder="name@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
       </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
       <Button type="submit" className="w-full" disabled={isLoading}>
         {isLoading ? "Sending..." : "Send reset link"}
       </Button>
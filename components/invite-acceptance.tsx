@@ -0,0 +1,120 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { DataStatus } from "@/components/dashboard/data-status"
+import { useApi } from "@/hooks/use-api"
+import { useToast } from "@/hooks/use-toast"
+import { acceptInvitation, declineInvitation, getInvitationPreview } from "@/lib/api"
+import { getStoredTokens } from "@/lib/auth"
+
+interface InviteAcceptanceProps {
+  token: string
+}
+
+export function InviteAcceptance({ token }: InviteAcceptanceProps) {
+  const [isSignedIn, setIsSignedIn] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isDeclined, setIsDeclined] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const preview = useApi(() => getInvitationPreview(token), [token])
+  const router = useRouter()
+  const { toast } = useToast()
+
+  // Tokens live in browser storage, so this can only be known after mounting
+  useEffect(() => {
+    setIsSignedIn(!!getStoredTokens())
+  }, [])
+
+  const returnPath = encodeURIComponent(`/invite/${token}`)
+
+  const handleAccept = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      const group = await acceptInvitation(token)
+      router.push(`/dashboard/groups/${group.id}`)
+      toast({
+        title: "Invitation accepted",
+        description: `You are now a member of ${group.name}.`,
+      })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to accept the invitation. Please try again.")
+      setIsLoading(false)
+    }
+  }
+
+  const handleDecline = async () => {
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await declineInvitation(token)
+      setIsDeclined(true)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to decline the invitation. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!preview.data) {
+    return <DataStatus {...preview} />
+  }
+
+  if (isDeclined) {
+    return (
+      <div className="space-y-2 text-center">
+        <h1 className="text-3xl">invitation declined</h1>
+        <p className="text-muted-foreground">you will not be added to {preview.data.groupName}</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2 text-center">
+        <h1 className="text-3xl">join {preview.data.groupName}</h1>
+        <p className="text-muted-foreground">{preview.data.invitedBy} invited you to split expenses on spltr3</p>
+      </div>
+      {preview.data.guestName && (
+        <p className="text-sm text-muted-foreground">
+          you will take over the place of the guest &quot;{preview.data.guestName}&quot;, including the expenses and
+          payments recorded for them.
+        </p>
+      )}
+      {preview.data.message && (
+        <blockquote className="border-l-2 pl-4 text-sm italic text-muted-foreground">{preview.data.message}</blockquote>
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {isSignedIn ? (
+        <div className="flex gap-2">
+          <Button variant="outline" className="w-full" disabled={isLoading} onClick={handleDecline}>
+            Decline
+          </Button>
+          <Button className="w-full" disabled={isLoading} onClick={handleAccept}>
+            {isLoading ? "Joining..." : "Join group"}
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Button className="w-full" asChild>
+            <Link href={`/register?next=${returnPath}`}>Create an account to join</Link>
+          </Button>
+          <Button variant="outline" className="w-full" asChild>
+            <Link href={`/login?next=${returnPath}`}>Sign in</Link>
+          </Button>
+          <Button variant="ghost" className="w-full" disabled={isLoading} onClick={handleDecline}>
+            Decline
+          </Button>
+        </div>
+      )}
+      <p className="text-center text-xs text-muted-foreground">
+        this invitation expires on {new Date(preview.data.expiresAt).toLocaleDateString("en-US", { dateStyle: "medium" })}
+      </p>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
@@ -10,32 +10,71 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Checkbox } from "@/components/ui/checkbox"
 import { useToast } from "@/hooks/use-toast"
+import { ApiError, login, redirectTarget } from "@/lib/auth"
 
-export function LoginForm() {
+function formatRetryAfter(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`
+  const minutes = Math.ceil(seconds / 60)
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`
+}
+
+interface LoginFormProps {
+  redirectTo?: string
+}
+
+export function LoginForm({ redirectTo }: LoginFormProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [remember, setRemember] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [retryAfter, setRetryAfter] = useState(0)
   const router = useRouter()
   const { toast } = useToast()
 
+  // Count down the lockout so the user knows when they can try again
+  useEffect(() => {
+    if (retryAfter <= 0) return
+    const timer = setTimeout(() => setRetryAfter((seconds) => seconds - 1), 1000)
+    return () => clearTimeout(timer)
+  }, [retryAfter])
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
     setIsLoading(true)
+    setError(null)
 
-    // Simulate authentication
-    setTimeout(() => {
-      setIsLoading(false)
-      router.push("/dashboard")
+    try {
+      await login(email, password, remember)
+      router.push(redirectTarget(redirectTo))
       toast({
         title: "Login successful",
         description: "Welcome back to Spltr3!",
       })
-    }, 1500)
+    } catch (error) {
+      if (error instanceof ApiError && error.retryAfterSeconds) {
+        setRetryAfter(error.retryAfterSeconds)
+        setError("Too many login attempts.")
+      } else {
+        setError(error instanceof Error ? error.message : "Failed to sign in. Please try again.")
+      }
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   return (
     <form onSubmit={handleSubmit} className="space-y-4">
       <div className="space-y-2">
         <Label htmlFor="email">Email</Label>
-        <Input id="email" type="email" placeholder="name@example.com" required />
+        <Input
+          id="email"
+          type="email"
+          placeholder="name@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
       </div>
       <div className="space-y-2">
         <div className="flex items-center justify-between">
@@ -47,10 +86,10 @@ export function LoginForm() {
             Forgot password?
           </Link>
         </div>
-        <Input id="password" type="password" required />
+        <Input id="password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} required />
       </div>
       <div className="flex items-center space-x-2">
-        <Checkbox id="remember" />
+        <Checkbox id="remember" checked={remember} onCheckedChange={(checked) => setRemember(checked === true)} />
         <Label
           htmlFor="remember"
           className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
@@ -58,7 +97,13 @@ export function LoginForm() {
           Remember me
         </Label>
       </div>
-      <Button type="submit" className="w-full" disabled={isLoading}>
+      {error && (
+        <p className="text-sm text-red-500">
+          {error}
+          {retryAfter > 0 && ` Try again in ${formatRetryAfter(retryAfter)}.`}
+        </p>
+      )}
+      <Button type="submit" className="w-full" disabled={isLoading || retryAfter > 0}>
         {isLoading ? "Signing in..." : "Sign in"}
       </Button>
     </form>
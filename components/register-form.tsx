@@ -8,25 +8,52 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
+import { ApiError, redirectTarget, register } from "@/lib/auth"
 
-export function RegisterForm() {
+interface RegisterFormProps {
+  redirectTo?: string
+}
+
+export function RegisterForm({ redirectTo }: RegisterFormProps) {
   const [isLoading, setIsLoading] = useState(false)
+  const [firstName, setFirstName] = useState("")
+  const [lastName, setLastName] = useState("")
+  const [email, setEmail] = useState("")
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string[]>>({})
   const router = useRouter()
   const { toast } = useToast()
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault()
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
     setIsLoading(true)
+    setError(null)
+    setFieldErrors({})
 
-    // Simulate registration
-    setTimeout(() => {
-      setIsLoading(false)
-      router.push("/dashboard")
+    try {
+      await register({ firstName, lastName, email, password })
+      router.push(redirectTarget(redirectTo))
       toast({
         title: "Registration successful",
         description: "Welcome to Spltr3!",
       })
-    }, 1500)
+    } catch (error) {
+      if (error instanceof ApiError && Object.keys(error.fieldErrors).length > 0) {
+        setFieldErrors(error.fieldErrors)
+        return
+      }
+      setError(error instanceof Error ? error.message : "Failed to create account. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
   }
 
   return (
@@ -34,25 +61,62 @@ export function RegisterForm() {
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
           <Label htmlFor="first-name">First name</Label>
-          <Input id="first-name" placeholder="John" required />
+          <Input
+            id="first-name"
+            placeholder="John"
+            value={firstName}
+            onChange={(e) => setFirstName(e.target.value)}
+            required
+          />
+          {fieldErrors.firstName && <p className="text-sm text-red-500">{fieldErrors.firstName[0]}</p>}
         </div>
         <div className="space-y-2">
           <Label htmlFor="last-name">Last name</Label>
-          <Input id="last-name" placeholder="Doe" required />
+          <Input
+            id="last-name"
+            placeholder="Doe"
+            value={lastName}
+            onChange={(e) => setLastName(e.target.value)}
+            required
+          />
+          {fieldErrors.lastName && <p className="text-sm text-red-500">{fieldErrors.lastName[0]}</p>}
         </div>
       </div>
       <div className="space-y-2">
         <Label htmlFor="email">Email</Label>
-        <Input id="email" type="email" placeholder="name@example.com" required />
+        <Input
+          id="email"
+          type="email"
+          placeholder="name@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+        {fieldErrors.email && <p className="text-sm text-red-500">{fieldErrors.email[0]}</p>}
       </div>
       <div className="space-y-2">
         <Label htmlFor="password">Password</Label>
-        <Input id="password" type="password" required />
+        <Input
+          id="password"
+          type="password"
+          minLength={8}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+        {fieldErrors.password && <p className="text-sm text-red-500">{fieldErrors.password[0]}</p>}
       </div>
       <div className="space-y-2">
         <Label htmlFor="confirm-password">Confirm password</Label>
-        <Input id="confirm-password" type="password" required />
+        <Input
+          id="confirm-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+        />
       </div>
+      {error && <p className="text-sm text-red-500">{error}</p>}
       <Button type="submit" className="w-full" disabled={isLoading}>
         {isLoading ? "Creating account..." : "Create account"}
       </Button>
@@ -0,0 +1,104 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter } from "next/navigation"
+import Link from "next/link"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { resetPassword } from "@/lib/auth"
+
+interface ResetPasswordFormProps {
+  token?: string
+}
+
+export function ResetPasswordForm({ token }: ResetPasswordFormProps) {
+  const [isLoading, setIsLoading] = useState(false)
+  const [password, setPassword] = useState("")
+  const [confirmPassword, setConfirmPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  if (!token) {
+    return (
+      <div className="rounded-lg border bg-card p-6 text-card-foreground shadow-sm">
+        <div className="space-y-4 text-center">
+          <h3 className="text-lg font-medium">Invalid reset link</h3>
+          <p className="text-sm text-muted-foreground">
+            This link is missing its reset token. Please{" "}
+            <Link href="/forgot-password" className="text-primary hover:underline">
+              request a new one
+            </Link>
+            .
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault()
+
+    if (password !== confirmPassword) {
+      setError("Passwords do not match")
+      return
+    }
+
+    setIsLoading(true)
+    setError(null)
+
+    try {
+      await resetPassword(token, password)
+      router.push("/login")
+      toast({
+        title: "Password updated",
+        description: "You can now sign in with your new password.",
+      })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to reset password. Please try again.")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="password">New password</Label>
+        <Input
+          id="password"
+          type="password"
+          minLength={8}
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password">Confirm new password</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(e) => setConfirmPassword(e.target.value)}
+          required
+        />
+      </div>
+      {error && (
+        <p className="text-sm text-red-500">
+          {error}{" "}
+          <Link href="/forgot-password" className="text-primary hover:underline">
+            Request a new link
+          </Link>
+        </p>
+      )}
+      <Button type="submit" className="w-full" disabled={isLoading}>
+        {isLoading ? "Saving..." : "Set new password"}
+      </Button>
+    </form>
+  )
+}
@@ -1,19 +1,30 @@
 "use client"
 
 import type React from "react"
-import { createContext, useContext, useState, useEffect } from "react"
-import { type Currency, type CurrencyPreference, commonCurrencies } from "@/types/currency"
+import { createContext, useCallback, useContext, useState, useEffect } from "react"
+import { type Conversion, type Currency, type CurrencyPreference, isoCurrencies } from "@/types/currency"
 import { currencyService } from "@/services/currency-service"
+import { formatCurrency } from "@/lib/money"
 
 interface CurrencyContextType {
   currencies: Record<string, Currency>
   userPreference: CurrencyPreference
   setUserPreference: (pref: CurrencyPreference) => void
   convertAmount: (amount: number, fromCurrency: string, toCurrency?: string) => Promise<number>
+  // Like convertAmount, but also reports the rate used and the path it took
+  convert: (amount: number, fromCurrency: string, toCurrency?: string) => Promise<Conversion>
   formatAmount: (amount: number, currency: string) => string
+  // The locale amounts are formatted in: the preferred one, else the browser's
+  locale: string
+  browserLocale: string
+  // Currencies the user picked lately, most recent first
+  recentCurrencies: string[]
+  addRecentCurrency: (currency: string) => void
   isLoading: boolean
 }
 
+const MAX_RECENT_CURRENCIES = 5
+
 const defaultPreference: CurrencyPreference = {
   defaultCurrency: "USD",
   showOriginalCurrency: true,
@@ -23,8 +34,11 @@ const defaultPreference: CurrencyPreference = {
 const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined)
 
 export function CurrencyProvider({ children }: { children: React.ReactNode }) {
-  const [currencies, setCurrencies] = useState<Record<string, Currency>>(commonCurrencies)
+  const [currencies, setCurrencies] = useState<Record<string, Currency>>(isoCurrencies)
   const [userPreference, setUserPreference] = useState<CurrencyPreference>(defaultPreference)
+  const [recentCurrencies, setRecentCurrencies] = useState<string[]>([])
+  // en-US until mounted, so the server and the first client render agree
+  const [browserLocale, setBrowserLocale] = useState("en-US")
   const [isLoading, setIsLoading] = useState(false)
 
   // Load user preferences from localStorage on mount
@@ -38,6 +52,17 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
         console.error("Failed to parse saved currency preference", e)
       }
     }
+
+    const savedRecent = localStorage.getItem("recentCurrencies")
+    if (savedRecent) {
+      try {
+        setRecentCurrencies(JSON.parse(savedRecent))
+      } catch (e) {
+        console.error("Failed to parse recent currencies", e)
+      }
+    }
+
+    setBrowserLocale(navigator.language || "en-US")
   }, [])
 
   // Save preferences to localStorage when they change
@@ -45,49 +70,58 @@ export function CurrencyProvider({ children }: { children: React.ReactNode }) {
     localStorage.setItem("currencyPreference", JSON.stringify(userPreference))
   }, [userPreference])
 
-  // Convert an amount from one currency to another (or to default if not specified)
-  const convertAmount = async (amount: number, fromCurrency: string, toCurrency?: string): Promise<number> => {
-    const targetCurrency = toCurrency || userPreference.defaultCurrency
-
-    if (fromCurrency === targetCurrency) return amount
-
-    setIsLoading(true)
-    try {
-      // Add a safety check to handle cases where the currency service might fail
-      const converted = await currencyService.convertAmount(amount, fromCurrency, targetCurrency).catch((error) => {
-        console.error("Currency conversion failed:", error)
-        // Return the original amount if conversion fails
-        return amount
-      })
-
-      return converted
-    } catch (error) {
-      console.error("Currency conversion failed:", error)
-      return amount // Return original amount if conversion fails
-    } finally {
-      setIsLoading(false)
-    }
-  }
+  // Convert an amount from one currency to another (or to default if not specified).
+  // Rejects with a RateUnavailableError when there is no rate, rather than guessing one, and with
+  // the request's error when the rate could not be fetched.
+  // Memoized so components converting in an effect do not convert again on every render
+  const convert = useCallback(
+    async (amount: number, fromCurrency: string, toCurrency?: string): Promise<Conversion> => {
+      const targetCurrency = toCurrency || userPreference.defaultCurrency
 
-  // Format an amount with its currency symbol
-  const formatAmount = (amount: number, currencyCode: string): string => {
-    const currency = currencies[currencyCode]
-    if (!currency) return `${amount.toFixed(2)} ${currencyCode}`
-
-    return new Intl.NumberFormat("en-US", {
-      style: "currency",
-      currency: currencyCode,
-      minimumFractionDigits: currency.decimalDigits,
-      maximumFractionDigits: currency.decimalDigits,
-    }).format(amount)
-  }
+      if (fromCurrency === targetCurrency) return currencyService.convert(amount, fromCurrency, targetCurrency)
+
+      setIsLoading(true)
+      try {
+        return await currencyService.convert(amount, fromCurrency, targetCurrency)
+      } finally {
+        setIsLoading(false)
+      }
+    },
+    [userPreference.defaultCurrency],
+  )
+
+  const convertAmount = useCallback(
+    async (amount: number, fromCurrency: string, toCurrency?: string): Promise<number> =>
+      (await convert(amount, fromCurrency, toCurrency)).amount,
+    [convert],
+  )
+
+  // Move a currency to the front of the recent list
+  const addRecentCurrency = useCallback((currency: string) => {
+    setRecentCurrencies((recent) => {
+      const next = [currency, ...recent.filter((code) => code !== currency)].slice(0, MAX_RECENT_CURRENCIES)
+      localStorage.setItem("recentCurrencies", JSON.stringify(next))
+      return next
+    })
+  }, [])
+
+  const locale = userPreference.locale || browserLocale
+
+  // Format an amount with its currency symbol, in the user's locale
+  const formatAmount = (amount: number, currencyCode: string): string =>
+    formatCurrency(amount, currencyCode, currencies, locale)
 
   const value = {
     currencies,
     userPreference,
     setUserPreference,
     convertAmount,
+    convert,
     formatAmount,
+    locale,
+    browserLocale,
+    recentCurrencies,
+    addRecentCurrency,
     isLoading,
   }
 
@@ -0,0 +1,149 @@
+"use client"
+
+import { useCallback, useEffect, useState, type DependencyList } from "react"
+import type { ActivityContext } from "@/lib/activity"
+import {
+  getBalances,
+  getCategories,
+  getExpenses,
+  getGroup,
+  getGroupBalances,
+  getGroupCategories,
+  getGroupExpenses,
+  getGroups,
+  getRecurringExpenses,
+  getSettlements,
+  getSpendingAnalytics,
+  getExchangeRate,
+  indexMembers,
+  type CategoryFilter,
+  type ExpenseFilter,
+  type SettlementFilter,
+  type SpendingQuery,
+} from "@/lib/api"
+import { getMe } from "@/lib/users"
+
+export interface ApiState<T> {
+  data: T | undefined
+  error: Error | null
+  isLoading: boolean
+  reload: () => void
+}
+
+// Runs `fetcher` whenever `deps` change, ignoring responses that arrive after
+// a newer request was started
+export function useApi<T>(fetcher: () => Promise<T>, deps: DependencyList): ApiState<T> {
+  const [data, setData] = useState<T>()
+  const [error, setError] = useState<Error | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    setIsLoading(true)
+    setError(null)
+
+    fetcher()
+      .then((result) => {
+        if (!cancelled) setData(result)
+      })
+      .catch((e) => {
+        if (!cancelled) setError(e instanceof Error ? e : new Error(String(e)))
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [...deps, version])
+
+  const reload = useCallback(() => setVersion((v) => v + 1), [])
+
+  return { data, error, isLoading, reload }
+}
+
+export interface CombinedStatus {
+  isReady: boolean
+  isLoading: boolean
+  error: Error | null
+  reload: () => void
+}
+
+// Folds several requests into one status for components that need all of them
+export function combineStates(...states: ApiState<unknown>[]): CombinedStatus {
+  const isLoading = states.some((state) => state.isLoading)
+  const error = states.find((state) => state.error)?.error ?? null
+  return {
+    isReady: !isLoading && !error && states.every((state) => state.data !== undefined),
+    isLoading,
+    error,
+    reload: () => states.forEach((state) => state.reload()),
+  }
+}
+
+export function useCurrentUser() {
+  return useApi(() => getMe(), [])
+}
+
+export function useGroups(includeArchived = false) {
+  return useApi(() => getGroups(includeArchived), [includeArchived])
+}
+
+export function useGroup(id: string) {
+  return useApi(() => getGroup(id), [id])
+}
+
+export function useExpenses(filter: ExpenseFilter = "all", category?: CategoryFilter) {
+  return useApi(() => getExpenses(filter, category), [filter, category])
+}
+
+export function useGroupExpenses(groupId: string, category?: CategoryFilter) {
+  return useApi(() => getGroupExpenses(groupId, category), [groupId, category])
+}
+
+// A group's categories, or those of every group you are in without a groupId
+export function useCategories(groupId?: string) {
+  return useApi(() => (groupId ? getGroupCategories(groupId) : getCategories()), [groupId])
+}
+
+export function useSpendingAnalytics(query: SpendingQuery) {
+  const { currency, from, to, groupId, category } = query
+  return useApi(() => getSpendingAnalytics(query), [currency, from, to, groupId, category])
+}
+
+// The rate an expense in `from` on `date` would be locked at in a group keeping its books in `to`
+export function useExchangeRate(from: string, to: string, date: string) {
+  return useApi(() => (from === to ? Promise.resolve(null) : getExchangeRate(from, to, date)), [from, to, date])
+}
+
+export function useRecurringExpenses(groupId: string) {
+  return useApi(() => getRecurringExpenses(groupId), [groupId])
+}
+
+export function useSettlements(filter: SettlementFilter = "all") {
+  return useApi(() => getSettlements(filter), [filter])
+}
+
+export function useBalances() {
+  return useApi(() => getBalances(), [])
+}
+
+export function useGroupBalances(groupId: string) {
+  return useApi(() => getGroupBalances(groupId), [groupId])
+}
+
+// Who "you" are plus the names of everyone you share a group with, for
+// turning ids in expenses and settlements into display names
+export function useActivityContext() {
+  return useApi<ActivityContext>(async () => {
+    const [me, groups] = await Promise.all([getMe(), getGroups(true)])
+    return {
+      currentUserId: me.id,
+      users: indexMembers(groups),
+      groups: Object.fromEntries(groups.map((group) => [group.id, group])),
+    }
+  }, [])
+}
@@ -0,0 +1,181 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns"
+import { displayName } from "./api"
+import type { Expense, Group, PaymentMethod, Settlement, SplitType, User } from "@/types/api"
+
+export interface PersonRef {
+  id: string
+  name: string
+  isYou: boolean
+}
+
+// The rate an amount in another currency than its group's was locked at on its date
+export interface LockedRate {
+  rate: number
+  currency: string
+  manual: boolean
+}
+
+// Expenses and settlements as the activity lists and detail dialogs show them
+export interface ExpenseItem {
+  type: "expense"
+  id: string
+  groupId: string
+  group: string
+  description: string
+  amount: number
+  currency: string
+  lockedRate: LockedRate | null
+  // Relative label such as "yesterday", and the underlying YYYY-MM-DD date
+  date: string
+  rawDate: string
+  payer: PersonRef
+  // Everyone who paid, with what they put in; a single entry unless the bill was shared
+  payers: { person: PersonRef; amount: number }[]
+  split: SplitType
+  yourShare: number
+  youPaid: boolean
+  notes: string | null
+  // A category id, looked up in the categories of the expense's group
+  category: string | null
+  // The item breakdown of an itemized expense
+  receipt: ReceiptSummary | null
+  // Created by a recurring expense rather than added by hand
+  recurring: boolean
+}
+
+export interface ReceiptSummary {
+  items: { name: string; quantity: number; total: number; sharedBy: string[] }[]
+  tax: number | null
+  taxPercentage: number | null
+  tip: number | null
+  tipPercentage: number | null
+}
+
+export interface SettlementItem {
+  type: "settlement"
+  id: string
+  groupId: string
+  group: string
+  description: string
+  amount: number
+  currency: string
+  lockedRate: LockedRate | null
+  date: string
+  rawDate: string
+  payer: PersonRef
+  recipient: PersonRef
+  method: PaymentMethod
+  youPaid: boolean
+  youReceived: boolean
+  notes: string | null
+}
+
+export type ActivityItem = ExpenseItem | SettlementItem
+
+export interface ActivityContext {
+  currentUserId: string
+  users: Record<string, User>
+  groups: Record<string, Group>
+}
+
+export function formatActivityDate(date: string, now = new Date()): string {
+  const parsed = parseISO(date)
+  const days = differenceInCalendarDays(now, parsed)
+  if (days === 0) return "today"
+  if (days === 1) return "yesterday"
+  if (days > 1 && days < 7) return `${days} days ago`
+  return format(parsed, "MMM d, yyyy").toLowerCase()
+}
+
+function person(id: string, context: ActivityContext): PersonRef {
+  const isYou = id === context.currentUserId
+  return { id, isYou, name: isYou ? "you" : displayName(context.users[id]) }
+}
+
+function lockedRateOf({ exchangeRate, rateCurrency, manualRate }: Expense | Settlement): LockedRate | null {
+  return exchangeRate !== null && rateCurrency !== null
+    ? { rate: exchangeRate, currency: rateCurrency, manual: manualRate }
+    : null
+}
+
+export function toExpenseItem(expense: Expense, context: ActivityContext): ExpenseItem {
+  const share = expense.shares.find((s) => s.userId === context.currentUserId)
+  // Expenses saved before multiple payers were supported only have paidBy
+  const payers = expense.payers?.length ? expense.payers : [{ userId: expense.paidBy, amount: expense.amount }]
+  return {
+    type: "expense",
+    id: expense.id,
+    groupId: expense.groupId,
+    group: context.groups[expense.groupId]?.name ?? "",
+    description: expense.description,
+    amount: expense.amount,
+    currency: expense.currency,
+    lockedRate: lockedRateOf(expense),
+    date: formatActivityDate(expense.date),
+    rawDate: expense.date,
+    payer: person(expense.paidBy, context),
+    payers: payers.map((payer) => ({ person: person(payer.userId, context), amount: payer.amount })),
+    split: expense.splitType,
+    yourShare: share?.amount ?? 0,
+    youPaid: payers.some((payer) => payer.userId === context.currentUserId),
+    notes: expense.notes,
+    category: expense.category,
+    receipt: expense.splitType === "itemized" ? toReceiptSummary(expense, context) : null,
+    recurring: expense.recurringExpenseId !== null,
+  }
+}
+
+function toReceiptSummary(expense: Expense, context: ActivityContext): ReceiptSummary {
+  return {
+    items: (expense.items ?? []).map((item) => ({
+      name: item.name,
+      quantity: item.quantity,
+      total: item.price * item.quantity,
+      sharedBy: item.assignedTo.map((id) => person(id, context).name),
+    })),
+    tax: expense.tax,
+    taxPercentage: expense.taxPercentage,
+    tip: expense.tip,
+    tipPercentage: expense.tipPercentage,
+  }
+}
+
+// "you", "you and alex" or "you, alex and sam"
+export function payerNames(expense: ExpenseItem): string {
+  const names = expense.payers.map((payer) => payer.person.name)
+  return names.length > 1 ? `${names.slice(0, -1).join(", ")} and ${names[names.length - 1]}` : expense.payer.name
+}
+
+export function toSettlementItem(settlement: Settlement, context: ActivityContext): SettlementItem {
+  const payer = person(settlement.paidBy, context)
+  const recipient = person(settlement.paidTo, context)
+  const description = payer.isYou
+    ? `payment to ${recipient.name}`
+    : recipient.isYou
+      ? `payment from ${payer.name}`
+      : `${payer.name} paid ${recipient.name}`
+
+  return {
+    type: "settlement",
+    id: settlement.id,
+    groupId: settlement.groupId,
+    group: context.groups[settlement.groupId]?.name ?? "",
+    description,
+    amount: settlement.amount,
+    currency: settlement.currency,
+    lockedRate: lockedRateOf(settlement),
+    date: formatActivityDate(settlement.date),
+    rawDate: settlement.date,
+    payer,
+    recipient,
+    method: settlement.method,
+    youPaid: payer.isYou,
+    youReceived: recipient.isYou,
+    notes: settlement.notes,
+  }
+}
+
+// Newest first, matching the order the API returns each list in
+export function byDateDesc(a: ActivityItem, b: ActivityItem): number {
+  return b.rawDate.localeCompare(a.rawDate)
+}
@@ -0,0 +1,341 @@
+import { authorizedRequest, publicRequest } from "./auth"
+import type {
+  Category,
+  ExchangeRateQuote,
+  Expense,
+  Group,
+  GroupBalances,
+  GroupInvitation,
+  GroupMember,
+  GroupRole,
+  InvitationPreview,
+  IssuedInvitation,
+  PaymentMethod,
+  RecurrenceFrequency,
+  RecurringExpense,
+  Settlement,
+  SpendingAnalytics,
+  SplitType,
+  User,
+  UserBalances,
+} from "@/types/api"
+
+export interface NewGroup {
+  name: string
+  description?: string
+  currency: string
+  simplifyDebts?: boolean
+  // People without an account, added as guests
+  guestNames?: string[]
+}
+
+export interface NewExpense {
+  description: string
+  amount: number
+  currency: string
+  // Calendar date, YYYY-MM-DD
+  date: string
+  // Units of the group currency one unit of currency is worth, entered by hand
+  // instead of the rate on date; null goes back to that rate when updating
+  exchangeRate?: number | null
+  // Either a single payer, or several payers whose amounts add up to the total
+  paidBy?: string
+  payers?: { userId: string; amount: number }[]
+  splitType: SplitType
+  // Omitted for equal splits between every member
+  splits?: { userId: string; percentage?: number; amount?: number; weight?: number }[]
+  // Itemized splits only; tax and tip take either a percentage of the subtotal or an amount
+  items?: { name: string; price: number; quantity: number; assignedTo: string[] }[]
+  tax?: ReceiptAdjustment
+  tip?: ReceiptAdjustment
+  notes?: string
+  // A category id; null clears it when updating
+  category?: string | null
+}
+
+// The expense is created on `date` and then repeats until the end date or the
+// number of occurrences is reached, if either is given
+export interface NewRecurringExpense extends Omit<NewExpense, "items" | "tax" | "tip" | "exchangeRate"> {
+  frequency: RecurrenceFrequency
+  endDate?: string
+  occurrences?: number
+}
+
+export interface ReceiptAdjustment {
+  percentage?: number
+  amount?: number
+}
+
+export interface NewSettlement {
+  paidBy: string
+  paidTo: string
+  amount: number
+  currency: string
+  method: PaymentMethod
+  // Calendar date, YYYY-MM-DD
+  date: string
+  // Units of the group currency one unit of currency is worth, instead of the rate on date
+  exchangeRate?: number
+  // Paying back a debt in another currency: the debt's currency and how much of it is cleared
+  settlesCurrency?: string
+  settlesAmount?: number
+  notes?: string
+}
+
+export type ExpenseFilter = "all" | "you-paid" | "you-owe"
+// A category id, or "none" for expenses without a category
+export type CategoryFilter = string | undefined
+export type SettlementFilter = "all" | "you-paid" | "you-received"
+
+export function getGroups(includeArchived = false): Promise<Group[]> {
+  return authorizedRequest<Group[]>("GET", `/groups${includeArchived ? "?includeArchived=true" : ""}`)
+}
+
+export function getGroup(id: string): Promise<Group> {
+  return authorizedRequest<Group>("GET", `/groups/${id}`)
+}
+
+export function createGroup(group: NewGroup): Promise<Group> {
+  return authorizedRequest<Group>("POST", "/groups", group)
+}
+
+export type GroupChanges = Partial<Pick<Group, "name" | "description" | "currency" | "simplifyDebts">>
+
+export function updateGroup(id: string, changes: GroupChanges): Promise<Group> {
+  return authorizedRequest<Group>("PATCH", `/groups/${id}`, changes)
+}
+
+export function archiveGroup(id: string): Promise<Group> {
+  return authorizedRequest<Group>("POST", `/groups/${id}/archive`)
+}
+
+export function updateMemberRole(groupId: string, userId: string, role: GroupRole): Promise<GroupMember> {
+  return authorizedRequest<GroupMember>("PATCH", `/groups/${groupId}/members/${userId}`, { role })
+}
+
+export function addGuest(groupId: string, name: string): Promise<GroupMember> {
+  return authorizedRequest<GroupMember>("POST", `/groups/${groupId}/guests`, { name })
+}
+
+export function removeMember(groupId: string, userId: string): Promise<void> {
+  return authorizedRequest<void>("DELETE", `/groups/${groupId}/members/${userId}`)
+}
+
+export function transferOwnership(groupId: string, userId: string): Promise<Group> {
+  return authorizedRequest<Group>("POST", `/groups/${groupId}/transfer-ownership`, { userId })
+}
+
+const categoryQuery = (category: CategoryFilter) => (category ? `category=${encodeURIComponent(category)}` : "")
+
+export function getExpenses(filter: ExpenseFilter = "all", category?: CategoryFilter): Promise<Expense[]> {
+  const query = [`filter=${filter}`, categoryQuery(category)].filter(Boolean).join("&")
+  return authorizedRequest<Expense[]>("GET", `/expenses?${query}`)
+}
+
+export function getGroupExpenses(groupId: string, category?: CategoryFilter): Promise<Expense[]> {
+  const query = categoryQuery(category)
+  return authorizedRequest<Expense[]>("GET", `/groups/${groupId}/expenses${query ? `?${query}` : ""}`)
+}
+
+export function createExpense(groupId: string, expense: NewExpense): Promise<Expense> {
+  return authorizedRequest<Expense>("POST", `/groups/${groupId}/expenses`, expense)
+}
+
+export function getExpense(groupId: string, id: string): Promise<Expense> {
+  return authorizedRequest<Expense>("GET", `/groups/${groupId}/expenses/${id}`)
+}
+
+// Omitting splits keeps the stored split inputs, re-applied to the new amount
+export type ExpenseChanges = Partial<NewExpense>
+
+export function updateExpense(groupId: string, id: string, changes: ExpenseChanges): Promise<Expense> {
+  return authorizedRequest<Expense>("PATCH", `/groups/${groupId}/expenses/${id}`, changes)
+}
+
+export function deleteExpense(groupId: string, id: string): Promise<void> {
+  return authorizedRequest<void>("DELETE", `/groups/${groupId}/expenses/${id}`)
+}
+
+export function getRecurringExpenses(groupId: string): Promise<RecurringExpense[]> {
+  return authorizedRequest<RecurringExpense[]>("GET", `/groups/${groupId}/recurring-expenses`)
+}
+
+export function createRecurringExpense(groupId: string, expense: NewRecurringExpense): Promise<RecurringExpense> {
+  return authorizedRequest<RecurringExpense>("POST", `/groups/${groupId}/recurring-expenses`, expense)
+}
+
+// Applies to expenses created from now on; null clears the end date or the number of occurrences
+export type RecurringExpenseChanges = Partial<Omit<NewRecurringExpense, "endDate" | "occurrences">> & {
+  endDate?: string | null
+  occurrences?: number | null
+}
+
+export function updateRecurringExpense(
+  groupId: string,
+  id: string,
+  changes: RecurringExpenseChanges,
+): Promise<RecurringExpense> {
+  return authorizedRequest<RecurringExpense>("PATCH", `/groups/${groupId}/recurring-expenses/${id}`, changes)
+}
+
+export function pauseRecurringExpense(groupId: string, id: string): Promise<RecurringExpense> {
+  return authorizedRequest<RecurringExpense>("POST", `/groups/${groupId}/recurring-expenses/${id}/pause`)
+}
+
+export function resumeRecurringExpense(groupId: string, id: string): Promise<RecurringExpense> {
+  return authorizedRequest<RecurringExpense>("POST", `/groups/${groupId}/recurring-expenses/${id}/resume`)
+}
+
+// Skips the next occurrence only
+export function skipRecurringExpense(groupId: string, id: string): Promise<RecurringExpense> {
+  return authorizedRequest<RecurringExpense>("POST", `/groups/${groupId}/recurring-expenses/${id}/skip`)
+}
+
+export function deleteRecurringExpense(groupId: string, id: string): Promise<void> {
+  return authorizedRequest<void>("DELETE", `/groups/${groupId}/recurring-expenses/${id}`)
+}
+
+// The built-in categories and those of every group you are in
+export function getCategories(): Promise<Category[]> {
+  return authorizedRequest<Category[]>("GET", "/categories")
+}
+
+// The built-in categories followed by the group's own
+export function getGroupCategories(groupId: string): Promise<Category[]> {
+  return authorizedRequest<Category[]>("GET", `/groups/${groupId}/categories`)
+}
+
+export type NewCategory = Pick<Category, "name" | "icon" | "color">
+
+export function createCategory(groupId: string, category: NewCategory): Promise<Category> {
+  return authorizedRequest<Category>("POST", `/groups/${groupId}/categories`, category)
+}
+
+export function updateCategory(groupId: string, id: string, changes: Partial<NewCategory>): Promise<Category> {
+  return authorizedRequest<Category>("PATCH", `/groups/${groupId}/categories/${id}`, changes)
+}
+
+// Expenses filed under the category become uncategorized
+export function deleteCategory(groupId: string, id: string): Promise<void> {
+  return authorizedRequest<void>("DELETE", `/groups/${groupId}/categories/${id}`)
+}
+
+export interface SpendingQuery {
+  // Everything is converted into this currency
+  currency: string
+  // YYYY-MM-DD, both inclusive
+  from?: string
+  to?: string
+  groupId?: string
+  category?: CategoryFilter
+}
+
+export function getSpendingAnalytics(query: SpendingQuery): Promise<SpendingAnalytics> {
+  const params = new URLSearchParams(
+    Object.entries(query).filter((entry): entry is [string, string] => Boolean(entry[1])),
+  )
+  return authorizedRequest<SpendingAnalytics>("GET", `/analytics/spending?${params}`)
+}
+
+// The rate from one currency into another on a date, as an expense on that date would lock it
+export function getExchangeRate(from: string, to: string, date: string): Promise<ExchangeRateQuote> {
+  return authorizedRequest<ExchangeRateQuote>("GET", `/exchange-rates?from=${from}&to=${to}&date=${date}`)
+}
+
+export function getSettlements(filter: SettlementFilter = "all"): Promise<Settlement[]> {
+  return authorizedRequest<Settlement[]>("GET", `/settlements?filter=${filter}`)
+}
+
+export function createSettlement(groupId: string, settlement: NewSettlement): Promise<Settlement> {
+  return authorizedRequest<Settlement>("POST", `/groups/${groupId}/settlements`, settlement)
+}
+
+export function deleteSettlement(groupId: string, id: string): Promise<void> {
+  return authorizedRequest<void>("DELETE", `/groups/${groupId}/settlements/${id}`)
+}
+
+export function getBalances(): Promise<UserBalances> {
+  return authorizedRequest<UserBalances>("GET", "/balances")
+}
+
+export function getGroupBalances(groupId: string): Promise<GroupBalances> {
+  return authorizedRequest<GroupBalances>("GET", `/groups/${groupId}/balances`)
+}
+
+// Passing a guest's id lets the invitee take over that guest's place and history
+export function createInvitation(
+  groupId: string,
+  email: string,
+  message?: string,
+  guestId?: string,
+): Promise<IssuedInvitation> {
+  return authorizedRequest<IssuedInvitation>("POST", `/groups/${groupId}/invitations`, { email, message, guestId })
+}
+
+export function getInvitations(groupId: string): Promise<GroupInvitation[]> {
+  return authorizedRequest<GroupInvitation[]>("GET", `/groups/${groupId}/invitations`)
+}
+
+export function resendInvitation(groupId: string, id: string): Promise<IssuedInvitation> {
+  return authorizedRequest<IssuedInvitation>("POST", `/groups/${groupId}/invitations/${id}/resend`)
+}
+
+export function revokeInvitation(groupId: string, id: string): Promise<void> {
+  return authorizedRequest<void>("DELETE", `/groups/${groupId}/invitations/${id}`)
+}
+
+export function getInvitationPreview(token: string): Promise<InvitationPreview> {
+  return publicRequest<InvitationPreview>("GET", `/invitations/${encodeURIComponent(token)}`)
+}
+
+export function acceptInvitation(token: string): Promise<Group> {
+  return authorizedRequest<Group>("POST", `/invitations/${encodeURIComponent(token)}/accept`)
+}
+
+export function declineInvitation(token: string): Promise<void> {
+  return publicRequest<void>("POST", `/invitations/${encodeURIComponent(token)}/decline`)
+}
+
+// Everyone the current user shares a group with, keyed by user id
+export function indexMembers(groups: Group[]): Record<string, User> {
+  const users: Record<string, User> = {}
+  for (const group of groups) {
+    for (const member of group.members) {
+      users[member.userId] = member.user
+    }
+  }
+  return users
+}
+
+// Owners and admins manage the group's settings and members
+export function canManage(role: GroupRole | undefined): boolean {
+  return role === "owner" || role === "admin"
+}
+
+// Viewers can look but not record expenses, settlements or invitations
+export function canContribute(role: GroupRole | undefined): boolean {
+  return canManage(role) || role === "member"
+}
+
+export function roleIn(group: Group | undefined, userId: string | undefined): GroupRole | undefined {
+  return group?.members.find((member) => member.userId === userId)?.role
+}
+
+export interface MemberOption {
+  id: string
+  name: string
+  avatar: string
+  isGuest: boolean
+}
+
+// A group's members for pickers, guests included, with the current user as "you"
+export function memberOptions(group: Group | undefined, currentUserId: string | undefined): MemberOption[] {
+  return (group?.members ?? []).map((member) => {
+    const name = member.userId === currentUserId ? "you" : displayName(member.user)
+    return { id: member.userId, name, avatar: name.charAt(0).toLowerCase(), isGuest: member.user.isGuest }
+  })
+}
+
+export function displayName(user: Pick<User, "firstName" | "lastName"> | undefined): string {
+  return user ? `${user.firstName} ${user.lastName}`.trim() : "former member"
+}
@@ -0,0 +1,197 @@
+import type { ApiErrorDetails, ErrorResponse } from "@/types/api"
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:3000"
+const TOKENS_KEY = "authTokens"
+
+export interface AuthUser {
+  id: string
+  email: string
+  firstName: string
+  lastName: string
+}
+
+export interface AuthTokens {
+  accessToken: string
+  refreshToken: string
+  expiresIn: number
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: AuthUser
+}
+
+export interface RegisterData {
+  email: string
+  password: string
+  firstName: string
+  lastName: string
+}
+
+// A failed API request, with the status, error code and details the server sent
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    public code?: string,
+    public details?: ApiErrorDetails,
+    public retryable = false,
+  ) {
+    super(message)
+    this.name = "ApiError"
+  }
+
+  // Set when the server rate limited the request
+  get retryAfterSeconds(): number | undefined {
+    return this.details?.retryAfterSeconds
+  }
+
+  // Validation messages keyed by field name, e.g. { email: ["email must be an email"] }
+  get fieldErrors(): Record<string, string[]> {
+    return this.details?.fields ?? {}
+  }
+}
+
+async function send<T>(method: string, path: string, body?: unknown, accessToken?: string): Promise<T> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  if (accessToken) headers.Authorization = `Bearer ${accessToken}`
+
+  let response: Response
+  try {
+    response = await fetch(`${API_URL}${path}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    })
+  } catch (e) {
+    throw new ApiError("Could not reach the server. Please try again.", 0, "NETWORK_ERROR", undefined, true)
+  }
+
+  if (!response.ok) {
+    const data: ErrorResponse | null = await response.json().catch(() => null)
+    throw new ApiError(
+      data?.error?.message || "Something went wrong. Please try again.",
+      response.status,
+      data?.error?.code,
+      data?.error?.details,
+      data?.error?.retryable ?? response.status >= 500,
+    )
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json()
+}
+
+function post<T>(path: string, body: unknown): Promise<T> {
+  return send<T>("POST", path, body)
+}
+
+// Sends a request that needs no signed-in user, e.g. previewing an invitation
+export function publicRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+  return send<T>(method, path, body)
+}
+
+// Where to go after signing in; only paths on this site are honoured
+export function redirectTarget(next: string | undefined): string {
+  return next && next.startsWith("/") && !next.startsWith("//") ? next : "/dashboard"
+}
+
+// Tokens live in localStorage when the user asks to be remembered, otherwise
+// only for the browser session
+function storage(remember: boolean) {
+  return remember ? localStorage : sessionStorage
+}
+
+export function getStoredTokens(): AuthTokens | null {
+  const saved = localStorage.getItem(TOKENS_KEY) || sessionStorage.getItem(TOKENS_KEY)
+  if (!saved) return null
+
+  try {
+    return JSON.parse(saved)
+  } catch (e) {
+    console.error("Failed to parse saved auth tokens", e)
+    return null
+  }
+}
+
+export function storeTokens(tokens: AuthTokens, remember = !!localStorage.getItem(TOKENS_KEY)) {
+  clearTokens()
+  storage(remember).setItem(TOKENS_KEY, JSON.stringify(tokens))
+}
+
+export function clearTokens() {
+  localStorage.removeItem(TOKENS_KEY)
+  sessionStorage.removeItem(TOKENS_KEY)
+}
+
+export async function login(email: string, password: string, remember = false): Promise<AuthUser> {
+  const { user, ...tokens } = await post<AuthResponse>("/auth/login", { email, password })
+  storeTokens(tokens, remember)
+  return user
+}
+
+export async function register(data: RegisterData): Promise<AuthUser> {
+  const { user, ...tokens } = await post<AuthResponse>("/auth/register", data)
+  storeTokens(tokens, false)
+  return user
+}
+
+// The refresh in flight, shared so requests that fail together spend the
+// refresh token once; the server revokes the whole family on reuse
+let refreshing: Promise<AuthTokens | null> | null = null
+
+// Refresh tokens are single use, so the rotated pair replaces the stored one
+export function refreshTokens(): Promise<AuthTokens | null> {
+  if (!refreshing) {
+    refreshing = rotateTokens().finally(() => {
+      refreshing = null
+    })
+  }
+  return refreshing
+}
+
+async function rotateTokens(): Promise<AuthTokens | null> {
+  const current = getStoredTokens()
+  if (!current) return null
+
+  try {
+    const { user, ...tokens } = await post<AuthResponse>("/auth/refresh", { refreshToken: current.refreshToken })
+    storeTokens(tokens)
+    return tokens
+  } catch (error) {
+    clearTokens()
+    return null
+  }
+}
+
+export async function logout() {
+  const current = getStoredTokens()
+  clearTokens()
+  if (current) {
+    await post<void>("/auth/logout", { refreshToken: current.refreshToken }).catch(() => undefined)
+  }
+}
+
+// Sends a request as the signed-in user, refreshing an expired access token once
+export async function authorizedRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+  const tokens = getStoredTokens()
+  if (!tokens) throw new ApiError("You are not signed in", 401)
+
+  try {
+    return await send<T>(method, path, body, tokens.accessToken)
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status !== 401) throw error
+
+    // Another request may already have refreshed since this one was sent
+    const stored = getStoredTokens()
+    const refreshed = stored && stored.accessToken !== tokens.accessToken ? stored : await refreshTokens()
+    if (!refreshed) throw error
+    return send<T>(method, path, body, refreshed.accessToken)
+  }
+}
+
+export async function requestPasswordReset(email: string) {
+  await post<void>("/auth/forgot-password", { email })
+}
+
+export async function resetPassword(token: string, password: string) {
+  await post<void>("/auth/reset-password", { token, password })
+}
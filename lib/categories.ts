@@ -0,0 +1,101 @@
+import {
+  Baby,
+  Beer,
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Fuel,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Lightbulb,
+  Music,
+  PawPrint,
+  Plane,
+  Shirt,
+  ShoppingBag,
+  ShoppingCart,
+  Tag,
+  Utensils,
+  Wifi,
+  Wrench,
+  type LucideIcon,
+} from "lucide-react"
+import type { Category } from "@/types/api"
+
+// Icons by their lucide name, the form categories store them in. The built-in
+// categories use the first ten; the rest are offered for a group's own categories
+export const CATEGORY_ICONS: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  "shopping-cart": ShoppingCart,
+  home: Home,
+  lightbulb: Lightbulb,
+  car: Car,
+  plane: Plane,
+  film: Film,
+  "shopping-bag": ShoppingBag,
+  "heart-pulse": HeartPulse,
+  tag: Tag,
+  coffee: Coffee,
+  beer: Beer,
+  gift: Gift,
+  "paw-print": PawPrint,
+  baby: Baby,
+  "graduation-cap": GraduationCap,
+  dumbbell: Dumbbell,
+  music: Music,
+  wifi: Wifi,
+  fuel: Fuel,
+  shirt: Shirt,
+  wrench: Wrench,
+}
+
+export const CATEGORY_COLORS = [
+  "#f97316",
+  "#84cc16",
+  "#6366f1",
+  "#eab308",
+  "#0ea5e9",
+  "#14b8a6",
+  "#ec4899",
+  "#a855f7",
+  "#ef4444",
+  "#64748b",
+]
+
+// The category filter value that matches expenses without a category
+export const UNCATEGORIZED = "none"
+
+export const categoryIcon = (icon: string): LucideIcon => CATEGORY_ICONS[icon] ?? Tag
+
+export const findCategory = (id: string | null, categories: Category[] = []) =>
+  id ? (categories.find((category) => category.id === id) ?? null) : null
+
+// Words in a description that point to a built-in category
+const KEYWORDS: Record<string, string[]> = {
+  food: ["dinner", "lunch", "breakfast", "brunch", "restaurant", "pizza", "burger", "sushi", "cafe", "coffee", "bar"],
+  groceries: ["groceries", "grocery", "supermarket", "market", "costco", "aldi", "lidl", "tesco", "walmart"],
+  rent: ["rent", "lease", "deposit", "mortgage"],
+  utilities: ["electricity", "electric", "water", "internet", "wifi", "phone", "utilities", "heating", "power"],
+  transport: ["taxi", "uber", "lyft", "bus", "train", "metro", "subway", "fuel", "petrol", "gas", "parking", "toll"],
+  travel: ["flight", "flights", "hotel", "airbnb", "hostel", "trip", "booking", "ferry"],
+  entertainment: ["movie", "movies", "cinema", "concert", "netflix", "spotify", "tickets", "museum", "show", "party"],
+  shopping: ["amazon", "clothes", "shoes", "gift", "gifts", "furniture"],
+  health: ["pharmacy", "doctor", "dentist", "medicine", "gym", "hospital"],
+}
+
+// The category a description most likely belongs to: one of the group's own
+// categories whose name it mentions, then a built-in one by keyword, or null
+export function suggestCategory(description: string, categories: Category[]): string | null {
+  const text = description.toLowerCase()
+  const words = text.split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+  if (words.length === 0) return null
+
+  const own = categories.find((category) => category.groupId && text.includes(category.name.toLowerCase()))
+  if (own) return own.id
+
+  const builtIn = Object.entries(KEYWORDS).find(([, keywords]) => keywords.some((keyword) => words.includes(keyword)))
+  return builtIn && categories.some((category) => category.id === builtIn[0]) ? builtIn[0] : null
+}
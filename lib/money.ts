@@ -0,0 +1,69 @@
+import { type Currency, isoCurrencies } from "@/types/currency"
+
+// Amounts are worked on in integer minor units (cents, or whole yen for JPY),
+// mirroring the API so previews round exactly the way saved expenses do
+
+export function decimalDigits(currency: string, currencies: Record<string, Currency> = isoCurrencies): number {
+  return currencies[currency]?.decimalDigits ?? 2
+}
+
+export const toMinor = (amount: number, currency: string) => Math.round(amount * 10 ** decimalDigits(currency))
+
+export const fromMinor = (minor: number, currency: string) => minor / 10 ** decimalDigits(currency)
+
+// Rounds to the currency's minor unit, e.g. for an input value
+export const roundMoney = (amount: number, currency: string) => fromMinor(toMinor(amount, currency), currency)
+
+// An amount with exactly as many decimals as the currency uses, for inputs and messages
+export const formatMoney = (amount: number, currency: string) => amount.toFixed(decimalDigits(currency))
+
+// The step for amount inputs, such as 0.01 for dollars and 1 for yen
+export const minorStep = (currency: string) => fromMinor(1, currency)
+
+// "1 EUR = 1.0821 USD", to six significant digits
+export const formatRate = (from: string, rate: number, to: string) => `1 ${from} = ${Number(rate.toPrecision(6))} ${to}`
+
+// Formats an amount with its currency symbol, rounded to the currency's minor unit first
+// so that, for example, a yen amount never shows a fraction. Separators and the symbol's
+// position follow locale, or the runtime's default locale when none is given
+export function formatCurrency(
+  amount: number,
+  currencyCode: string,
+  currencies: Record<string, Currency> = isoCurrencies,
+  locale?: string,
+): string {
+  const digits = decimalDigits(currencyCode, currencies)
+  const rounded = Math.round(amount * 10 ** digits) / 10 ** digits
+  if (!currencies[currencyCode]) return `${rounded.toFixed(digits)} ${currencyCode}`
+
+  return new Intl.NumberFormat(locale, {
+    style: "currency",
+    currency: currencyCode,
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(rounded)
+}
+
+export const sumMinor = (values: number[]) => values.reduce((total, value) => total + value, 0)
+
+// Divides a total in minor units in proportion to integer weights. Everyone gets the
+// rounded-down part of their portion and the units left over go to the largest
+// remainders, ties going to the earlier entry, so the parts always add up to the total
+export function allocate(totalMinor: number, weights: number[]): number[] {
+  const totalWeight = sumMinor(weights)
+  if (weights.length === 0 || totalWeight <= 0) {
+    return weights.map(() => 0)
+  }
+  if (totalMinor < 0) {
+    return allocate(-totalMinor, weights).map((minor) => -minor)
+  }
+
+  const portions = weights.map((weight) => Math.floor((totalMinor * weight) / totalWeight))
+  const left = totalMinor - sumMinor(portions)
+  weights
+    .map((weight, index) => ({ index, remainder: (totalMinor * weight) % totalWeight }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .slice(0, left)
+    .forEach(({ index }) => (portions[index] += 1))
+  return portions
+}
@@ -0,0 +1,114 @@
+import type { NewExpense } from "./api"
+import { allocate, fromMinor, sumMinor as sum, toMinor } from "./money"
+import { validateTotal } from "./splits"
+
+// An itemized receipt as the expense form edits it; numbers stay strings until saved
+export interface ReceiptLineDraft {
+  key: string
+  name: string
+  price: string
+  quantity: string
+  assignedTo: string[]
+}
+
+export interface AdjustmentDraft {
+  mode: "percent" | "amount"
+  value: string
+}
+
+export interface ReceiptDraft {
+  items: ReceiptLineDraft[]
+  tax: AdjustmentDraft
+  tip: AdjustmentDraft
+}
+
+export interface ReceiptTotals {
+  subtotal: number
+  tax: number
+  tip: number
+  total: number
+}
+
+let nextKey = 0
+
+export function emptyReceiptLine(): ReceiptLineDraft {
+  nextKey += 1
+  return { key: `line-${nextKey}`, name: "", price: "", quantity: "1", assignedTo: [] }
+}
+
+export function emptyReceipt(): ReceiptDraft {
+  return {
+    items: [emptyReceiptLine()],
+    tax: { mode: "percent", value: "" },
+    tip: { mode: "percent", value: "" },
+  }
+}
+
+const lineMinor = (line: ReceiptLineDraft, currency: string) =>
+  toMinor(Number(line.price || 0), currency) * Math.max(1, Math.floor(Number(line.quantity || 1)))
+
+const adjustmentMinor = (subtotalMinor: number, adjustment: AdjustmentDraft, currency: string) =>
+  adjustment.mode === "percent"
+    ? Math.round((subtotalMinor * Number(adjustment.value || 0)) / 100)
+    : toMinor(Number(adjustment.value || 0), currency)
+
+export function receiptTotals(draft: ReceiptDraft, currency: string): ReceiptTotals {
+  const subtotalMinor = sum(draft.items.map((line) => lineMinor(line, currency)))
+  const taxMinor = adjustmentMinor(subtotalMinor, draft.tax, currency)
+  const tipMinor = adjustmentMinor(subtotalMinor, draft.tip, currency)
+  return {
+    subtotal: fromMinor(subtotalMinor, currency),
+    tax: fromMinor(taxMinor, currency),
+    tip: fromMinor(tipMinor, currency),
+    total: fromMinor(subtotalMinor + taxMinor + tipMinor, currency),
+  }
+}
+
+// Each member's share, worked out the same way the API does: items are shared
+// equally by whoever they are assigned to, and tax and tip follow what each member ordered
+export function receiptShares(draft: ReceiptDraft, amount: number, currency: string): Record<string, number> {
+  const itemTotals = new Map<string, number>()
+  for (const line of draft.items.filter((item) => item.assignedTo.length > 0)) {
+    const minor = allocate(lineMinor(line, currency), line.assignedTo.map(() => 1))
+    line.assignedTo.forEach((userId, i) => itemTotals.set(userId, (itemTotals.get(userId) ?? 0) + minor[i]))
+  }
+
+  const userIds = [...itemTotals.keys()]
+  const ordered = userIds.map((userId) => itemTotals.get(userId) ?? 0)
+  const extraMinor = toMinor(amount, currency) - sum(ordered)
+  const extra = allocate(extraMinor, sum(ordered) === 0 ? userIds.map(() => 1) : ordered)
+
+  return Object.fromEntries(userIds.map((userId, i) => [userId, fromMinor(ordered[i] + extra[i], currency)]))
+}
+
+// A user-facing message when the receipt cannot be saved yet, or null
+export function validateReceipt(draft: ReceiptDraft, amount: number, currency: string): string | null {
+  if (draft.items.length === 0) {
+    return "Add at least one item"
+  }
+  if (draft.items.some((item) => !item.name.trim())) {
+    return "Every item needs a name"
+  }
+  if (draft.items.some((item) => item.assignedTo.length === 0)) {
+    return "Every item needs at least one person to share it"
+  }
+
+  const { total } = receiptTotals(draft, currency)
+  return validateTotal(amount, [total], currency, "Items, tax and tip")
+}
+
+export function toReceiptPayload(draft: ReceiptDraft): Pick<NewExpense, "items" | "tax" | "tip"> {
+  const adjustment = ({ mode, value }: AdjustmentDraft) =>
+    value === "" ? undefined : mode === "percent" ? { percentage: Number(value) } : { amount: Number(value) }
+
+  return {
+    items: draft.items.map((item) => ({
+      name: item.name.trim(),
+      price: Number(item.price || 0),
+      quantity: Math.max(1, Math.floor(Number(item.quantity || 1))),
+      assignedTo: item.assignedTo,
+    })),
+    tax: adjustment(draft.tax),
+    tip: adjustment(draft.tip),
+  }
+}
@@ -0,0 +1,30 @@
+import { format, parseISO } from "date-fns"
+import type { RecurrenceFrequency, RecurringExpense } from "@/types/api"
+
+export const FREQUENCIES: RecurrenceFrequency[] = ["daily", "weekly", "monthly", "yearly"]
+
+const UNITS: Record<RecurrenceFrequency, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  yearly: "year",
+}
+
+// "every month", or "every month until dec 31, 2026" / "every month, 12 times" when it ends
+export function describeFrequency(
+  frequency: RecurrenceFrequency,
+  endDate?: string | null,
+  occurrences?: number | null,
+): string {
+  const parts = [`every ${UNITS[frequency]}`]
+  if (occurrences) parts.push(`${occurrences} ${occurrences === 1 ? "time" : "times"}`)
+  if (endDate) parts.push(`until ${format(parseISO(endDate), "MMM d, yyyy").toLowerCase()}`)
+  return parts.join(", ")
+}
+
+// Where a schedule stands: when the next expense is created, or why none will be
+export function scheduleStatus(recurring: RecurringExpense): string {
+  if (recurring.nextDate === null) return "ended"
+  if (recurring.paused) return "paused"
+  return `next on ${format(parseISO(recurring.nextDate), "MMM d, yyyy").toLowerCase()}`
+}
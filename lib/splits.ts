@@ -0,0 +1,59 @@
+import { allocate, formatMoney, fromMinor, sumMinor, toMinor } from "./money"
+
+// Every split is worked out in minor units of the currency with the same
+// largest-remainder rounding as the API, so previews match what gets saved
+
+// Percentages and weights have at most two decimals; in hundredths they divide exactly
+const hundredths = (value: number) => Math.round(value * 100)
+
+const byId = (ids: string[], minor: number[], currency: string): Record<string, number> =>
+  Object.fromEntries(ids.map((id, i) => [id, fromMinor(minor[i], currency)]))
+
+// 10.00 between three people is 3.34, 3.33 and 3.33
+export function splitEvenly(amount: number, ids: string[], currency: string): Record<string, number> {
+  return byId(ids, allocate(toMinor(amount, currency), ids.map(() => 1)), currency)
+}
+
+export function splitByPercent(
+  amount: number,
+  percentages: Record<string, number>,
+  currency: string,
+): Record<string, number> {
+  const ids = Object.keys(percentages)
+  return byId(ids, allocate(toMinor(amount, currency), ids.map((id) => hundredths(percentages[id]))), currency)
+}
+
+// Splits an amount in proportion to weights such as 2 for a couple and 1 for a single
+export function splitByWeight(
+  amount: number,
+  weights: Record<string, number>,
+  currency: string,
+): Record<string, number> {
+  const ids = Object.keys(weights)
+  return byId(ids, allocate(toMinor(amount, currency), ids.map((id) => hundredths(weights[id]))), currency)
+}
+
+// Equal percentages that still add up to exactly 100, e.g. 33.34, 33.33 and 33.33
+export function evenPercentages(ids: string[]): Record<string, number> {
+  const split = allocate(10000, ids.map(() => 1))
+  return Object.fromEntries(ids.map((id, i) => [id, split[i] / 100]))
+}
+
+export const percentTotal = (percentages: number[]) => sumMinor(percentages.map(hundredths)) / 100
+
+// A user-facing message unless the percentages add up to exactly 100, or null
+export function validatePercentages(percentages: number[]): string | null {
+  const total = percentTotal(percentages)
+  return total === 100 ? null : `Percentages must add up to 100%. Current total: ${total.toFixed(2)}%`
+}
+
+// A user-facing message unless the amounts add up to the expense amount to the
+// minor unit, or null. `label` names what is being added up, such as "Payments"
+export function validateTotal(amount: number, values: number[], currency: string, label = "Amounts"): string | null {
+  const totalMinor = sumMinor(values.map((value) => toMinor(value, currency)))
+  if (totalMinor === toMinor(amount, currency)) {
+    return null
+  }
+  const current = formatMoney(fromMinor(totalMinor, currency), currency)
+  return `${label} must add up to ${formatMoney(amount, currency)}. Current total: ${current}`
+}
@@ -0,0 +1,28 @@
+import { authorizedRequest, storeTokens, type AuthTokens, type AuthUser } from "./auth"
+
+export interface ProfileUpdate {
+  firstName?: string
+  lastName?: string
+}
+
+export function getMe(): Promise<AuthUser> {
+  return authorizedRequest<AuthUser>("GET", "/users/me")
+}
+
+export function updateProfile(data: ProfileUpdate): Promise<AuthUser> {
+  return authorizedRequest<AuthUser>("PATCH", "/users/me", data)
+}
+
+export function changeEmail(email: string, password: string): Promise<AuthUser> {
+  return authorizedRequest<AuthUser>("PUT", "/users/me/email", { email, password })
+}
+
+// Changing the password signs out every other session; this one gets a new token pair
+export async function changePassword(currentPassword: string, newPassword: string) {
+  const tokens = await authorizedRequest<AuthTokens>("PUT", "/users/me/password", { currentPassword, newPassword })
+  storeTokens(tokens)
+}
+
+export async function deleteAccount(password: string) {
+  await authorizedRequest<void>("DELETE", "/users/me", { password })
+}
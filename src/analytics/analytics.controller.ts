@@ -0,0 +1,14 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { AnalyticsService } from './analytics.service';
+import { SpendingQueryDto } from './dto/spending-query.dto';
+
+@Controller('analytics')
+export class AnalyticsController {
+  constructor(private readonly analyticsService: AnalyticsService) {}
+
+  @Get('spending')
+  getSpending(@CurrentUser() user: AuthenticatedUser, @Query() query: SpendingQueryDto) {
+    return this.analyticsService.getSpending(user.id, query);
+  }
+}
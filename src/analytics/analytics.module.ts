@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { ExpensesModule } from '../expenses/expenses.module';
+import { GroupsModule } from '../groups/groups.module';
+import { AnalyticsController } from './analytics.controller';
+import { AnalyticsService } from './analytics.service';
+
+@Module({
+  imports: [GroupsModule, ExpensesModule, ExchangeRatesModule],
+  controllers: [AnalyticsController],
+  providers: [AnalyticsService],
+})
+export class AnalyticsModule {}
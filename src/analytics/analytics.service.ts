@@ -0,0 +1,196 @@
+import { Injectable } from '@nestjs/common';
+import { allocate, fromMinor, toMinor } from '../common/money';
+import { UNCATEGORIZED } from '../expenses/dto/list-expenses-query.dto';
+import { Expense } from '../expenses/entities/expense.entity';
+import { ExpensesService } from '../expenses/expenses.service';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { GroupsService } from '../groups/groups.service';
+import { SpendingQueryDto } from './dto/spending-query.dto';
+import { MonthlySpending, SpendingAnalyticsResponse, SpendingTotals } from './interfaces/spending.interface';
+
+/** Totals in minor units of the requested currency while they are being added up. */
+interface Tally {
+  total: number;
+  yourShare: number;
+}
+
+/** One expense converted into the requested currency, in minor units. */
+interface ConvertedExpense extends Tally {
+  paid: Map<string, number>;
+  shares: Map<string, number>;
+}
+
+const emptyTally = (): Tally => ({ total: 0, yourShare: 0 });
+
+/** The YYYY-MM month before `month`. */
+function previousMonth(month: string): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 2, 1)).toISOString().slice(0, 7);
+}
+
+/** Every YYYY-MM month from `first` to `last`. */
+function monthsBetween(first: string, last: string): string[] {
+  const months = [last];
+  while (months[0] > first) {
+    months.unshift(previousMonth(months[0]));
+  }
+  return months;
+}
+
+@Injectable()
+export class AnalyticsService {
+  constructor(
+    private readonly groupsService: GroupsService,
+    private readonly expensesService: ExpensesService,
+    private readonly exchangeRates: ExchangeRatesService,
+  ) {}
+
+  /**
+   * Spending across the user's groups, or one of them, broken down by month,
+   * category, group and member. Every amount is converted into `query.currency`
+   * before it is added up; each expense is converted once and its shares and
+   * payments are divided from the converted total, so they still add up to it.
+   */
+  async getSpending(userId: string, query: SpendingQueryDto): Promise<SpendingAnalyticsResponse> {
+    const groups = query.groupId
+      ? [await this.groupsService.findOne(query.groupId, userId)]
+      : await this.groupsService.findAllForUser(userId, true);
+    const expenses = (await this.expensesService.findByGroupIds(groups.map((group) => group.id))).filter(
+      (expense) => query.category === undefined || (expense.category ?? UNCATEGORIZED) === query.category,
+    );
+
+    const currency = query.currency;
+    const currentMonth = (query.to ?? new Date().toISOString()).slice(0, 7);
+    const comparedMonths = [previousMonth(currentMonth), currentMonth];
+
+    const overall = emptyTally();
+    const byMonth = new Map<string, Tally>();
+    const byCategory = new Map<string | null, Tally>();
+    const byGroup = new Map<string, Tally>();
+    const compared = new Map<string, Tally>();
+    const members = new Map<string, { paid: number; share: number }>();
+    const unconverted = new Map<string, { minor: number; count: number }>();
+
+    // Today's rate for each currency, for expenses without a rate locked into `currency`
+    const currentRates = new Map<string, number | null>();
+    for (const code of new Set(expenses.map((expense) => expense.currency))) {
+      currentRates.set(code, await this.exchangeRates.currentRate(code, currency));
+    }
+
+    for (const expense of expenses) {
+      const month = expense.date.slice(0, 7);
+      const inRange = (!query.from || expense.date >= query.from) && (!query.to || expense.date <= query.to);
+      if (!inRange && !comparedMonths.includes(month)) {
+        continue;
+      }
+
+      const converted = this.convert(expense, currency, userId, currentRates.get(expense.currency) ?? null);
+      if (!converted) {
+        if (inRange) {
+          const left = unconverted.get(expense.currency) ?? { minor: 0, count: 0 };
+          left.minor += toMinor(expense.amount, expense.currency);
+          left.count += 1;
+          unconverted.set(expense.currency, left);
+        }
+        continue;
+      }
+
+      if (comparedMonths.includes(month)) {
+        this.add(compared, month, converted);
+      }
+      if (!inRange) {
+        continue;
+      }
+      overall.total += converted.total;
+      overall.yourShare += converted.yourShare;
+      this.add(byMonth, month, converted);
+      this.add(byCategory, expense.category, converted);
+      this.add(byGroup, expense.groupId, converted);
+      for (const [memberId, minor] of converted.paid) {
+        const member = members.get(memberId) ?? { paid: 0, share: 0 };
+        member.paid += minor;
+        members.set(memberId, member);
+      }
+      for (const [memberId, minor] of converted.shares) {
+        const member = members.get(memberId) ?? { paid: 0, share: 0 };
+        member.share += minor;
+        members.set(memberId, member);
+      }
+    }
+
+    const months = [...byMonth.keys()].sort();
+    const toMajor = (tally: Tally): SpendingTotals => ({
+      total: fromMinor(tally.total, currency),
+      yourShare: fromMinor(tally.yourShare, currency),
+    });
+    const monthly = (month: string, tallies: Map<string, Tally>): MonthlySpending => ({
+      month,
+      ...toMajor(tallies.get(month) ?? emptyTally()),
+    });
+    const byTotal = (a: [unknown, Tally], b: [unknown, Tally]) => b[1].total - a[1].total;
+
+    return {
+      currency,
+      ...toMajor(overall),
+      byMonth: months.length ? monthsBetween(months[0], months[months.length - 1]).map((m) => monthly(m, byMonth)) : [],
+      byCategory: [...byCategory].sort(byTotal).map(([category, tally]) => ({ category, ...toMajor(tally) })),
+      byGroup: [...byGroup].sort(byTotal).map(([groupId, tally]) => ({
+        groupId,
+        name: groups.find((group) => group.id === groupId)?.name ?? '',
+        ...toMajor(tally),
+      })),
+      members: [...members]
+        .sort((a, b) => b[1].share - a[1].share)
+        .map(([memberId, { paid, share }]) => ({
+          userId: memberId,
+          paid: fromMinor(paid, currency),
+          share: fromMinor(share, currency),
+        })),
+      monthOverMonth: {
+        current: monthly(comparedMonths[1], compared),
+        previous: monthly(comparedMonths[0], compared),
+      },
+      unconverted: [...unconverted].map(([code, { minor, count }]) => ({
+        currency: code,
+        amount: fromMinor(minor, code),
+        count,
+      })),
+    };
+  }
+
+  /**
+   * Uses the rate locked on the expense date when it is into `currency`, and
+   * `currentRate` otherwise. Null when neither is known.
+   */
+  private convert(
+    expense: Expense,
+    currency: string,
+    userId: string,
+    currentRate: number | null,
+  ): ConvertedExpense | null {
+    const rate = expense.rateCurrency === currency && expense.exchangeRate ? expense.exchangeRate : currentRate;
+    if (rate === null) {
+      return null;
+    }
+
+    const total = toMinor(expense.amount * rate, currency);
+    // Expenses saved before multiple payers were supported only have paidBy
+    const payers = expense.payers?.length ? expense.payers : [{ userId: expense.paidBy, amount: expense.amount }];
+    const divide = (parts: { userId: string; amount: number }[]) => {
+      const minor = allocate(total, parts.map((part) => toMinor(part.amount, expense.currency)));
+      const byMember = new Map<string, number>();
+      parts.forEach((part, index) => byMember.set(part.userId, (byMember.get(part.userId) ?? 0) + minor[index]));
+      return byMember;
+    };
+
+    const shares = divide(expense.shares);
+    return { total, yourShare: shares.get(userId) ?? 0, paid: divide(payers), shares };
+  }
+
+  private add<K>(tallies: Map<K, Tally>, key: K, converted: Tally): void {
+    const tally = tallies.get(key) ?? emptyTally();
+    tally.total += converted.total;
+    tally.yourShare += converted.yourShare;
+    tallies.set(key, tally);
+  }
+}
@@ -0,0 +1,27 @@
+import { IsDateString, IsISO4217CurrencyCode, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class SpendingQueryDto {
+  /** The currency to report in. Amounts in other currencies are converted into it. */
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  /** The first and last expense dates to include, YYYY-MM-DD. */
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  /** Only this group's expenses, instead of those of every group the user is in. */
+  @IsOptional()
+  @IsUUID()
+  groupId?: string;
+
+  /** A category id, or `none` for expenses without a category. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(36)
+  category?: string;
+}
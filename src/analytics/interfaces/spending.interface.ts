@@ -0,0 +1,43 @@
+/**
+ * Amounts are in major units of the requested currency. `total` is what the
+ * expenses came to for everyone, `yourShare` the current user's part of it.
+ */
+export interface SpendingTotals {
+  total: number;
+  yourShare: number;
+}
+
+/** `month` is YYYY-MM. */
+export interface MonthlySpending extends SpendingTotals {
+  month: string;
+}
+
+/** `category` is null for expenses without one. */
+export interface CategorySpending extends SpendingTotals {
+  category: string | null;
+}
+
+export interface GroupSpending extends SpendingTotals {
+  groupId: string;
+  name: string;
+}
+
+/** What a member paid towards the expenses against their share of them. */
+export interface MemberSpending {
+  userId: string;
+  paid: number;
+  share: number;
+}
+
+export interface SpendingAnalyticsResponse extends SpendingTotals {
+  currency: string;
+  /** Every month from the first expense to the last, empty months included. */
+  byMonth: MonthlySpending[];
+  byCategory: CategorySpending[];
+  byGroup: GroupSpending[];
+  members: MemberSpending[];
+  /** The month `to` falls in, or the current month, against the month before, whatever `from` is. */
+  monthOverMonth: { current: MonthlySpending; previous: MonthlySpending };
+  /** Expenses left out because there is no rate to convert their currency, in that currency. */
+  unconverted: { currency: string; amount: number; count: number }[];
+}
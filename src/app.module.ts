@@ -6,6 +6,12 @@ import { UsersModule } from './users/users.module';
 import { GroupsModule } from './groups/groups.module';
 import { ExpensesModule } from './expenses/expenses.module';
 import { SettlementsModule } from './settlements/settlements.module';
+import { BalancesModule } from './balances/balances.module';
+import { MailModule } from './mail/mail.module';
+import { InvitationsModule } from './invitations/invitations.module';
+import { RecurringExpensesModule } from './recurring-expenses/recurring-expenses.module';
+import { CategoriesModule } from './categories/categories.module';
+import { AnalyticsModule } from './analytics/analytics.module';
 
 @Module({
   imports: [
@@ -24,11 +30,17 @@ import { SettlementsModule } from './settlements/settlements.module';
       synchronize: process.env.NODE_ENV !== 'production',
       logging: process.env.NODE_ENV !== 'production',
     }),
+    MailModule,
     AuthModule,
     UsersModule,
     GroupsModule,
     ExpensesModule,
     SettlementsModule,
+    BalancesModule,
+    InvitationsModule,
+    RecurringExpensesModule,
+    CategoriesModule,
+    AnalyticsModule,
   ],
 })
 export class AppModule {} 
\ No newline at end of file
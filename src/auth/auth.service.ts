@@ -0,0 +1,156 @@
+import { Injectable, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { randomUUID } from 'crypto';
+import { IsNull, Repository } from 'typeorm';
+import { AppError } from '../common/errors/app-error';
+import { ErrorCode } from '../common/errors/error-code.enum';
+import { RateLimiter } from '../common/rate-limit/rate-limiter';
+import { User } from '../users/entities/user.entity';
+import { UsersService } from '../users/users.service';
+import { LoginDto } from './dto/login.dto';
+import { RegisterDto } from './dto/register.dto';
+import { RefreshToken } from './entities/refresh-token.entity';
+import { AuthResponse, AuthTokens } from './interfaces/auth-response.interface';
+import { JwtPayload } from './interfaces/jwt-payload.interface';
+import { hashPassword, verifyPassword } from './password-hasher';
+import { generateToken, hashToken } from './token-hash';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class AuthService {
+  constructor(
+    @InjectRepository(RefreshToken)
+    private readonly refreshTokens: Repository<RefreshToken>,
+    private readonly usersService: UsersService,
+    private readonly jwtService: JwtService,
+    private readonly config: ConfigService,
+    private readonly rateLimiter: RateLimiter,
+  ) {}
+
+  async register(dto: RegisterDto): Promise<AuthResponse> {
+    const user = await this.usersService.create({
+      email: dto.email,
+      passwordHash: await hashPassword(dto.password),
+      firstName: dto.firstName,
+      lastName: dto.lastName,
+    });
+    const tokens = await this.generateTokens(user, randomUUID());
+    return { user, ...tokens };
+  }
+
+  /**
+   * Attempts count against both the email and the client IP, so neither
+   * guessing one account's password nor spraying many accounts from one
+   * address gets far.
+   */
+  async login(dto: LoginDto, ip: string): Promise<AuthResponse> {
+    const emailKey = `login:email:${dto.email.trim().toLowerCase()}`;
+    const keys = [emailKey, `login:ip:${ip}`];
+
+    const decision = await this.rateLimiter.check(keys);
+    if (!decision.allowed) {
+      throw new AppError('Too many login attempts', 429, ErrorCode.RATE_LIMIT_ERROR, {
+        retryAfterSeconds: Math.ceil(decision.retryAfterMs / 1000),
+      });
+    }
+
+    let user: User;
+    try {
+      user = await this.validateCredentials(dto.email, dto.password);
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        await this.rateLimiter.recordFailure(keys);
+      }
+      throw error;
+    }
+
+    await this.rateLimiter.reset([emailKey]);
+    const tokens = await this.generateTokens(user, randomUUID());
+    return { user, ...tokens };
+  }
+
+  /** Starts a fresh session for a user who is already authenticated. */
+  async createSession(user: User): Promise<AuthTokens> {
+    return this.generateTokens(user, randomUUID());
+  }
+
+  /**
+   * Exchanges a refresh token for a new token pair. Presenting a token that
+   * was already rotated means it leaked, so the whole session is revoked.
+   */
+  async refresh(refreshToken: string): Promise<AuthResponse> {
+    const stored = await this.refreshTokens.findOne({ where: { tokenHash: hashToken(refreshToken) } });
+    if (!stored) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+    if (stored.revokedAt) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+    if (stored.expiresAt.getTime() <= Date.now()) {
+      throw new UnauthorizedException('Refresh token has expired');
+    }
+
+    // Rotate conditionally so two requests racing with the same token cannot both win.
+    const rotated = await this.refreshTokens.update({ id: stored.id, revokedAt: IsNull() }, { revokedAt: new Date() });
+    if (!rotated.affected) {
+      await this.revokeFamily(stored.familyId);
+      throw new UnauthorizedException('Refresh token has already been used');
+    }
+    const user = await this.usersService.findById(stored.userId);
+    const tokens = await this.generateTokens(user, stored.familyId);
+    return { user, ...tokens };
+  }
+
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokens.findOne({ where: { tokenHash: hashToken(refreshToken) } });
+    if (stored) {
+      await this.revokeFamily(stored.familyId);
+    }
+  }
+
+  /** Ends every session of the user, e.g. after a password change. */
+  async revokeAllSessions(userId: string): Promise<void> {
+    await this.refreshTokens.update({ userId, revokedAt: IsNull() }, { revokedAt: new Date() });
+  }
+
+  private async validateCredentials(email: string, password: string): Promise<User> {
+    const user = await this.usersService.findByEmailWithPassword(email);
+    if (!user?.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      throw new UnauthorizedException('Invalid email or password');
+    }
+    return this.usersService.findById(user.id);
+  }
+
+  private async generateTokens(user: User, familyId: string): Promise<AuthTokens> {
+    if (user.isGuest || !user.email) {
+      throw new UnauthorizedException('Guests cannot sign in');
+    }
+    const payload: JwtPayload = { sub: user.id, email: user.email };
+    const accessToken = await this.jwtService.signAsync(payload);
+
+    const refreshToken = generateToken();
+    const ttlDays = Number(this.config.get('REFRESH_TOKEN_TTL_DAYS', 30));
+    await this.refreshTokens.save(
+      this.refreshTokens.create({
+        userId: user.id,
+        familyId,
+        tokenHash: hashToken(refreshToken),
+        expiresAt: new Date(Date.now() + ttlDays * DAY_MS),
+      }),
+    );
+
+    return {
+      accessToken,
+      refreshToken,
+      expiresIn: Number(this.config.get('JWT_EXPIRATION', 900)),
+    };
+  }
+
+  private async revokeFamily(familyId: string): Promise<void> {
+    await this.refreshTokens.update({ familyId, revokedAt: IsNull() }, { revokedAt: new Date() });
+  }
+}
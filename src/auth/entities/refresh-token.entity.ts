@@ -0,0 +1,35 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+
+/**
+ * A refresh token issued to a session. Tokens are single use: refreshing
+ * revokes the presented token and issues a new one in the same family, and
+ * presenting a revoked token again revokes the whole family.
+ */
+@Entity('refresh_tokens')
+export class RefreshToken {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Index()
+  @Column('uuid')
+  userId: string;
+
+  /** All tokens rotated from the same login share a family. */
+  @Index()
+  @Column('uuid')
+  familyId: string;
+
+  /** SHA-256 of the token; the token itself is never stored. */
+  @Index({ unique: true })
+  @Column({ length: 64 })
+  tokenHash: string;
+
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  revokedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
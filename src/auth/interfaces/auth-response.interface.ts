@@ -0,0 +1,12 @@
+import { User } from '../../users/entities/user.entity';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+  /** Lifetime of the access token in seconds. */
+  expiresIn: number;
+}
+
+export interface AuthResponse extends AuthTokens {
+  user: User;
+}
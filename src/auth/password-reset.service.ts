@@ -0,0 +1,79 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import { MailTransport } from '../mail/mail-transport';
+import { UsersService } from '../users/users.service';
+import { AuthService } from './auth.service';
+import { PasswordResetToken } from './entities/password-reset-token.entity';
+import { hashPassword } from './password-hasher';
+import { generateToken, hashToken } from './token-hash';
+
+const MINUTE_MS = 60 * 1000;
+
+@Injectable()
+export class PasswordResetService {
+  private readonly logger = new Logger(PasswordResetService.name);
+
+  constructor(
+    @InjectRepository(PasswordResetToken)
+    private readonly resetTokens: Repository<PasswordResetToken>,
+    private readonly usersService: UsersService,
+    private readonly authService: AuthService,
+    private readonly mailTransport: MailTransport,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * Emails a reset link if an account exists. Callers always get the same
+   * response so the endpoint cannot be used to discover registered emails.
+   */
+  async requestReset(email: string): Promise<void> {
+    const user = await this.usersService.findByEmailWithPassword(email);
+    if (!user?.email) {
+      this.logger.log('Password reset requested for an unknown email');
+      return;
+    }
+
+    // Only the most recent link stays valid.
+    await this.resetTokens.update({ userId: user.id, usedAt: IsNull() }, { usedAt: new Date() });
+
+    const token = generateToken();
+    const ttlMinutes = Number(this.config.get('PASSWORD_RESET_TTL_MINUTES', 60));
+    await this.resetTokens.save(
+      this.resetTokens.create({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + ttlMinutes * MINUTE_MS),
+      }),
+    );
+
+    const appUrl = this.config.get('APP_URL', 'http://localhost:3001');
+    const link = `${appUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    await this.mailTransport.send({
+      to: user.email,
+      subject: 'Reset your spltr3 password',
+      text:
+        `Hi ${user.firstName},\n\n` +
+        `Someone asked to reset the password for your spltr3 account. ` +
+        `Use the link below within ${ttlMinutes} minutes to choose a new one:\n\n${link}\n\n` +
+        `If this wasn't you, you can ignore this email.`,
+    });
+  }
+
+  async resetPassword(token: string, password: string): Promise<void> {
+    const stored = await this.resetTokens.findOne({ where: { tokenHash: hashToken(token) } });
+    if (!stored || stored.usedAt || stored.expiresAt.getTime() <= Date.now()) {
+      throw new BadRequestException('This reset link is invalid or has expired');
+    }
+
+    // Claim the token first so a concurrent request cannot use it twice.
+    const claimed = await this.resetTokens.update({ id: stored.id, usedAt: IsNull() }, { usedAt: new Date() });
+    if (!claimed.affected) {
+      throw new BadRequestException('This reset link is invalid or has expired');
+    }
+
+    await this.usersService.updatePassword(stored.userId, await hashPassword(password));
+    await this.authService.revokeAllSessions(stored.userId);
+  }
+}
@@ -0,0 +1,7 @@
+import { createHash, randomBytes } from 'crypto';
+
+/** An opaque, URL-safe random token for refresh and reset links. */
+export const generateToken = () => randomBytes(48).toString('base64url');
+
+/** Tokens are looked up by their SHA-256 so a leaked table cannot be replayed. */
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
@@ -0,0 +1,155 @@
+import {
+  LedgerExpense,
+  LedgerSettlement,
+  netPositions,
+  pairwiseDebts,
+  sharesOwed,
+  simplifyDebts,
+} from './balance-calculator';
+
+const dinner: LedgerExpense = {
+  paidBy: 'a',
+  amount: 100,
+  currency: 'USD',
+  date: '2026-01-10',
+  payers: [
+    { userId: 'a', amount: 60 },
+    { userId: 'b', amount: 40 },
+  ],
+  shares: [
+    { userId: 'a', amount: 33.34 },
+    { userId: 'b', amount: 33.33 },
+    { userId: 'c', amount: 33.33 },
+  ],
+};
+
+const payback: LedgerSettlement = { paidBy: 'c', paidTo: 'a', amount: 20, currency: 'USD', date: '2026-01-12' };
+
+describe('balance calculator', () => {
+  describe('sharesOwed', () => {
+    it('owes each payer in proportion to what they paid', () => {
+      expect(sharesOwed(dinner)).toEqual([
+        { from: 'a', to: 'a', minor: 2000 },
+        { from: 'a', to: 'b', minor: 1334 },
+        { from: 'b', to: 'a', minor: 2000 },
+        { from: 'b', to: 'b', minor: 1333 },
+        { from: 'c', to: 'a', minor: 2000 },
+        { from: 'c', to: 'b', minor: 1333 },
+      ]);
+    });
+
+    it('owes every payer exactly what they paid after rounding', () => {
+      const expense: LedgerExpense = {
+        ...dinner,
+        payers: [
+          { userId: 'a', amount: 33.33 },
+          { userId: 'b', amount: 66.67 },
+        ],
+      };
+      const owedTo = (userId: string) =>
+        sharesOwed(expense)
+          .filter((owed) => owed.to === userId)
+          .reduce((sum, owed) => sum + owed.minor, 0);
+      expect(owedTo('a')).toBe(3333);
+      expect(owedTo('b')).toBe(6667);
+    });
+
+    it('falls back to paidBy when an expense has no payers', () => {
+      const expense: LedgerExpense = { ...dinner, payers: undefined };
+      expect(sharesOwed(expense).map((owed) => owed.to)).toEqual(['a', 'a', 'a']);
+    });
+  });
+
+  describe('netPositions', () => {
+    it('adds what each member paid and takes off what they consumed', () => {
+      expect(netPositions([dinner], [])).toEqual([
+        { userId: 'a', currency: 'USD', minor: 2666 },
+        { userId: 'b', currency: 'USD', minor: 667 },
+        { userId: 'c', currency: 'USD', minor: -3333 },
+      ]);
+    });
+
+    it('moves settled amounts from the payer to the recipient', () => {
+      expect(netPositions([dinner], [payback])).toEqual([
+        { userId: 'a', currency: 'USD', minor: 666 },
+        { userId: 'b', currency: 'USD', minor: 667 },
+        { userId: 'c', currency: 'USD', minor: -1333 },
+      ]);
+    });
+
+    it('keeps currencies apart', () => {
+      const euros: LedgerExpense = {
+        paidBy: 'c',
+        amount: 10,
+        currency: 'EUR',
+        date: '2026-01-11',
+        shares: [{ userId: 'a', amount: 10 }],
+      };
+      expect(netPositions([euros], [])).toEqual([
+        { userId: 'c', currency: 'EUR', minor: 1000 },
+        { userId: 'a', currency: 'EUR', minor: -1000 },
+      ]);
+    });
+  });
+
+  describe('pairwiseDebts', () => {
+    it('nets debts in both directions between two members', () => {
+      expect(pairwiseDebts([dinner], [])).toEqual([
+        { from: 'b', to: 'a', currency: 'USD', minor: 666 },
+        { from: 'c', to: 'a', currency: 'USD', minor: 2000 },
+        { from: 'c', to: 'b', currency: 'USD', minor: 1333 },
+      ]);
+    });
+
+    it('drops debts a settlement has cleared', () => {
+      expect(pairwiseDebts([dinner], [payback])).toEqual([
+        { from: 'b', to: 'a', currency: 'USD', minor: 666 },
+        { from: 'c', to: 'b', currency: 'USD', minor: 1333 },
+      ]);
+    });
+  });
+
+  describe('simplifyDebts', () => {
+    it('pairs members whose amounts cancel out first', () => {
+      expect(
+        simplifyDebts([
+          { userId: 'a', currency: 'USD', minor: 500 },
+          { userId: 'b', currency: 'USD', minor: 300 },
+          { userId: 'c', currency: 'USD', minor: -300 },
+          { userId: 'd', currency: 'USD', minor: -500 },
+        ]),
+      ).toEqual([
+        { from: 'd', to: 'a', currency: 'USD', minor: 500 },
+        { from: 'c', to: 'b', currency: 'USD', minor: 300 },
+      ]);
+    });
+
+    it('lets the largest debtor pay the largest creditor', () => {
+      expect(
+        simplifyDebts([
+          { userId: 'a', currency: 'USD', minor: 1000 },
+          { userId: 'b', currency: 'USD', minor: -600 },
+          { userId: 'c', currency: 'USD', minor: -400 },
+        ]),
+      ).toEqual([
+        { from: 'b', to: 'a', currency: 'USD', minor: 600 },
+        { from: 'c', to: 'a', currency: 'USD', minor: 400 },
+      ]);
+    });
+
+    it('skips members in the middle of a chain and keeps currencies apart', () => {
+      expect(
+        simplifyDebts([
+          { userId: 'a', currency: 'USD', minor: -1000 },
+          { userId: 'b', currency: 'USD', minor: 0 },
+          { userId: 'c', currency: 'USD', minor: 1000 },
+          { userId: 'a', currency: 'EUR', minor: 250 },
+          { userId: 'b', currency: 'EUR', minor: -250 },
+        ]),
+      ).toEqual([
+        { from: 'a', to: 'c', currency: 'USD', minor: 1000 },
+        { from: 'b', to: 'a', currency: 'EUR', minor: 250 },
+      ]);
+    });
+  });
+});
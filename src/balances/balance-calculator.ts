@@ -0,0 +1,222 @@
+import { allocate, fromMinor, toMinor } from '../common/money';
+import { Expense } from '../expenses/entities/expense.entity';
+import { Settlement } from '../settlements/entities/settlement.entity';
+
+export type LedgerExpense = Pick<Expense, 'paidBy' | 'amount' | 'currency' | 'date'> &
+  Partial<Pick<Expense, 'exchangeRate' | 'rateCurrency'>> & {
+    shares: { userId: string; amount: number }[];
+    payers?: { userId: string; amount: number }[];
+  };
+
+export type LedgerSettlement = Pick<Settlement, 'paidBy' | 'paidTo' | 'amount' | 'currency' | 'date'> &
+  Partial<Pick<Settlement, 'exchangeRate' | 'rateCurrency' | 'settlesCurrency' | 'settlesAmount'>>;
+
+/** A member's overall position in one currency. Positive means they are owed money. */
+export interface NetPosition {
+  userId: string;
+  currency: string;
+  minor: number;
+}
+
+/** An outstanding amount `from` owes `to`. */
+export interface Debt {
+  from: string;
+  to: string;
+  currency: string;
+  minor: number;
+}
+
+/** Everyone who paid towards an expense, in minor units; older expenses only have `paidBy`. */
+function paymentsOf(expense: LedgerExpense): { userId: string; minor: number }[] {
+  return expense.payers?.length
+    ? expense.payers.map((payer) => ({ userId: payer.userId, minor: toMinor(payer.amount, expense.currency) }))
+    : [{ userId: expense.paidBy, minor: toMinor(expense.amount, expense.currency) }];
+}
+
+/**
+ * An expense converted into `currency`, `rate` being the units of `currency`
+ * one unit of the expense's currency is worth. Shares and payments are
+ * divided from the converted total, so they still add up to it.
+ */
+export function expenseIn(currency: string, expense: LedgerExpense, rate: number): LedgerExpense {
+  if (expense.currency === currency) {
+    return expense;
+  }
+
+  const total = toMinor(expense.amount * rate, currency);
+  const divide = (parts: { userId: string; minor: number }[]) => {
+    const minor = allocate(total, parts.map((part) => part.minor));
+    return parts.map((part, index) => ({ userId: part.userId, amount: fromMinor(minor[index], currency) }));
+  };
+  const shares = expense.shares.map((share) => ({
+    userId: share.userId,
+    minor: toMinor(share.amount, expense.currency),
+  }));
+  return {
+    paidBy: expense.paidBy,
+    amount: fromMinor(total, currency),
+    currency,
+    date: expense.date,
+    shares: divide(shares),
+    payers: divide(paymentsOf(expense)),
+  };
+}
+
+/** A settlement converted into `currency` the same way as {@link expenseIn}. */
+export function settlementIn(currency: string, settlement: LedgerSettlement, rate: number): LedgerSettlement {
+  if (settlement.currency === currency) {
+    return settlement;
+  }
+  const amount = fromMinor(toMinor(settlement.amount * rate, currency), currency);
+  return { paidBy: settlement.paidBy, paidTo: settlement.paidTo, amount, currency, date: settlement.date };
+}
+
+/**
+ * A settlement counted against the debt it was meant to clear: one paid in
+ * another currency than the debt's counts as the amount of the debt the
+ * members agreed it was worth.
+ */
+export function settlementInDebtCurrency(settlement: LedgerSettlement): LedgerSettlement {
+  if (!settlement.settlesCurrency || !settlement.settlesAmount) {
+    return settlement;
+  }
+  return {
+    paidBy: settlement.paidBy,
+    paidTo: settlement.paidTo,
+    amount: settlement.settlesAmount,
+    currency: settlement.settlesCurrency,
+    date: settlement.date,
+  };
+}
+
+/**
+ * What each share holder owes each payer of an expense. Shares are spread over
+ * running totals rather than one by one, so after rounding every payer is owed
+ * exactly what they paid.
+ */
+export function sharesOwed(expense: LedgerExpense): { from: string; to: string; minor: number }[] {
+  const payments = paymentsOf(expense);
+  const owed: { from: string; to: string; minor: number }[] = [];
+  const weights = payments.map((payment) => payment.minor);
+  let running = 0;
+  let before = payments.map(() => 0);
+  for (const share of expense.shares) {
+    running += toMinor(share.amount, expense.currency);
+    const after = allocate(running, weights);
+    payments.forEach((payment, i) =>
+      owed.push({ from: share.userId, to: payment.userId, minor: after[i] - before[i] }),
+    );
+    before = after;
+  }
+  return owed;
+}
+
+/**
+ * Sums what every member paid minus what they consumed, per currency.
+ * Settlements move money from the payer's debt to the recipient's.
+ */
+export function netPositions(expenses: LedgerExpense[], settlements: LedgerSettlement[]): NetPosition[] {
+  const positions = new Map<string, NetPosition>();
+  const add = (userId: string, currency: string, minor: number) => {
+    const key = `${currency}|${userId}`;
+    const position = positions.get(key) ?? { userId, currency, minor: 0 };
+    position.minor += minor;
+    positions.set(key, position);
+  };
+
+  for (const expense of expenses) {
+    for (const payment of paymentsOf(expense)) {
+      add(payment.userId, expense.currency, payment.minor);
+    }
+    for (const share of expense.shares) {
+      add(share.userId, expense.currency, -toMinor(share.amount, expense.currency));
+    }
+  }
+  for (const settlement of settlements) {
+    add(settlement.paidBy, settlement.currency, toMinor(settlement.amount, settlement.currency));
+    add(settlement.paidTo, settlement.currency, -toMinor(settlement.amount, settlement.currency));
+  }
+
+  return [...positions.values()];
+}
+
+/**
+ * Who owes whom without any simplification: every share holder owes the
+ * payers of the expense in proportion to what each paid, and debts in both
+ * directions between two members are netted against each other.
+ */
+export function pairwiseDebts(expenses: LedgerExpense[], settlements: LedgerSettlement[]): Debt[] {
+  // Keyed by an ordered pair; a positive value means the first member owes the second.
+  const ledger = new Map<string, { a: string; b: string; currency: string; minor: number }>();
+  const add = (from: string, to: string, currency: string, minor: number) => {
+    if (from === to || minor === 0) {
+      return;
+    }
+    const [a, b, sign] = from < to ? [from, to, 1] : [to, from, -1];
+    const key = `${currency}|${a}|${b}`;
+    const entry = ledger.get(key) ?? { a, b, currency, minor: 0 };
+    entry.minor += sign * minor;
+    ledger.set(key, entry);
+  };
+
+  for (const expense of expenses) {
+    for (const owed of sharesOwed(expense)) {
+      add(owed.from, owed.to, expense.currency, owed.minor);
+    }
+  }
+  for (const settlement of settlements) {
+    // Paying someone back is the same as them now owing you that amount.
+    add(settlement.paidTo, settlement.paidBy, settlement.currency, toMinor(settlement.amount, settlement.currency));
+  }
+
+  return [...ledger.values()]
+    .filter((entry) => entry.minor !== 0)
+    .map(({ a, b, currency, minor }) =>
+      minor > 0 ? { from: a, to: b, currency, minor } : { from: b, to: a, currency, minor: -minor },
+    );
+}
+
+const byLargest = (a: NetPosition, b: NetPosition) => b.minor - a.minor || a.userId.localeCompare(b.userId);
+
+/**
+ * Reduces net positions to a short list of transfers that settles everyone.
+ * Members whose amounts cancel out exactly are paired first, then the largest
+ * debtor repeatedly pays the largest creditor. This never needs more than
+ * n - 1 transfers per currency.
+ */
+export function simplifyDebts(positions: NetPosition[]): Debt[] {
+  const transfers: Debt[] = [];
+  const currencies = [...new Set(positions.map((position) => position.currency))];
+
+  for (const currency of currencies) {
+    const inCurrency = positions.filter((position) => position.currency === currency);
+    const creditors = inCurrency.filter((position) => position.minor > 0).map((position) => ({ ...position }));
+    const debtors = inCurrency
+      .filter((position) => position.minor < 0)
+      .map((position) => ({ ...position, minor: -position.minor }));
+
+    const pay = (debtor: NetPosition, creditor: NetPosition, minor: number) => {
+      transfers.push({ from: debtor.userId, to: creditor.userId, currency, minor });
+      debtor.minor -= minor;
+      creditor.minor -= minor;
+    };
+
+    for (const debtor of debtors.sort(byLargest)) {
+      const match = creditors.sort(byLargest).find((creditor) => creditor.minor === debtor.minor);
+      if (match) {
+        pay(debtor, match, debtor.minor);
+      }
+    }
+
+    for (;;) {
+      const debtor = debtors.filter((position) => position.minor > 0).sort(byLargest)[0];
+      const creditor = creditors.filter((position) => position.minor > 0).sort(byLargest)[0];
+      if (!debtor || !creditor) {
+        break;
+      }
+      pay(debtor, creditor, Math.min(debtor.minor, creditor.minor));
+    }
+  }
+
+  return transfers;
+}
@@ -0,0 +1,18 @@
+import { Controller, Get, Param, ParseUUIDPipe } from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { BalancesService } from './balances.service';
+
+@Controller()
+export class BalancesController {
+  constructor(private readonly balancesService: BalancesService) {}
+
+  @Get('balances')
+  findMine(@CurrentUser() user: AuthenticatedUser) {
+    return this.balancesService.getUserBalances(user.id);
+  }
+
+  @Get('groups/:groupId/balances')
+  findForGroup(@CurrentUser() user: AuthenticatedUser, @Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.balancesService.getGroupBalances(groupId, user.id);
+  }
+}
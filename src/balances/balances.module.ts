@@ -0,0 +1,15 @@
+import { Module, forwardRef } from '@nestjs/common';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { ExpensesModule } from '../expenses/expenses.module';
+import { GroupsModule } from '../groups/groups.module';
+import { SettlementsModule } from '../settlements/settlements.module';
+import { BalancesController } from './balances.controller';
+import { BalancesService } from './balances.service';
+
+@Module({
+  imports: [forwardRef(() => GroupsModule), ExpensesModule, SettlementsModule, ExchangeRatesModule],
+  controllers: [BalancesController],
+  providers: [BalancesService],
+  exports: [BalancesService],
+})
+export class BalancesModule {}
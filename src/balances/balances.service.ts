@@ -0,0 +1,302 @@
+import { Inject, Injectable, forwardRef } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { AppError } from '../common/errors/app-error';
+import { ErrorCode } from '../common/errors/error-code.enum';
+import { fromMinor } from '../common/money';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { RateUnavailableError } from '../exchange-rates/rate-unavailable.error';
+import { ExpensesService } from '../expenses/expenses.service';
+import { GroupsService } from '../groups/groups.service';
+import { SettlementsService } from '../settlements/settlements.service';
+import { Group } from '../groups/entities/group.entity';
+import {
+  Debt,
+  expenseIn,
+  LedgerExpense,
+  LedgerSettlement,
+  netPositions,
+  pairwiseDebts,
+  settlementIn,
+  settlementInDebtCurrency,
+  simplifyDebts,
+} from './balance-calculator';
+import {
+  CounterpartBalance,
+  CurrencyBalances,
+  GroupBalanceBreakdown,
+  GroupBalancesResponse,
+  MemberBalance,
+  UserBalancesResponse,
+} from './interfaces/balance.interface';
+
+/** Units of `to` one unit of `from` was worth on `date`. */
+type RateLookup = (from: string, to: string, date: string) => Promise<number>;
+
+interface CounterpartMinor {
+  id: string;
+  currency: string;
+  minor: number;
+  groups: GroupBalanceBreakdown[];
+}
+
+@Injectable()
+export class BalancesService {
+  constructor(
+    @Inject(forwardRef(() => GroupsService))
+    private readonly groupsService: GroupsService,
+    private readonly expensesService: ExpensesService,
+    private readonly settlementsService: SettlementsService,
+    private readonly exchangeRates: ExchangeRatesService,
+  ) {}
+
+  async getGroupBalances(groupId: string, userId: string): Promise<GroupBalancesResponse> {
+    const group = await this.groupsService.findOne(groupId, userId);
+    const [expenses, settlements] = await Promise.all([
+      this.expensesService.findByGroupIds([groupId]),
+      this.settlementsService.findByGroupIds([groupId]),
+    ]);
+
+    return {
+      groupId,
+      currency: group.currency,
+      simplifyDebts: group.simplifyDebts,
+      ...this.summarise(group, userId, await this.inGroupCurrency(group, expenses, settlements, this.rateLookup())),
+      byCurrency: this.summarise(group, userId, [expenses, settlements.map(settlementInDebtCurrency)]),
+    };
+  }
+
+  async getUserBalances(userId: string): Promise<UserBalancesResponse> {
+    const { counterparts, totals } = await this.counterparts(userId);
+    return {
+      balances: counterparts
+        .filter((counterpart) => counterpart.minor !== 0)
+        .map(({ minor, ...counterpart }) => ({ ...counterpart, amount: fromMinor(minor, counterpart.currency) })),
+      totals: [...totals.entries()].map(([currency, minor]) => ({ currency, amount: fromMinor(minor, currency) })),
+    };
+  }
+
+  /**
+   * Everyone the user owes or is owed by in any group. Unlike the overview,
+   * debts in different groups are not netted against each other, since each
+   * one can only be settled in its own group.
+   */
+  async getOpenBalances(userId: string, manager?: EntityManager): Promise<CounterpartBalance[]> {
+    const { counterparts } = await this.counterparts(userId, manager);
+    return counterparts.map(({ minor, ...counterpart }) => ({
+      ...counterpart,
+      amount: fromMinor(minor, counterpart.currency),
+    }));
+  }
+
+  /**
+   * Throws a 409 while `memberId` still owes or is owed money in the group,
+   * so their debts are not left behind when they leave it.
+   */
+  async assertSettledIn(groupId: string, memberId: string, userId: string): Promise<void> {
+    const group = await this.groupsService.findOne(groupId, userId);
+    const [expenses, settlements] = await Promise.all([
+      this.expensesService.findByGroupIds([groupId]),
+      this.settlementsService.findByGroupIds([groupId]),
+    ]);
+    const debts = await this.debtsFor(group, expenses, settlements, this.rateLookup());
+    const balances = this.relativeTo(memberId, debts).map(
+      ({ id, currency, minor }) => ({ id, amount: fromMinor(minor, currency), currency }),
+    );
+    if (balances.length > 0) {
+      throw new AppError(
+        memberId === userId
+          ? 'Settle up in this group before leaving it'
+          : 'This member has to settle up before they can be removed',
+        409,
+        ErrorCode.CONFLICT_ERROR,
+        { balances },
+      );
+    }
+  }
+
+  /** The user's debts with each counterpart per currency, broken down by group, and their totals. */
+  private async counterparts(
+    userId: string,
+    manager?: EntityManager,
+  ): Promise<{ counterparts: CounterpartMinor[]; totals: Map<string, number> }> {
+    const groups = await this.groupsService.findAllForUser(userId, true, manager);
+    const groupIds = groups.map((group) => group.id);
+    const [expenses, settlements] = await Promise.all([
+      this.expensesService.findByGroupIds(groupIds, manager),
+      this.settlementsService.findByGroupIds(groupIds, manager),
+    ]);
+
+    const counterparts = new Map<string, CounterpartMinor>();
+    const totals = new Map<string, number>();
+    const rates = this.rateLookup();
+
+    // Debts never cross group boundaries, so each group is settled on its own
+    // and only summed up for the overview.
+    for (const group of groups) {
+      const groupId = group.id;
+      const debts = await this.debtsFor(
+        group,
+        expenses.filter((expense) => expense.groupId === groupId),
+        settlements.filter((settlement) => settlement.groupId === groupId),
+        rates,
+      );
+      for (const { id, currency, minor } of this.relativeTo(userId, debts)) {
+        const key = `${currency}|${id}`;
+        const counterpart = counterparts.get(key) ?? { id, currency, minor: 0, groups: [] };
+        counterpart.minor += minor;
+        counterpart.groups.push({ groupId, amount: fromMinor(minor, currency) });
+        counterparts.set(key, counterpart);
+        totals.set(currency, (totals.get(currency) ?? 0) + minor);
+      }
+    }
+
+    return { counterparts: [...counterparts.values()], totals };
+  }
+
+  private async debtsFor(
+    group: Group,
+    expenses: LedgerExpense[],
+    settlements: LedgerSettlement[],
+    rates: RateLookup,
+  ): Promise<Debt[]> {
+    return this.debtsIn(group, await this.inGroupCurrency(group, expenses, settlements, rates));
+  }
+
+  private debtsIn(group: Group, ledger: [LedgerExpense[], LedgerSettlement[]]): Debt[] {
+    if (group.simplifyDebts) {
+      return simplifyDebts(netPositions(...ledger));
+    }
+    return pairwiseDebts(...ledger);
+  }
+
+  /** Every member's position, the user's balances with the others and the transfers that settle a ledger. */
+  private summarise(
+    group: Group,
+    userId: string,
+    ledger: [LedgerExpense[], LedgerSettlement[]],
+  ): CurrencyBalances {
+    const memberIds = group.members.map((member) => member.userId);
+    const debts = this.debtsIn(group, ledger);
+    const members = this.withSettledMembers(
+      memberIds,
+      group.currency,
+      netPositions(...ledger).map((position) => ({
+        id: position.userId,
+        amount: fromMinor(position.minor, position.currency),
+        currency: position.currency,
+      })),
+    );
+
+    const balances = this.withSettledMembers(
+      memberIds.filter((memberId) => memberId !== userId),
+      group.currency,
+      this.relativeTo(userId, debts).map(({ id, currency, minor }) => ({
+        id,
+        amount: fromMinor(minor, currency),
+        currency,
+      })),
+    );
+
+    const transfers = debts.map((debt) => ({
+      from: debt.from,
+      to: debt.to,
+      amount: fromMinor(debt.minor, debt.currency),
+      currency: debt.currency,
+    }));
+
+    return { members, balances, transfers };
+  }
+
+  /**
+   * Expenses and settlements in other currencies converted into the group
+   * currency at the rate locked on their date, so later rate moves never
+   * change what anyone owes. Settlements count as the debt they were meant to
+   * clear, as they do per currency. Throws {@link RateUnavailableError} rather
+   * than adding up amounts in different currencies.
+   */
+  private async inGroupCurrency(
+    group: Group,
+    expenses: LedgerExpense[],
+    settlements: LedgerSettlement[],
+    rates: RateLookup,
+  ): Promise<[LedgerExpense[], LedgerSettlement[]]> {
+    return Promise.all([
+      Promise.all(
+        expenses.map(async (expense) =>
+          expenseIn(group.currency, expense, await this.rateFor(group.currency, expense, rates)),
+        ),
+      ),
+      Promise.all(
+        settlements.map(settlementInDebtCurrency).map(async (settlement) =>
+          settlementIn(group.currency, settlement, await this.rateFor(group.currency, settlement, rates)),
+        ),
+      ),
+    ]);
+  }
+
+  /**
+   * Units of `currency` one unit of an entry's currency is worth: the rate
+   * locked with it, or, when it was locked against an earlier group currency,
+   * that rate carried on into this one at the rate on the entry's date. Entries
+   * without a lock are converted at the rate on their date.
+   */
+  private async rateFor(
+    currency: string,
+    entry: LedgerExpense | LedgerSettlement,
+    rates: RateLookup,
+  ): Promise<number> {
+    if (entry.currency === currency) {
+      return 1;
+    }
+    if (entry.exchangeRate && entry.rateCurrency) {
+      return entry.rateCurrency === currency
+        ? entry.exchangeRate
+        : entry.exchangeRate * (await rates(entry.rateCurrency, currency, entry.date));
+    }
+    return rates(entry.currency, currency, entry.date);
+  }
+
+  /** Looks rates up once per pair and date for the length of one calculation. */
+  private rateLookup(): RateLookup {
+    const looked = new Map<string, Promise<number>>();
+    return (from, to, date) => {
+      const key = `${from} ${to} ${date}`;
+      let rate = looked.get(key);
+      if (!rate) {
+        rate = this.exchangeRates.rateOn(from, to, date).then((found) => {
+          if (found === null) {
+            throw new RateUnavailableError(
+              from,
+              to,
+              date,
+              `No ${from} to ${to} exchange rate is available for ${date}, so balances cannot be shown in ${to}`,
+            );
+          }
+          return found;
+        });
+        looked.set(key, rate);
+      }
+      return rate;
+    };
+  }
+
+  /** Debts involving the user, signed so that a positive amount is owed to them. */
+  private relativeTo(userId: string, debts: Debt[]): { id: string; currency: string; minor: number }[] {
+    return debts
+      .filter((debt) => debt.from === userId || debt.to === userId)
+      .map((debt) =>
+        debt.to === userId
+          ? { id: debt.from, currency: debt.currency, minor: debt.minor }
+          : { id: debt.to, currency: debt.currency, minor: -debt.minor },
+      );
+  }
+
+  /** Adds a zero entry in the group currency for members without any open balance. */
+  private withSettledMembers(memberIds: string[], currency: string, balances: MemberBalance[]): MemberBalance[] {
+    const open = balances.filter((balance) => balance.amount !== 0);
+    const settled = memberIds
+      .filter((memberId) => !open.some((balance) => balance.id === memberId))
+      .map((memberId) => ({ id: memberId, amount: 0, currency }));
+    return [...open, ...settled];
+  }
+}
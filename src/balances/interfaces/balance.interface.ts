@@ -0,0 +1,54 @@
+/**
+ * Amounts are in major units of `currency`. For a member's own position a
+ * positive amount means the group owes them; relative to the current user a
+ * positive amount means that member owes the current user.
+ */
+export interface MemberBalance {
+  id: string;
+  amount: number;
+  currency: string;
+}
+
+export interface GroupBalanceBreakdown {
+  groupId: string;
+  amount: number;
+}
+
+export interface CounterpartBalance extends MemberBalance {
+  groups: GroupBalanceBreakdown[];
+}
+
+/** A payment that moves `amount` from one member to another to settle up. */
+export interface Transfer {
+  from: string;
+  to: string;
+  amount: number;
+  currency: string;
+}
+
+export interface CurrencyBalances {
+  /** Each member's net position in the group. */
+  members: MemberBalance[];
+  /** What each other member owes the current user, or is owed by them. */
+  balances: MemberBalance[];
+  /** Every transfer needed to settle the group, simplified when the group asks for it. */
+  transfers: Transfer[];
+}
+
+/**
+ * The top-level balances are consolidated into the group currency at the
+ * rates locked on each date. `byCurrency` keeps every currency apart, for
+ * members who settle each one in the currency it was spent in.
+ */
+export interface GroupBalancesResponse extends CurrencyBalances {
+  groupId: string;
+  currency: string;
+  simplifyDebts: boolean;
+  byCurrency: CurrencyBalances;
+}
+
+export interface UserBalancesResponse {
+  balances: CounterpartBalance[];
+  /** The current user's net position per currency across all groups. */
+  totals: { currency: string; amount: number }[];
+}
@@ -0,0 +1,17 @@
+import { CategoryOption } from './interfaces/category-option.interface';
+
+/** Categories every group has. Their ids are stored on expenses, so they must not change. */
+export const BUILT_IN_CATEGORIES: readonly CategoryOption[] = [
+  { id: 'food', groupId: null, name: 'food & drink', icon: 'utensils', color: '#f97316' },
+  { id: 'groceries', groupId: null, name: 'groceries', icon: 'shopping-cart', color: '#84cc16' },
+  { id: 'rent', groupId: null, name: 'rent', icon: 'home', color: '#6366f1' },
+  { id: 'utilities', groupId: null, name: 'utilities', icon: 'lightbulb', color: '#eab308' },
+  { id: 'transport', groupId: null, name: 'transport', icon: 'car', color: '#0ea5e9' },
+  { id: 'travel', groupId: null, name: 'travel', icon: 'plane', color: '#14b8a6' },
+  { id: 'entertainment', groupId: null, name: 'entertainment', icon: 'film', color: '#ec4899' },
+  { id: 'shopping', groupId: null, name: 'shopping', icon: 'shopping-bag', color: '#a855f7' },
+  { id: 'health', groupId: null, name: 'health', icon: 'heart-pulse', color: '#ef4444' },
+  { id: 'other', groupId: null, name: 'other', icon: 'tag', color: '#64748b' },
+];
+
+export const isBuiltInCategory = (id: string) => BUILT_IN_CATEGORIES.some((category) => category.id === id);
@@ -0,0 +1,60 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { CategoriesService } from './categories.service';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+
+@Controller()
+export class CategoriesController {
+  constructor(private readonly categoriesService: CategoriesService) {}
+
+  @Get('categories')
+  findMine(@CurrentUser() user: AuthenticatedUser) {
+    return this.categoriesService.findAllForUser(user.id);
+  }
+
+  @Get('groups/:groupId/categories')
+  findAll(@CurrentUser() user: AuthenticatedUser, @Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.categoriesService.findAll(groupId, user.id);
+  }
+
+  @Post('groups/:groupId/categories')
+  create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateCategoryDto,
+  ) {
+    return this.categoriesService.create(groupId, user.id, dto);
+  }
+
+  @Patch('groups/:groupId/categories/:id')
+  update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateCategoryDto,
+  ) {
+    return this.categoriesService.update(groupId, id, user.id, dto);
+  }
+
+  @Delete('groups/:groupId/categories/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.categoriesService.remove(groupId, id, user.id);
+  }
+}
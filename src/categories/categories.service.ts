@@ -0,0 +1,106 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { isUUID } from 'class-validator';
+import { In, Repository } from 'typeorm';
+import { Expense } from '../expenses/entities/expense.entity';
+import { CONTRIBUTOR_ROLES } from '../groups/entities/group-member.entity';
+import { GroupsService } from '../groups/groups.service';
+import { RecurringExpense } from '../recurring-expenses/entities/recurring-expense.entity';
+import { BUILT_IN_CATEGORIES, isBuiltInCategory } from './built-in-categories';
+import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-category.dto';
+import { Category } from './entities/category.entity';
+import { CategoryOption } from './interfaces/category-option.interface';
+
+@Injectable()
+export class CategoriesService {
+  constructor(
+    @InjectRepository(Category)
+    private readonly categories: Repository<Category>,
+    private readonly groupsService: GroupsService,
+  ) {}
+
+  /** The built-in categories followed by the group's own. */
+  async findAll(groupId: string, userId: string): Promise<CategoryOption[]> {
+    await this.groupsService.assertMember(groupId, userId);
+    const own = await this.categories.find({ where: { groupId }, order: { name: 'ASC' } });
+    return [...BUILT_IN_CATEGORIES, ...own];
+  }
+
+  /** The built-in categories and those of every group the user is in, for lists that span groups. */
+  async findAllForUser(userId: string): Promise<CategoryOption[]> {
+    const groups = await this.groupsService.findAllForUser(userId, true);
+    const own = groups.length
+      ? await this.categories.find({
+          where: { groupId: In(groups.map((group) => group.id)) },
+          order: { name: 'ASC' },
+        })
+      : [];
+    return [...BUILT_IN_CATEGORIES, ...own];
+  }
+
+  async create(groupId: string, userId: string, dto: CreateCategoryDto): Promise<Category> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const name = dto.name.trim();
+    await this.assertNameFree(groupId, name);
+    return this.categories.save(
+      this.categories.create({ groupId, name, icon: dto.icon, color: dto.color.toLowerCase(), createdBy: userId }),
+    );
+  }
+
+  async update(groupId: string, id: string, userId: string, dto: UpdateCategoryDto): Promise<Category> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const category = await this.findOwn(groupId, id);
+    if (dto.name !== undefined) {
+      category.name = dto.name.trim();
+      await this.assertNameFree(groupId, category.name, id);
+    }
+    if (dto.icon !== undefined) {
+      category.icon = dto.icon;
+    }
+    if (dto.color !== undefined) {
+      category.color = dto.color.toLowerCase();
+    }
+    return this.categories.save(category);
+  }
+
+  /** Deletes one of the group's own categories. Expenses filed under it become uncategorized. */
+  async remove(groupId: string, id: string, userId: string): Promise<void> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const category = await this.findOwn(groupId, id);
+    await this.categories.manager.transaction(async (manager) => {
+      await manager.update(Expense, { groupId, category: id }, { category: null });
+      await manager.update(RecurringExpense, { groupId, category: id }, { category: null });
+      await manager.remove(category);
+    });
+  }
+
+  /** Throws unless `category` is a built-in category or one of the group's own. */
+  async assertUsable(groupId: string, category: string): Promise<void> {
+    if (isBuiltInCategory(category)) {
+      return;
+    }
+    if (!isUUID(category) || !(await this.categories.exists({ where: { id: category, groupId } }))) {
+      throw new BadRequestException(`Category ${category} does not exist in this group`);
+    }
+  }
+
+  private async findOwn(groupId: string, id: string): Promise<Category> {
+    const category = await this.categories.findOne({ where: { id, groupId } });
+    if (!category) {
+      throw new NotFoundException(`Category ${id} not found`);
+    }
+    return category;
+  }
+
+  /** Names are unique per group regardless of case, built-in names included. */
+  private async assertNameFree(groupId: string, name: string, exceptId?: string): Promise<void> {
+    const own = await this.categories.find({ where: { groupId } });
+    const taken = [...BUILT_IN_CATEGORIES, ...own].some(
+      (category) => category.id !== exceptId && category.name.toLowerCase() === name.toLowerCase(),
+    );
+    if (taken) {
+      throw new ConflictException(`There is already a category called ${name}`);
+    }
+  }
+}
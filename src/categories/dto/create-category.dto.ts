@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateCategoryDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  name: string;
+
+  /** The name of a lucide icon in kebab case, such as `paw-print`. */
+  @Matches(/^[a-z0-9]+(-[a-z0-9]+)*$/, { message: 'icon must be an icon name such as paw-print' })
+  @MaxLength(50)
+  icon: string;
+
+  @Matches(/^#[0-9a-f]{6}$/i, { message: 'color must be a hex colour such as #f97316' })
+  color: string;
+}
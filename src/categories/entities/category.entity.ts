@@ -0,0 +1,44 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Group } from '../../groups/entities/group.entity';
+
+/** A category a group added on top of the built-in ones. */
+@Entity('categories')
+@Index(['groupId'])
+export class Category {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  groupId: string;
+
+  @ManyToOne(() => Group, { onDelete: 'CASCADE' })
+  group: Group;
+
+  @Column({ length: 50 })
+  name: string;
+
+  /** The name of a lucide icon, such as `utensils`. */
+  @Column({ length: 50 })
+  icon: string;
+
+  /** A hex colour such as `#f97316`. */
+  @Column({ length: 7 })
+  color: string;
+
+  @Column('uuid')
+  createdBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,12 @@
+/**
+ * A category an expense can be filed under. Built-in categories have a slug
+ * such as `food` for `id` and no `groupId`; a group's own categories have
+ * their uuid.
+ */
+export interface CategoryOption {
+  id: string;
+  groupId: string | null;
+  name: string;
+  icon: string;
+  color: string;
+}
@@ -0,0 +1,5 @@
+/** A date as YYYY-MM-DD in UTC, the form expense dates are stored in. */
+export const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Today as a YYYY-MM-DD date in UTC. */
+export const today = () => formatDate(new Date());
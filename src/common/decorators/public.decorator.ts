@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const IS_PUBLIC_KEY = 'isPublic';
+
+/** Skips the global JWT guard for routes that must work without a session. */
+export const Public = () => SetMetadata(IS_PUBLIC_KEY, true);
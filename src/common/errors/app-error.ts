@@ -0,0 +1,19 @@
+import { HttpException } from '@nestjs/common';
+import { ErrorCode } from './error-code.enum';
+
+/**
+ * An error with a stable, client-facing code. Extends `HttpException` so Nest
+ * responds with `statusCode` rather than a generic 500.
+ */
+export class AppError extends HttpException {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public code: ErrorCode,
+    public details?: any,
+    public retryable: boolean = false,
+  ) {
+    super({ statusCode, code, message, details, retryable }, statusCode);
+    this.name = 'AppError';
+  }
+}
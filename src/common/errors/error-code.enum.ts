@@ -0,0 +1,13 @@
+export enum ErrorCode {
+  VALIDATION_ERROR = 'VALIDATION_ERROR',
+  AUTHENTICATION_ERROR = 'AUTHENTICATION_ERROR',
+  AUTHORIZATION_ERROR = 'AUTHORIZATION_ERROR',
+  NOT_FOUND_ERROR = 'NOT_FOUND_ERROR',
+  CONFLICT_ERROR = 'CONFLICT_ERROR',
+  INTERNAL_ERROR = 'INTERNAL_ERROR',
+  RATE_LIMIT_ERROR = 'RATE_LIMIT_ERROR',
+  DATABASE_ERROR = 'DATABASE_ERROR',
+  NETWORK_ERROR = 'NETWORK_ERROR',
+  RATE_UNAVAILABLE_ERROR = 'RATE_UNAVAILABLE_ERROR',
+  RATE_PROVIDER_ERROR = 'RATE_PROVIDER_ERROR',
+}
@@ -0,0 +1,15 @@
+import { ErrorCode } from './error-code.enum';
+
+export interface ErrorResponse {
+  error: {
+    code: ErrorCode;
+    message: string;
+    details?: any;
+    retryable: boolean;
+  };
+}
+
+/** Validation failures keyed by property path, e.g. `splits.0.amount`. */
+export interface FieldErrors {
+  fields: Record<string, string[]>;
+}
@@ -0,0 +1,49 @@
+import { ValidationError } from 'class-validator';
+import { ErrorCode } from './error-code.enum';
+import { validationExceptionFactory } from './validation-exception.factory';
+
+const fieldError = (
+  property: string,
+  constraints?: Record<string, string>,
+  children: ValidationError[] = [],
+): ValidationError => Object.assign(new ValidationError(), { property, constraints, children });
+
+describe('validationExceptionFactory', () => {
+  it('returns a 400 validation error with messages per field', () => {
+    const error = validationExceptionFactory([
+      fieldError('email', { isEmail: 'email must be an email' }),
+      fieldError('password', {
+        isString: 'password must be a string',
+        minLength: 'password must be longer than or equal to 8 characters',
+      }),
+    ]);
+
+    expect(error.statusCode).toBe(400);
+    expect(error.code).toBe(ErrorCode.VALIDATION_ERROR);
+    expect(error.message).toBe('email must be an email');
+    expect(error.details).toEqual({
+      fields: {
+        email: ['email must be an email'],
+        password: ['password must be a string', 'password must be longer than or equal to 8 characters'],
+      },
+    });
+  });
+
+  it('names nested fields by their path', () => {
+    const error = validationExceptionFactory([
+      fieldError('splits', undefined, [
+        fieldError('1', undefined, [fieldError('amount', { isNumber: 'amount must be a number' })]),
+      ]),
+    ]);
+
+    expect(error.message).toBe('amount must be a number');
+    expect(error.details).toEqual({ fields: { 'splits.1.amount': ['amount must be a number'] } });
+  });
+
+  it('falls back to a generic message when no constraint failed', () => {
+    const error = validationExceptionFactory([fieldError('splits')]);
+
+    expect(error.message).toBe('Validation failed');
+    expect(error.details).toEqual({ fields: {} });
+  });
+});
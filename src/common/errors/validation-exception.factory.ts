@@ -0,0 +1,25 @@
+import { ValidationError } from 'class-validator';
+import { AppError } from './app-error';
+import { ErrorCode } from './error-code.enum';
+import { FieldErrors } from './error-response.interface';
+
+/** `ValidationPipe` exception factory that keeps messages attached to their fields. */
+export function validationExceptionFactory(errors: ValidationError[]): AppError {
+  const details: FieldErrors = { fields: {} };
+  collectFieldErrors(errors, '', details.fields);
+
+  const [firstMessage] = Object.values(details.fields).flat();
+  return new AppError(firstMessage ?? 'Validation failed', 400, ErrorCode.VALIDATION_ERROR, details);
+}
+
+function collectFieldErrors(errors: ValidationError[], prefix: string, fields: Record<string, string[]>) {
+  for (const error of errors) {
+    const path = prefix ? `${prefix}.${error.property}` : error.property;
+    if (error.constraints) {
+      fields[path] = Object.values(error.constraints);
+    }
+    if (error.children?.length) {
+      collectFieldErrors(error.children, path, fields);
+    }
+  }
+}
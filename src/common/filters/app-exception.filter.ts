@@ -0,0 +1,82 @@
+import { ArgumentsHost, Catch, ExceptionFilter, HttpException, HttpStatus, Logger } from '@nestjs/common';
+import { Response } from 'express';
+import { AppError } from '../errors/app-error';
+import { ErrorCode } from '../errors/error-code.enum';
+import { ErrorResponse } from '../errors/error-response.interface';
+
+const STATUS_CODES: Record<number, ErrorCode> = {
+  [HttpStatus.BAD_REQUEST]: ErrorCode.VALIDATION_ERROR,
+  [HttpStatus.UNAUTHORIZED]: ErrorCode.AUTHENTICATION_ERROR,
+  [HttpStatus.FORBIDDEN]: ErrorCode.AUTHORIZATION_ERROR,
+  [HttpStatus.NOT_FOUND]: ErrorCode.NOT_FOUND_ERROR,
+  [HttpStatus.CONFLICT]: ErrorCode.CONFLICT_ERROR,
+  [HttpStatus.TOO_MANY_REQUESTS]: ErrorCode.RATE_LIMIT_ERROR,
+};
+
+/**
+ * Renders every error as an `ErrorResponse`. `AppError`s pass through as-is,
+ * Nest's built-in exceptions are mapped by status, and anything else becomes
+ * a retryable 500 without leaking internals.
+ */
+@Catch()
+export class AppExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(AppExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const response = host.switchToHttp().getResponse<Response>();
+    const { status, body } = this.toErrorResponse(exception);
+
+    const retryAfterSeconds = body.error.details?.retryAfterSeconds;
+    if (status === HttpStatus.TOO_MANY_REQUESTS && retryAfterSeconds) {
+      response.setHeader('Retry-After', String(retryAfterSeconds));
+    }
+
+    response.status(status).json(body);
+  }
+
+  private toErrorResponse(exception: unknown): { status: number; body: ErrorResponse } {
+    if (exception instanceof AppError) {
+      const { code, message, details, retryable } = exception;
+      return { status: exception.statusCode, body: { error: { code, message, details, retryable } } };
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      if (status >= 500) {
+        this.logger.error(exception.message, exception.stack);
+      }
+      return {
+        status,
+        body: {
+          error: {
+            code: STATUS_CODES[status] ?? (status >= 500 ? ErrorCode.INTERNAL_ERROR : ErrorCode.VALIDATION_ERROR),
+            message: httpExceptionMessage(exception),
+            retryable: status >= 500,
+          },
+        },
+      };
+    }
+
+    const error = exception instanceof Error ? exception : new Error(String(exception));
+    this.logger.error(error.message, error.stack);
+    return {
+      status: HttpStatus.INTERNAL_SERVER_ERROR,
+      body: {
+        error: {
+          code: ErrorCode.INTERNAL_ERROR,
+          message: 'An unexpected error occurred',
+          retryable: true,
+        },
+      },
+    };
+  }
+}
+
+function httpExceptionMessage(exception: HttpException): string {
+  const response = exception.getResponse();
+  if (typeof response === 'string') {
+    return response;
+  }
+  const message = (response as { message?: string | string[] }).message;
+  return (Array.isArray(message) ? message[0] : message) ?? exception.message;
+}
@@ -0,0 +1,66 @@
+import { allocate, decimalDigits, fromMinor, isExact, toMinor, validateAmounts } from './money';
+
+describe('money', () => {
+  describe('toMinor', () => {
+    it('uses the minor unit of each currency', () => {
+      expect(toMinor(12.34, 'USD')).toBe(1234);
+      expect(toMinor(1500, 'JPY')).toBe(1500);
+      expect(toMinor(1.234, 'KWD')).toBe(1234);
+      expect(toMinor(1.2345, 'CLF')).toBe(12345);
+    });
+
+    it('rounds away floating point noise', () => {
+      expect(toMinor(0.1 + 0.2, 'USD')).toBe(30);
+      expect(toMinor(19.99, 'EUR')).toBe(1999);
+    });
+
+    it('treats currency codes case-insensitively', () => {
+      expect(decimalDigits('kwd')).toBe(3);
+      expect(decimalDigits('XYZ')).toBe(2);
+    });
+
+    it('round-trips through fromMinor', () => {
+      expect(fromMinor(toMinor(10.05, 'USD'), 'USD')).toBe(10.05);
+      expect(fromMinor(toMinor(3.334, 'KWD'), 'KWD')).toBe(3.334);
+    });
+  });
+
+  describe('isExact and validateAmounts', () => {
+    it('accepts amounts with at most the currency decimals', () => {
+      expect(isExact(1.234, 'KWD')).toBe(true);
+      expect(isExact(1.234, 'USD')).toBe(false);
+      expect(validateAmounts('KWD', [1.234, 10])).toBeNull();
+    });
+
+    it('explains what the currency allows', () => {
+      expect(validateAmounts('JPY', [10.5])).toBe('JPY amounts must be whole numbers');
+      expect(validateAmounts('USD', [1.234])).toBe('USD amounts can have at most 2 decimal places');
+    });
+  });
+
+  describe('allocate', () => {
+    it('always adds up to the total', () => {
+      const parts = allocate(1000, [1, 1, 1]);
+      expect(parts).toEqual([334, 333, 333]);
+      expect(parts.reduce((sum, part) => sum + part, 0)).toBe(1000);
+    });
+
+    it('divides currencies with three decimals in their own minor unit', () => {
+      expect(allocate(toMinor(10, 'KWD'), [1, 1, 1])).toEqual([3334, 3333, 3333]);
+    });
+
+    it('gives leftover units to the largest remainders, ties to the earlier entry', () => {
+      expect(allocate(100, [1, 2])).toEqual([33, 67]);
+      expect(allocate(5, [1, 1, 1, 1])).toEqual([2, 1, 1, 1]);
+    });
+
+    it('keeps the sign of a negative total', () => {
+      expect(allocate(-1000, [1, 1, 1])).toEqual([-334, -333, -333]);
+    });
+
+    it('gives nothing when there is no weight', () => {
+      expect(allocate(1000, [0, 0])).toEqual([0, 0]);
+      expect(allocate(1000, [])).toEqual([]);
+    });
+  });
+});
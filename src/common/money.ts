@@ -0,0 +1,104 @@
+/**
+ * Money is handled in integer minor units (cents, or whole yen for JPY) so
+ * that splitting and summing amounts never drifts by a fraction of a unit.
+ */
+
+/** ISO 4217 currencies whose minor unit is not a hundredth. Every other currency has two decimals. */
+const DECIMAL_DIGITS: Record<string, number> = {
+  BIF: 0,
+  CLP: 0,
+  DJF: 0,
+  GNF: 0,
+  ISK: 0,
+  JPY: 0,
+  KMF: 0,
+  KRW: 0,
+  PYG: 0,
+  RWF: 0,
+  UGX: 0,
+  UYI: 0,
+  VND: 0,
+  VUV: 0,
+  XAF: 0,
+  XOF: 0,
+  XPF: 0,
+  BHD: 3,
+  IQD: 3,
+  JOD: 3,
+  KWD: 3,
+  LYD: 3,
+  OMR: 3,
+  TND: 3,
+  CLF: 4,
+  UYW: 4,
+};
+
+/**
+ * The most decimals any currency uses. Money columns keep this many and DTOs
+ * accept up to this many; each amount is then checked against its own currency.
+ */
+export const MAX_DECIMAL_DIGITS = Math.max(2, ...Object.values(DECIMAL_DIGITS));
+
+export function decimalDigits(currency: string): number {
+  return DECIMAL_DIGITS[currency.toUpperCase()] ?? 2;
+}
+
+export function toMinor(amount: number, currency: string): number {
+  return Math.round(amount * 10 ** decimalDigits(currency));
+}
+
+export function fromMinor(minor: number, currency: string): number {
+  return minor / 10 ** decimalDigits(currency);
+}
+
+/** Whether an amount has no more decimals than the currency uses. */
+export function isExact(amount: number, currency: string): boolean {
+  return fromMinor(toMinor(amount, currency), currency) === amount;
+}
+
+/**
+ * Checks that amounts fit the currency, such as whole yen for JPY.
+ * Returns a user-facing message, or null when they all do.
+ */
+export function validateAmounts(currency: string, amounts: number[]): string | null {
+  if (amounts.every((amount) => isExact(amount, currency))) {
+    return null;
+  }
+  const digits = decimalDigits(currency);
+  return digits === 0
+    ? `${currency} amounts must be whole numbers`
+    : `${currency} amounts can have at most ${digits} decimal places`;
+}
+
+/** An amount with exactly as many decimals as the currency uses, for messages. */
+export function formatMoney(amount: number, currency: string): string {
+  return amount.toFixed(decimalDigits(currency));
+}
+
+export const sumMinor = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Divides a total in minor units in proportion to integer weights using the
+ * largest remainder method: everyone gets the rounded-down part of their
+ * portion, and the units left over go one each to the largest fractional
+ * remainders, ties going to the earlier entry. The result always adds up to
+ * the total and is the same for the same input.
+ */
+export function allocate(totalMinor: number, weights: number[]): number[] {
+  const totalWeight = sumMinor(weights);
+  if (weights.length === 0 || totalWeight <= 0) {
+    return weights.map(() => 0);
+  }
+  if (totalMinor < 0) {
+    return allocate(-totalMinor, weights).map((minor) => -minor);
+  }
+
+  const portions = weights.map((weight) => Math.floor((totalMinor * weight) / totalWeight));
+  const remainders = weights.map((weight, index) => ({ index, remainder: (totalMinor * weight) % totalWeight }));
+  const left = totalMinor - sumMinor(portions);
+  remainders
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .slice(0, left)
+    .forEach(({ index }) => (portions[index] += 1));
+  return portions;
+}
@@ -0,0 +1,46 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { RateLimitEntry, RateLimitStore } from './rate-limit.store';
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class InMemoryRateLimitStore extends RateLimitStore implements OnModuleDestroy {
+  private readonly entries = new Map<string, RateLimitEntry>();
+  private readonly sweeper = setInterval(() => this.sweep(), SWEEP_INTERVAL_MS).unref();
+
+  async increment(key: string, windowMs: number): Promise<RateLimitEntry> {
+    const now = Date.now();
+    const current = this.entries.get(key);
+    const entry =
+      current && current.resetAt > now
+        ? { count: current.count + 1, resetAt: current.resetAt }
+        : { count: 1, resetAt: now + windowMs };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async get(key: string): Promise<RateLimitEntry | null> {
+    const entry = this.entries.get(key);
+    if (!entry || entry.resetAt <= Date.now()) {
+      return null;
+    }
+    return entry;
+  }
+
+  async reset(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweeper);
+  }
+
+  private sweep() {
+    const now = Date.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.resetAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { securityConfig } from '../../config/security.config';
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { RateLimitStore } from './rate-limit.store';
+import { RateLimiter } from './rate-limiter';
+
+@Module({
+  imports: [ConfigModule.forFeature(securityConfig)],
+  providers: [{ provide: RateLimitStore, useClass: InMemoryRateLimitStore }, RateLimiter],
+  exports: [RateLimiter],
+})
+export class RateLimitModule {}
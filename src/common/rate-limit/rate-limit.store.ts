@@ -0,0 +1,18 @@
+export interface RateLimitEntry {
+  count: number;
+  /** Epoch milliseconds at which the counter expires. */
+  resetAt: number;
+}
+
+/**
+ * Backing storage for {@link RateLimiter}. The in-memory store only works for
+ * a single instance; provide a shared implementation (e.g. Redis) to scale out.
+ */
+export abstract class RateLimitStore {
+  /** Increments a counter, starting a new window of `windowMs` if none is active. */
+  abstract increment(key: string, windowMs: number): Promise<RateLimitEntry>;
+
+  abstract get(key: string): Promise<RateLimitEntry | null>;
+
+  abstract reset(key: string): Promise<void>;
+}
@@ -0,0 +1,70 @@
+import { InMemoryRateLimitStore } from './in-memory-rate-limit.store';
+import { RateLimiter } from './rate-limiter';
+
+const config = {
+  rateLimit: { windowMs: 60 * 1000, max: 3 },
+  lockout: { threshold: 2, durationMs: 5 * 60 * 1000 },
+};
+
+describe('RateLimiter', () => {
+  let store: InMemoryRateLimitStore;
+  let limiter: RateLimiter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    store = new InMemoryRateLimitStore();
+    limiter = new RateLimiter(store, config);
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    jest.useRealTimers();
+  });
+
+  it('allows attempts up to the limit within a window', async () => {
+    for (let i = 0; i < config.rateLimit.max; i++) {
+      await expect(limiter.check(['ip:1'])).resolves.toEqual({ allowed: true, retryAfterMs: 0 });
+    }
+    jest.advanceTimersByTime(10 * 1000);
+    await expect(limiter.check(['ip:1'])).resolves.toEqual({ allowed: false, retryAfterMs: 50 * 1000 });
+  });
+
+  it('starts counting again once the window has passed', async () => {
+    for (let i = 0; i <= config.rateLimit.max; i++) {
+      await limiter.check(['ip:1']);
+    }
+    jest.advanceTimersByTime(config.rateLimit.windowMs);
+    await expect(limiter.check(['ip:1'])).resolves.toEqual({ allowed: true, retryAfterMs: 0 });
+  });
+
+  it('refuses an attempt when any of its keys is over the limit', async () => {
+    for (let i = 0; i < config.rateLimit.max; i++) {
+      await limiter.check(['email:a', 'ip:1']);
+    }
+    expect((await limiter.check(['email:a', 'ip:2'])).allowed).toBe(false);
+    expect((await limiter.check(['email:b', 'ip:2'])).allowed).toBe(true);
+  });
+
+  it('locks keys out after repeated failures', async () => {
+    await limiter.recordFailure(['email:a']);
+    await limiter.recordFailure(['email:a']);
+    await expect(limiter.check(['email:a'])).resolves.toEqual({
+      allowed: false,
+      retryAfterMs: config.lockout.durationMs,
+    });
+
+    jest.advanceTimersByTime(config.lockout.durationMs);
+    expect((await limiter.check(['email:a'])).allowed).toBe(true);
+  });
+
+  it('forgets attempts and failures on reset', async () => {
+    for (let i = 0; i < config.rateLimit.max; i++) {
+      await limiter.check(['email:a']);
+    }
+    await limiter.recordFailure(['email:a']);
+    await limiter.reset(['email:a']);
+
+    await limiter.recordFailure(['email:a']);
+    expect((await limiter.check(['email:a'])).allowed).toBe(true);
+  });
+});
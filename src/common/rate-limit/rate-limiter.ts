@@ -0,0 +1,65 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigType } from '@nestjs/config';
+import { securityConfig } from '../../config/security.config';
+import { RateLimitStore } from './rate-limit.store';
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  /** How long until the caller may try again, when not allowed. */
+  retryAfterMs: number;
+}
+
+/**
+ * Counts attempts per key within a fixed window and locks keys out after
+ * repeated failures. Callers pass every key an attempt should count against,
+ * e.g. both the email and the client IP of a login.
+ */
+@Injectable()
+export class RateLimiter {
+  constructor(
+    private readonly store: RateLimitStore,
+    @Inject(securityConfig.KEY)
+    private readonly config: ConfigType<typeof securityConfig>,
+  ) {}
+
+  async check(keys: string[]): Promise<RateLimitDecision> {
+    const now = Date.now();
+    let retryAt = 0;
+
+    for (const key of keys) {
+      const lock = await this.store.get(`lock:${key}`);
+      if (lock) {
+        retryAt = Math.max(retryAt, lock.resetAt);
+      }
+    }
+    if (retryAt > 0) {
+      return { allowed: false, retryAfterMs: retryAt - now };
+    }
+
+    for (const key of keys) {
+      const attempts = await this.store.increment(`attempts:${key}`, this.config.rateLimit.windowMs);
+      if (attempts.count > this.config.rateLimit.max) {
+        retryAt = Math.max(retryAt, attempts.resetAt);
+      }
+    }
+    return retryAt > 0 ? { allowed: false, retryAfterMs: retryAt - now } : { allowed: true, retryAfterMs: 0 };
+  }
+
+  /** Records a failed attempt and locks out any key that reached the failure threshold. */
+  async recordFailure(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      const failures = await this.store.increment(`failures:${key}`, this.config.rateLimit.windowMs);
+      if (failures.count >= this.config.lockout.threshold) {
+        await this.store.increment(`lock:${key}`, this.config.lockout.durationMs);
+        await this.store.reset(`failures:${key}`);
+      }
+    }
+  }
+
+  async reset(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      await this.store.reset(`attempts:${key}`);
+      await this.store.reset(`failures:${key}`);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { ValueTransformer } from 'typeorm';
+
+/**
+ * Postgres returns `numeric` columns as strings to avoid precision loss;
+ * convert them back to numbers at the entity boundary.
+ */
+export const decimalTransformer: ValueTransformer = {
+  to: (value: number | null | undefined) => value,
+  from: (value: string | null) => (value === null ? null : Number.parseFloat(value)),
+};
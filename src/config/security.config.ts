@@ -0,0 +1,29 @@
+import { registerAs } from '@nestjs/config';
+
+export interface SecurityConfig {
+  rateLimit: {
+    /** Length of the window attempts are counted in. */
+    windowMs: number;
+    /** Attempts allowed per key within a window. */
+    max: number;
+  };
+  lockout: {
+    /** Failed logins within a window before a key is locked out. */
+    threshold: number;
+    durationMs: number;
+  };
+}
+
+export const securityConfig = registerAs(
+  'security',
+  (): SecurityConfig => ({
+    rateLimit: {
+      windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 15 * 60 * 1000),
+      max: Number(process.env.RATE_LIMIT_MAX ?? 20),
+    },
+    lockout: {
+      threshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD ?? 5),
+      durationMs: Number(process.env.LOGIN_LOCKOUT_MS ?? 15 * 60 * 1000),
+    },
+  }),
+);
@@ -0,0 +1,6 @@
+import { IsISO4217CurrencyCode } from 'class-validator';
+
+export class LatestRatesQueryDto {
+  @IsISO4217CurrencyCode()
+  base: string;
+}
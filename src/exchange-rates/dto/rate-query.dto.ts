@@ -0,0 +1,13 @@
+import { IsDateString, IsISO4217CurrencyCode } from 'class-validator';
+
+export class RateQueryDto {
+  @IsISO4217CurrencyCode()
+  from: string;
+
+  @IsISO4217CurrencyCode()
+  to: string;
+
+  /** The day the rate applies to, YYYY-MM-DD. */
+  @IsDateString()
+  date: string;
+}
@@ -0,0 +1,34 @@
+import { Column, CreateDateColumn, Entity, Index, PrimaryGeneratedColumn } from 'typeorm';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+
+/** A day's rate from the rate provider, stored so it is only fetched once. */
+@Entity('exchange_rates')
+@Index(['base', 'quote', 'date'], { unique: true })
+export class ExchangeRate {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 3 })
+  base: string;
+
+  @Column({ length: 3 })
+  quote: string;
+
+  @Column({ type: 'date' })
+  date: string;
+
+  /** Units of `quote` one unit of `base` bought on `date`. */
+  @Column({ type: 'numeric', precision: 18, scale: 8, transformer: decimalTransformer })
+  rate: number;
+
+  /** The {@link RateProvider} the rate came from. */
+  @Column({ length: 30, default: 'frankfurter' })
+  source: string;
+
+  /** When the rate was last fetched; a day's rates are fetched again until the day is over. */
+  @Column({ type: 'timestamptz', default: () => 'now()' })
+  fetchedAt: Date;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+}
@@ -0,0 +1,29 @@
+import { Controller, Get, Query } from '@nestjs/common';
+import { LatestRatesQueryDto } from './dto/latest-rates-query.dto';
+import { RateQueryDto } from './dto/rate-query.dto';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { RateUnavailableError } from './rate-unavailable.error';
+
+@Controller('exchange-rates')
+export class ExchangeRatesController {
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  /**
+   * The rate an expense on `date` would be locked at, so it can be shown
+   * before saving, with the path it was found by.
+   */
+  @Get()
+  async findOne(@Query() query: RateQueryDto) {
+    const quote = await this.exchangeRatesService.quote(query.from, query.to, query.date);
+    if (!quote) {
+      throw new RateUnavailableError(query.from, query.to, query.date);
+    }
+    return quote;
+  }
+
+  /** Today's rates from `base`, for converting amounts for display. */
+  @Get('latest')
+  latest(@Query() query: LatestRatesQueryDto) {
+    return this.exchangeRatesService.latest(query.base);
+  }
+}
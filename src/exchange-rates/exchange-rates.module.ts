@@ -0,0 +1,44 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { ExchangeRatesController } from './exchange-rates.controller';
+import { ExchangeRatesScheduler } from './exchange-rates.scheduler';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { ExchangerateHostRateProvider } from './providers/exchangerate-host.provider';
+import { FileRateProvider } from './providers/file.provider';
+import { FrankfurterRateProvider } from './providers/frankfurter.provider';
+import { RateProvider } from './rate-provider';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([ExchangeRate])],
+  controllers: [ExchangeRatesController],
+  providers: [
+    ExchangeRatesService,
+    ExchangeRatesScheduler,
+    {
+      provide: RateProvider,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): RateProvider => {
+        // Expenses and settlements wait on the provider to lock a rate, so it must not hang them
+        const timeoutMs = Number(config.get('EXCHANGE_RATES_TIMEOUT_MS', 5000));
+        switch (config.get('EXCHANGE_RATES_PROVIDER', 'frankfurter')) {
+          case 'frankfurter':
+            return new FrankfurterRateProvider(config.get('FRANKFURTER_URL', 'https://api.frankfurter.app'), timeoutMs);
+          case 'exchangerate-host':
+            return new ExchangerateHostRateProvider(
+              config.get('EXCHANGERATE_HOST_URL', 'https://api.exchangerate.host'),
+              config.getOrThrow<string>('EXCHANGERATE_HOST_ACCESS_KEY'),
+              timeoutMs,
+            );
+          case 'file':
+            return new FileRateProvider(config.get('EXCHANGE_RATES_FILE', 'data/exchange-rates.json'));
+          default:
+            throw new Error(`Unknown EXCHANGE_RATES_PROVIDER "${config.get('EXCHANGE_RATES_PROVIDER')}"`);
+        }
+      },
+    },
+  ],
+  exports: [ExchangeRatesService],
+})
+export class ExchangeRatesModule {}
@@ -0,0 +1,44 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { ExchangeRatesService } from './exchange-rates.service';
+
+const RUN_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+/**
+ * Fetches today's rates once when the app starts and then every six hours,
+ * so conversions are served from the store instead of waiting on the
+ * provider. Providers publish once a working day, so this catches each
+ * publication within a few hours.
+ */
+@Injectable()
+export class ExchangeRatesScheduler implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ExchangeRatesScheduler.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly exchangeRatesService: ExchangeRatesService) {}
+
+  onApplicationBootstrap() {
+    void this.run();
+    this.timer = setInterval(() => void this.run(), RUN_INTERVAL_MS).unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /** Does nothing while the previous run is still going. */
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const refreshed = await this.exchangeRatesService.refresh();
+      this.logger.log(`Refreshed exchange rates from ${refreshed} base currency(ies)`);
+    } catch (error) {
+      this.logger.error('Refreshing exchange rates failed', error instanceof Error ? error.stack : String(error));
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { ConfigService } from '@nestjs/config';
+import { Repository } from 'typeorm';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { ExchangeRatesService } from './exchange-rates.service';
+import { RateProvider, RateTable } from './rate-provider';
+import { RateProviderError } from './rate-provider.error';
+
+const DATE = '2026-03-02';
+
+/** Keeps upserted rates in memory and answers `findOne` by base, quote and date. */
+function fakeRepository(): Repository<ExchangeRate> {
+  const rows: Partial<ExchangeRate>[] = [];
+  const matches = (row: Partial<ExchangeRate>, where: Partial<ExchangeRate>) =>
+    row.base === where.base && row.quote === where.quote && row.date === where.date;
+  return {
+    findOne: async ({ where }: { where: Partial<ExchangeRate> }) => rows.find((row) => matches(row, where)) ?? null,
+    upsert: async (entities: Partial<ExchangeRate>[]) => {
+      for (const entity of entities) {
+        const index = rows.findIndex((row) => matches(row, entity));
+        rows.splice(index === -1 ? rows.length : index, 1, entity);
+      }
+    },
+  } as unknown as Repository<ExchangeRate>;
+}
+
+class FakeProvider extends RateProvider {
+  readonly name = 'fake';
+  readonly fetch = jest.fn(async (base: string, date: string): Promise<RateTable | null> => {
+    const rates = this.tables[base];
+    return rates ? { base, date, rates } : null;
+  });
+
+  constructor(private readonly tables: Record<string, Record<string, number>>) {
+    super();
+  }
+}
+
+const config = { get: (_key: string, fallback: string) => fallback } as unknown as ConfigService;
+
+describe('ExchangeRatesService', () => {
+  let provider: FakeProvider;
+  let service: ExchangeRatesService;
+
+  beforeEach(() => {
+    provider = new FakeProvider({ USD: { EUR: 0.9, GBP: 0.8 } });
+    service = new ExchangeRatesService(fakeRepository(), provider, config);
+  });
+
+  describe('quote', () => {
+    it('quotes a currency against itself at 1', async () => {
+      await expect(service.quote('USD', 'USD', DATE)).resolves.toMatchObject({ rate: 1, via: null, inverted: false });
+      expect(provider.fetch).not.toHaveBeenCalled();
+    });
+
+    it('uses a direct rate', async () => {
+      await expect(service.quote('USD', 'EUR', DATE)).resolves.toMatchObject({
+        from: 'USD',
+        to: 'EUR',
+        date: DATE,
+        rate: 0.9,
+        via: null,
+        inverted: false,
+      });
+    });
+
+    it('inverts the rate in the other direction when there is no direct one', async () => {
+      const quote = await service.quote('EUR', 'USD', DATE);
+
+      expect(quote).toMatchObject({ via: null, inverted: true });
+      expect(quote?.rate).toBeCloseTo(1 / 0.9, 10);
+    });
+
+    it('triangulates through a pivot currency', async () => {
+      const quote = await service.quote('GBP', 'EUR', DATE);
+
+      expect(quote).toMatchObject({ via: 'USD', inverted: true });
+      expect(quote?.rate).toBeCloseTo(0.9 / 0.8, 10);
+    });
+
+    it('returns null when no pivot connects the currencies', async () => {
+      await expect(service.quote('JPY', 'CHF', DATE)).resolves.toBeNull();
+    });
+
+    it('fetches each day of rates from a base once', async () => {
+      await service.quote('USD', 'EUR', DATE);
+      await service.quote('USD', 'GBP', DATE);
+      await service.quote('EUR', 'USD', DATE);
+
+      expect(provider.fetch.mock.calls.filter(([base]) => base === 'USD')).toHaveLength(1);
+    });
+
+    it('reports a failing provider as retryable instead of a missing rate, and asks again next time', async () => {
+      provider.fetch.mockRejectedValueOnce(new Error('The operation was aborted due to timeout'));
+
+      const failed = service.quote('USD', 'EUR', DATE);
+      await expect(failed).rejects.toBeInstanceOf(RateProviderError);
+      await expect(failed).rejects.toMatchObject({ statusCode: 503, retryable: true });
+      await expect(service.quote('USD', 'EUR', DATE)).resolves.toMatchObject({ rate: 0.9 });
+    });
+  });
+});
@@ -0,0 +1,252 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { today } from '../common/dates';
+import { ExchangeRate } from './entities/exchange-rate.entity';
+import { LockedRate } from './interfaces/locked-rate.interface';
+import { RateQuote } from './interfaces/rate-quote.interface';
+import { RateProvider, RateTable } from './rate-provider';
+import { RateProviderError } from './rate-provider.error';
+import { RateUnavailableError } from './rate-unavailable.error';
+
+/** How long a day's rates the provider did not have are remembered as missing. */
+const MISSING_TABLE_TTL_MS = 10 * 60 * 1000;
+
+/** A rate from one currency to another, straight from the provider or inverted. */
+interface Leg {
+  rate: number;
+  inverted: boolean;
+  fetchedAt: Date;
+}
+
+@Injectable()
+export class ExchangeRatesService {
+  private readonly logger = new Logger(ExchangeRatesService.name);
+  /** Tables fetched since the app started, keyed by base and day, so concurrent lookups share one request. */
+  private readonly tables = new Map<string, Promise<RateTable | null>>();
+
+  constructor(
+    @InjectRepository(ExchangeRate)
+    private readonly rates: Repository<ExchangeRate>,
+    private readonly provider: RateProvider,
+    private readonly config: ConfigService,
+  ) {}
+
+  /**
+   * How many units of `to` one unit of `from` bought on `date`, or null when
+   * the provider has no such rate. Each day's rates are fetched once and stored.
+   * Throws {@link RateProviderError} when the provider cannot be reached.
+   */
+  async rateOn(from: string, to: string, date: string): Promise<number | null> {
+    return (await this.quote(from, to, date))?.rate ?? null;
+  }
+
+  /**
+   * The rate from `from` to `to` on `date` and how it was found. Providers
+   * only quote some pairs, so when neither direction is quoted the rate is
+   * triangulated through each currency in `EXCHANGE_RATES_PIVOTS` in turn.
+   */
+  async quote(from: string, to: string, date: string): Promise<RateQuote | null> {
+    if (from === to) {
+      return { from, to, date, rate: 1, via: null, inverted: false, fetchedAt: null };
+    }
+    const leg = await this.leg(from, to, date);
+    if (leg) {
+      return { from, to, date, rate: leg.rate, via: null, inverted: leg.inverted, fetchedAt: leg.fetchedAt };
+    }
+
+    for (const pivot of this.pivots()) {
+      if (pivot === from || pivot === to) {
+        continue;
+      }
+      const first = await this.leg(from, pivot, date);
+      const second = first && (await this.leg(pivot, to, date));
+      if (first && second) {
+        return {
+          from,
+          to,
+          date,
+          rate: first.rate * second.rate,
+          via: pivot,
+          inverted: first.inverted || second.inverted,
+          fetchedAt: first.fetchedAt < second.fetchedAt ? first.fetchedAt : second.fetchedAt,
+        };
+      }
+    }
+    return null;
+  }
+
+  /** Today's rate from `from` to `to`, or null when there is none. */
+  currentRate(from: string, to: string): Promise<number | null> {
+    return this.rateOn(from, to, today());
+  }
+
+  /** Today's rates from `base`; throws {@link RateUnavailableError} when the provider has none. */
+  async latest(base: string): Promise<RateTable> {
+    const date = today();
+    const stored = await this.rates.find({ where: { base, date } });
+    if (stored.length > 0) {
+      return { base, date, rates: Object.fromEntries(stored.map((rate) => [rate.quote, rate.rate])) };
+    }
+    const table = await this.table(base, date);
+    if (!table) {
+      throw new RateUnavailableError(base, '*', date, `No exchange rates from ${base} are available for ${date}`);
+    }
+    return { base, date, rates: table.rates };
+  }
+
+  /**
+   * The rate to keep with an amount in `currency` in a group that keeps its
+   * books in `groupCurrency`: `manual` when one was entered, otherwise the rate
+   * on `date`. Nothing is locked for amounts in the group currency.
+   */
+  async lock(currency: string, groupCurrency: string, date: string, manual?: number | null): Promise<LockedRate> {
+    if (currency === groupCurrency) {
+      return { exchangeRate: null, rateCurrency: null, manualRate: false };
+    }
+    if (manual) {
+      return { exchangeRate: manual, rateCurrency: groupCurrency, manualRate: true };
+    }
+
+    const rate = await this.rateOn(currency, groupCurrency, date);
+    if (rate === null) {
+      throw new RateUnavailableError(
+        currency,
+        groupCurrency,
+        date,
+        `No ${currency} to ${groupCurrency} exchange rate is available for ${date}; enter the rate by hand`,
+        400,
+      );
+    }
+    return { exchangeRate: rate, rateCurrency: groupCurrency, manualRate: false };
+  }
+
+  /**
+   * Fetches today's rates again for every base currency already stored and
+   * those listed in `EXCHANGE_RATES_BASES`, replacing what was cached. Returns
+   * how many tables were stored.
+   */
+  async refresh(): Promise<number> {
+    const configured = this.config
+      .get<string>('EXCHANGE_RATES_BASES', 'USD,EUR')
+      .split(',')
+      .map((code) => code.trim().toUpperCase())
+      .filter(Boolean);
+    const stored = await this.rates
+      .createQueryBuilder('rate')
+      .select('DISTINCT rate.base', 'base')
+      .getRawMany<{ base: string }>();
+
+    const date = today();
+    let refreshed = 0;
+    for (const base of new Set([...configured, ...stored.map((row) => row.base)])) {
+      let table: RateTable | null;
+      try {
+        table = await this.fetchTable(base, date);
+      } catch (error) {
+        if (!(error instanceof RateProviderError)) {
+          throw error;
+        }
+        // One base failing at the provider should not keep the others from being refreshed.
+        this.logger.warn(`Could not refresh the ${base} rates from ${this.provider.name}: ${error.details.reason}`);
+        continue;
+      }
+      if (table) {
+        this.tables.set(`${base} ${date}`, Promise.resolve(table));
+        refreshed++;
+      }
+    }
+    return refreshed;
+  }
+
+  /** The provider's rate from `from` to `to`, or the inverse of its rate back. */
+  private async leg(from: string, to: string, date: string): Promise<Leg | null> {
+    const direct = await this.stored(from, to, date);
+    if (direct) {
+      return { rate: direct.rate, inverted: false, fetchedAt: direct.fetchedAt };
+    }
+    const reverse = await this.stored(to, from, date);
+    if (reverse) {
+      return { rate: 1 / reverse.rate, inverted: true, fetchedAt: reverse.fetchedAt };
+    }
+    return null;
+  }
+
+  /** The stored rate from `base` to `quote`, fetching that day's table from `base` when it is missing. */
+  private async stored(base: string, quote: string, date: string): Promise<ExchangeRate | null> {
+    const stored = await this.rates.findOne({ where: { base, quote, date } });
+    if (stored) {
+      return stored;
+    }
+    const table = await this.table(base, date);
+    return table?.rates[quote] ? this.rates.findOne({ where: { base, quote, date } }) : null;
+  }
+
+  private pivots(): string[] {
+    return this.config
+      .get<string>('EXCHANGE_RATES_PIVOTS', 'USD,EUR')
+      .split(',')
+      .map((code) => code.trim().toUpperCase())
+      .filter(Boolean);
+  }
+
+  /**
+   * The provider's rates from `base` on `date`, fetched once. A table the
+   * provider does not have is asked for again after {@link MISSING_TABLE_TTL_MS},
+   * so an unavailable day does not send every lookup to the provider; a failed
+   * request is forgotten straight away so the next lookup tries again.
+   */
+  private table(base: string, date: string): Promise<RateTable | null> {
+    const key = `${base} ${date}`;
+    const cached = this.tables.get(key);
+    if (cached) {
+      return cached;
+    }
+    const forget = () => {
+      if (this.tables.get(key) === loading) {
+        this.tables.delete(key);
+      }
+    };
+    const loading = this.fetchTable(base, date).then(
+      (table) => {
+        if (!table) {
+          setTimeout(forget, MISSING_TABLE_TTL_MS).unref();
+        }
+        return table;
+      },
+      (error: unknown) => {
+        forget();
+        throw error;
+      },
+    );
+    this.tables.set(key, loading);
+    return loading;
+  }
+
+  /**
+   * Fetches and stores a table under `date`, even when the provider published
+   * it on an earlier day. Null means the provider has no such table; a failed
+   * or timed out request throws {@link RateProviderError} instead.
+   */
+  private async fetchTable(base: string, date: string): Promise<RateTable | null> {
+    let table: RateTable | null;
+    try {
+      table = await this.provider.fetch(base, date);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new RateProviderError(this.provider.name, base, date, reason);
+    }
+    if (!table) {
+      return null;
+    }
+
+    const rows = Object.entries(table.rates)
+      .filter(([quote, rate]) => quote !== base && rate > 0)
+      .map(([quote, rate]) => ({ base, quote, date, rate, source: this.provider.name, fetchedAt: new Date() }));
+    if (rows.length > 0) {
+      await this.rates.upsert(rows, ['base', 'quote', 'date']);
+    }
+    return table;
+  }
+}
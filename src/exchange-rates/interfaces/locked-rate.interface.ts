@@ -0,0 +1,9 @@
+/** The rate kept with an expense or settlement in another currency than its group's. */
+export interface LockedRate {
+  /** Units of `rateCurrency` one unit of the amount's currency bought on its date. */
+  exchangeRate: number | null;
+  /** The group currency when the rate was locked. */
+  rateCurrency: string | null;
+  /** Entered by hand instead of looked up. */
+  manualRate: boolean;
+}
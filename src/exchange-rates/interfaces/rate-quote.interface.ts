@@ -0,0 +1,14 @@
+/** A rate between two currencies and how it was arrived at. */
+export interface RateQuote {
+  from: string;
+  to: string;
+  date: string;
+  /** Units of `to` one unit of `from` bought on `date`. */
+  rate: number;
+  /** The pivot currency the rate was triangulated through, or null for a direct rate. */
+  via: string | null;
+  /** Whether a provider rate in the other direction was inverted on the way. */
+  inverted: boolean;
+  /** When the oldest rate used was fetched from the provider; null between a currency and itself. */
+  fetchedAt: Date | null;
+}
@@ -0,0 +1,46 @@
+import { RateProvider, RateTable } from '../rate-provider';
+
+interface HistoricalResponse {
+  success: boolean;
+  date?: string;
+  source?: string;
+  /** Keyed by the base and quote codes run together, e.g. `USDEUR`. */
+  quotes?: Record<string, number>;
+  error?: { code: number; info?: string };
+}
+
+/** exchangerate.host, which covers about 170 currencies but needs an access key. */
+export class ExchangerateHostRateProvider extends RateProvider {
+  readonly name = 'exchangerate.host';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly accessKey: string,
+    private readonly timeoutMs: number,
+  ) {
+    super();
+  }
+
+  async fetch(base: string, date: string): Promise<RateTable | null> {
+    const params = new URLSearchParams({ access_key: this.accessKey, date, source: base });
+    const response = await fetch(`${this.baseUrl}/historical?${params}`, {
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new Error(`exchangerate.host responded with ${response.status}`);
+    }
+    const body = (await response.json()) as HistoricalResponse;
+    if (!body.success) {
+      throw new Error(`exchangerate.host refused the request: ${body.error?.info ?? body.error?.code}`);
+    }
+    if (!body.quotes) {
+      return null;
+    }
+
+    const rates: Record<string, number> = {};
+    for (const [pair, rate] of Object.entries(body.quotes)) {
+      rates[pair.slice(base.length)] = rate;
+    }
+    return { base, date: body.date ?? date, rates };
+  }
+}
@@ -0,0 +1,61 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileRateProvider } from './file.provider';
+
+describe('FileRateProvider', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'rates-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads rate tables from JSON', async () => {
+    const path = join(dir, 'rates.json');
+    await writeFile(path, JSON.stringify([{ base: 'USD', date: '2026-03-02', rates: { EUR: 0.9 } }]));
+
+    await expect(new FileRateProvider(path).fetch('USD', '2026-03-02')).resolves.toEqual({
+      base: 'USD',
+      date: '2026-03-02',
+      rates: { EUR: 0.9 },
+    });
+  });
+
+  it('groups CSV rows into a table per base and day', async () => {
+    const path = join(dir, 'rates.csv');
+    await writeFile(
+      path,
+      ['date,base,quote,rate', '2026-03-02,USD,EUR,0.9', '2026-03-02,USD,GBP,0.8', '2026-03-02,EUR,USD,1.1', ''].join(
+        '\n',
+      ),
+    );
+    const provider = new FileRateProvider(path);
+
+    await expect(provider.fetch('USD', '2026-03-02')).resolves.toEqual({
+      base: 'USD',
+      date: '2026-03-02',
+      rates: { EUR: 0.9, GBP: 0.8 },
+    });
+    await expect(provider.fetch('CHF', '2026-03-02')).resolves.toBeNull();
+  });
+
+  it('takes the latest earlier day for a day missing from the file', async () => {
+    const path = join(dir, 'weekend.json');
+    await writeFile(
+      path,
+      JSON.stringify([
+        { base: 'USD', date: '2026-02-26', rates: { EUR: 0.91 } },
+        { base: 'USD', date: '2026-02-27', rates: { EUR: 0.92 } },
+        { base: 'USD', date: '2026-03-02', rates: { EUR: 0.9 } },
+      ]),
+    );
+    const provider = new FileRateProvider(path);
+
+    await expect(provider.fetch('USD', '2026-03-01')).resolves.toMatchObject({ date: '2026-02-27' });
+    await expect(provider.fetch('USD', '2026-02-25')).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { readFile } from 'fs/promises';
+import { RateProvider, RateTable } from '../rate-provider';
+
+/**
+ * Reads rates from a local file, for running offline or pinning rates in
+ * tests. A `.csv` file has `date,base,quote,rate` rows under a header; any
+ * other file is JSON holding a list of rate tables. A day missing from the
+ * file takes the latest earlier day's rates, as providers skip weekends.
+ */
+export class FileRateProvider extends RateProvider {
+  readonly name = 'file';
+  private tables?: Promise<RateTable[]>;
+
+  constructor(private readonly path: string) {
+    super();
+  }
+
+  async fetch(base: string, date: string): Promise<RateTable | null> {
+    this.tables ??= this.load();
+    const earlier = (await this.tables).filter((table) => table.base === base && table.date <= date);
+    return earlier.sort((a, b) => b.date.localeCompare(a.date))[0] ?? null;
+  }
+
+  private async load(): Promise<RateTable[]> {
+    const contents = await readFile(this.path, 'utf8');
+    if (!this.path.endsWith('.csv')) {
+      return JSON.parse(contents) as RateTable[];
+    }
+
+    const tables = new Map<string, RateTable>();
+    for (const line of contents.split(/\r?\n/).slice(1)) {
+      if (!line.trim()) {
+        continue;
+      }
+      const [date, base, quote, rate] = line.split(',').map((cell) => cell.trim());
+      const key = `${base} ${date}`;
+      const table = tables.get(key) ?? { base, date, rates: {} };
+      table.rates[quote] = Number(rate);
+      tables.set(key, table);
+    }
+    return [...tables.values()];
+  }
+}
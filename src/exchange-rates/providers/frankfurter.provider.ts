@@ -0,0 +1,28 @@
+import { RateProvider, RateTable } from '../rate-provider';
+
+/** The European Central Bank's reference rates through frankfurter.app: about 30 currencies, free and keyless. */
+export class FrankfurterRateProvider extends RateProvider {
+  readonly name = 'frankfurter';
+
+  constructor(
+    private readonly baseUrl: string,
+    private readonly timeoutMs: number,
+  ) {
+    super();
+  }
+
+  async fetch(base: string, date: string): Promise<RateTable | null> {
+    const response = await fetch(`${this.baseUrl}/${date}?from=${encodeURIComponent(base)}`, {
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    // Frankfurter answers 404 for a currency the ECB does not publish
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Frankfurter responded with ${response.status}`);
+    }
+    const body = (await response.json()) as RateTable;
+    return { base: body.base, date: body.date, rates: body.rates };
+  }
+}
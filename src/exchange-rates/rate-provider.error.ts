@@ -0,0 +1,16 @@
+import { AppError } from '../common/errors/app-error';
+import { ErrorCode } from '../common/errors/error-code.enum';
+
+/** The rate provider could not be reached or failed, so whether a rate exists is not known yet. */
+export class RateProviderError extends AppError {
+  constructor(provider: string, base: string, date: string, reason: string) {
+    super(
+      'Exchange rates are temporarily unavailable; please try again shortly',
+      503,
+      ErrorCode.RATE_PROVIDER_ERROR,
+      { provider, base, date, reason },
+      true,
+    );
+    this.name = 'RateProviderError';
+  }
+}
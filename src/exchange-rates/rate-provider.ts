@@ -0,0 +1,20 @@
+/** A day's rates from one base currency, as published by a rate provider. */
+export interface RateTable {
+  base: string;
+  /** The day the rates were published, which is earlier than the day asked for at weekends and on holidays. */
+  date: string;
+  /** Units of each quote currency one unit of `base` buys. */
+  rates: Record<string, number>;
+}
+
+/**
+ * Supplies exchange rates. Bound in {@link ExchangeRatesModule} to an
+ * implementation chosen by `EXCHANGE_RATES_PROVIDER`.
+ */
+export abstract class RateProvider {
+  /** Stored with each rate so it is clear where it came from. */
+  abstract readonly name: string;
+
+  /** The rates from `base` on `date`, or null when the provider has none for that currency. */
+  abstract fetch(base: string, date: string): Promise<RateTable | null>;
+}
@@ -0,0 +1,15 @@
+import { AppError } from '../common/errors/app-error';
+import { ErrorCode } from '../common/errors/error-code.enum';
+
+/** No rate from `from` to `to` is known for `date`, so an amount cannot be converted. */
+export class RateUnavailableError extends AppError {
+  constructor(from: string, to: string, date: string, message?: string, statusCode = 404) {
+    super(
+      message ?? `No ${from} to ${to} exchange rate is available for ${date}`,
+      statusCode,
+      ErrorCode.RATE_UNAVAILABLE_ERROR,
+      { from, to, date },
+    );
+    this.name = 'RateUnavailableError';
+  }
+}
@@ -0,0 +1,108 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { SplitType } from '../entities/expense.entity';
+import { ExpenseLineItemDto } from './expense-line-item.dto';
+import { ExpensePayerDto } from './expense-payer.dto';
+import { ExpenseSplitDto } from './expense-split.dto';
+import { ReceiptAdjustmentDto } from './receipt-adjustment.dto';
+
+export class CreateExpenseDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  description: string;
+
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @IsPositive()
+  amount: number;
+
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  @IsDateString()
+  date: string;
+
+  /**
+   * Units of the group currency one unit of `currency` is worth, entered by
+   * hand instead of using the rate on `date`. Null goes back to that rate.
+   */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  exchangeRate?: number | null;
+
+  /** The single member who paid. Required unless `payers` is given. */
+  @ValidateIf((dto: CreateExpenseDto) => dto.payers === undefined)
+  @IsUUID()
+  paidBy?: string;
+
+  /** Members who each paid part of the bill; their amounts must add up to the total. */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(50)
+  @ValidateNested({ each: true })
+  @Type(() => ExpensePayerDto)
+  payers?: ExpensePayerDto[];
+
+  @IsEnum(SplitType)
+  splitType: SplitType;
+
+  /**
+   * Members taking part in the split. Equal splits may omit it to split
+   * between every member of the group.
+   */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseSplitDto)
+  splits?: ExpenseSplitDto[];
+
+  /** Receipt lines, required for itemized splits. Shares are worked out from them. */
+  @IsOptional()
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(200)
+  @ValidateNested({ each: true })
+  @Type(() => ExpenseLineItemDto)
+  items?: ExpenseLineItemDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReceiptAdjustmentDto)
+  tax?: ReceiptAdjustmentDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ReceiptAdjustmentDto)
+  tip?: ReceiptAdjustmentDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+
+  /** A built-in category slug such as `food`, or the id of one of the group's own categories. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(36)
+  category?: string | null;
+}
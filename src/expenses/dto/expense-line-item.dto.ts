@@ -0,0 +1,36 @@
+import {
+  ArrayNotEmpty,
+  ArrayUnique,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsString,
+  IsUUID,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+
+export class ExpenseLineItemDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  /** Unit price. */
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @Min(0)
+  price: number;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  /** Members sharing the item; each pays an equal part of it. */
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayUnique()
+  @IsUUID('4', { each: true })
+  assignedTo: string[];
+}
@@ -0,0 +1,11 @@
+import { IsNumber, IsPositive, IsUUID } from 'class-validator';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+
+export class ExpensePayerDto {
+  @IsUUID()
+  userId: string;
+
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @IsPositive()
+  amount: number;
+}
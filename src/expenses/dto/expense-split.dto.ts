@@ -0,0 +1,27 @@
+import { IsNumber, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+
+export class ExpenseSplitDto {
+  @IsUUID()
+  userId: string;
+
+  /** Required for percent splits. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  /** Required for exact splits. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @Min(0)
+  amount?: number;
+
+  /** Required for shares splits, e.g. 2 for a couple and 1 for a single. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(99999999)
+  weight?: number;
+}
@@ -0,0 +1,22 @@
+import { IsIn, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export const EXPENSE_FILTERS = ['all', 'you-paid', 'you-owe'] as const;
+
+export type ExpenseFilter = (typeof EXPENSE_FILTERS)[number];
+
+/** The `category` filter value that matches expenses without a category. */
+export const UNCATEGORIZED = 'none';
+
+export class GroupExpensesQueryDto {
+  /** A category id, or `none` for expenses without a category. */
+  @IsOptional()
+  @IsString()
+  @MaxLength(36)
+  category?: string;
+}
+
+export class ListExpensesQueryDto extends GroupExpensesQueryDto {
+  @IsOptional()
+  @IsIn(EXPENSE_FILTERS)
+  filter?: ExpenseFilter;
+}
@@ -0,0 +1,16 @@
+import { IsNumber, IsOptional, Max, Min } from 'class-validator';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+
+/** Tax or tip on an itemized receipt, given either as a percentage of the subtotal or as a fixed amount. */
+export class ReceiptAdjustmentDto {
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @Min(0)
+  @Max(100)
+  percentage?: number;
+
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @Min(0)
+  amount?: number;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateExpenseDto } from './create-expense.dto';
+
+export class UpdateExpenseDto extends PartialType(CreateExpenseDto) {}
@@ -0,0 +1,35 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn } from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { Expense } from './expense.entity';
+
+/** One line of an itemized receipt. */
+@Entity('expense_line_items')
+export class ExpenseLineItem {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  expenseId: string;
+
+  @ManyToOne(() => Expense, (expense) => expense.items, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  expense: Expense;
+
+  /** Order on the receipt. */
+  @Column({ type: 'int' })
+  position: number;
+
+  @Column({ length: 100 })
+  name: string;
+
+  /** Unit price, in the expense currency. */
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  price: number;
+
+  @Column({ type: 'int', default: 1 })
+  quantity: number;
+
+  /** Members sharing this item equally. */
+  @Column({ type: 'uuid', array: true })
+  assignedTo: string[];
+}
@@ -0,0 +1,25 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { Expense } from './expense.entity';
+
+/** What one member put towards an expense; the payers of an expense add up to its amount. */
+@Entity('expense_payers')
+@Unique(['expenseId', 'userId'])
+export class ExpensePayer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  expenseId: string;
+
+  @ManyToOne(() => Expense, (expense) => expense.payers, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  expense: Expense;
+
+  @Column('uuid')
+  userId: string;
+
+  /** In the expense currency. */
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  amount: number;
+}
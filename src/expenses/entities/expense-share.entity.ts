@@ -0,0 +1,32 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { Expense } from './expense.entity';
+
+@Entity('expense_shares')
+@Unique(['expenseId', 'userId'])
+export class ExpenseShare {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  expenseId: string;
+
+  @ManyToOne(() => Expense, (expense) => expense.shares, { onDelete: 'CASCADE', orphanedRowAction: 'delete' })
+  expense: Expense;
+
+  @Column('uuid')
+  userId: string;
+
+  /** The member's portion of the expense, in the expense currency. */
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  amount: number;
+
+  /** Set for percent splits so the split can be recomputed when the amount changes. */
+  @Column({ type: 'numeric', precision: 5, scale: 2, nullable: true, transformer: decimalTransformer })
+  percentage: number | null;
+
+  /** Set for shares splits so the split can be recomputed when the amount changes. */
+  @Column({ type: 'numeric', precision: 10, scale: 2, nullable: true, transformer: decimalTransformer })
+  weight: number | null;
+}
@@ -0,0 +1,115 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { Group } from '../../groups/entities/group.entity';
+import { ExpenseLineItem } from './expense-line-item.entity';
+import { ExpensePayer } from './expense-payer.entity';
+import { ExpenseShare } from './expense-share.entity';
+
+export enum SplitType {
+  EQUAL = 'equal',
+  PERCENT = 'percent',
+  EXACT = 'exact',
+  SHARES = 'shares',
+  ITEMIZED = 'itemized',
+}
+
+@Entity('expenses')
+@Index(['groupId', 'date'])
+export class Expense {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  groupId: string;
+
+  @ManyToOne(() => Group, { onDelete: 'CASCADE' })
+  group: Group;
+
+  /** The member who paid the largest part; `payers` lists everyone who paid. */
+  @Column('uuid')
+  paidBy: string;
+
+  @OneToMany(() => ExpensePayer, (payer) => payer.expense, { cascade: true })
+  payers: ExpensePayer[];
+
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  amount: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @Column({ length: 200 })
+  description: string;
+
+  @Column({ type: 'date' })
+  date: string;
+
+  /** Units of `rateCurrency` one unit of `currency` bought on `date`; null when it is in the group currency. */
+  @Column({ type: 'numeric', precision: 18, scale: 8, nullable: true, transformer: decimalTransformer })
+  exchangeRate: number | null;
+
+  /** The group currency when the rate was locked. */
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  rateCurrency: string | null;
+
+  /** The rate was entered by hand rather than looked up for the date. */
+  @Column({ default: false })
+  manualRate: boolean;
+
+  @Column({ type: 'enum', enum: SplitType, default: SplitType.EQUAL })
+  splitType: SplitType;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  /** A built-in category slug such as `food`, or the id of one of the group's own categories. */
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  category: string | null;
+
+  /** The recurring expense this one was created from, while that still exists. */
+  @Index()
+  @Column({ type: 'uuid', nullable: true })
+  recurringExpenseId: string | null;
+
+  @OneToMany(() => ExpenseShare, (share) => share.expense, { cascade: true })
+  shares: ExpenseShare[];
+
+  /** Receipt lines of an itemized expense; empty for other split types. */
+  @OneToMany(() => ExpenseLineItem, (item) => item.expense, { cascade: true })
+  items: ExpenseLineItem[];
+
+  /** Tax on an itemized receipt, spread over members in proportion to their items. */
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, nullable: true, transformer: decimalTransformer })
+  tax: number | null;
+
+  /** Set when the tax was entered as a percentage of the item subtotal. */
+  @Column({ type: 'numeric', precision: 5, scale: 2, nullable: true, transformer: decimalTransformer })
+  taxPercentage: number | null;
+
+  /** Tip on an itemized receipt, spread the same way as tax. */
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, nullable: true, transformer: decimalTransformer })
+  tip: number | null;
+
+  /** Set when the tip was entered as a percentage of the item subtotal. */
+  @Column({ type: 'numeric', precision: 5, scale: 2, nullable: true, transformer: decimalTransformer })
+  tipPercentage: number | null;
+
+  @Column('uuid')
+  createdBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
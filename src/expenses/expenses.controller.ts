@@ -0,0 +1,75 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { GroupExpensesQueryDto, ListExpensesQueryDto } from './dto/list-expenses-query.dto';
+import { UpdateExpenseDto } from './dto/update-expense.dto';
+import { ExpensesService } from './expenses.service';
+
+@Controller()
+export class ExpensesController {
+  constructor(private readonly expensesService: ExpensesService) {}
+
+  @Get('expenses')
+  findMine(@CurrentUser() user: AuthenticatedUser, @Query() query: ListExpensesQueryDto) {
+    return this.expensesService.findAllForUser(user.id, query.filter, query.category);
+  }
+
+  @Post('groups/:groupId/expenses')
+  create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateExpenseDto,
+  ) {
+    return this.expensesService.create(groupId, user.id, dto);
+  }
+
+  @Get('groups/:groupId/expenses')
+  findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query() query: GroupExpensesQueryDto,
+  ) {
+    return this.expensesService.findAll(groupId, user.id, query.category);
+  }
+
+  @Get('groups/:groupId/expenses/:id')
+  findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.expensesService.findOne(groupId, id, user.id);
+  }
+
+  @Patch('groups/:groupId/expenses/:id')
+  update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateExpenseDto,
+  ) {
+    return this.expensesService.update(groupId, id, user.id, dto);
+  }
+
+  @Delete('groups/:groupId/expenses/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.expensesService.remove(groupId, id, user.id);
+  }
+}
@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { CategoriesModule } from '../categories/categories.module';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { GroupsModule } from '../groups/groups.module';
+import { ExpenseLineItem } from './entities/expense-line-item.entity';
+import { ExpensePayer } from './entities/expense-payer.entity';
+import { ExpenseShare } from './entities/expense-share.entity';
+import { Expense } from './entities/expense.entity';
+import { ExpensesController } from './expenses.controller';
+import { ExpensesService } from './expenses.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([Expense, ExpenseShare, ExpenseLineItem, ExpensePayer]),
+    GroupsModule,
+    CategoriesModule,
+    ExchangeRatesModule,
+  ],
+  controllers: [ExpensesController],
+  providers: [ExpensesService],
+  exports: [ExpensesService],
+})
+export class ExpensesModule {}
@@ -0,0 +1,373 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, IsNull, Repository } from 'typeorm';
+import { CategoriesService } from '../categories/categories.service';
+import { validateAmounts } from '../common/money';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { CONTRIBUTOR_ROLES } from '../groups/entities/group-member.entity';
+import { GroupsService } from '../groups/groups.service';
+import { CreateExpenseDto } from './dto/create-expense.dto';
+import { ExpenseFilter, UNCATEGORIZED } from './dto/list-expenses-query.dto';
+import { UpdateExpenseDto } from './dto/update-expense.dto';
+import { ExpenseLineItem } from './entities/expense-line-item.entity';
+import { ExpensePayer } from './entities/expense-payer.entity';
+import { ExpenseShare } from './entities/expense-share.entity';
+import { Expense, SplitType } from './entities/expense.entity';
+import {
+  calculateReceiptShares,
+  calculateShares,
+  PayerInput,
+  primaryPayer,
+  ReceiptInput,
+  resolveReceipt,
+  SplitInput,
+  validatePayers,
+  validateReceipt,
+  validateSplits,
+} from './split-calculator';
+
+type ReceiptFields = Pick<Expense, 'items' | 'tax' | 'taxPercentage' | 'tip' | 'tipPercentage'>;
+
+@Injectable()
+export class ExpensesService {
+  constructor(
+    @InjectRepository(Expense)
+    private readonly expenses: Repository<Expense>,
+    @InjectRepository(ExpenseShare)
+    private readonly shares: Repository<ExpenseShare>,
+    @InjectRepository(ExpenseLineItem)
+    private readonly items: Repository<ExpenseLineItem>,
+    @InjectRepository(ExpensePayer)
+    private readonly payers: Repository<ExpensePayer>,
+    private readonly groupsService: GroupsService,
+    private readonly categoriesService: CategoriesService,
+    private readonly exchangeRates: ExchangeRatesService,
+  ) {}
+
+  async create(groupId: string, userId: string, dto: CreateExpenseDto): Promise<Expense> {
+    const saved = await this.expenses.save(await this.prepare(groupId, userId, dto));
+    return this.findOne(groupId, saved.id, userId);
+  }
+
+  /**
+   * Checks an expense and builds it without saving, for callers that save it
+   * in their own transaction. `recurringExpenseId` links expenses the
+   * scheduler creates to their recurring expense.
+   */
+  async prepare(
+    groupId: string,
+    userId: string,
+    dto: CreateExpenseDto,
+    recurringExpenseId: string | null = null,
+  ): Promise<Expense> {
+    const group = await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    if (dto.category) {
+      await this.categoriesService.assertUsable(groupId, dto.category);
+    }
+    const receipt = this.receiptOf(dto);
+    const payers = this.payersFrom(dto);
+    const shares = await this.buildShares(
+      groupId,
+      payers,
+      dto.amount,
+      dto.currency,
+      dto.splitType,
+      dto.splits,
+      receipt,
+    );
+
+    return this.expenses.create({
+      groupId,
+      paidBy: primaryPayer(payers),
+      payers: payers.map((payer) => this.payers.create(payer)),
+      amount: dto.amount,
+      currency: dto.currency,
+      description: dto.description,
+      date: dto.date,
+      splitType: dto.splitType,
+      notes: dto.notes ?? null,
+      category: dto.category ?? null,
+      recurringExpenseId,
+      createdBy: userId,
+      shares,
+      ...this.receiptFields(dto.currency, receipt),
+      ...(await this.exchangeRates.lock(dto.currency, group.currency, dto.date, dto.exchangeRate)),
+    });
+  }
+
+  /** Checks the payers and split of an expense without saving it. Throws like {@link create} would. */
+  async validate(groupId: string, dto: CreateExpenseDto): Promise<void> {
+    if (dto.category) {
+      await this.categoriesService.assertUsable(groupId, dto.category);
+    }
+    await this.buildShares(
+      groupId,
+      this.payersFrom(dto),
+      dto.amount,
+      dto.currency,
+      dto.splitType,
+      dto.splits,
+      this.receiptOf(dto),
+    );
+  }
+
+  /** `category` narrows the list to one category, or to uncategorized expenses with `none`. */
+  async findAll(groupId: string, userId: string, category?: string): Promise<Expense[]> {
+    await this.groupsService.assertMember(groupId, userId);
+    return this.expenses.find({
+      where: { groupId, ...this.categoryWhere(category) },
+      relations: { shares: true, items: true, payers: true },
+      order: { date: 'DESC', createdAt: 'DESC', items: { position: 'ASC' } },
+    });
+  }
+
+  /** Expenses across all of the user's groups, including archived ones. */
+  async findAllForUser(userId: string, filter: ExpenseFilter = 'all', category?: string): Promise<Expense[]> {
+    const groups = await this.groupsService.findAllForUser(userId, true);
+    if (groups.length === 0) {
+      return [];
+    }
+
+    const expenses = await this.expenses.find({
+      where: { groupId: In(groups.map((group) => group.id)), ...this.categoryWhere(category) },
+      relations: { shares: true, items: true, payers: true },
+      order: { date: 'DESC', createdAt: 'DESC', items: { position: 'ASC' } },
+    });
+    return expenses.filter((expense) => {
+      const paid = this.payersOf(expense).some((payer) => payer.userId === userId);
+      if (filter === 'you-paid') {
+        return paid;
+      }
+      if (filter === 'you-owe') {
+        return !paid && expense.shares.some((share) => share.userId === userId && share.amount > 0);
+      }
+      return true;
+    });
+  }
+
+  async findOne(groupId: string, id: string, userId: string): Promise<Expense> {
+    await this.groupsService.assertMember(groupId, userId);
+    const expense = await this.expenses.findOne({
+      where: { id, groupId },
+      relations: { shares: true, items: true, payers: true },
+      order: { items: { position: 'ASC' } },
+    });
+    if (!expense) {
+      throw new NotFoundException(`Expense ${id} not found`);
+    }
+    return expense;
+  }
+
+  /** Expenses for the given groups, without a membership check. Used for balance calculations. */
+  async findByGroupIds(groupIds: string[], manager: EntityManager = this.expenses.manager): Promise<Expense[]> {
+    if (groupIds.length === 0) {
+      return [];
+    }
+    return manager.find(Expense, { where: { groupId: In(groupIds) }, relations: { shares: true, payers: true } });
+  }
+
+  async update(groupId: string, id: string, userId: string, dto: UpdateExpenseDto): Promise<Expense> {
+    const group = await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const expense = await this.findOne(groupId, id, userId);
+    if (dto.category) {
+      await this.categoriesService.assertUsable(groupId, dto.category);
+    }
+
+    const { splits, items, tax, tip, payers, exchangeRate, ...fields } = dto;
+    const resplit =
+      splits !== undefined ||
+      payers !== undefined ||
+      items !== undefined ||
+      tax !== undefined ||
+      tip !== undefined ||
+      dto.amount !== undefined ||
+      dto.currency !== undefined ||
+      dto.splitType !== undefined ||
+      dto.paidBy !== undefined;
+    // A rate entered by hand is kept when only the date changes; a new currency needs a new rate
+    const currencyChanged = dto.currency !== undefined && dto.currency !== expense.currency;
+    const dateChanged = dto.date !== undefined && dto.date !== expense.date;
+    const manualRate =
+      exchangeRate !== undefined
+        ? exchangeRate
+        : !currencyChanged && expense.manualRate
+          ? expense.exchangeRate
+          : null;
+    Object.assign(expense, fields);
+    if (exchangeRate !== undefined || currencyChanged || dateChanged) {
+      Object.assign(expense, await this.exchangeRates.lock(expense.currency, group.currency, expense.date, manualRate));
+    }
+
+    if (!resplit) {
+      await this.expenses.save(expense);
+      return this.findOne(groupId, id, userId);
+    }
+
+    // Keep the existing participants (and their percentages or amounts) when
+    // only the total or the payer changes.
+    // A single payer follows the amount; several payers have to be given again when it changes.
+    const nextPayers =
+      payers ??
+      (dto.paidBy !== undefined || this.payersOf(expense).length === 1
+        ? [{ userId: expense.paidBy, amount: expense.amount }]
+        : this.payersOf(expense));
+    const nextSplits = splits ?? this.toSplitInputs(expense);
+    const current = this.toReceiptInput(expense);
+    const nextReceipt =
+      expense.splitType === SplitType.ITEMIZED
+        ? { items: items ?? current.items, tax: tax ?? current.tax, tip: tip ?? current.tip }
+        : undefined;
+    const shares = await this.buildShares(
+      groupId,
+      nextPayers,
+      expense.amount,
+      expense.currency,
+      expense.splitType,
+      nextSplits,
+      nextReceipt,
+    );
+
+    await this.expenses.manager.transaction(async (manager) => {
+      await manager.delete(ExpenseShare, { expenseId: id });
+      await manager.delete(ExpenseLineItem, { expenseId: id });
+      await manager.delete(ExpensePayer, { expenseId: id });
+      Object.assign(expense, this.receiptFields(expense.currency, nextReceipt));
+      expense.paidBy = primaryPayer(nextPayers);
+      expense.payers = nextPayers.map((payer) => this.payers.create(payer));
+      expense.shares = shares;
+      await manager.save(expense);
+    });
+    return this.findOne(groupId, id, userId);
+  }
+
+  async remove(groupId: string, id: string, userId: string): Promise<void> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const expense = await this.findOne(groupId, id, userId);
+    await this.expenses.remove(expense);
+  }
+
+  private async buildShares(
+    groupId: string,
+    payers: PayerInput[],
+    amount: number,
+    currency: string,
+    splitType: SplitType,
+    splits?: SplitInput[],
+    receipt?: ReceiptInput,
+  ): Promise<ExpenseShare[]> {
+    const amountError = validateAmounts(currency, [
+      amount,
+      ...payers.map((payer) => payer.amount),
+      ...(splits ?? []).map((split) => split.amount ?? 0),
+      ...(receipt?.items ?? []).map((item) => item.price),
+      receipt?.tax?.amount ?? 0,
+      receipt?.tip?.amount ?? 0,
+    ]);
+    if (amountError) {
+      throw new BadRequestException(amountError);
+    }
+
+    const memberIds = await this.groupsService.getMemberIds(groupId);
+    if (payers.some((payer) => !memberIds.includes(payer.userId))) {
+      throw new BadRequestException('Every payer must be a member of the group');
+    }
+    const payerError = validatePayers(amount, currency, payers);
+    if (payerError) {
+      throw new BadRequestException(payerError);
+    }
+
+    if (splitType === SplitType.ITEMIZED) {
+      const receiptInput = receipt ?? { items: [] };
+      if (receiptInput.items.some((item) => item.assignedTo.some((memberId) => !memberIds.includes(memberId)))) {
+        throw new BadRequestException('Expenses can only be split between members of the group');
+      }
+      const receiptError = validateReceipt(amount, currency, receiptInput);
+      if (receiptError) {
+        throw new BadRequestException(receiptError);
+      }
+      return calculateReceiptShares(amount, currency, receiptInput).map((share) => this.shares.create(share));
+    }
+
+    const inputs = splits ?? memberIds.map((memberId) => ({ userId: memberId }));
+    if (inputs.some((split) => !memberIds.includes(split.userId))) {
+      throw new BadRequestException('Expenses can only be split between members of the group');
+    }
+
+    const error = validateSplits(amount, currency, splitType, inputs);
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    return calculateShares(amount, currency, splitType, inputs).map((share) => this.shares.create(share));
+  }
+
+  /** The stored form of a receipt, or cleared fields for expenses that are not itemized. */
+  private receiptFields(currency: string, receipt?: ReceiptInput): ReceiptFields {
+    if (!receipt) {
+      return { items: [], tax: null, taxPercentage: null, tip: null, tipPercentage: null };
+    }
+
+    const { tax, tip } = resolveReceipt(receipt, currency);
+    return {
+      items: receipt.items.map((item, position) =>
+        this.items.create({
+          position,
+          name: item.name,
+          price: item.price,
+          quantity: item.quantity,
+          assignedTo: item.assignedTo,
+        }),
+      ),
+      tax: receipt.tax ? tax : null,
+      taxPercentage: receipt.tax?.percentage ?? null,
+      tip: receipt.tip ? tip : null,
+      tipPercentage: receipt.tip?.percentage ?? null,
+    };
+  }
+
+  private toReceiptInput(expense: Expense): ReceiptInput {
+    const adjustment = (amount: number | null, percentage: number | null) =>
+      percentage !== null ? { percentage } : amount !== null ? { amount } : undefined;
+    return {
+      items: (expense.items ?? []).map(({ name, price, quantity, assignedTo }) => ({
+        name,
+        price,
+        quantity,
+        assignedTo,
+      })),
+      tax: adjustment(expense.tax, expense.taxPercentage),
+      tip: adjustment(expense.tip, expense.tipPercentage),
+    };
+  }
+
+  private categoryWhere(category?: string): FindOptionsWhere<Expense> {
+    if (category === undefined) {
+      return {};
+    }
+    return { category: category === UNCATEGORIZED ? IsNull() : category };
+  }
+
+  private payersFrom(dto: CreateExpenseDto): PayerInput[] {
+    return dto.payers ?? (dto.paidBy ? [{ userId: dto.paidBy, amount: dto.amount }] : []);
+  }
+
+  private receiptOf(dto: CreateExpenseDto): ReceiptInput | undefined {
+    return dto.splitType === SplitType.ITEMIZED ? { items: dto.items ?? [], tax: dto.tax, tip: dto.tip } : undefined;
+  }
+
+  /** Expenses saved before multiple payers were supported have no payer rows. */
+  private payersOf(expense: Expense): PayerInput[] {
+    return expense.payers?.length
+      ? expense.payers.map(({ userId, amount }) => ({ userId, amount }))
+      : [{ userId: expense.paidBy, amount: expense.amount }];
+  }
+
+  private toSplitInputs(expense: Expense): SplitInput[] {
+    return expense.shares.map((share) => ({
+      userId: share.userId,
+      percentage: share.percentage ?? undefined,
+      weight: share.weight ?? undefined,
+      amount: expense.splitType === SplitType.EXACT ? share.amount : undefined,
+    }));
+  }
+}
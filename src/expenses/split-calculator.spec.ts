@@ -0,0 +1,140 @@
+import { SplitType } from './entities/expense.entity';
+import {
+  calculateReceiptShares,
+  calculateShares,
+  ReceiptInput,
+  resolveReceipt,
+  validateReceipt,
+  validateSplits,
+} from './split-calculator';
+
+const amounts = (shares: { amount: number }[]) => shares.map((share) => share.amount);
+
+describe('split calculator', () => {
+  describe('validateSplits', () => {
+    it('needs at least one member, each only once', () => {
+      expect(validateSplits(100, 'USD', SplitType.EQUAL, [])).toBe('At least one member must take part in the split');
+      expect(validateSplits(100, 'USD', SplitType.EQUAL, [{ userId: 'a' }, { userId: 'a' }])).toBe(
+        'Each member can only appear once in a split',
+      );
+    });
+
+    it('needs percentages that add up to 100', () => {
+      const splits = [
+        { userId: 'a', percentage: 50 },
+        { userId: 'b', percentage: 40 },
+      ];
+      expect(validateSplits(100, 'USD', SplitType.PERCENT, splits)).toBe(
+        'Percentages must add up to 100%. Current total: 90.00%',
+      );
+      expect(validateSplits(100, 'USD', SplitType.PERCENT, [{ userId: 'a' }])).toBe(
+        'Every member needs a percentage for a percent split',
+      );
+      expect(
+        validateSplits(100, 'USD', SplitType.PERCENT, [
+          { userId: 'a', percentage: 33.33 },
+          { userId: 'b', percentage: 33.33 },
+          { userId: 'c', percentage: 33.34 },
+        ]),
+      ).toBeNull();
+    });
+
+    it('needs exact amounts that add up to the expense', () => {
+      const splits = [
+        { userId: 'a', amount: 30 },
+        { userId: 'b', amount: 60 },
+      ];
+      expect(validateSplits(100, 'USD', SplitType.EXACT, splits)).toBe(
+        'Amounts must add up to 100.00. Current total: 90.00',
+      );
+      expect(validateSplits(90, 'USD', SplitType.EXACT, splits)).toBeNull();
+    });
+
+    it('needs a weight above zero for a shares split', () => {
+      const splits = [
+        { userId: 'a', weight: 0 },
+        { userId: 'b', weight: 0 },
+      ];
+      expect(validateSplits(100, 'USD', SplitType.SHARES, splits)).toBe(
+        'At least one member needs a weight above zero',
+      );
+    });
+  });
+
+  describe('calculateShares', () => {
+    it('splits equally and gives the leftover cent to the first member', () => {
+      const shares = calculateShares(100, 'USD', SplitType.EQUAL, [{ userId: 'a' }, { userId: 'b' }, { userId: 'c' }]);
+      expect(amounts(shares)).toEqual([33.34, 33.33, 33.33]);
+    });
+
+    it('splits in the minor unit of the currency', () => {
+      const members = [{ userId: 'a' }, { userId: 'b' }, { userId: 'c' }];
+      expect(amounts(calculateShares(10, 'KWD', SplitType.EQUAL, members))).toEqual([3.334, 3.333, 3.333]);
+      expect(amounts(calculateShares(1000, 'JPY', SplitType.EQUAL, members))).toEqual([334, 333, 333]);
+    });
+
+    it('splits by percentage and keeps the percentages', () => {
+      const shares = calculateShares(99.99, 'USD', SplitType.PERCENT, [
+        { userId: 'a', percentage: 50 },
+        { userId: 'b', percentage: 25 },
+        { userId: 'c', percentage: 25 },
+      ]);
+      expect(amounts(shares)).toEqual([49.99, 25, 25]);
+      expect(shares.map((share) => share.percentage)).toEqual([50, 25, 25]);
+    });
+
+    it('splits by weight and keeps the weights', () => {
+      const shares = calculateShares(90, 'USD', SplitType.SHARES, [
+        { userId: 'a', weight: 2 },
+        { userId: 'b', weight: 1 },
+      ]);
+      expect(amounts(shares)).toEqual([60, 30]);
+      expect(shares.map((share) => share.weight)).toEqual([2, 1]);
+    });
+
+    it('keeps exact amounts as given', () => {
+      const shares = calculateShares(90, 'USD', SplitType.EXACT, [
+        { userId: 'a', amount: 30 },
+        { userId: 'b', amount: 60 },
+      ]);
+      expect(amounts(shares)).toEqual([30, 60]);
+    });
+  });
+
+  describe('receipts', () => {
+    const receipt: ReceiptInput = {
+      items: [
+        { name: 'pizza', price: 20, quantity: 1, assignedTo: ['a', 'b'] },
+        { name: 'beer', price: 5, quantity: 2, assignedTo: ['a'] },
+      ],
+      tax: { percentage: 10 },
+    };
+
+    it('resolves a percentage of the subtotal', () => {
+      expect(resolveReceipt(receipt, 'USD')).toEqual({ subtotal: 30, tax: 3, tip: 0 });
+    });
+
+    it('needs items, tax and tip to add up to the expense', () => {
+      expect(validateReceipt(33, 'USD', receipt)).toBeNull();
+      expect(validateReceipt(40, 'USD', receipt)).toBe(
+        'Items, tax and tip must add up to 40.00. Current total: 33.00',
+      );
+      expect(validateReceipt(33, 'USD', { ...receipt, tip: { percentage: 5, amount: 1 } })).toBe(
+        'Give the tip as either a percentage or an amount, not both',
+      );
+    });
+
+    it('shares items between their members and spreads the rest by what each ordered', () => {
+      const shares = calculateReceiptShares(33, 'USD', receipt);
+      expect(shares.map(({ userId, amount }) => ({ userId, amount }))).toEqual([
+        { userId: 'a', amount: 22 },
+        { userId: 'b', amount: 11 },
+      ]);
+    });
+
+    it('shares tax and tip equally when nothing has a price', () => {
+      const free: ReceiptInput = { items: [{ name: 'water', price: 0, quantity: 1, assignedTo: ['a', 'b'] }] };
+      expect(amounts(calculateReceiptShares(10, 'USD', free))).toEqual([5, 5]);
+    });
+  });
+});
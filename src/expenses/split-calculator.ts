@@ -0,0 +1,235 @@
+import { allocate, formatMoney, fromMinor, sumMinor as sum, toMinor } from '../common/money';
+import { SplitType } from './entities/expense.entity';
+
+export interface SplitInput {
+  userId: string;
+  percentage?: number;
+  amount?: number;
+  weight?: number;
+}
+
+export interface PayerInput {
+  userId: string;
+  amount: number;
+}
+
+export interface LineItemInput {
+  name: string;
+  price: number;
+  quantity: number;
+  assignedTo: string[];
+}
+
+/** Tax or tip, as a percentage of the item subtotal or as a fixed amount. */
+export interface AdjustmentInput {
+  percentage?: number;
+  amount?: number;
+}
+
+export interface ReceiptInput {
+  items: LineItemInput[];
+  tax?: AdjustmentInput;
+  tip?: AdjustmentInput;
+}
+
+export interface ResolvedReceipt {
+  subtotal: number;
+  tax: number;
+  tip: number;
+}
+
+export interface ComputedShare {
+  userId: string;
+  amount: number;
+  percentage: number | null;
+  weight: number | null;
+}
+
+// Percentages and weights have at most two decimals; in hundredths they divide exactly
+const hundredths = (value: number) => Math.round(value * 100);
+
+const itemMinor = (item: LineItemInput, currency: string) => toMinor(item.price, currency) * item.quantity;
+
+const adjustmentMinor = (subtotalMinor: number, currency: string, adjustment?: AdjustmentInput) =>
+  adjustment?.percentage !== undefined
+    ? Math.round((subtotalMinor * adjustment.percentage) / 100)
+    : toMinor(adjustment?.amount ?? 0, currency);
+
+/** Works out the item subtotal and the tax and tip amounts of a receipt. */
+export function resolveReceipt(receipt: ReceiptInput, currency: string): ResolvedReceipt {
+  const subtotalMinor = sum(receipt.items.map((item) => itemMinor(item, currency)));
+  return {
+    subtotal: fromMinor(subtotalMinor, currency),
+    tax: fromMinor(adjustmentMinor(subtotalMinor, currency, receipt.tax), currency),
+    tip: fromMinor(adjustmentMinor(subtotalMinor, currency, receipt.tip), currency),
+  };
+}
+
+/**
+ * Checks a split the same way the expense form does before saving.
+ * Returns a user-facing message, or null when the split is valid.
+ */
+export function validateSplits(
+  amount: number,
+  currency: string,
+  splitType: SplitType,
+  splits: SplitInput[],
+): string | null {
+  if (splits.length === 0) {
+    return 'At least one member must take part in the split';
+  }
+
+  if (new Set(splits.map((split) => split.userId)).size !== splits.length) {
+    return 'Each member can only appear once in a split';
+  }
+
+  if (splitType === SplitType.PERCENT) {
+    if (splits.some((split) => split.percentage === undefined)) {
+      return 'Every member needs a percentage for a percent split';
+    }
+    const totalPercent = sum(splits.map((split) => hundredths(split.percentage ?? 0)));
+    if (totalPercent !== 10000) {
+      return `Percentages must add up to 100%. Current total: ${(totalPercent / 100).toFixed(2)}%`;
+    }
+  }
+
+  if (splitType === SplitType.EXACT) {
+    if (splits.some((split) => split.amount === undefined)) {
+      return 'Every member needs an amount for an exact split';
+    }
+    const totalExact = sum(splits.map((split) => toMinor(split.amount ?? 0, currency)));
+    if (totalExact !== toMinor(amount, currency)) {
+      const current = formatMoney(fromMinor(totalExact, currency), currency);
+      return `Amounts must add up to ${formatMoney(amount, currency)}. Current total: ${current}`;
+    }
+  }
+
+  if (splitType === SplitType.SHARES) {
+    if (splits.some((split) => split.weight === undefined)) {
+      return 'Every member needs a weight for a shares split';
+    }
+    if (sum(splits.map((split) => split.weight ?? 0)) <= 0) {
+      return 'At least one member needs a weight above zero';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Checks that the payers of an expense are distinct and cover its amount.
+ * Returns a user-facing message, or null when they are valid.
+ */
+export function validatePayers(amount: number, currency: string, payers: PayerInput[]): string | null {
+  if (payers.length === 0) {
+    return 'Choose who paid for this expense';
+  }
+
+  if (new Set(payers.map((payer) => payer.userId)).size !== payers.length) {
+    return 'Each member can only appear once as a payer';
+  }
+
+  // Exact to the minor unit, since everything paid is credited in the balances
+  const paidMinor = sum(payers.map((payer) => toMinor(payer.amount, currency)));
+  if (paidMinor !== toMinor(amount, currency)) {
+    const current = formatMoney(fromMinor(paidMinor, currency), currency);
+    return `Payments must add up to ${formatMoney(amount, currency)}. Current total: ${current}`;
+  }
+
+  return null;
+}
+
+/** The payer who put in the most, or the first of those tied. */
+export function primaryPayer(payers: PayerInput[]): string {
+  return payers.reduce((top, payer) => (payer.amount > top.amount ? payer : top)).userId;
+}
+
+/**
+ * Turns a validated split into per-member share amounts. The amount is
+ * divided in minor units of the currency with largest-remainder rounding, so
+ * the shares always add up to the expense amount exactly.
+ */
+export function calculateShares(
+  amount: number,
+  currency: string,
+  splitType: SplitType,
+  splits: SplitInput[],
+): ComputedShare[] {
+  if (splitType === SplitType.EXACT) {
+    return splits.map((split) => ({ userId: split.userId, amount: split.amount ?? 0, percentage: null, weight: null }));
+  }
+
+  const weights =
+    splitType === SplitType.PERCENT
+      ? splits.map((split) => hundredths(split.percentage ?? 0))
+      : splitType === SplitType.SHARES
+        ? splits.map((split) => hundredths(split.weight ?? 0))
+        : splits.map(() => 1);
+  const minor = allocate(toMinor(amount, currency), weights);
+
+  return splits.map((split, i) => ({
+    userId: split.userId,
+    amount: fromMinor(minor[i], currency),
+    percentage: splitType === SplitType.PERCENT ? split.percentage ?? 0 : null,
+    weight: splitType === SplitType.SHARES ? split.weight ?? 0 : null,
+  }));
+}
+
+/**
+ * Checks an itemized receipt against the expense amount.
+ * Returns a user-facing message, or null when the receipt is valid.
+ */
+export function validateReceipt(amount: number, currency: string, receipt: ReceiptInput): string | null {
+  if (receipt.items.length === 0) {
+    return 'An itemized split needs at least one item';
+  }
+
+  if (receipt.items.some((item) => item.assignedTo.length === 0)) {
+    return 'Every item needs at least one member to share it';
+  }
+
+  for (const [label, adjustment] of [
+    ['tax', receipt.tax],
+    ['tip', receipt.tip],
+  ] as const) {
+    if (adjustment?.percentage !== undefined && adjustment.amount !== undefined) {
+      return `Give the ${label} as either a percentage or an amount, not both`;
+    }
+  }
+
+  const { subtotal, tax, tip } = resolveReceipt(receipt, currency);
+  const totalMinor = sum([subtotal, tax, tip].map((value) => toMinor(value, currency)));
+  if (totalMinor !== toMinor(amount, currency)) {
+    const current = formatMoney(fromMinor(totalMinor, currency), currency);
+    return `Items, tax and tip must add up to ${formatMoney(amount, currency)}. Current total: ${current}`;
+  }
+
+  return null;
+}
+
+/**
+ * Turns a validated receipt into per-member share amounts. Each item is
+ * shared equally between the members assigned to it, and whatever the
+ * expense amount holds beyond the item subtotal (tax and tip) is spread in
+ * proportion to what each member ordered.
+ */
+export function calculateReceiptShares(amount: number, currency: string, receipt: ReceiptInput): ComputedShare[] {
+  const itemTotals = new Map<string, number>();
+  for (const item of receipt.items) {
+    const minor = allocate(itemMinor(item, currency), item.assignedTo.map(() => 1));
+    item.assignedTo.forEach((userId, i) => itemTotals.set(userId, (itemTotals.get(userId) ?? 0) + minor[i]));
+  }
+
+  const userIds = [...itemTotals.keys()];
+  const ordered = userIds.map((userId) => itemTotals.get(userId) ?? 0);
+  const extraMinor = toMinor(amount, currency) - sum(ordered);
+  // With nothing ordered at a price, tax and tip are shared equally
+  const extra = allocate(extraMinor, sum(ordered) === 0 ? userIds.map(() => 1) : ordered);
+
+  return userIds.map((userId, i) => ({
+    userId,
+    amount: fromMinor(ordered[i] + extra[i], currency),
+    percentage: null,
+    weight: null,
+  }));
+}
@@ -0,0 +1,4 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateGroupDto } from './create-group.dto';
+
+export class UpdateGroupDto extends PartialType(OmitType(CreateGroupDto, ['memberIds', 'guestNames'] as const)) {}
@@ -0,0 +1,10 @@
+import { IsIn } from 'class-validator';
+import { GroupRole } from '../entities/group-member.entity';
+
+// Ownership changes hands only through the transfer endpoint.
+const ASSIGNABLE_ROLES = [GroupRole.ADMIN, GroupRole.MEMBER, GroupRole.VIEWER];
+
+export class UpdateMemberRoleDto {
+  @IsIn(ASSIGNABLE_ROLES)
+  role: GroupRole;
+}
@@ -0,0 +1,41 @@
+import { Column, CreateDateColumn, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from 'typeorm';
+import { User } from '../../users/entities/user.entity';
+import { Group } from './group.entity';
+
+export enum GroupRole {
+  OWNER = 'owner',
+  ADMIN = 'admin',
+  MEMBER = 'member',
+  VIEWER = 'viewer',
+}
+
+/** Roles that may change the group's settings and membership. */
+export const MANAGER_ROLES: readonly GroupRole[] = [GroupRole.OWNER, GroupRole.ADMIN];
+
+/** Roles that may record expenses, settlements and invitations; viewers are read-only. */
+export const CONTRIBUTOR_ROLES: readonly GroupRole[] = [...MANAGER_ROLES, GroupRole.MEMBER];
+
+@Entity('group_members')
+@Unique(['groupId', 'userId'])
+export class GroupMember {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  groupId: string;
+
+  @ManyToOne(() => Group, (group) => group.members, { onDelete: 'CASCADE' })
+  group: Group;
+
+  @Column('uuid')
+  userId: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  user: User;
+
+  @Column({ type: 'enum', enum: GroupRole, default: GroupRole.MEMBER })
+  role: GroupRole;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  joinedAt: Date;
+}
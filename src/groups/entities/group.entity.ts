@@ -0,0 +1,43 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { GroupMember } from './group-member.entity';
+
+@Entity('groups')
+export class Group {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column({ length: 100 })
+  name: string;
+
+  @Column({ type: 'text', default: '' })
+  description: string;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @Column('uuid')
+  createdBy: string;
+
+  /** Settle up with the fewest transfers instead of repaying each expense's payer. */
+  @Column({ default: false })
+  simplifyDebts: boolean;
+
+  @OneToMany(() => GroupMember, (member) => member.group, { cascade: ['insert'] })
+  members: GroupMember[];
+
+  @Column({ type: 'timestamptz', nullable: true })
+  archivedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,93 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { AddGuestDto } from './dto/add-guest.dto';
+import { CreateGroupDto } from './dto/create-group.dto';
+import { ListGroupsQueryDto } from './dto/list-groups-query.dto';
+import { TransferOwnershipDto } from './dto/transfer-ownership.dto';
+import { UpdateGroupDto } from './dto/update-group.dto';
+import { UpdateMemberRoleDto } from './dto/update-member-role.dto';
+import { GroupsService } from './groups.service';
+
+@Controller('groups')
+export class GroupsController {
+  constructor(private readonly groupsService: GroupsService) {}
+
+  @Post()
+  create(@CurrentUser() user: AuthenticatedUser, @Body() dto: CreateGroupDto) {
+    return this.groupsService.create(user.id, dto);
+  }
+
+  @Get()
+  findMine(@CurrentUser() user: AuthenticatedUser, @Query() query: ListGroupsQueryDto) {
+    return this.groupsService.findAllForUser(user.id, query.includeArchived);
+  }
+
+  @Get(':id')
+  findOne(@CurrentUser() user: AuthenticatedUser, @Param('id', ParseUUIDPipe) id: string) {
+    return this.groupsService.findOne(id, user.id);
+  }
+
+  @Patch(':id')
+  update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateGroupDto,
+  ) {
+    return this.groupsService.update(id, user.id, dto);
+  }
+
+  @Post(':id/archive')
+  archive(@CurrentUser() user: AuthenticatedUser, @Param('id', ParseUUIDPipe) id: string) {
+    return this.groupsService.archive(id, user.id);
+  }
+
+  @Post(':id/guests')
+  addGuest(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AddGuestDto,
+  ) {
+    return this.groupsService.addGuest(id, user.id, dto);
+  }
+
+  @Patch(':id/members/:userId')
+  updateMemberRole(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+    @Body() dto: UpdateMemberRoleDto,
+  ) {
+    return this.groupsService.updateMemberRole(id, memberUserId, user.id, dto.role);
+  }
+
+  @Delete(':id/members/:userId')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  removeMember(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('userId', ParseUUIDPipe) memberUserId: string,
+  ) {
+    return this.groupsService.removeMember(id, memberUserId, user.id);
+  }
+
+  @Post(':id/transfer-ownership')
+  transferOwnership(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: TransferOwnershipDto,
+  ) {
+    return this.groupsService.transferOwnership(id, dto.userId, user.id);
+  }
+}
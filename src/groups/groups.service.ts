@@ -0,0 +1,257 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Inject,
+  Injectable,
+  NotFoundException,
+  forwardRef,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { BalancesService } from '../balances/balances.service';
+import { User } from '../users/entities/user.entity';
+import { AddGuestDto } from './dto/add-guest.dto';
+import { CreateGroupDto } from './dto/create-group.dto';
+import { UpdateGroupDto } from './dto/update-group.dto';
+import { Group } from './entities/group.entity';
+import { CONTRIBUTOR_ROLES, GroupMember, GroupRole, MANAGER_ROLES } from './entities/group-member.entity';
+
+@Injectable()
+export class GroupsService {
+  constructor(
+    @InjectRepository(Group)
+    private readonly groups: Repository<Group>,
+    @InjectRepository(GroupMember)
+    private readonly members: Repository<GroupMember>,
+    @InjectRepository(User)
+    private readonly users: Repository<User>,
+    @Inject(forwardRef(() => BalancesService))
+    private readonly balancesService: BalancesService,
+  ) {}
+
+  async create(userId: string, dto: CreateGroupDto): Promise<Group> {
+    const memberIds = new Set([userId, ...(dto.memberIds ?? [])]);
+    const saved = await this.groups.manager.transaction(async (manager) => {
+      const guests = await manager.save((dto.guestNames ?? []).map((name) => this.guest(name)));
+      const group = this.groups.create({
+        name: dto.name,
+        description: dto.description ?? '',
+        currency: dto.currency,
+        simplifyDebts: dto.simplifyDebts ?? false,
+        createdBy: userId,
+        members: [
+          ...[...memberIds].map((id) =>
+            this.members.create({ userId: id, role: id === userId ? GroupRole.OWNER : GroupRole.MEMBER }),
+          ),
+          ...guests.map((guest) => this.members.create({ userId: guest.id, role: GroupRole.MEMBER })),
+        ],
+      });
+      return manager.save(group);
+    });
+    return this.findOne(saved.id, userId);
+  }
+
+  async findAllForUser(
+    userId: string,
+    includeArchived = false,
+    manager: EntityManager = this.groups.manager,
+  ): Promise<Group[]> {
+    const query = manager
+      .createQueryBuilder(Group, 'group')
+      .innerJoin('group.members', 'self', 'self.userId = :userId', { userId })
+      .leftJoinAndSelect('group.members', 'member')
+      .leftJoinAndSelect('member.user', 'user')
+      .orderBy('group.createdAt', 'DESC');
+
+    if (!includeArchived) {
+      query.andWhere('group.archivedAt IS NULL');
+    }
+
+    return query.getMany();
+  }
+
+  /**
+   * Loads a group the user belongs to. Groups the user is not a member of are
+   * reported as missing so their existence is not leaked. When `roles` is
+   * given, members holding any other role are refused.
+   */
+  async findOne(id: string, userId: string, roles?: readonly GroupRole[]): Promise<Group> {
+    await this.assertMember(id, userId, roles);
+    const group = await this.groups.findOne({ where: { id }, relations: { members: { user: true } } });
+    if (!group) {
+      throw new NotFoundException(`Group ${id} not found`);
+    }
+    return group;
+  }
+
+  async update(id: string, userId: string, dto: UpdateGroupDto): Promise<Group> {
+    const group = await this.findActive(id, userId, MANAGER_ROLES);
+    Object.assign(group, dto);
+    return this.groups.save(group);
+  }
+
+  async archive(id: string, userId: string): Promise<Group> {
+    const group = await this.findActive(id, userId, MANAGER_ROLES);
+    group.archivedAt = new Date();
+    return this.groups.save(group);
+  }
+
+  async assertMember(groupId: string, userId: string, roles?: readonly GroupRole[]): Promise<GroupMember> {
+    const member = await this.members.findOne({ where: { groupId, userId } });
+    if (!member) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+    if (roles && !roles.includes(member.role)) {
+      throw new ForbiddenException(`Your role in this group (${member.role}) does not allow this`);
+    }
+    return member;
+  }
+
+  /** Same as {@link findOne}, but rejects groups that have been archived. */
+  async findActive(id: string, userId: string, roles?: readonly GroupRole[]): Promise<Group> {
+    const group = await this.findOne(id, userId, roles);
+    if (group.archivedAt) {
+      throw new ConflictException(`Group ${id} is archived`);
+    }
+    return group;
+  }
+
+  async getMemberIds(groupId: string): Promise<string[]> {
+    const members = await this.members.find({ where: { groupId }, order: { joinedAt: 'ASC' } });
+    return members.map((member) => member.userId);
+  }
+
+  /** Adds someone without an account, who can take part in expenses and settlements by name. */
+  async addGuest(groupId: string, userId: string, dto: AddGuestDto): Promise<GroupMember> {
+    await this.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    return this.members.manager.transaction(async (manager) => {
+      const guest = await manager.save(this.guest(dto.name));
+      const member = await manager.save(this.members.create({ groupId, userId: guest.id, role: GroupRole.MEMBER }));
+      return { ...member, user: guest };
+    });
+  }
+
+  /** Adds a user who was not previously in the group, e.g. by accepting an invitation. */
+  async addMember(groupId: string, userId: string): Promise<GroupMember> {
+    const group = await this.groups.findOne({ where: { id: groupId } });
+    if (!group) {
+      throw new NotFoundException(`Group ${groupId} not found`);
+    }
+    if (group.archivedAt) {
+      throw new ConflictException(`Group ${groupId} is archived`);
+    }
+    if (await this.members.exists({ where: { groupId, userId } })) {
+      throw new ConflictException('You are already a member of this group');
+    }
+    return this.members.save(this.members.create({ groupId, userId }));
+  }
+
+  /**
+   * Changes a member's role. Admins may manage each other, but only the owner
+   * can touch their own role, and only by handing ownership over.
+   */
+  async updateMemberRole(groupId: string, memberUserId: string, userId: string, role: GroupRole): Promise<GroupMember> {
+    await this.findActive(groupId, userId, MANAGER_ROLES);
+    const member = await this.assertMember(groupId, memberUserId);
+    if (member.role === GroupRole.OWNER) {
+      throw new BadRequestException('Transfer ownership before changing the owner\'s role');
+    }
+    await this.assertNotGuest(memberUserId);
+    member.role = role;
+    return this.members.save(member);
+  }
+
+  /**
+   * Removes someone from the group. Managers may remove anyone but the owner,
+   * and any member may leave on their own, once they are settled up in the
+   * group. Their past expenses and settlements stay in the group's history.
+   */
+  async removeMember(groupId: string, memberUserId: string, userId: string): Promise<void> {
+    const leaving = memberUserId === userId;
+    await this.findActive(groupId, userId, leaving ? undefined : MANAGER_ROLES);
+    const member = await this.assertMember(groupId, memberUserId);
+    if (member.role === GroupRole.OWNER) {
+      throw new BadRequestException('The owner cannot be removed; transfer ownership first');
+    }
+    await this.balancesService.assertSettledIn(groupId, memberUserId, userId);
+    await this.members.remove(member);
+  }
+
+  /** Hands the group to another member; the previous owner stays on as an admin. */
+  async transferOwnership(groupId: string, newOwnerId: string, userId: string): Promise<Group> {
+    await this.findActive(groupId, userId, [GroupRole.OWNER]);
+    if (newOwnerId === userId) {
+      throw new BadRequestException('You already own this group');
+    }
+    await this.assertMember(groupId, newOwnerId);
+    await this.assertNotGuest(newOwnerId);
+
+    await this.members.manager.transaction(async (manager) => {
+      await manager.update(GroupMember, { groupId, userId }, { role: GroupRole.ADMIN });
+      await manager.update(GroupMember, { groupId, userId: newOwnerId }, { role: GroupRole.OWNER });
+    });
+    return this.findOne(groupId, userId);
+  }
+
+  /**
+   * Drops the user from every group, archiving groups nobody is left in.
+   * Groups they owned pass to the longest-standing admin, or failing that to
+   * the longest-standing remaining member.
+   */
+  async removeUserFromAllGroups(userId: string, manager: EntityManager = this.members.manager): Promise<void> {
+    const memberships = await manager.find(GroupMember, { where: { userId } });
+    if (memberships.length === 0) {
+      return;
+    }
+
+    const groupIds = memberships.map((member) => member.groupId);
+    await manager.delete(GroupMember, { userId });
+
+    const remaining = await manager.find(GroupMember, {
+      where: { groupId: In(groupIds) },
+      order: { joinedAt: 'ASC' },
+    });
+    const emptyGroupIds = groupIds.filter((groupId) => !remaining.some((member) => member.groupId === groupId));
+    if (emptyGroupIds.length > 0) {
+      await manager.update(Group, { id: In(emptyGroupIds) }, { archivedAt: new Date() });
+    }
+
+    const ownedGroupIds = memberships
+      .filter((member) => member.role === GroupRole.OWNER)
+      .map((member) => member.groupId);
+    for (const groupId of ownedGroupIds) {
+      const candidates = remaining.filter((member) => member.groupId === groupId);
+      const successor = candidates.find((member) => member.role === GroupRole.ADMIN) ?? candidates[0];
+      if (successor) {
+        await manager.update(GroupMember, successor.id, { role: GroupRole.OWNER });
+      }
+    }
+  }
+
+  /**
+   * Locks every group the user belongs to until the transaction ends. Adding
+   * an expense or settlement to a group has to wait for the lock, so balances
+   * read inside the transaction cannot change before it commits.
+   */
+  async lockGroupsOf(userId: string, manager: EntityManager): Promise<void> {
+    const memberships = await manager.find(GroupMember, { where: { userId } });
+    if (memberships.length > 0) {
+      await manager.find(Group, {
+        where: { id: In(memberships.map((member) => member.groupId)) },
+        lock: { mode: 'pessimistic_write' },
+      });
+    }
+  }
+
+  /** Guests cannot sign in, so granting them a role would have no effect. */
+  private async assertNotGuest(userId: string): Promise<void> {
+    if (await this.users.exists({ where: { id: userId, isGuest: true } })) {
+      throw new BadRequestException('Guests cannot be given a role; invite them to claim their place first');
+    }
+  }
+
+  private guest(name: string): User {
+    return this.users.create({ firstName: name.trim(), lastName: '', isGuest: true });
+  }
+}
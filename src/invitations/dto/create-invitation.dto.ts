@@ -0,0 +1,17 @@
+import { IsEmail, IsOptional, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateInvitationDto {
+  @IsEmail()
+  @MaxLength(254)
+  email: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  message?: string;
+
+  /** A guest member of the group for the invitee to claim. */
+  @IsOptional()
+  @IsUUID()
+  guestId?: string;
+}
@@ -0,0 +1,74 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Group } from '../../groups/entities/group.entity';
+import { User } from '../../users/entities/user.entity';
+
+export enum InvitationStatus {
+  PENDING = 'pending',
+  ACCEPTED = 'accepted',
+  DECLINED = 'declined',
+  REVOKED = 'revoked',
+}
+
+/** An invitation to join a group, redeemed through a single-use link. */
+@Entity('group_invitations')
+@Index(['groupId', 'status'])
+export class GroupInvitation {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  groupId: string;
+
+  @ManyToOne(() => Group, { onDelete: 'CASCADE' })
+  group: Group;
+
+  @Column({ length: 254 })
+  email: string;
+
+  @Column({ type: 'text', nullable: true })
+  message: string | null;
+
+  @Column('uuid')
+  invitedBy: string;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'invitedBy' })
+  inviter: User;
+
+  /** The guest member whose place, and history, the invitee takes over. */
+  @Column({ type: 'uuid', nullable: true })
+  guestId: string | null;
+
+  @ManyToOne(() => User, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'guestId' })
+  guest: User | null;
+
+  /** SHA-256 of the token; the token itself is only ever in the link. */
+  @Index({ unique: true })
+  @Column({ length: 64, select: false })
+  tokenHash: string;
+
+  @Column({ type: 'enum', enum: InvitationStatus, default: InvitationStatus.PENDING })
+  status: InvitationStatus;
+
+  @Column({ type: 'timestamptz' })
+  expiresAt: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  respondedAt: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,20 @@
+import { GroupInvitation } from '../entities/group-invitation.entity';
+
+/** Returned whenever a token is minted; the link cannot be recovered later. */
+export interface IssuedInvitation {
+  invitation: GroupInvitation;
+  link: string;
+  /** The link as a PNG data URL, for scanning from another device. */
+  qrCode: string;
+}
+
+/** What someone holding the link may see before signing in. */
+export interface InvitationPreview {
+  groupName: string;
+  invitedBy: string;
+  email: string;
+  message: string | null;
+  /** Set when accepting takes over a guest member's place in the group. */
+  guestName: string | null;
+  expiresAt: Date;
+}
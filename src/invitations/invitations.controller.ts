@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+} from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { Public } from '../common/decorators/public.decorator';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { InvitationsService } from './invitations.service';
+
+@Controller()
+export class InvitationsController {
+  constructor(private readonly invitationsService: InvitationsService) {}
+
+  @Post('groups/:groupId/invitations')
+  create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateInvitationDto,
+  ) {
+    return this.invitationsService.create(groupId, user.id, dto);
+  }
+
+  @Get('groups/:groupId/invitations')
+  findPending(@CurrentUser() user: AuthenticatedUser, @Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.invitationsService.findPending(groupId, user.id);
+  }
+
+  @Post('groups/:groupId/invitations/:id/resend')
+  resend(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.invitationsService.resend(groupId, id, user.id);
+  }
+
+  @Delete('groups/:groupId/invitations/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.invitationsService.revoke(groupId, id, user.id);
+  }
+
+  @Public()
+  @Get('invitations/:token')
+  preview(@Param('token') token: string) {
+    return this.invitationsService.preview(token);
+  }
+
+  @Post('invitations/:token/accept')
+  @HttpCode(HttpStatus.OK)
+  accept(@CurrentUser() user: AuthenticatedUser, @Param('token') token: string) {
+    return this.invitationsService.accept(token, user.id);
+  }
+
+  @Public()
+  @Post('invitations/:token/decline')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  decline(@Param('token') token: string) {
+    return this.invitationsService.decline(token);
+  }
+}
@@ -0,0 +1,235 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import * as QRCode from 'qrcode';
+import { Repository } from 'typeorm';
+import { generateToken, hashToken } from '../auth/token-hash';
+import { ExpenseLineItem } from '../expenses/entities/expense-line-item.entity';
+import { ExpensePayer } from '../expenses/entities/expense-payer.entity';
+import { ExpenseShare } from '../expenses/entities/expense-share.entity';
+import { Expense } from '../expenses/entities/expense.entity';
+import { CONTRIBUTOR_ROLES, GroupMember, GroupRole } from '../groups/entities/group-member.entity';
+import { Group } from '../groups/entities/group.entity';
+import { GroupsService } from '../groups/groups.service';
+import { MailTransport } from '../mail/mail-transport';
+import { RecurringExpensePayer } from '../recurring-expenses/entities/recurring-expense-payer.entity';
+import { RecurringExpenseSplit } from '../recurring-expenses/entities/recurring-expense-split.entity';
+import { Settlement } from '../settlements/entities/settlement.entity';
+import { User } from '../users/entities/user.entity';
+import { CreateInvitationDto } from './dto/create-invitation.dto';
+import { GroupInvitation, InvitationStatus } from './entities/group-invitation.entity';
+import { InvitationPreview, IssuedInvitation } from './interfaces/invitation.interface';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class InvitationsService {
+  constructor(
+    @InjectRepository(GroupInvitation)
+    private readonly invitations: Repository<GroupInvitation>,
+    private readonly groupsService: GroupsService,
+    private readonly mailTransport: MailTransport,
+    private readonly config: ConfigService,
+  ) {}
+
+  async create(groupId: string, userId: string, dto: CreateInvitationDto): Promise<IssuedInvitation> {
+    const group = await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const email = dto.email.trim().toLowerCase();
+    if (group.members.some((member) => member.user?.email === email)) {
+      throw new ConflictException(`${email} is already a member of this group`);
+    }
+    if (dto.guestId && !group.members.some((member) => member.userId === dto.guestId && member.user?.isGuest)) {
+      throw new BadRequestException('Only guest members of this group can be claimed');
+    }
+
+    // A newer invitation replaces any that is still outstanding for the same address.
+    await this.invitations.update(
+      { groupId, email, status: InvitationStatus.PENDING },
+      { status: InvitationStatus.REVOKED, respondedAt: new Date() },
+    );
+
+    const invitation = this.invitations.create({
+      groupId,
+      email,
+      message: dto.message?.trim() || null,
+      invitedBy: userId,
+      guestId: dto.guestId ?? null,
+    });
+    return this.issue(invitation, group, userId);
+  }
+
+  async findPending(groupId: string, userId: string): Promise<GroupInvitation[]> {
+    await this.groupsService.assertMember(groupId, userId);
+    return this.invitations.find({
+      where: { groupId, status: InvitationStatus.PENDING },
+      order: { createdAt: 'DESC' },
+    });
+  }
+
+  /** Mints a fresh link with a new expiry and emails it again; the old link stops working. */
+  async resend(groupId: string, id: string, userId: string): Promise<IssuedInvitation> {
+    const group = await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const invitation = await this.findPendingById(groupId, id);
+    return this.issue(invitation, group, userId);
+  }
+
+  async revoke(groupId: string, id: string, userId: string): Promise<void> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const invitation = await this.findPendingById(groupId, id);
+    invitation.status = InvitationStatus.REVOKED;
+    invitation.respondedAt = new Date();
+    await this.invitations.save(invitation);
+  }
+
+  async preview(token: string): Promise<InvitationPreview> {
+    const invitation = await this.findValidByToken(token);
+    return {
+      groupName: invitation.group.name,
+      invitedBy: `${invitation.inviter.firstName} ${invitation.inviter.lastName}`,
+      email: invitation.email,
+      message: invitation.message,
+      guestName: invitation.guest ? `${invitation.guest.firstName} ${invitation.guest.lastName}`.trim() : null,
+      expiresAt: invitation.expiresAt,
+    };
+  }
+
+  /**
+   * Joins the group the link was issued for. Links are shareable, so whoever
+   * redeems one first becomes the member, regardless of the invited address.
+   * Links issued for a guest put the user in the guest's place.
+   */
+  async accept(token: string, userId: string): Promise<Group> {
+    const invitation = await this.findValidByToken(token);
+    await this.claim(invitation, InvitationStatus.ACCEPTED);
+
+    try {
+      if (invitation.guestId) {
+        await this.takeOverGuest(invitation.groupId, invitation.guestId, userId);
+      } else {
+        await this.groupsService.addMember(invitation.groupId, userId);
+      }
+    } catch (error) {
+      // Leave the link usable if joining failed, e.g. because the user already belongs.
+      await this.invitations.update(invitation.id, { status: InvitationStatus.PENDING, respondedAt: null });
+      throw error;
+    }
+    return this.groupsService.findOne(invitation.groupId, userId);
+  }
+
+  async decline(token: string): Promise<void> {
+    const invitation = await this.findValidByToken(token);
+    await this.claim(invitation, InvitationStatus.DECLINED);
+  }
+
+  private async issue(invitation: GroupInvitation, group: Group, userId: string): Promise<IssuedInvitation> {
+    const token = generateToken();
+    const ttlDays = Number(this.config.get('INVITATION_TTL_DAYS', 7));
+    invitation.tokenHash = hashToken(token);
+    invitation.expiresAt = new Date(Date.now() + ttlDays * DAY_MS);
+    const saved = await this.invitations.save(invitation);
+
+    const appUrl = this.config.get('APP_URL', 'http://localhost:3001');
+    const link = `${appUrl}/invite/${encodeURIComponent(token)}`;
+    const inviter = group.members.find((member) => member.userId === userId)?.user;
+    const inviterName = inviter ? `${inviter.firstName} ${inviter.lastName}` : 'A spltr3 user';
+    const guest = group.members.find((member) => member.userId === saved.guestId)?.user;
+
+    await this.mailTransport.send({
+      to: saved.email,
+      subject: `${inviterName} invited you to ${group.name} on spltr3`,
+      text:
+        `${inviterName} invited you to split expenses in "${group.name}".\n\n` +
+        (saved.message ? `"${saved.message}"\n\n` : '') +
+        (guest ? `You will take over ${guest.firstName}'s place and the expenses recorded for them.\n\n` : '') +
+        `Use the link below within ${ttlDays} days to join:\n\n${link}`,
+    });
+
+    return {
+      invitation: await this.invitations.findOneByOrFail({ id: saved.id }),
+      link,
+      qrCode: await QRCode.toDataURL(link),
+    };
+  }
+
+  private async findPendingById(groupId: string, id: string): Promise<GroupInvitation> {
+    const invitation = await this.invitations.findOne({
+      where: { id, groupId, status: InvitationStatus.PENDING },
+    });
+    if (!invitation) {
+      throw new NotFoundException(`Invitation ${id} not found`);
+    }
+    return invitation;
+  }
+
+  private async findValidByToken(token: string): Promise<GroupInvitation> {
+    const invitation = await this.invitations.findOne({
+      where: { tokenHash: hashToken(token) },
+      relations: { group: true, inviter: true, guest: true },
+    });
+    if (
+      !invitation ||
+      invitation.status !== InvitationStatus.PENDING ||
+      invitation.expiresAt.getTime() <= Date.now() ||
+      invitation.group.archivedAt
+    ) {
+      throw new BadRequestException('This invitation is invalid or has expired');
+    }
+    return invitation;
+  }
+
+  /**
+   * Moves the guest's membership and every expense, share and settlement
+   * recorded for them over to the user, then deletes the placeholder. Users
+   * with history of their own in the group, e.g. former members, cannot take
+   * over a guest as their shares would collide.
+   */
+  private async takeOverGuest(groupId: string, guestId: string, userId: string): Promise<void> {
+    await this.invitations.manager.transaction(async (manager) => {
+      if (await manager.exists(GroupMember, { where: { groupId, userId } })) {
+        throw new ConflictException('You are already a member of this group');
+      }
+      const hasHistory =
+        (await manager.exists(Expense, { where: { groupId, paidBy: userId } })) ||
+        (await manager.exists(ExpenseShare, { where: { userId, expense: { groupId } } })) ||
+        (await manager.exists(ExpensePayer, { where: { userId, expense: { groupId } } })) ||
+        (await manager.exists(RecurringExpensePayer, { where: { userId, recurringExpense: { groupId } } })) ||
+        (await manager.exists(RecurringExpenseSplit, { where: { userId, recurringExpense: { groupId } } })) ||
+        (await manager.exists(Settlement, { where: [{ groupId, paidBy: userId }, { groupId, paidTo: userId }] }));
+      if (hasHistory) {
+        throw new ConflictException('You already have expenses in this group, so you cannot take over a guest');
+      }
+
+      // The guest may have been removed from the group since; their history still counts.
+      const moved = await manager.update(GroupMember, { groupId, userId: guestId }, { userId });
+      if (!moved.affected) {
+        await manager.insert(GroupMember, { groupId, userId, role: GroupRole.MEMBER });
+      }
+      await manager.update(Expense, { groupId, paidBy: guestId }, { paidBy: userId });
+      await manager.update(ExpenseShare, { userId: guestId }, { userId });
+      await manager.update(ExpensePayer, { userId: guestId }, { userId });
+      await manager.update(RecurringExpensePayer, { userId: guestId }, { userId });
+      await manager.update(RecurringExpenseSplit, { userId: guestId }, { userId });
+      await manager
+        .createQueryBuilder()
+        .update(ExpenseLineItem)
+        .set({ assignedTo: () => 'array_replace("assignedTo", CAST(:guestId AS uuid), CAST(:userId AS uuid))' })
+        .where('CAST(:guestId AS uuid) = ANY("assignedTo")')
+        .setParameters({ guestId, userId })
+        .execute();
+      await manager.update(Settlement, { groupId, paidBy: guestId }, { paidBy: userId });
+      await manager.update(Settlement, { groupId, paidTo: guestId }, { paidTo: userId });
+      await manager.delete(User, { id: guestId, isGuest: true });
+    });
+  }
+
+  /** Marks the invitation as answered, failing if a concurrent request got there first. */
+  private async claim(invitation: GroupInvitation, status: InvitationStatus): Promise<void> {
+    const claimed = await this.invitations.update(
+      { id: invitation.id, status: InvitationStatus.PENDING },
+      { status, respondedAt: new Date() },
+    );
+    if (!claimed.affected) {
+      throw new BadRequestException('This invitation is invalid or has expired');
+    }
+  }
+}
@@ -0,0 +1,14 @@
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+/**
+ * Delivers outgoing mail. Bound in {@link MailModule} to an implementation
+ * chosen by `MAIL_TRANSPORT`; swap in a provider-backed transport for production.
+ */
+export abstract class MailTransport {
+  abstract send(message: MailMessage): Promise<void>;
+}
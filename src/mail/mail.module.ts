@@ -0,0 +1,27 @@
+import { Global, Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailTransport } from './mail-transport';
+import { ConsoleMailTransport } from './transports/console-mail.transport';
+import { FileMailTransport } from './transports/file-mail.transport';
+
+@Global()
+@Module({
+  providers: [
+    {
+      provide: MailTransport,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService): MailTransport => {
+        switch (config.get('MAIL_TRANSPORT', 'console')) {
+          case 'file':
+            return new FileMailTransport(config.get('MAIL_OUTBOX_DIR', 'tmp/outbox'));
+          case 'console':
+            return new ConsoleMailTransport();
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${config.get('MAIL_TRANSPORT')}"`);
+        }
+      },
+    },
+  ],
+  exports: [MailTransport],
+})
+export class MailModule {}
@@ -0,0 +1,12 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MailMessage, MailTransport } from '../mail-transport';
+
+/** Logs messages instead of sending them. The default for local development. */
+@Injectable()
+export class ConsoleMailTransport extends MailTransport {
+  private readonly logger = new Logger(ConsoleMailTransport.name);
+
+  async send(message: MailMessage): Promise<void> {
+    this.logger.log(`To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  }
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mail-transport';
+
+/** Writes each message as a JSON file into an outbox directory, so delivery can be inspected offline. */
+@Injectable()
+export class FileMailTransport extends MailTransport {
+  constructor(private readonly outboxDir: string) {
+    super();
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID()}.json`;
+    await writeFile(join(this.outboxDir, fileName), JSON.stringify(message, null, 2));
+  }
+}
@@ -5,6 +5,8 @@ import helmet from 'helmet';
 import compression from 'compression';
 import { WinstonModule } from 'nest-winston';
 import * as winston from 'winston';
+import { validationExceptionFactory } from './common/errors/validation-exception.factory';
+import { AppExceptionFilter } from './common/filters/app-exception.filter';
 
 async function bootstrap() {
   const app = await NestFactory.create(AppModule, {
@@ -36,9 +38,13 @@ async function bootstrap() {
       transformOptions: {
         enableImplicitConversion: true,
       },
+      exceptionFactory: validationExceptionFactory,
     }),
   );
 
+  // Global filters
+  app.useGlobalFilters(new AppExceptionFilter());
+
   // Enable CORS
   app.enableCors({
     origin: process.env.CORS_ORIGIN || '*',
@@ -0,0 +1,30 @@
+import { OmitType } from '@nestjs/swagger';
+import { IsDateString, IsEnum, IsInt, IsOptional, Max, Min } from 'class-validator';
+import { CreateExpenseDto } from '../../expenses/dto/create-expense.dto';
+import { RecurrenceFrequency } from '../entities/recurring-expense.entity';
+
+/**
+ * An expense that repeats, starting on `date`. Itemized receipts differ every
+ * time, so they cannot repeat, and each expense locks the rate on its own date.
+ */
+export class CreateRecurringExpenseDto extends OmitType(CreateExpenseDto, [
+  'items',
+  'tax',
+  'tip',
+  'exchangeRate',
+] as const) {
+  @IsEnum(RecurrenceFrequency)
+  frequency: RecurrenceFrequency;
+
+  /** The last date an expense may be created on. */
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  /** How many times the expense repeats in total, the first one included. */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1000)
+  occurrences?: number;
+}
@@ -0,0 +1,8 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateRecurringExpenseDto } from './create-recurring-expense.dto';
+
+/**
+ * Changes apply to expenses created from now on. A new `date` or `frequency`
+ * restarts the schedule from that date, or from the next occurrence.
+ */
+export class UpdateRecurringExpenseDto extends PartialType(CreateRecurringExpenseDto) {}
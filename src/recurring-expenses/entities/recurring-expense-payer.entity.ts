@@ -0,0 +1,27 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { RecurringExpense } from './recurring-expense.entity';
+
+/** What one member pays towards every occurrence of a recurring expense. */
+@Entity('recurring_expense_payers')
+@Unique(['recurringExpenseId', 'userId'])
+export class RecurringExpensePayer {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  recurringExpenseId: string;
+
+  @ManyToOne(() => RecurringExpense, (recurring) => recurring.payers, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  recurringExpense: RecurringExpense;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  amount: number;
+}
@@ -0,0 +1,33 @@
+import { Column, Entity, ManyToOne, PrimaryGeneratedColumn, Unique } from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { RecurringExpense } from './recurring-expense.entity';
+
+/** One member's part in the split of a recurring expense, as it was entered. */
+@Entity('recurring_expense_splits')
+@Unique(['recurringExpenseId', 'userId'])
+export class RecurringExpenseSplit {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  recurringExpenseId: string;
+
+  @ManyToOne(() => RecurringExpense, (recurring) => recurring.splits, {
+    onDelete: 'CASCADE',
+    orphanedRowAction: 'delete',
+  })
+  recurringExpense: RecurringExpense;
+
+  @Column('uuid')
+  userId: string;
+
+  @Column({ type: 'numeric', precision: 5, scale: 2, nullable: true, transformer: decimalTransformer })
+  percentage: number | null;
+
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, nullable: true, transformer: decimalTransformer })
+  amount: number | null;
+
+  @Column({ type: 'numeric', precision: 10, scale: 2, nullable: true, transformer: decimalTransformer })
+  weight: number | null;
+}
@@ -0,0 +1,107 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { SplitType } from '../../expenses/entities/expense.entity';
+import { Group } from '../../groups/entities/group.entity';
+import { RecurringExpensePayer } from './recurring-expense-payer.entity';
+import { RecurringExpenseSplit } from './recurring-expense-split.entity';
+
+export enum RecurrenceFrequency {
+  DAILY = 'daily',
+  WEEKLY = 'weekly',
+  MONTHLY = 'monthly',
+  YEARLY = 'yearly',
+}
+
+/**
+ * A template that the scheduler turns into an expense on every occurrence,
+ * such as the monthly rent. Edits only apply to expenses created afterwards.
+ */
+@Entity('recurring_expenses')
+@Index(['paused', 'nextDate'])
+export class RecurringExpense {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  groupId: string;
+
+  @ManyToOne(() => Group, { onDelete: 'CASCADE' })
+  group: Group;
+
+  @Column({ length: 200 })
+  description: string;
+
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  amount: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  @Column({ type: 'enum', enum: SplitType, default: SplitType.EQUAL })
+  splitType: SplitType;
+
+  @OneToMany(() => RecurringExpensePayer, (payer) => payer.recurringExpense, { cascade: true })
+  payers: RecurringExpensePayer[];
+
+  /** Empty for an equal split between whoever is in the group when an expense is created. */
+  @OneToMany(() => RecurringExpenseSplit, (split) => split.recurringExpense, { cascade: true })
+  splits: RecurringExpenseSplit[];
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @Column({ type: 'varchar', length: 36, nullable: true })
+  category: string | null;
+
+  @Column({ type: 'enum', enum: RecurrenceFrequency })
+  frequency: RecurrenceFrequency;
+
+  /**
+   * The date occurrences are counted from. Occurrences are worked out from it
+   * rather than from each other, so the 31st stays the 31st after February.
+   */
+  @Column({ type: 'date' })
+  anchorDate: string;
+
+  /** Occurrences since `anchorDate` that have been created or skipped. */
+  @Column({ type: 'int', default: 0 })
+  position: number;
+
+  /** The date of the next occurrence, or null once the schedule has ended. */
+  @Column({ type: 'date', nullable: true })
+  nextDate: string | null;
+
+  /** No expenses are created after this date. */
+  @Column({ type: 'date', nullable: true })
+  endDate: string | null;
+
+  /** How many times the expense repeats in total, skipped occurrences included. */
+  @Column({ type: 'int', nullable: true })
+  occurrences: number | null;
+
+  /** Occurrences used up so far, created or skipped. */
+  @Column({ type: 'int', default: 0 })
+  completed: number;
+
+  @Column({ default: false })
+  paused: boolean;
+
+  @Column('uuid')
+  createdBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
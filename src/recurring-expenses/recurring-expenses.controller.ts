@@ -0,0 +1,83 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Param, ParseUUIDPipe, Patch, Post } from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { CreateRecurringExpenseDto } from './dto/create-recurring-expense.dto';
+import { UpdateRecurringExpenseDto } from './dto/update-recurring-expense.dto';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+@Controller('groups/:groupId/recurring-expenses')
+export class RecurringExpensesController {
+  constructor(private readonly recurringExpensesService: RecurringExpensesService) {}
+
+  @Post()
+  create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateRecurringExpenseDto,
+  ) {
+    return this.recurringExpensesService.create(groupId, user.id, dto);
+  }
+
+  @Get()
+  findAll(@CurrentUser() user: AuthenticatedUser, @Param('groupId', ParseUUIDPipe) groupId: string) {
+    return this.recurringExpensesService.findAll(groupId, user.id);
+  }
+
+  @Get(':id')
+  findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringExpensesService.findOne(groupId, id, user.id);
+  }
+
+  @Patch(':id')
+  update(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: UpdateRecurringExpenseDto,
+  ) {
+    return this.recurringExpensesService.update(groupId, id, user.id, dto);
+  }
+
+  @Post(':id/pause')
+  @HttpCode(HttpStatus.OK)
+  pause(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringExpensesService.pause(groupId, id, user.id);
+  }
+
+  @Post(':id/resume')
+  @HttpCode(HttpStatus.OK)
+  resume(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringExpensesService.resume(groupId, id, user.id);
+  }
+
+  @Post(':id/skip')
+  @HttpCode(HttpStatus.OK)
+  skip(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringExpensesService.skip(groupId, id, user.id);
+  }
+
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.recurringExpensesService.remove(groupId, id, user.id);
+  }
+}
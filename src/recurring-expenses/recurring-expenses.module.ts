@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExpensesModule } from '../expenses/expenses.module';
+import { GroupsModule } from '../groups/groups.module';
+import { RecurringExpensePayer } from './entities/recurring-expense-payer.entity';
+import { RecurringExpenseSplit } from './entities/recurring-expense-split.entity';
+import { RecurringExpense } from './entities/recurring-expense.entity';
+import { RecurringExpensesController } from './recurring-expenses.controller';
+import { RecurringExpensesScheduler } from './recurring-expenses.scheduler';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+@Module({
+  imports: [
+    TypeOrmModule.forFeature([RecurringExpense, RecurringExpensePayer, RecurringExpenseSplit]),
+    GroupsModule,
+    ExpensesModule,
+  ],
+  controllers: [RecurringExpensesController],
+  providers: [RecurringExpensesService, RecurringExpensesScheduler],
+})
+export class RecurringExpensesModule {}
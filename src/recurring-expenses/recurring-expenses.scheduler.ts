@@ -0,0 +1,45 @@
+import { Injectable, Logger, OnApplicationBootstrap, OnModuleDestroy } from '@nestjs/common';
+import { RecurringExpensesService } from './recurring-expenses.service';
+
+const RUN_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Creates the recurring expenses that have come due, once when the app starts
+ * and then every hour. Expenses missed while the app was down are caught up
+ * on the next run.
+ */
+@Injectable()
+export class RecurringExpensesScheduler implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(RecurringExpensesScheduler.name);
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly recurringExpensesService: RecurringExpensesService) {}
+
+  onApplicationBootstrap() {
+    void this.run();
+    this.timer = setInterval(() => void this.run(), RUN_INTERVAL_MS).unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.timer);
+  }
+
+  /** Does nothing while the previous run is still going. */
+  async run(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    try {
+      const created = await this.recurringExpensesService.generateDue();
+      if (created > 0) {
+        this.logger.log(`Created ${created} recurring expense(s)`);
+      }
+    } catch (error) {
+      this.logger.error('Creating recurring expenses failed', error instanceof Error ? error.stack : String(error));
+    } finally {
+      this.running = false;
+    }
+  }
+}
@@ -0,0 +1,320 @@
+import { BadRequestException, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, LessThanOrEqual, Repository } from 'typeorm';
+import { today } from '../common/dates';
+import { CreateExpenseDto } from '../expenses/dto/create-expense.dto';
+import { Expense, SplitType } from '../expenses/entities/expense.entity';
+import { ExpensesService } from '../expenses/expenses.service';
+import { CONTRIBUTOR_ROLES } from '../groups/entities/group-member.entity';
+import { GroupsService } from '../groups/groups.service';
+import { CreateRecurringExpenseDto } from './dto/create-recurring-expense.dto';
+import { UpdateRecurringExpenseDto } from './dto/update-recurring-expense.dto';
+import { RecurringExpensePayer } from './entities/recurring-expense-payer.entity';
+import { RecurringExpenseSplit } from './entities/recurring-expense-split.entity';
+import { RecurringExpense } from './entities/recurring-expense.entity';
+import { nextOccurrence } from './schedule';
+
+/**
+ * Past occurrences a request creates at most, so a schedule starting long ago
+ * does not hold up the request; the scheduler catches up the rest.
+ */
+const MAX_CREATED_PER_REQUEST = 5;
+
+type TemplateFields = Pick<
+  RecurringExpense,
+  'description' | 'amount' | 'currency' | 'splitType' | 'notes' | 'category' | 'payers' | 'splits'
+>;
+
+@Injectable()
+export class RecurringExpensesService {
+  private readonly logger = new Logger(RecurringExpensesService.name);
+
+  constructor(
+    @InjectRepository(RecurringExpense)
+    private readonly recurring: Repository<RecurringExpense>,
+    @InjectRepository(RecurringExpensePayer)
+    private readonly payers: Repository<RecurringExpensePayer>,
+    @InjectRepository(RecurringExpenseSplit)
+    private readonly splits: Repository<RecurringExpenseSplit>,
+    private readonly groupsService: GroupsService,
+    private readonly expensesService: ExpensesService,
+  ) {}
+
+  /**
+   * Saves the schedule and creates the expenses that are already due, such as
+   * the first one for today, up to {@link MAX_CREATED_PER_REQUEST}.
+   */
+  async create(groupId: string, userId: string, dto: CreateRecurringExpenseDto): Promise<RecurringExpense> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    await this.validate(groupId, dto, dto.date, dto.endDate ?? null);
+
+    const recurring = this.recurring.create({
+      groupId,
+      ...this.templateFields(dto),
+      frequency: dto.frequency,
+      anchorDate: dto.date,
+      position: 0,
+      endDate: dto.endDate ?? null,
+      occurrences: dto.occurrences ?? null,
+      completed: 0,
+      paused: false,
+      createdBy: userId,
+    });
+    recurring.nextDate = nextOccurrence(recurring);
+    const saved = await this.recurring.save(recurring);
+    await this.generate(saved.id, today(), MAX_CREATED_PER_REQUEST);
+    return this.findOne(groupId, saved.id, userId);
+  }
+
+  async findAll(groupId: string, userId: string): Promise<RecurringExpense[]> {
+    await this.groupsService.assertMember(groupId, userId);
+    return this.recurring.find({
+      where: { groupId },
+      relations: { payers: true, splits: true },
+      order: { createdAt: 'ASC' },
+    });
+  }
+
+  async findOne(groupId: string, id: string, userId: string): Promise<RecurringExpense> {
+    await this.groupsService.assertMember(groupId, userId);
+    const recurring = await this.recurring.findOne({
+      where: { id, groupId },
+      relations: { payers: true, splits: true },
+    });
+    if (!recurring) {
+      throw new NotFoundException(`Recurring expense ${id} not found`);
+    }
+    return recurring;
+  }
+
+  /** Changes the expenses created from now on; the ones already created stay as they are. */
+  async update(
+    groupId: string,
+    id: string,
+    userId: string,
+    dto: UpdateRecurringExpenseDto,
+  ): Promise<RecurringExpense> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const recurring = await this.findOne(groupId, id, userId);
+    // Restart the schedule when its rhythm changes, counting from the new date or the next occurrence
+    const restart = dto.date !== undefined || dto.frequency !== undefined;
+    const anchorDate = restart ? dto.date ?? recurring.nextDate ?? today() : recurring.anchorDate;
+    const endDate = dto.endDate === undefined ? recurring.endDate : dto.endDate ?? null;
+    const current = this.toExpenseDto(recurring, anchorDate);
+    // A single payer follows the amount; several payers have to be given again when it changes
+    const keptPayers =
+      current.payers?.length === 1 ? [{ ...current.payers[0], amount: dto.amount ?? current.amount }] : current.payers;
+    const next: CreateRecurringExpenseDto = {
+      ...current,
+      frequency: recurring.frequency,
+      ...dto,
+      payers: dto.payers ?? (dto.paidBy !== undefined ? undefined : keptPayers),
+    };
+    await this.validate(groupId, next, anchorDate, endDate);
+
+    await this.recurring.manager.transaction(async (manager) => {
+      // Progress made since the schedule was read above is kept
+      const locked = await this.lock(manager, id);
+      if (restart) {
+        locked.anchorDate = dto.date ?? locked.nextDate ?? today();
+        locked.position = 0;
+      }
+      await manager.delete(RecurringExpensePayer, { recurringExpenseId: id });
+      await manager.delete(RecurringExpenseSplit, { recurringExpenseId: id });
+      Object.assign(locked, this.templateFields(next), {
+        frequency: next.frequency,
+        endDate,
+        occurrences: dto.occurrences === undefined ? locked.occurrences : dto.occurrences ?? null,
+      });
+      locked.nextDate = nextOccurrence(locked);
+      await manager.save(locked);
+    });
+    await this.generate(id, today(), MAX_CREATED_PER_REQUEST);
+    return this.findOne(groupId, id, userId);
+  }
+
+  async pause(groupId: string, id: string, userId: string): Promise<RecurringExpense> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const recurring = await this.findOne(groupId, id, userId);
+    await this.recurring.update(id, { paused: true });
+    return { ...recurring, paused: true };
+  }
+
+  /** Occurrences that fell while the schedule was paused are skipped rather than created late. */
+  async resume(groupId: string, id: string, userId: string): Promise<RecurringExpense> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    await this.findOne(groupId, id, userId);
+    const date = today();
+    await this.recurring.manager.transaction(async (manager) => {
+      const recurring = await this.lock(manager, id);
+      recurring.paused = false;
+      while (recurring.nextDate !== null && recurring.nextDate < date) {
+        this.advance(recurring);
+      }
+      await this.saveProgress(recurring, manager);
+    });
+    await this.generate(id, date, MAX_CREATED_PER_REQUEST);
+    return this.findOne(groupId, id, userId);
+  }
+
+  /** Skips the next occurrence without creating an expense for it. */
+  async skip(groupId: string, id: string, userId: string): Promise<RecurringExpense> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    await this.findOne(groupId, id, userId);
+    return this.recurring.manager.transaction(async (manager) => {
+      const recurring = await this.lock(manager, id);
+      if (recurring.nextDate === null) {
+        throw new BadRequestException('This recurring expense has no occurrences left');
+      }
+      this.advance(recurring);
+      await this.saveProgress(recurring, manager);
+      return recurring;
+    });
+  }
+
+  /** Stops the schedule. Expenses it already created are kept. */
+  async remove(groupId: string, id: string, userId: string): Promise<void> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const recurring = await this.findOne(groupId, id, userId);
+    await this.recurring.manager.transaction(async (manager) => {
+      await manager.update(Expense, { recurringExpenseId: id }, { recurringExpenseId: null });
+      await manager.remove(recurring);
+    });
+  }
+
+  /** Creates every expense that is due by `date`, across all groups. Returns how many were created. */
+  async generateDue(date = today()): Promise<number> {
+    const due = await this.recurring.find({
+      select: { id: true },
+      where: { paused: false, nextDate: LessThanOrEqual(date) },
+    });
+    let created = 0;
+    for (const { id } of due) {
+      created += await this.generate(id, date);
+    }
+    return created;
+  }
+
+  /** Creates the missing expenses of one schedule up to `date`, at most `limit` of them. */
+  private async generate(id: string, date: string, limit = Infinity): Promise<number> {
+    let created = 0;
+    while (created < limit && (await this.generateNext(id, date))) {
+      created += 1;
+    }
+    return created;
+  }
+
+  /**
+   * Creates the next expense of a schedule when it is due by `date`, and
+   * advances the schedule in the same transaction. The schedule stays locked
+   * meanwhile, so a request and the scheduler never create the same
+   * occurrence twice. When the expense cannot be created, for example because
+   * a member in the split has left the group, the schedule is paused until
+   * someone edits it. Returns whether an expense was created.
+   */
+  private generateNext(id: string, date: string): Promise<boolean> {
+    return this.recurring.manager.transaction(async (manager) => {
+      const recurring = await this.lock(manager, id);
+      if (recurring.paused || recurring.nextDate === null || recurring.nextDate > date) {
+        return false;
+      }
+
+      let expense: Expense;
+      try {
+        expense = await this.expensesService.prepare(
+          recurring.groupId,
+          recurring.createdBy,
+          this.toExpenseDto(recurring, recurring.nextDate),
+          recurring.id,
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Pausing recurring expense ${recurring.id}: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        recurring.paused = true;
+        await this.saveProgress(recurring, manager);
+        return false;
+      }
+      await manager.save(expense);
+      this.advance(recurring);
+      await this.saveProgress(recurring, manager);
+      return true;
+    });
+  }
+
+  /** Locks a schedule for the rest of the transaction and reads it afresh. */
+  private async lock(manager: EntityManager, id: string): Promise<RecurringExpense> {
+    // Postgres cannot lock the outer-joined payers and splits, so the row is locked on its own first
+    await manager.findOneOrFail(RecurringExpense, { where: { id }, lock: { mode: 'pessimistic_write' } });
+    return manager.findOneOrFail(RecurringExpense, { where: { id }, relations: { payers: true, splits: true } });
+  }
+
+  private async validate(
+    groupId: string,
+    dto: CreateRecurringExpenseDto,
+    startDate: string,
+    endDate: string | null,
+  ): Promise<void> {
+    if (dto.splitType === SplitType.ITEMIZED) {
+      throw new BadRequestException('Itemized expenses cannot repeat; add each receipt on its own');
+    }
+    if (endDate !== null && endDate < startDate) {
+      throw new BadRequestException('The end date must be on or after the first date');
+    }
+    await this.expensesService.validate(groupId, dto);
+  }
+
+  private advance(recurring: RecurringExpense): void {
+    recurring.position += 1;
+    recurring.completed += 1;
+    recurring.nextDate = nextOccurrence(recurring);
+  }
+
+  private async saveProgress(recurring: RecurringExpense, manager: EntityManager): Promise<void> {
+    const { position, completed, nextDate, paused } = recurring;
+    await manager.update(RecurringExpense, recurring.id, { position, completed, nextDate, paused });
+  }
+
+  private templateFields(dto: CreateRecurringExpenseDto): TemplateFields {
+    const payers = dto.payers ?? (dto.paidBy ? [{ userId: dto.paidBy, amount: dto.amount }] : []);
+    return {
+      description: dto.description,
+      amount: dto.amount,
+      currency: dto.currency,
+      splitType: dto.splitType,
+      notes: dto.notes ?? null,
+      category: dto.category ?? null,
+      payers: payers.map((payer) => this.payers.create(payer)),
+      splits: (dto.splits ?? []).map((split) =>
+        this.splits.create({
+          userId: split.userId,
+          percentage: split.percentage ?? null,
+          amount: split.amount ?? null,
+          weight: split.weight ?? null,
+        }),
+      ),
+    };
+  }
+
+  /** The expense to create on `date`. Without stored splits an equal split covers the whole group. */
+  private toExpenseDto(recurring: RecurringExpense, date: string): CreateExpenseDto {
+    return {
+      description: recurring.description,
+      amount: recurring.amount,
+      currency: recurring.currency,
+      date,
+      payers: recurring.payers.map(({ userId, amount }) => ({ userId, amount })),
+      splitType: recurring.splitType,
+      splits: recurring.splits.length
+        ? recurring.splits.map((split) => ({
+            userId: split.userId,
+            percentage: split.percentage ?? undefined,
+            amount: split.amount ?? undefined,
+            weight: split.weight ?? undefined,
+          }))
+        : undefined,
+      notes: recurring.notes ?? undefined,
+      category: recurring.category,
+    };
+  }
+}
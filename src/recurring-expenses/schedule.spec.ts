@@ -0,0 +1,52 @@
+import { RecurrenceFrequency } from './entities/recurring-expense.entity';
+import { nextOccurrence, occurrenceDate } from './schedule';
+
+describe('schedule', () => {
+  describe('occurrenceDate', () => {
+    it('counts days and weeks across month and year ends', () => {
+      expect(occurrenceDate('2026-12-30', RecurrenceFrequency.DAILY, 3)).toBe('2027-01-02');
+      expect(occurrenceDate('2026-02-20', RecurrenceFrequency.WEEKLY, 2)).toBe('2026-03-06');
+    });
+
+    it('clamps monthly dates to the end of shorter months without drifting', () => {
+      expect(occurrenceDate('2026-01-31', RecurrenceFrequency.MONTHLY, 1)).toBe('2026-02-28');
+      expect(occurrenceDate('2026-01-31', RecurrenceFrequency.MONTHLY, 2)).toBe('2026-03-31');
+      expect(occurrenceDate('2026-01-31', RecurrenceFrequency.MONTHLY, 3)).toBe('2026-04-30');
+      expect(occurrenceDate('2027-12-31', RecurrenceFrequency.MONTHLY, 2)).toBe('2028-02-29');
+    });
+
+    it('clamps yearly dates on the 29th of February', () => {
+      expect(occurrenceDate('2028-02-29', RecurrenceFrequency.YEARLY, 1)).toBe('2029-02-28');
+      expect(occurrenceDate('2028-02-29', RecurrenceFrequency.YEARLY, 4)).toBe('2032-02-29');
+    });
+
+    it('starts on the anchor date', () => {
+      expect(occurrenceDate('2026-05-15', RecurrenceFrequency.MONTHLY, 0)).toBe('2026-05-15');
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    const schedule = {
+      frequency: RecurrenceFrequency.MONTHLY,
+      anchorDate: '2026-01-31',
+      position: 1,
+      endDate: null,
+      occurrences: null,
+      completed: 1,
+    };
+
+    it('gives the date at the current position', () => {
+      expect(nextOccurrence(schedule)).toBe('2026-02-28');
+    });
+
+    it('stops after the end date', () => {
+      expect(nextOccurrence({ ...schedule, endDate: '2026-02-28' })).toBe('2026-02-28');
+      expect(nextOccurrence({ ...schedule, endDate: '2026-02-27' })).toBeNull();
+    });
+
+    it('stops once every occurrence has been created', () => {
+      expect(nextOccurrence({ ...schedule, occurrences: 2 })).toBe('2026-02-28');
+      expect(nextOccurrence({ ...schedule, occurrences: 1 })).toBeNull();
+    });
+  });
+});
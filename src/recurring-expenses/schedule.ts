@@ -0,0 +1,41 @@
+import { formatDate } from '../common/dates';
+import { RecurrenceFrequency, RecurringExpense } from './entities/recurring-expense.entity';
+
+type Schedule = Pick<
+  RecurringExpense,
+  'frequency' | 'anchorDate' | 'position' | 'endDate' | 'occurrences' | 'completed'
+>;
+
+/** A date in the given month, moved back to the last day of the month when the month is shorter. */
+function clampedDate(year: number, monthIndex: number, day: number): string {
+  const lastDay = new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+  return formatDate(new Date(Date.UTC(year, monthIndex, Math.min(day, lastDay))));
+}
+
+/**
+ * The date `position` occurrences after `anchor`. Monthly and yearly dates
+ * are clamped to the end of shorter months, so an expense on the 31st falls
+ * on the 28th or 29th in February and is back on the 31st in March.
+ */
+export function occurrenceDate(anchor: string, frequency: RecurrenceFrequency, position: number): string {
+  const [year, month, day] = anchor.split('-').map(Number);
+  switch (frequency) {
+    case RecurrenceFrequency.DAILY:
+      return formatDate(new Date(Date.UTC(year, month - 1, day + position)));
+    case RecurrenceFrequency.WEEKLY:
+      return formatDate(new Date(Date.UTC(year, month - 1, day + 7 * position)));
+    case RecurrenceFrequency.MONTHLY:
+      return clampedDate(year, month - 1 + position, day);
+    case RecurrenceFrequency.YEARLY:
+      return clampedDate(year + position, month - 1, day);
+  }
+}
+
+/** The date of the next occurrence, or null once the end date or the number of occurrences is reached. */
+export function nextOccurrence(schedule: Schedule): string | null {
+  if (schedule.occurrences !== null && schedule.completed >= schedule.occurrences) {
+    return null;
+  }
+  const date = occurrenceDate(schedule.anchorDate, schedule.frequency, schedule.position);
+  return schedule.endDate !== null && date > schedule.endDate ? null : date;
+}
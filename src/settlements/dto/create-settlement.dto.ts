@@ -0,0 +1,56 @@
+import {
+  IsDateString,
+  IsEnum,
+  IsISO4217CurrencyCode,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { PaymentMethod } from '../entities/settlement.entity';
+
+export class CreateSettlementDto {
+  @IsUUID()
+  paidBy: string;
+
+  @IsUUID()
+  paidTo: string;
+
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @IsPositive()
+  amount: number;
+
+  @IsISO4217CurrencyCode()
+  currency: string;
+
+  @IsEnum(PaymentMethod)
+  method: PaymentMethod;
+
+  @IsDateString()
+  date: string;
+
+  /** Units of the group currency one unit of `currency` is worth, instead of the rate on `date`. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 8 })
+  @IsPositive()
+  exchangeRate?: number;
+
+  /** The currency of the debt being paid back, when it is paid in another one. */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  settlesCurrency?: string;
+
+  /** How much of the debt in `settlesCurrency` is cleared, at the rate the members agreed on. */
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: MAX_DECIMAL_DIGITS })
+  @IsPositive()
+  settlesAmount?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  notes?: string;
+}
@@ -0,0 +1,11 @@
+import { IsIn, IsOptional } from 'class-validator';
+
+export const SETTLEMENT_FILTERS = ['all', 'you-paid', 'you-received'] as const;
+
+export type SettlementFilter = (typeof SETTLEMENT_FILTERS)[number];
+
+export class ListSettlementsQueryDto {
+  @IsOptional()
+  @IsIn(SETTLEMENT_FILTERS)
+  filter?: SettlementFilter;
+}
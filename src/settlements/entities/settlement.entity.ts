@@ -0,0 +1,88 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { MAX_DECIMAL_DIGITS } from '../../common/money';
+import { decimalTransformer } from '../../common/transformers/decimal.transformer';
+import { Group } from '../../groups/entities/group.entity';
+
+export enum PaymentMethod {
+  CASH = 'cash',
+  VENMO = 'venmo',
+  PAYPAL = 'paypal',
+  BANK_TRANSFER = 'bank transfer',
+  OTHER = 'other',
+}
+
+@Entity('settlements')
+@Index(['groupId', 'date'])
+export class Settlement {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  @Column('uuid')
+  groupId: string;
+
+  @ManyToOne(() => Group, { onDelete: 'CASCADE' })
+  group: Group;
+
+  /** The member who sent the money. */
+  @Column('uuid')
+  paidBy: string;
+
+  /** The member who received the money. */
+  @Column('uuid')
+  paidTo: string;
+
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, transformer: decimalTransformer })
+  amount: number;
+
+  @Column({ length: 3 })
+  currency: string;
+
+  /** Units of `rateCurrency` one unit of `currency` bought on `date`; null when it is in the group currency. */
+  @Column({ type: 'numeric', precision: 18, scale: 8, nullable: true, transformer: decimalTransformer })
+  exchangeRate: number | null;
+
+  /** The group currency when the rate was locked. */
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  rateCurrency: string | null;
+
+  /** The rate was entered by hand rather than looked up for the date. */
+  @Column({ default: false })
+  manualRate: boolean;
+
+  /**
+   * The currency of the debt this payment clears when it differs from
+   * `currency`, e.g. euros paid back in pounds at a rate the two agreed on.
+   */
+  @Column({ type: 'varchar', length: 3, nullable: true })
+  settlesCurrency: string | null;
+
+  /** How much of the debt in `settlesCurrency` the payment clears. */
+  @Column({ type: 'numeric', precision: 14, scale: MAX_DECIMAL_DIGITS, nullable: true, transformer: decimalTransformer })
+  settlesAmount: number | null;
+
+  @Column({ type: 'enum', enum: PaymentMethod, default: PaymentMethod.CASH })
+  method: PaymentMethod;
+
+  @Column({ type: 'date' })
+  date: string;
+
+  @Column({ type: 'text', nullable: true })
+  notes: string | null;
+
+  @Column('uuid')
+  createdBy: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
@@ -0,0 +1,63 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+import { ListSettlementsQueryDto } from './dto/list-settlements-query.dto';
+import { SettlementsService } from './settlements.service';
+
+@Controller()
+export class SettlementsController {
+  constructor(private readonly settlementsService: SettlementsService) {}
+
+  @Get('settlements')
+  findMine(@CurrentUser() user: AuthenticatedUser, @Query() query: ListSettlementsQueryDto) {
+    return this.settlementsService.findAllForUser(user.id, query.filter);
+  }
+
+  @Post('groups/:groupId/settlements')
+  create(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Body() dto: CreateSettlementDto,
+  ) {
+    return this.settlementsService.create(groupId, user.id, dto);
+  }
+
+  @Get('groups/:groupId/settlements')
+  findAll(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Query() query: ListSettlementsQueryDto,
+  ) {
+    return this.settlementsService.findAllForGroup(groupId, user.id, query.filter);
+  }
+
+  @Get('groups/:groupId/settlements/:id')
+  findOne(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.settlementsService.findOne(groupId, id, user.id);
+  }
+
+  @Delete('groups/:groupId/settlements/:id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  remove(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('groupId', ParseUUIDPipe) groupId: string,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.settlementsService.remove(groupId, id, user.id);
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { ExchangeRatesModule } from '../exchange-rates/exchange-rates.module';
+import { GroupsModule } from '../groups/groups.module';
+import { Settlement } from './entities/settlement.entity';
+import { SettlementsController } from './settlements.controller';
+import { SettlementsService } from './settlements.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([Settlement]), GroupsModule, ExchangeRatesModule],
+  controllers: [SettlementsController],
+  providers: [SettlementsService],
+  exports: [SettlementsService],
+})
+export class SettlementsModule {}
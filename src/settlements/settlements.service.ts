@@ -0,0 +1,120 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, FindOptionsWhere, In, Repository } from 'typeorm';
+import { validateAmounts } from '../common/money';
+import { ExchangeRatesService } from '../exchange-rates/exchange-rates.service';
+import { CONTRIBUTOR_ROLES } from '../groups/entities/group-member.entity';
+import { GroupsService } from '../groups/groups.service';
+import { CreateSettlementDto } from './dto/create-settlement.dto';
+import { SettlementFilter } from './dto/list-settlements-query.dto';
+import { Settlement } from './entities/settlement.entity';
+
+@Injectable()
+export class SettlementsService {
+  constructor(
+    @InjectRepository(Settlement)
+    private readonly settlements: Repository<Settlement>,
+    private readonly groupsService: GroupsService,
+    private readonly exchangeRates: ExchangeRatesService,
+  ) {}
+
+  async create(groupId: string, userId: string, dto: CreateSettlementDto): Promise<Settlement> {
+    const group = await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+
+    if (dto.paidBy === dto.paidTo) {
+      throw new BadRequestException('A member cannot settle up with themselves');
+    }
+    const memberIds = await this.groupsService.getMemberIds(groupId);
+    if (!memberIds.includes(dto.paidBy) || !memberIds.includes(dto.paidTo)) {
+      throw new BadRequestException('Settlements can only be recorded between members of the group');
+    }
+    if ((dto.settlesCurrency === undefined) !== (dto.settlesAmount === undefined)) {
+      throw new BadRequestException('settlesCurrency and settlesAmount must be given together');
+    }
+    const amountError =
+      validateAmounts(dto.currency, [dto.amount]) ??
+      (dto.settlesCurrency ? validateAmounts(dto.settlesCurrency, [dto.settlesAmount ?? 0]) : null);
+    if (amountError) {
+      throw new BadRequestException(amountError);
+    }
+    // Paying a debt in its own currency clears exactly the amount paid
+    const settles = dto.settlesCurrency !== undefined && dto.settlesCurrency !== dto.currency;
+
+    const settlement = this.settlements.create({
+      groupId,
+      paidBy: dto.paidBy,
+      paidTo: dto.paidTo,
+      amount: dto.amount,
+      currency: dto.currency,
+      method: dto.method,
+      date: dto.date,
+      settlesCurrency: settles ? dto.settlesCurrency : null,
+      settlesAmount: settles ? dto.settlesAmount : null,
+      notes: dto.notes ?? null,
+      createdBy: userId,
+      ...(await this.exchangeRates.lock(dto.currency, group.currency, dto.date, dto.exchangeRate)),
+    });
+    return this.settlements.save(settlement);
+  }
+
+  async findAllForGroup(groupId: string, userId: string, filter: SettlementFilter = 'all'): Promise<Settlement[]> {
+    await this.groupsService.assertMember(groupId, userId);
+    return this.settlements.find({
+      where: this.filterWhere(userId, filter, { groupId }),
+      order: { date: 'DESC', createdAt: 'DESC' },
+    });
+  }
+
+  /** Settlements across all groups that the user sent or received. */
+  async findAllForUser(userId: string, filter: SettlementFilter = 'all'): Promise<Settlement[]> {
+    return this.settlements.find({
+      where: this.filterWhere(userId, filter),
+      order: { date: 'DESC', createdAt: 'DESC' },
+    });
+  }
+
+  async findOne(groupId: string, id: string, userId: string): Promise<Settlement> {
+    await this.groupsService.assertMember(groupId, userId);
+    const settlement = await this.settlements.findOne({ where: { id, groupId } });
+    if (!settlement) {
+      throw new NotFoundException(`Settlement ${id} not found`);
+    }
+    return settlement;
+  }
+
+  /** Settlements for the given groups, without a membership check. Used for balance calculations. */
+  async findByGroupIds(groupIds: string[], manager: EntityManager = this.settlements.manager): Promise<Settlement[]> {
+    if (groupIds.length === 0) {
+      return [];
+    }
+    return manager.find(Settlement, { where: { groupId: In(groupIds) } });
+  }
+
+  async remove(groupId: string, id: string, userId: string): Promise<void> {
+    await this.groupsService.findActive(groupId, userId, CONTRIBUTOR_ROLES);
+    const settlement = await this.findOne(groupId, id, userId);
+    await this.settlements.remove(settlement);
+  }
+
+  private filterWhere(
+    userId: string,
+    filter: SettlementFilter,
+    base: FindOptionsWhere<Settlement> = {},
+  ): FindOptionsWhere<Settlement> | FindOptionsWhere<Settlement>[] {
+    if (filter === 'you-paid') {
+      return { ...base, paidBy: userId };
+    }
+    if (filter === 'you-received') {
+      return { ...base, paidTo: userId };
+    }
+    // Within a group every settlement is visible; across groups only the
+    // user's own payments are listed.
+    if (base.groupId) {
+      return base;
+    }
+    return [
+      { ...base, paidBy: userId },
+      { ...base, paidTo: userId },
+    ];
+  }
+}
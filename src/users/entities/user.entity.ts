@@ -0,0 +1,33 @@
+import { Column, CreateDateColumn, Entity, PrimaryGeneratedColumn, UpdateDateColumn } from 'typeorm';
+
+@Entity('users')
+export class User {
+  @PrimaryGeneratedColumn('uuid')
+  id: string;
+
+  /** Null for guests. */
+  @Column({ type: 'varchar', length: 254, unique: true, nullable: true })
+  email: string | null;
+
+  @Column({ type: 'varchar', select: false, nullable: true })
+  passwordHash: string | null;
+
+  @Column({ length: 100 })
+  firstName: string;
+
+  @Column({ length: 100 })
+  lastName: string;
+
+  /**
+   * A placeholder for someone in a group who has no account. Guests cannot
+   * sign in and belong to exactly one group until a real user claims them.
+   */
+  @Column({ default: false })
+  isGuest: boolean;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt: Date;
+}
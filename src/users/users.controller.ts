@@ -0,0 +1,46 @@
+import { Body, Controller, Delete, Get, HttpCode, HttpStatus, Patch, Put } from '@nestjs/common';
+import { AuthService } from '../auth/auth.service';
+import { AuthenticatedUser, CurrentUser } from '../common/decorators/current-user.decorator';
+import { ChangeEmailDto } from './dto/change-email.dto';
+import { ChangePasswordDto } from './dto/change-password.dto';
+import { DeleteAccountDto } from './dto/delete-account.dto';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { UsersService } from './users.service';
+
+@Controller('users/me')
+export class UsersController {
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly authService: AuthService,
+  ) {}
+
+  @Get()
+  findMe(@CurrentUser() user: AuthenticatedUser) {
+    return this.usersService.findById(user.id);
+  }
+
+  @Patch()
+  updateProfile(@CurrentUser() user: AuthenticatedUser, @Body() dto: UpdateProfileDto) {
+    return this.usersService.updateProfile(user.id, dto);
+  }
+
+  @Put('email')
+  changeEmail(@CurrentUser() user: AuthenticatedUser, @Body() dto: ChangeEmailDto) {
+    return this.usersService.changeEmail(user.id, dto.email, dto.password);
+  }
+
+  /** Signs out every other session and hands back tokens for this one. */
+  @Put('password')
+  async changePassword(@CurrentUser() user: AuthenticatedUser, @Body() dto: ChangePasswordDto) {
+    await this.usersService.changePassword(user.id, dto.currentPassword, dto.newPassword);
+    await this.authService.revokeAllSessions(user.id);
+    return this.authService.createSession(await this.usersService.findById(user.id));
+  }
+
+  @Delete()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(@CurrentUser() user: AuthenticatedUser, @Body() dto: DeleteAccountDto) {
+    await this.usersService.remove(user.id, dto.password);
+    await this.authService.revokeAllSessions(user.id);
+  }
+}
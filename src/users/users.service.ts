@@ -0,0 +1,127 @@
+import { ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { hashPassword, verifyPassword } from '../auth/password-hasher';
+import { BalancesService } from '../balances/balances.service';
+import { AppError } from '../common/errors/app-error';
+import { ErrorCode } from '../common/errors/error-code.enum';
+import { GroupsService } from '../groups/groups.service';
+import { UpdateProfileDto } from './dto/update-profile.dto';
+import { User } from './entities/user.entity';
+
+export interface CreateUserData {
+  email: string;
+  passwordHash: string;
+  firstName: string;
+  lastName: string;
+}
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+@Injectable()
+export class UsersService {
+  constructor(
+    @InjectRepository(User)
+    private readonly users: Repository<User>,
+    private readonly groupsService: GroupsService,
+    private readonly balancesService: BalancesService,
+  ) {}
+
+  async create(data: CreateUserData): Promise<User> {
+    const email = normalizeEmail(data.email);
+    await this.assertEmailAvailable(email);
+    const user = await this.users.save(this.users.create({ ...data, email }));
+    return this.findById(user.id);
+  }
+
+  async findById(id: string): Promise<User> {
+    const user = await this.users.findOne({ where: { id } });
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  async updateProfile(id: string, dto: UpdateProfileDto): Promise<User> {
+    await this.users.update(id, dto);
+    return this.findById(id);
+  }
+
+  async changeEmail(id: string, email: string, password: string): Promise<User> {
+    await this.assertPassword(id, password, 'password');
+    const normalized = normalizeEmail(email);
+    await this.assertEmailAvailable(normalized, id);
+    await this.users.update(id, { email: normalized });
+    return this.findById(id);
+  }
+
+  async changePassword(id: string, currentPassword: string, newPassword: string): Promise<void> {
+    await this.assertPassword(id, currentPassword, 'currentPassword');
+    await this.updatePassword(id, await hashPassword(newPassword));
+  }
+
+  async updatePassword(id: string, passwordHash: string): Promise<void> {
+    await this.users.update(id, { passwordHash });
+  }
+
+  /**
+   * Deletes the account once the user is settled up everywhere, checking and
+   * deleting in one transaction. Expenses and settlements they took part in
+   * stay in their groups' history.
+   */
+  async remove(id: string, password: string): Promise<void> {
+    await this.assertPassword(id, password, 'password');
+
+    await this.users.manager.transaction(async (manager) => {
+      // Nothing can be added to the user's groups between the check and the delete
+      await this.groupsService.lockGroupsOf(id, manager);
+
+      // Debts with the same person in different groups can cancel out in the
+      // overview, yet each stays open in its own group
+      const balances = await this.balancesService.getOpenBalances(id, manager);
+      if (balances.length > 0) {
+        throw new AppError(
+          'Settle up in all your groups before deleting your account',
+          409,
+          ErrorCode.CONFLICT_ERROR,
+          { balances },
+        );
+      }
+
+      await this.groupsService.removeUserFromAllGroups(id, manager);
+      await manager.delete(User, id);
+    });
+  }
+
+  /** Looks up a user including the password hash, for credential checks. */
+  async findByEmailWithPassword(email: string): Promise<User | null> {
+    return this.users
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.email = :email', { email: normalizeEmail(email) })
+      .getOne();
+  }
+
+  private async assertEmailAvailable(email: string, exceptUserId?: string): Promise<void> {
+    const existing = await this.users.findOne({ where: { email } });
+    if (existing && existing.id !== exceptUserId) {
+      throw new ConflictException('An account with this email already exists');
+    }
+  }
+
+  private async assertPassword(id: string, password: string, field: string): Promise<void> {
+    const user = await this.users
+      .createQueryBuilder('user')
+      .addSelect('user.passwordHash')
+      .where('user.id = :id', { id })
+      .getOne();
+    if (!user) {
+      throw new NotFoundException(`User ${id} not found`);
+    }
+    if (!user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+      throw new AppError('Password is incorrect', 400, ErrorCode.VALIDATION_ERROR, {
+        fields: { [field]: ['Password is incorrect'] },
+      });
+    }
+  }
+}
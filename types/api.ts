@@ -0,0 +1,293 @@
+// Response shapes of the backend API. User, Group and Expense follow the
+// entities in src/design.ts; dates arrive as ISO strings over JSON.
+
+export interface User {
+  id: string
+  // Null for guests, who are group members without an account
+  email: string | null
+  firstName: string
+  lastName: string
+  isGuest: boolean
+  createdAt: string
+  updatedAt: string
+}
+
+export type GroupRole = "owner" | "admin" | "member" | "viewer"
+
+export interface GroupMember {
+  id: string
+  groupId: string
+  userId: string
+  user: User
+  role: GroupRole
+  joinedAt: string
+}
+
+export interface Group {
+  id: string
+  name: string
+  description: string
+  currency: string
+  createdBy: string
+  simplifyDebts: boolean
+  members: GroupMember[]
+  archivedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+export type SplitType = "equal" | "percent" | "exact" | "shares" | "itemized"
+
+// Built-in categories have a slug such as "food" for id and no groupId; icon is a lucide icon name
+export interface Category {
+  id: string
+  groupId: string | null
+  name: string
+  icon: string
+  // Hex colour such as "#f97316"
+  color: string
+}
+
+export interface ExpenseShare {
+  id: string
+  expenseId: string
+  userId: string
+  amount: number
+  percentage: number | null
+  weight: number | null
+}
+
+// What one member put towards an expense
+export interface ExpensePayer {
+  id: string
+  expenseId: string
+  userId: string
+  amount: number
+}
+
+// One line of an itemized receipt; price is per unit
+export interface ExpenseLineItem {
+  id: string
+  expenseId: string
+  position: number
+  name: string
+  price: number
+  quantity: number
+  assignedTo: string[]
+}
+
+export interface Expense {
+  id: string
+  groupId: string
+  // Whoever paid the largest part; payers lists everyone who paid
+  paidBy: string
+  payers: ExpensePayer[]
+  amount: number
+  currency: string
+  description: string
+  // Calendar date, YYYY-MM-DD
+  date: string
+  // Units of rateCurrency one unit of currency bought on date, locked when it was saved;
+  // null when it is in the group currency
+  exchangeRate: number | null
+  rateCurrency: string | null
+  // The rate was entered by hand instead of looked up
+  manualRate: boolean
+  splitType: SplitType
+  notes: string | null
+  // A built-in category slug such as "food", or the id of one of the group's own categories
+  category: string | null
+  shares: ExpenseShare[]
+  // Itemized expenses only; tax and tip are null otherwise
+  items: ExpenseLineItem[]
+  tax: number | null
+  taxPercentage: number | null
+  tip: number | null
+  tipPercentage: number | null
+  // Set on expenses created by a recurring expense
+  recurringExpenseId: string | null
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type RecurrenceFrequency = "daily" | "weekly" | "monthly" | "yearly"
+
+// A template the server turns into an expense on every occurrence
+export interface RecurringExpense {
+  id: string
+  groupId: string
+  description: string
+  amount: number
+  currency: string
+  splitType: SplitType
+  payers: { userId: string; amount: number }[]
+  // Empty for an equal split between everyone in the group at the time
+  splits: { userId: string; percentage: number | null; amount: number | null; weight: number | null }[]
+  notes: string | null
+  category: string | null
+  frequency: RecurrenceFrequency
+  // Calendar dates, YYYY-MM-DD; nextDate is null once the schedule has ended
+  anchorDate: string
+  nextDate: string | null
+  endDate: string | null
+  // The total number of occurrences, and how many have been created or skipped
+  occurrences: number | null
+  completed: number
+  paused: boolean
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+}
+
+// The rate an expense on date would be locked at, and how the server found it
+export interface ExchangeRateQuote {
+  from: string
+  to: string
+  date: string
+  rate: number
+  // The currency the rate was triangulated through, null for a direct rate
+  via: string | null
+  // A rate quoted the other way round was inverted
+  inverted: boolean
+  // When the oldest rate used was fetched, ISO 8601; null between a currency and itself
+  fetchedAt: string | null
+}
+
+export type PaymentMethod = "cash" | "venmo" | "paypal" | "bank transfer" | "other"
+
+export interface Settlement {
+  id: string
+  groupId: string
+  paidBy: string
+  paidTo: string
+  amount: number
+  currency: string
+  method: PaymentMethod
+  date: string
+  // Units of rateCurrency one unit of currency bought on date, locked when it was saved;
+  // null when it is in the group currency
+  exchangeRate: number | null
+  rateCurrency: string | null
+  // The rate was entered by hand instead of looked up
+  manualRate: boolean
+  // The currency of the debt paid back, and how much of it, when paid in another currency
+  settlesCurrency: string | null
+  settlesAmount: number | null
+  notes: string | null
+  createdBy: string
+  createdAt: string
+}
+
+// Positive amounts mean the member is owed money (or owes the current user,
+// when relative to them)
+export interface MemberBalance {
+  id: string
+  amount: number
+  currency: string
+}
+
+export interface CounterpartBalance extends MemberBalance {
+  groups: { groupId: string; amount: number }[]
+}
+
+export interface Transfer {
+  from: string
+  to: string
+  amount: number
+  currency: string
+}
+
+export interface CurrencyBalances {
+  members: MemberBalance[]
+  balances: MemberBalance[]
+  transfers: Transfer[]
+}
+
+// Balances consolidated into the group currency at the rates locked on each date,
+// with byCurrency keeping every currency apart
+export interface GroupBalances extends CurrencyBalances {
+  groupId: string
+  currency: string
+  simplifyDebts: boolean
+  byCurrency: CurrencyBalances
+}
+
+export interface UserBalances {
+  balances: CounterpartBalance[]
+  totals: { currency: string; amount: number }[]
+}
+
+export type InvitationStatus = "pending" | "accepted" | "declined" | "revoked"
+
+export interface GroupInvitation {
+  id: string
+  groupId: string
+  email: string
+  message: string | null
+  invitedBy: string
+  guestId: string | null
+  status: InvitationStatus
+  expiresAt: string
+  respondedAt: string | null
+  createdAt: string
+  updatedAt: string
+}
+
+// The join link is only returned when it is minted, never on later reads
+export interface IssuedInvitation {
+  invitation: GroupInvitation
+  link: string
+  qrCode: string
+}
+
+export interface InvitationPreview {
+  groupName: string
+  invitedBy: string
+  email: string
+  message: string | null
+  guestName: string | null
+  expiresAt: string
+}
+
+// Context the server adds to an error: validation messages keyed by field, how long to wait
+// after being rate limited, or other data such as the balances that block a request
+export interface ApiErrorDetails {
+  fields?: Record<string, string[]>
+  retryAfterSeconds?: number
+  [key: string]: unknown
+}
+
+export interface ErrorResponse {
+  error: {
+    code: string
+    message: string
+    details?: ApiErrorDetails
+    retryable: boolean
+  }
+}
+
+// Amounts are in the requested currency: total is what the expenses came to for
+// everyone, yourShare the current user's part of it
+export interface SpendingTotals {
+  total: number
+  yourShare: number
+}
+
+export interface MonthlySpending extends SpendingTotals {
+  // YYYY-MM
+  month: string
+}
+
+export interface SpendingAnalytics extends SpendingTotals {
+  currency: string
+  // Every month from the first expense to the last, empty months included
+  byMonth: MonthlySpending[]
+  // category is null for expenses without one
+  byCategory: (SpendingTotals & { category: string | null })[]
+  byGroup: (SpendingTotals & { groupId: string; name: string })[]
+  members: { userId: string; paid: number; share: number }[]
+  monthOverMonth: { current: MonthlySpending; previous: MonthlySpending }
+  // Expenses left out because their currency has no rate, in that currency
+  unconverted: { currency: string; amount: number; count: number }[]
+}
@@ -1,3 +1,5 @@
+import type { ExchangeRateQuote } from "./api"
+
 export interface Currency {
   code: string
   name: string
@@ -16,6 +18,8 @@ export interface CurrencyPreference {
   defaultCurrency: string
   showOriginalCurrency: boolean
   showConvertedValues: boolean
+  // A BCP 47 tag such as "de-DE" for formatting amounts; the browser's language when unset
+  locale?: string
 }
 
 export type CurrencyAmount = {
@@ -23,89 +27,182 @@ export type CurrencyAmount = {
   currency: string
 }
 
-// Helper function to format currency amounts
-export function formatCurrency(amount: number, currencyCode: string, currencies: Record<string, Currency>): string {
-  const currency = currencies[currencyCode]
-  if (!currency) return `${amount.toFixed(2)} ${currencyCode}`
-
-  return new Intl.NumberFormat("en-US", {
-    style: "currency",
-    currency: currencyCode,
-    minimumFractionDigits: currency.decimalDigits,
-    maximumFractionDigits: currency.decimalDigits,
-  }).format(amount)
+// An amount converted at a quoted rate, with the path the rate took
+export interface Conversion {
+  amount: number
+  quote: ExchangeRateQuote
 }
 
-// Common currencies data
-export const commonCurrencies: Record<string, Currency> = {
-  USD: {
-    code: "USD",
-    name: "us dollar",
-    symbol: "$",
-    flag: "🇺🇸",
-    decimalDigits: 2,
-  },
-  EUR: {
-    code: "EUR",
-    name: "euro",
-    symbol: "€",
-    flag: "🇪🇺",
-    decimalDigits: 2,
-  },
-  GBP: {
-    code: "GBP",
-    name: "british pound",
-    symbol: "£",
-    flag: "🇬🇧",
-    decimalDigits: 2,
-  },
-  JPY: {
-    code: "JPY",
-    name: "japanese yen",
-    symbol: "¥",
-    flag: "🇯🇵",
-    decimalDigits: 0,
-  },
-  CAD: {
-    code: "CAD",
-    name: "canadian dollar",
-    symbol: "C$",
-    flag: "🇨🇦",
-    decimalDigits: 2,
-  },
-  AUD: {
-    code: "AUD",
-    name: "australian dollar",
-    symbol: "A$",
-    flag: "🇦🇺",
-    decimalDigits: 2,
-  },
-  CNY: {
-    code: "CNY",
-    name: "chinese yuan",
-    symbol: "¥",
-    flag: "🇨🇳",
-    decimalDigits: 2,
-  },
-  INR: {
-    code: "INR",
-    name: "indian rupee",
-    symbol: "₹",
-    flag: "🇮🇳",
-    decimalDigits: 2,
-  },
-  MXN: {
-    code: "MXN",
-    name: "mexican peso",
-    symbol: "$",
-    flag: "🇲🇽",
-    decimalDigits: 2,
-  },
-  BRL: {
-    code: "BRL",
-    name: "brazilian real",
-    symbol: "R$",
-    flag: "🇧🇷",
-    decimalDigits: 2,
-  },
-}
+// A flag emoji from a two-letter region code, e.g. "JP" to 🇯🇵
+const regionFlag = (region: string) =>
+  String.fromCodePoint(...[...region].map((letter) => 0x1f1e6 + letter.charCodeAt(0) - 65))
+
+// Every circulating ISO 4217 currency as [code, name, symbol, minor unit digits, flag region].
+// The region defaults to the code's first two letters; null marks a currency shared by
+// several countries with no flag of its own. Fund codes, metals and test codes are left out
+const ISO_4217: [string, string, string, number, (string | null)?][] = [
+  ["AED", "uae dirham", "د.إ", 2],
+  ["AFN", "afghan afghani", "؋", 2],
+  ["ALL", "albanian lek", "L", 2],
+  ["AMD", "armenian dram", "֏", 2],
+  ["ANG", "netherlands antillean guilder", "ƒ", 2, "CW"],
+  ["AOA", "angolan kwanza", "Kz", 2],
+  ["ARS", "argentine peso", "$", 2],
+  ["AUD", "australian dollar", "A$", 2],
+  ["AWG", "aruban florin", "ƒ", 2],
+  ["AZN", "azerbaijani manat", "₼", 2],
+  ["BAM", "bosnia-herzegovina convertible mark", "KM", 2],
+  ["BBD", "barbadian dollar", "$", 2],
+  ["BDT", "bangladeshi taka", "৳", 2],
+  ["BGN", "bulgarian lev", "лв", 2],
+  ["BHD", "bahraini dinar", ".د.ب", 3],
+  ["BIF", "burundian franc", "FBu", 0],
+  ["BMD", "bermudan dollar", "$", 2],
+  ["BND", "brunei dollar", "$", 2],
+  ["BOB", "bolivian boliviano", "Bs", 2],
+  ["BRL", "brazilian real", "R$", 2],
+  ["BSD", "bahamian dollar", "$", 2],
+  ["BTN", "bhutanese ngultrum", "Nu.", 2],
+  ["BWP", "botswanan pula", "P", 2],
+  ["BYN", "belarusian ruble", "Br", 2],
+  ["BZD", "belize dollar", "$", 2],
+  ["CAD", "canadian dollar", "C$", 2],
+  ["CDF", "congolese franc", "FC", 2],
+  ["CHF", "swiss franc", "CHF", 2],
+  ["CLP", "chilean peso", "$", 0],
+  ["CNY", "chinese yuan", "¥", 2],
+  ["COP", "colombian peso", "$", 2],
+  ["CRC", "costa rican colón", "₡", 2],
+  ["CUP", "cuban peso", "$", 2],
+  ["CVE", "cape verdean escudo", "$", 2],
+  ["CZK", "czech koruna", "Kč", 2],
+  ["DJF", "djiboutian franc", "Fdj", 0],
+  ["DKK", "danish krone", "kr", 2],
+  ["DOP", "dominican peso", "$", 2],
+  ["DZD", "algerian dinar", "دج", 2],
+  ["EGP", "egyptian pound", "E£", 2],
+  ["ERN", "eritrean nakfa", "Nfk", 2],
+  ["ETB", "ethiopian birr", "Br", 2],
+  ["EUR", "euro", "€", 2, "EU"],
+  ["FJD", "fijian dollar", "$", 2],
+  ["FKP", "falkland islands pound", "£", 2],
+  ["GBP", "british pound", "£", 2],
+  ["GEL", "georgian lari", "₾", 2],
+  ["GHS", "ghanaian cedi", "GH₵", 2],
+  ["GIP", "gibraltar pound", "£", 2],
+  ["GMD", "gambian dalasi", "D", 2],
+  ["GNF", "guinean franc", "FG", 0],
+  ["GTQ", "guatemalan quetzal", "Q", 2],
+  ["GYD", "guyanese dollar", "$", 2],
+  ["HKD", "hong kong dollar", "HK$", 2],
+  ["HNL", "honduran lempira", "L", 2],
+  ["HTG", "haitian gourde", "G", 2],
+  ["HUF", "hungarian forint", "Ft", 2],
+  ["IDR", "indonesian rupiah", "Rp", 2],
+  ["ILS", "israeli new shekel", "₪", 2],
+  ["INR", "indian rupee", "₹", 2],
+  ["IQD", "iraqi dinar", "ع.د", 3],
+  ["IRR", "iranian rial", "﷼", 2],
+  ["ISK", "icelandic króna", "kr", 0],
+  ["JMD", "jamaican dollar", "$", 2],
+  ["JOD", "jordanian dinar", "د.ا", 3],
+  ["JPY", "japanese yen", "¥", 0],
+  ["KES", "kenyan shilling", "KSh", 2],
+  ["KGS", "kyrgystani som", "с", 2],
+  ["KHR", "cambodian riel", "៛", 2],
+  ["KMF", "comorian franc", "CF", 0],
+  ["KPW", "north korean won", "₩", 2],
+  ["KRW", "south korean won", "₩", 0],
+  ["KWD", "kuwaiti dinar", "د.ك", 3],
+  ["KYD", "cayman islands dollar", "$", 2],
+  ["KZT", "kazakhstani tenge", "₸", 2],
+  ["LAK", "laotian kip", "₭", 2],
+  ["LBP", "lebanese pound", "ل.ل", 2],
+  ["LKR", "sri lankan rupee", "Rs", 2],
+  ["LRD", "liberian dollar", "$", 2],
+  ["LSL", "lesotho loti", "L", 2],
+  ["LYD", "libyan dinar", "ل.د", 3],
+  ["MAD", "moroccan dirham", "د.م.", 2],
+  ["MDL", "moldovan leu", "L", 2],
+  ["MGA", "malagasy ariary", "Ar", 2],
+  ["MKD", "macedonian denar", "ден", 2],
+  ["MMK", "myanmar kyat", "K", 2],
+  ["MNT", "mongolian tugrik", "₮", 2],
+  ["MOP", "macanese pataca", "MOP$", 2],
+  ["MRU", "mauritanian ouguiya", "UM", 2],
+  ["MUR", "mauritian rupee", "₨", 2],
+  ["MVR", "maldivian rufiyaa", "Rf", 2],
+  ["MWK", "malawian kwacha", "MK", 2],
+  ["MXN", "mexican peso", "$", 2],
+  ["MYR", "malaysian ringgit", "RM", 2],
+  ["MZN", "mozambican metical", "MT", 2],
+  ["NAD", "namibian dollar", "$", 2],
+  ["NGN", "nigerian naira", "₦", 2],
+  ["NIO", "nicaraguan córdoba", "C$", 2],
+  ["NOK", "norwegian krone", "kr", 2],
+  ["NPR", "nepalese rupee", "₨", 2],
+  ["NZD", "new zealand dollar", "NZ$", 2],
+  ["OMR", "omani rial", "ر.ع.", 3],
+  ["PAB", "panamanian balboa", "B/.", 2],
+  ["PEN", "peruvian sol", "S/", 2],
+  ["PGK", "papua new guinean kina", "K", 2],
+  ["PHP", "philippine peso", "₱", 2],
+  ["PKR", "pakistani rupee", "₨", 2],
+  ["PLN", "polish złoty", "zł", 2],
+  ["PYG", "paraguayan guarani", "₲", 0],
+  ["QAR", "qatari riyal", "ر.ق", 2],
+  ["RON", "romanian leu", "lei", 2],
+  ["RSD", "serbian dinar", "дин.", 2],
+  ["RUB", "russian ruble", "₽", 2],
+  ["RWF", "rwandan franc", "RF", 0],
+  ["SAR", "saudi riyal", "ر.س", 2],
+  ["SBD", "solomon islands dollar", "$", 2],
+  ["SCR", "seychellois rupee", "₨", 2],
+  ["SDG", "sudanese pound", "ج.س.", 2],
+  ["SEK", "swedish krona", "kr", 2],
+  ["SGD", "singapore dollar", "S$", 2],
+  ["SHP", "st. helena pound", "£", 2],
+  ["SLE", "sierra leonean leone", "Le", 2],
+  ["SOS", "somali shilling", "Sh", 2],
+  ["SRD", "surinamese dollar", "$", 2],
+  ["SSP", "south sudanese pound", "£", 2],
+  ["STN", "são tomé and príncipe dobra", "Db", 2],
+  ["SVC", "salvadoran colón", "₡", 2],
+  ["SYP", "syrian pound", "£", 2],
+  ["SZL", "swazi lilangeni", "E", 2],
+  ["THB", "thai baht", "฿", 2],
+  ["TJS", "tajikistani somoni", "SM", 2],
+  ["TMT", "turkmenistani manat", "m", 2],
+  ["TND", "tunisian dinar", "د.ت", 3],
+  ["TOP", "tongan paʻanga", "T$", 2],
+  ["TRY", "turkish lira", "₺", 2],
+  ["TTD", "trinidad and tobago dollar", "$", 2],
+  ["TWD", "new taiwan dollar", "NT$", 2],
+  ["TZS", "tanzanian shilling", "TSh", 2],
+  ["UAH", "ukrainian hryvnia", "₴", 2],
+  ["UGX", "ugandan shilling", "USh", 0],
+  ["USD", "us dollar", "$", 2],
+  ["UYU", "uruguayan peso", "$", 2],
+  ["UZS", "uzbekistani som", "soʻm", 2],
+  ["VED", "venezuelan bolívar digital", "Bs.D", 2],
+  ["VES", "venezuelan bolívar soberano", "Bs.S", 2],
+  ["VND", "vietnamese dong", "₫", 0],
+  ["VUV", "vanuatu vatu", "VT", 0],
+  ["WST", "samoan tala", "WS$", 2],
+  ["XAF", "central african cfa franc", "FCFA", 0, null],
+  ["XCD", "east caribbean dollar", "EC$", 2, null],
+  ["XCG", "caribbean guilder", "Cg", 2, null],
+  ["XOF", "west african cfa franc", "F CFA", 0, null],
+  ["XPF", "cfp franc", "CFPF", 0, null],
+  ["YER", "yemeni rial", "﷼", 2],
+  ["ZAR", "south african rand", "R", 2],
+  ["ZMW", "zambian kwacha", "ZK", 2],
+  ["ZWG", "zimbabwe gold", "ZiG", 2],
+]
+
+export const isoCurrencies: Record<string, Currency> = Object.fromEntries(
+  ISO_4217.map(([code, name, symbol, decimalDigits, region = code.slice(0, 2)]) => [
+    code,
+    { code, name, symbol, decimalDigits, flag: region ? regionFlag(region) : undefined },
+  ]),
+)